@@ -1,15 +1,73 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   NetworkDevice, 
   DeviceType, 
   ContextMenuPosition, 
-  WanHop,
-  OptimizationResult
+  WanTrace,
+  OptimizationResult,
+  ScanTarget,
+  ScanSnapshot,
+  SnapshotDiff,
+  DeviceSample,
+  Alert,
+  AlertRule,
+  NetVisioProject,
+  NetworkZone,
+  InventoryRecord,
+  InventoryFieldDefinition,
+  CredentialProfile,
+  AnalysisFinding,
+  AnalysisReport
 } from './types';
 import TopologyMap from './components/TopologyMap';
 import ContextMenu from './components/ContextMenu';
-import { generateSampleNetwork, analyzeNetwork, traceWanPath, setSessionApiKey, optimizeNetworkTopology, setOfflineMode } from './services/geminiService';
-import { scanSubnet } from './services/scanService'; // Import nuovo servizio
+import ScanTargetEditor from './components/ScanTargetEditor';
+import ScanHistory from './components/ScanHistory';
+import DeviceHistoryChart from './components/DeviceHistoryChart';
+import AlertCenter from './components/AlertCenter';
+import ImportView from './components/ImportView';
+import ProjectExchange from './components/ProjectExchange';
+import MapExportMenu from './components/MapExportMenu';
+import ZoneManager from './components/ZoneManager';
+import OuiRegistryPanel from './components/OuiRegistryPanel';
+import FingerprintRulesPanel from './components/FingerprintRulesPanel';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import OptimizationReview from './components/OptimizationReview';
+import AnalysisReportView from './components/AnalysisReportView';
+import ChatAssistant from './components/ChatAssistant';
+import MarkdownViewer from './components/MarkdownViewer';
+import DeviceTable from './components/DeviceTable';
+import DevicePropertiesEditor from './components/DevicePropertiesEditor';
+import DeviceInventoryEditor from './components/DeviceInventoryEditor';
+import DeviceDetailPanel from './components/DeviceDetailPanel';
+import DiagnosticsConsole from './components/DiagnosticsConsole';
+import WanTraceView from './components/WanTraceView';
+import { generateSampleNetwork, analyzeNetwork, setSessionApiKey, optimizeNetworkTopology, setOfflineMode } from './services/aiService';
+import { validateOptimizedTopology } from './services/aiValidation';
+import { analyzeNetworkLocally } from './services/networkAnalyzer';
+import { scanSubnet, inferTopology } from './services/scanService'; // Import nuovo servizio
+import { splitTargetList, formatScanTarget, countTargetHosts } from './services/scanTargets';
+import { createPauseGate, PauseGate } from './services/scanScheduler';
+import { ScanSession, saveScanSession, loadScanSession, clearScanSession } from './services/scanSession';
+import { saveSnapshot, buildDiffOverlay } from './services/historyService';
+import { startMonitor, statusFromSample, getDeviceSamples, buildUptimeReportCsv } from './services/monitorService';
+import { getDeviceIdentity, getInventoryIdentity } from './services/deviceIdentity';
+import { downloadTextFile, slugifyFileName } from './services/download';
+import { loadAlertRules, saveAlertRules, loadAlerts, saveAlerts, evaluateAlertRules, loadKnownMacs, learnMacs } from './services/alertService';
+import { dispatchAlert, requestNotificationPermission, isBrowserNotificationSupported } from './services/notificationService';
+import { PROBE_CATALOG, DEFAULT_PROBE_IDS, getProbesByIds } from './services/probeService';
+import { mergeImportedDevices } from './services/importService';
+import { MapViewport } from './services/mapExport';
+import { LayoutMode } from './services/topologyLayout';
+import { loadZones, saveZones, resolveDeviceZone, collapseZones } from './services/networkZones';
+import { loadOuiRegistry, withResolvedVendor } from './services/ouiService';
+import { refreshFingerprint } from './services/fingerprintService';
+import { loadInventory, saveInventoryRecords, deleteInventoryRecord, loadInventoryFields, saveInventoryFields, applyInventory, reconcileInventory, isEmptyInventoryRecord, emptyInventoryRecord } from './services/inventoryService';
+import { ConnectionProtocol, CONNECTION_PROTOCOLS, launchConnection, loadCredentialProfiles, saveCredentialProfiles, loadCredentialAssignments, saveCredentialAssignments, getDeviceCredentialProfile } from './services/connectionService';
+import { DiagnosticRequest, DiagnosticSession, MAX_SESSION_LINES, createDiagnosticSession, runDiagnostic } from './services/diagnosticsService';
+import { loadWanTraces, saveWanTraces } from './services/wanTraceService';
+import { ExportFormat, EXPORT_FORMATS, exportDevices } from './services/projectFormats';
+import { EditHistory, EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, reparentDevice, updateDevice, addDevice, removeDevice, createManualDevice, extractDevices, applyTopologyChanges, TopologyChange } from './services/topologyEditing';
 import { 
   LayoutDashboard, 
   Network, 
@@ -17,14 +75,12 @@ import {
   Settings, 
   Globe, 
   Activity,
-  Server,
-  Smartphone,
-  Printer,
-  Laptop,
   AlertTriangle,
   Key,
   Upload,
   X,
+  MapPin,
+  MessageSquare,
   Terminal,
   ShieldAlert,
   CheckCircle2,
@@ -35,37 +91,24 @@ import {
   Save,
   LogOut,
   WifiOff,
-  Info,
   Code,
   Search,
-  Radar
+  Radar,
+  Pause,
+  Play,
+  Square,
+  History,
+  Download,
+  BellRing,
+  FolderOpen,
+  Plus,
+  Undo2,
+  Redo2,
+  Layers
 } from 'lucide-react';
 
-// --- Icons Helper ---
-const getDeviceIcon = (type: DeviceType) => {
-    switch (type) {
-        case DeviceType.ROUTER: return <Activity className="w-4 h-4 text-red-400" />;
-        case DeviceType.SWITCH: return <Network className="w-4 h-4 text-blue-400" />;
-        case DeviceType.SERVER: return <Server className="w-4 h-4 text-purple-400" />;
-        case DeviceType.PRINTER: return <Printer className="w-4 h-4 text-orange-400" />;
-        case DeviceType.MOBILE: return <Smartphone className="w-4 h-4 text-green-400" />;
-        default: return <Laptop className="w-4 h-4 text-green-400" />;
-    }
-};
-
-// --- Helpers Markdown ---
-const MarkdownViewer = ({ text }: { text: string }) => {
-    return (
-        <div className="prose prose-invert prose-sm max-w-none space-y-4">
-            {text.split('\n').map((line, i) => {
-                if (line.startsWith('###')) return <h3 key={i} className="text-lg font-bold text-indigo-300 mt-4">{line.replace('###', '')}</h3>
-                if (line.startsWith('**')) return <p key={i} className="font-bold text-slate-200">{line.replace(/\*\*/g, '')}</p>
-                if (line.startsWith('-')) return <li key={i} className="ml-4 text-slate-300">{line.replace('-', '')}</li>
-                return <p key={i} className="text-slate-300">{line}</p>
-            })}
-        </div>
-    )
-  }
+// Numero di campioni recenti tenuti in memoria per le sparkline
+const SPARKLINE_SAMPLES = 40;
 
 const App: React.FC = () => {
   // --- Auth & Persistence State ---
@@ -81,15 +124,70 @@ const App: React.FC = () => {
 
   // App State
   const [devices, setDevices] = useState<NetworkDevice[]>([]);
-  const [viewMode, setViewMode] = useState<'list' | 'map' | 'wan' | 'analysis' | 'optimize' | 'settings'>('map');
+  const [projectName, setProjectName] = useState(() => localStorage.getItem('netvisio_project_name') || '');
+  const [lastScanAt, setLastScanAt] = useState<number | null>(null);
+  const [zones, setZones] = useState<NetworkZone[]>(loadZones);
+  const [collapsedZones, setCollapsedZones] = useState<string[]>([]);
+  const [zoneFilter, setZoneFilter] = useState<string>('all'); // 'all', 'none' o id zona
+  const [inventory, setInventory] = useState<InventoryRecord[]>([]);
+  const [inventoryFields, setInventoryFields] = useState<InventoryFieldDefinition[]>(loadInventoryFields);
+  const [inventoryDevice, setInventoryDevice] = useState<NetworkDevice | null>(null);
+  const [detailDeviceId, setDetailDeviceId] = useState<string | null>(null);
+  const [credentialProfiles, setCredentialProfiles] = useState<CredentialProfile[]>(loadCredentialProfiles);
+  const [credentialAssignments, setCredentialAssignments] = useState<Record<string, string>>(loadCredentialAssignments);
+  const [mapLayout, setMapLayout] = useState<LayoutMode>(() => (localStorage.getItem('netvisio_map_layout') as LayoutMode) || 'hierarchical');
+  const mapViewportRef = useRef<MapViewport | null>(null);
+
+  // Editing State: undo/redo delle modifiche manuali alla topologia
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [editingDevice, setEditingDevice] = useState<{ device: NetworkDevice; isNew: boolean } | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'map' | 'history' | 'alerts' | 'import' | 'project' | 'zones' | 'diagnostics' | 'wan' | 'analysis' | 'assistant' | 'optimize' | 'settings'>('map');
   const [isLoading, setIsLoading] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [mapFocus, setMapFocus] = useState<{ title: string; deviceIds: string[] } | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
   // Scanning State
   const [isScanning, setIsScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState(0);
   const [foundCount, setFoundCount] = useState(0);
+  const [targetInclude, setTargetInclude] = useState('192.168.1.0/24');
+  const [targetExclude, setTargetExclude] = useState('');
+  const [recentTargets, setRecentTargets] = useState<ScanTarget[]>([]);
+  const [scanProbeIds, setScanProbeIds] = useState<string[]>(DEFAULT_PROBE_IDS);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pendingSession, setPendingSession] = useState<ScanSession | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const pauseGateRef = useRef<PauseGate | null>(null);
+
+  // History State: l'overlay mostra lo snapshot "dopo" con le differenze evidenziate
+  const [historyRefresh, setHistoryRefresh] = useState(0);
+  const [diffOverlay, setDiffOverlay] = useState<{ diff: SnapshotDiff; before: ScanSnapshot; after: ScanSnapshot } | null>(null);
+
+  // Monitoring State
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [monitorIntervalSec, setMonitorIntervalSec] = useState(60);
+  const [recentSamples, setRecentSamples] = useState<Record<string, DeviceSample[]>>({});
+  const [historyDevice, setHistoryDevice] = useState<NetworkDevice | null>(null);
+  const devicesRef = useRef<NetworkDevice[]>([]);
+  devicesRef.current = devices;
+  const recentSamplesRef = useRef(recentSamples);
+  recentSamplesRef.current = recentSamples;
+
+  // Alert State
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const alertRulesRef = useRef(alertRules);
+  alertRulesRef.current = alertRules;
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+  const knownMacsRef = useRef<Set<string>>(loadKnownMacs());
+  const webhookUrlRef = useRef(webhookUrl);
+  webhookUrlRef.current = webhookUrl;
 
   // Optimization State
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
@@ -99,16 +197,23 @@ const App: React.FC = () => {
   const [menuPos, setMenuPos] = useState<ContextMenuPosition | null>(null);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
 
+  // Diagnostics State: sessioni di ping/sweep, ognuna con il proprio abort
+  const [diagnosticSessions, setDiagnosticSessions] = useState<DiagnosticSession[]>([]);
+  const diagnosticControllersRef = useRef<Map<string, AbortController>>(new Map());
+
   // WAN Trace State
   const [wanTarget, setWanTarget] = useState('8.8.8.8');
-  const [wanHops, setWanHops] = useState<WanHop[]>([]);
-  const [isTracing, setIsTracing] = useState(false);
+  const [wanTraces, setWanTraces] = useState<WanTrace[]>(loadWanTraces);
 
   // --- Initialization ---
   useEffect(() => {
     const savedEmail = localStorage.getItem('netvisio_email');
     const savedPass = localStorage.getItem('netvisio_pass');
     const savedKey = localStorage.getItem('netvisio_api_key');
+    const savedTargets = localStorage.getItem('netvisio_scan_targets');
+    const savedProbes = localStorage.getItem('netvisio_scan_probes');
+    const savedInterval = localStorage.getItem('netvisio_monitor_interval');
+    const savedWebhook = localStorage.getItem('netvisio_webhook_url');
 
     if (savedEmail) setStoredEmail(savedEmail);
     if (savedPass) setStoredPass(savedPass);
@@ -116,8 +221,220 @@ const App: React.FC = () => {
         setStoredApiKey(savedKey);
         setSessionApiKey(savedKey);
     }
+    setPendingSession(loadScanSession());
+    if (savedWebhook) setWebhookUrl(savedWebhook);
+    loadAlerts().then(setAlerts).catch(e => console.warn("Allarmi non caricati", e));
+    loadOuiRegistry().then(handleOuiRegistryUpdated);
+    loadInventory().then(setInventory).catch(e => console.warn("Inventario non caricato", e));
+    if (savedInterval) setMonitorIntervalSec(Math.max(10, Number(savedInterval) || 60));
+    if (savedProbes) setScanProbeIds(savedProbes.split(',').filter(Boolean));
+    if (savedTargets) {
+        try {
+            const parsed: ScanTarget[] = JSON.parse(savedTargets);
+            setRecentTargets(parsed);
+            if (parsed[0]) {
+                setTargetInclude(parsed[0].include.join(', '));
+                setTargetExclude(parsed[0].exclude.join(', '));
+            }
+        } catch (e) {
+            console.warn("Target recenti non leggibili", e);
+        }
+    }
   }, []);
 
+  // --- Alert Rules ---
+  // Valuta le regole sui dati appena aggiornati (dopo una scansione o un ciclo di monitoraggio)
+  const evaluateAlerts = (currentDevices: NetworkDevice[], samples: Record<string, DeviceSample[]>) => {
+    const rules = alertRulesRef.current;
+    const { raised, resolved } = evaluateAlertRules(rules, alertsRef.current, {
+        devices: currentDevices,
+        samples,
+        knownMacs: knownMacsRef.current,
+        now: Date.now()
+    });
+    knownMacsRef.current = learnMacs(knownMacsRef.current, currentDevices);
+    if (raised.length === 0 && resolved.length === 0) return;
+
+    const resolvedById = new Map(resolved.map(a => [a.id, a]));
+    const next = [...raised, ...alertsRef.current.map(a => resolvedById.get(a.id) || a)];
+    alertsRef.current = next;
+    setAlerts(next);
+    saveAlerts([...raised, ...resolved]).catch(e => console.warn("Allarmi non salvati", e));
+    [...raised, ...resolved].forEach(a =>
+      dispatchAlert(a, rules.find(r => r.id === a.ruleId), webhookUrlRef.current).catch(e => console.warn("Allarme non inoltrato", e))
+    );
+  };
+
+  const updateAlert = (id: string, patch: Partial<Alert>) => {
+    const next = alerts.map(a => (a.id === id ? { ...a, ...patch } : a));
+    setAlerts(next);
+    const updated = next.find(a => a.id === id);
+    if (updated) saveAlerts([updated]).catch(e => console.warn("Allarme non salvato", e));
+  };
+
+  const handleRulesChange = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
+
+  // Con un registro OUI diverso i produttori non ancora noti possono essere risolti (e la lista si aggiorna)
+  const handleOuiRegistryUpdated = () => setDevices(ds => ds.map(d => refreshFingerprint(withResolvedVendor(d))));
+
+  // Regole di riconoscimento cambiate: ricalcola il tipo dei device riconosciuti automaticamente
+  const handleFingerprintRulesChange = () => setDevices(ds => ds.map(refreshFingerprint));
+
+  // --- Inventory ---
+  // Dopo ogni scansione o import: le schede seguono il device quando se ne scopre il MAC e registrano nome e IP attuali
+  useEffect(() => {
+    const { updated, removed } = reconcileInventory(devices, inventory);
+    if (updated.length === 0 && removed.length === 0) return;
+    const updatedIds = new Set(updated.map(r => r.identity));
+    setInventory(inv => [...inv.filter(r => !updatedIds.has(r.identity) && !removed.includes(r.identity)), ...updated]);
+    Promise.all([saveInventoryRecords(updated), ...removed.map(deleteInventoryRecord)])
+      .catch(e => console.warn("Inventario non aggiornato", e));
+  }, [devices, inventory]);
+
+  const handleSaveInventory = (record: InventoryRecord) => {
+    const device = inventoryDevice;
+    const next = { ...record, lastSeenName: device?.name, lastSeenIp: device?.ip };
+    const empty = isEmptyInventoryRecord(next);
+    setInventory(inv => [...inv.filter(r => r.identity !== next.identity), ...(empty ? [] : [next])]);
+    (empty ? deleteInventoryRecord(next.identity) : saveInventoryRecords([next]))
+      .catch(e => handleError(e, "Errore Inventario"));
+    setInventoryDevice(null);
+  };
+
+  // Un device modificato a mano (MAC o IP) cambia identità: la scheda lo segue
+  const moveInventoryRecord = (from: string, to: string) => {
+    const record = inventory.find(r => r.identity === from);
+    if (from === to || !record || inventory.some(r => r.identity === to)) return;
+    const moved = { ...record, identity: to };
+    setInventory(inv => [...inv.filter(r => r.identity !== from), moved]);
+    Promise.all([saveInventoryRecords([moved]), deleteInventoryRecord(from)])
+      .catch(e => console.warn("Inventario non aggiornato", e));
+  };
+
+  const handleInventoryFieldsChange = (fields: InventoryFieldDefinition[]) => {
+    setInventoryFields(fields);
+    saveInventoryFields(fields);
+  };
+
+  // --- Credential profiles ---
+  const updateCredentialAssignments = (update: (current: Record<string, string>) => Record<string, string>) => {
+    setCredentialAssignments(current => {
+      const next = update(current);
+      saveCredentialAssignments(next);
+      return next;
+    });
+  };
+
+  const handleAssignProfile = (device: NetworkDevice, profileId: string | null) => {
+    const identity = getInventoryIdentity(device);
+    updateCredentialAssignments(current => {
+      const { [identity]: _, ...rest } = current;
+      return profileId ? { ...rest, [identity]: profileId } : rest;
+    });
+  };
+
+  // Un profilo eliminato non resta assegnato a nessun device
+  const handleCredentialProfilesChange = (profiles: CredentialProfile[]) => {
+    setCredentialProfiles(profiles);
+    saveCredentialProfiles(profiles);
+    const ids = new Set(profiles.map(p => p.id));
+    updateCredentialAssignments(current => Object.fromEntries(Object.entries(current).filter(([, id]) => ids.has(id))));
+  };
+
+  const moveCredentialAssignment = (from: string, to: string) => {
+    if (from === to) return;
+    updateCredentialAssignments(current => {
+      if (!current[from] || current[to]) return current;
+      const { [from]: profileId, ...rest } = current;
+      return { ...rest, [to]: profileId };
+    });
+  };
+
+  // --- Bulk actions (lista device) ---
+  const handleBulkSetType = (ids: string[], type: DeviceType) => {
+    applyEdit(current => current.map(d => (ids.includes(d.id) ? { ...d, type, typeLocked: true } : d)));
+  };
+
+  const handleBulkTag = (targets: NetworkDevice[], tag: string) => {
+    const records = targets.map(d => {
+      const record = d.inventory ?? emptyInventoryRecord(d);
+      return { ...record, tags: record.tags.includes(tag) ? record.tags : [...record.tags, tag], lastSeenName: d.name, lastSeenIp: d.ip, updatedAt: Date.now() };
+    });
+    const ids = new Set(records.map(r => r.identity));
+    setInventory(inv => [...inv.filter(r => !ids.has(r.identity)), ...records]);
+    saveInventoryRecords(records).catch(e => handleError(e, "Errore Inventario"));
+  };
+
+  const handleBulkReparent = (ids: string[], parentId: string | null) =>
+    applyEdit(current => ids.reduce((acc, id) => reparentDevice(acc, id, parentId), current));
+
+  const handleBulkDelete = (ids: string[]) => {
+    if (!confirm(`Eliminare ${ids.length} device? I device a valle verranno collegati ai rispettivi padri.`)) return;
+    applyEdit(current => ids.reduce((acc, id) => removeDevice(acc, id), current));
+  };
+
+  // Esporta i device selezionati come progetto autonomo (senza schede di inventario)
+  const handleExportSelection = (ids: string[], format: ExportFormat) => {
+    const meta = EXPORT_FORMATS.find(f => f.id === format)!;
+    const subset = extractDevices(viewDevices, ids).map(({ inventory, ...d }) => d);
+    try {
+      downloadTextFile(`${slugifyFileName(projectName)}-selezione.${meta.extension}`, exportDevices(format, subset, projectName, undefined, zones), meta.mime);
+    } catch (e: any) {
+      handleError(e, "Errore Export");
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    const permission = await requestNotificationPermission();
+    alert(permission === 'granted' ? "Notifiche browser abilitate." : "Permesso notifiche negato dal browser.");
+  };
+
+  // --- Continuous Monitoring ---
+  useEffect(() => {
+    if (!isMonitoring) return;
+
+    // Precarica gli ultimi campioni per le sparkline dei device già noti
+    const since = Date.now() - 24 * 60 * 60 * 1000;
+    Promise.all(devicesRef.current.map(async d => {
+        const identity = getDeviceIdentity(d);
+        return [identity, (await getDeviceSamples(identity, since)).slice(-SPARKLINE_SAMPLES)] as const;
+    }))
+        .then(entries => setRecentSamples(prev => ({ ...Object.fromEntries(entries), ...prev })))
+        .catch(e => console.warn("Campioni non caricati", e));
+
+    const stop = startMonitor({
+        intervalMs: monitorIntervalSec * 1000,
+        probes: getProbesByIds(scanProbeIds),
+        getDevices: () => devicesRef.current,
+        onCycle: samples => {
+            const byIdentity = new Map(samples.map(s => [s.identity, s]));
+            const nextDevices = devicesRef.current.map(d => {
+                const sample = byIdentity.get(getDeviceIdentity(d));
+                return sample ? { ...d, status: statusFromSample(sample), latency: sample.latency ?? d.latency } : d;
+            });
+            const nextSamples = { ...recentSamplesRef.current };
+            samples.forEach(s => { nextSamples[s.identity] = [...(nextSamples[s.identity] || []), s].slice(-SPARKLINE_SAMPLES); });
+            setDevices(nextDevices);
+            setRecentSamples(nextSamples);
+            evaluateAlerts(nextDevices, nextSamples);
+        },
+        onError: e => console.warn("Ciclo di monitoraggio fallito", e)
+    });
+    return stop;
+  }, [isMonitoring, monitorIntervalSec, scanProbeIds]);
+
+  const handleExportUptime = async () => {
+    try {
+        const csv = await buildUptimeReportCsv(devices);
+        downloadTextFile(`netvisio-uptime-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv');
+    } catch (e: any) {
+        handleError(e, "Errore Report Uptime");
+    }
+  };
+
   const handleError = (e: any, context: string) => {
       console.error(context, e);
       const msg = e?.message || JSON.stringify(e);
@@ -145,13 +462,16 @@ const App: React.FC = () => {
       setIsOffline(true);
       setOfflineMode(true);
       setDevices([]);
-      setAiAnalysis('');
+      resetAnalysis();
   };
 
   const handleSaveSettings = () => {
       localStorage.setItem('netvisio_email', storedEmail);
       localStorage.setItem('netvisio_pass', storedPass);
       localStorage.setItem('netvisio_api_key', storedApiKey);
+      localStorage.setItem('netvisio_scan_probes', scanProbeIds.join(','));
+      localStorage.setItem('netvisio_monitor_interval', String(monitorIntervalSec));
+      localStorage.setItem('netvisio_webhook_url', webhookUrl);
       if (storedApiKey) setSessionApiKey(storedApiKey);
       alert("Impostazioni salvate.");
   };
@@ -165,22 +485,80 @@ const App: React.FC = () => {
       setViewMode('map');
   };
 
+  // Memorizza il target in cima ai recenti (max 8, senza duplicati)
+  const rememberTarget = (target: ScanTarget) => {
+      const key = formatScanTarget(target);
+      const next = [target, ...recentTargets.filter(t => formatScanTarget(t) !== key)].slice(0, 8);
+      setRecentTargets(next);
+      localStorage.setItem('netvisio_scan_targets', JSON.stringify(next));
+  };
+
+  const toggleScanProbe = (id: string) => {
+      setScanProbeIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const handleSelectRecentTarget = (target: ScanTarget) => {
+      setTargetInclude(target.include.join(', '));
+      setTargetExclude(target.exclude.join(', '));
+  };
+
   // --- NEW AUTOMATIC SCAN HANDLER ---
-  const handleAutoScan = async () => {
+  // Esegue una scansione nuova o riprende una sessione interrotta; i device compaiono in tempo reale
+  const runScan = async (target: ScanTarget, probeIds: string[], resume: ScanSession | null) => {
+    const controller = new AbortController();
+    const gate = createPauseGate();
+    scanAbortRef.current = controller;
+    pauseGateRef.current = gate;
+    const liveDevices: NetworkDevice[] = resume ? [...resume.devices] : [];
+
     setIsScanning(true);
-    setScanProgress(0);
-    setFoundCount(0);
+    setIsPaused(false);
+    setPendingSession(null);
+    setScanProgress(resume ? Math.round((resume.nextIndex / resume.total) * 100) : 0);
+    setFoundCount(liveDevices.length);
+    setDevices(liveDevices);
+    setEditHistory(EMPTY_HISTORY);
     setErrorMsg(null);
     setOptimizationResult(null);
-    setAiAnalysis('');
+    resetAnalysis();
+
+    let session: ScanSession | null = null;
+    let lastSave = 0;
 
     try {
-        // Avvia scansione sulla subnet 192.168.1.x
-        // Nota: In produzione si potrebbe chiedere la subnet all'utente, qui usiamo la default.
-        const scannedDevices = await scanSubnet('192.168.1.', (progress, count) => {
+        session = {
+            target,
+            probeIds,
+            nextIndex: resume?.nextIndex ?? 0,
+            total: countTargetHosts(target),
+            devices: liveDevices,
+            updatedAt: Date.now()
+        };
+        saveScanSession(session);
+
+        const scannedDevices = await scanSubnet(target, (progress, count) => {
             setScanProgress(progress);
             setFoundCount(count);
+        }, {
+            probes: getProbesByIds(probeIds),
+            signal: controller.signal,
+            pauseGate: gate,
+            startIndex: resume?.nextIndex,
+            initialDevices: resume?.devices,
+            onDevice: device => {
+                liveDevices.push(device);
+                setDevices(prev => [...prev, device]);
+            },
+            onCheckpoint: (nextIndex, found) => {
+                session = { ...(session as ScanSession), nextIndex, devices: found, updatedAt: Date.now() };
+                // Salvataggio al massimo una volta al secondo: basta per riprendere dopo un reload
+                if (session.updatedAt - lastSave > 1000) {
+                    lastSave = session.updatedAt;
+                    saveScanSession(session);
+                }
+            }
         });
+        clearScanSession();
 
         if (scannedDevices.length === 0) {
             // Fallback se il browser blocca tutto (es. HTTPS vs HTTP locale)
@@ -189,18 +567,208 @@ const App: React.FC = () => {
             setDevices(demoData);
         } else {
             setDevices(scannedDevices);
+            setLastScanAt(Date.now());
+            evaluateAlerts(scannedDevices, recentSamplesRef.current);
+            saveSnapshot(formatScanTarget(target), scannedDevices)
+                .then(() => setHistoryRefresh(n => n + 1))
+                .catch(e => console.warn("Snapshot non salvato", e));
             // Analisi IA in background sui dati reali trovati
-            analyzeNetwork(scannedDevices)
-                .then(setAiAnalysis)
-                .catch(e => console.warn("Analysis skip", e));
+            runAnalysis(scannedDevices);
         }
     } catch (e: any) {
-        handleError(e, "Errore Scansione");
+        if (e?.name === 'AbortError' && session) {
+            // Stop manuale: mostra i risultati parziali e conserva la sessione per la ripresa
+            saveScanSession(session);
+            setPendingSession(session);
+            setDevices(inferTopology(liveDevices.map(d => ({ ...d }))));
+        } else {
+            handleError(e, "Errore Scansione");
+        }
     } finally {
+        scanAbortRef.current = null;
+        pauseGateRef.current = null;
         setIsScanning(false);
+        setIsPaused(false);
+    }
+  };
+
+  const handleAutoScan = () => {
+    const target: ScanTarget = {
+        include: splitTargetList(targetInclude),
+        exclude: splitTargetList(targetExclude)
+    };
+    rememberTarget(target);
+    runScan(target, scanProbeIds, null);
+  };
+
+  const handleResumeSession = () => {
+    if (pendingSession) runScan(pendingSession.target, pendingSession.probeIds, pendingSession);
+  };
+
+  const handleDiscardSession = () => {
+    clearScanSession();
+    setPendingSession(null);
+  };
+
+  const handleStopScan = () => scanAbortRef.current?.abort();
+
+  const handleTogglePause = () => {
+    const gate = pauseGateRef.current;
+    if (!gate) return;
+    if (gate.isPaused()) gate.resume();
+    else gate.pause();
+    setIsPaused(gate.isPaused());
+  };
+
+  const handleShowOverlay = (diff: SnapshotDiff, before: ScanSnapshot, after: ScanSnapshot) => {
+    setDiffOverlay({ diff, before, after });
+    setViewMode('map');
+  };
+
+  // --- Editing Handlers ---
+  // Ogni modifica manuale passa da qui: registra lo stato precedente e segnala gli errori (es. cicli)
+  const applyEdit = (edit: (current: NetworkDevice[]) => NetworkDevice[]) => {
+    try {
+      const next = edit(devices);
+      setEditHistory(h => recordEdit(h, devices));
+      setDevices(next);
+      setErrorMsg(null);
+      return true;
+    } catch (e: any) {
+      setErrorMsg(e.message || String(e));
+      return false;
     }
   };
 
+  const handleReparent = (deviceId: string, parentId: string) =>
+    applyEdit(current => reparentDevice(current, deviceId, parentId));
+
+  const handleSaveDevice = (device: NetworkDevice) => {
+    const before = editingDevice?.isNew ? undefined : devices.find(d => d.id === device.id);
+    const saved = editingDevice?.isNew
+      ? applyEdit(current => addDevice(current, device))
+      : applyEdit(current => updateDevice(current, device.id, device));
+    if (!saved) return;
+    if (before) {
+        moveInventoryRecord(getInventoryIdentity(before), getInventoryIdentity(device));
+        moveCredentialAssignment(getInventoryIdentity(before), getInventoryIdentity(device));
+    }
+    setEditingDevice(null);
+  };
+
+  const handleDeleteDevice = (deviceId: string) => {
+    const device = devices.find(d => d.id === deviceId);
+    if (!device || !confirm(`Eliminare ${device.name}? I device a valle verranno collegati al suo padre.`)) return;
+    applyEdit(current => removeDevice(current, deviceId));
+    setEditingDevice(null);
+  };
+
+  // Copia senza scheda di inventario: l'editor modifica solo i dati del device
+  const handleEditDevice = (deviceId: string) => {
+    const device = devices.find(d => d.id === deviceId);
+    if (device) setEditingDevice({ device, isNew: false });
+  };
+
+  const handleAddDevice = (parentId: string | null) => {
+    const root = devices.find(d => !d.parentId);
+    setEditingDevice({ device: createManualDevice(parentId ?? root?.id ?? null), isNew: true });
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(editHistory, devices);
+    if (!result) return;
+    setEditHistory(result.history);
+    setDevices(result.devices);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(editHistory, devices);
+    if (!result) return;
+    setEditHistory(result.history);
+    setDevices(result.devices);
+  };
+
+  const undoRedoRef = useRef({ undo: handleUndo, redo: handleRedo });
+  undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRedoRef.current.undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        undoRedoRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleImportCommit = (imported: NetworkDevice[]) => {
+    applyEdit(current => mergeImportedDevices(current, imported));
+    setDiffOverlay(null);
+    setViewMode('list');
+  };
+
+  const handleProjectNameChange = (name: string) => {
+    setProjectName(name);
+    localStorage.setItem('netvisio_project_name', name);
+  };
+
+  const handleMapLayoutChange = (layout: LayoutMode) => {
+    setMapLayout(layout);
+    localStorage.setItem('netvisio_map_layout', layout);
+  };
+
+  const handleZonesChange = (next: NetworkZone[]) => {
+    setZones(next);
+    saveZones(next);
+    setCollapsedZones(c => c.filter(id => next.some(z => z.id === id)));
+    if (zoneFilter !== 'all' && zoneFilter !== 'none' && !next.some(z => z.id === zoneFilter)) setZoneFilter('all');
+  };
+
+  const handleToggleZone = useCallback((zoneId: string) => {
+    setCollapsedZones(c => (c.includes(zoneId) ? c.filter(id => id !== zoneId) : [...c, zoneId]));
+  }, []);
+
+  const handleProjectLoad = (project: NetVisioProject) => {
+    setDevices(project.devices);
+    if (project.zones) handleZonesChange(project.zones);
+    setEditHistory(EMPTY_HISTORY);
+    if (project.name) handleProjectNameChange(project.name);
+    // Anche la proposta salvata nel file passa dalla validazione (device, padri, cicli)
+    const optimized = project.optimizedTopology
+      ? validateOptimizedTopology({ optimizedTopology: project.optimizedTopology }, project.devices)
+      : null;
+    setOptimizationResult(optimized
+      ? { explanation: 'Topologia ottimizzata importata dal file di progetto.', optimizedTopology: optimized.value.topology, issues: optimized.issues }
+      : null);
+    setDiffOverlay(null);
+    setViewMode('map');
+  };
+
+  const activeAlertCount = alerts.filter(a => a.state === 'active').length;
+  const runningDiagnostics = diagnosticSessions.filter(s => s.status === 'running').length;
+
+  const overlay = useMemo(
+    () => diffOverlay ? buildDiffOverlay(diffOverlay.diff, diffOverlay.after.devices) : null,
+    [diffOverlay]
+  );
+  // Device mostrati in mappa e lista: quelli correnti o lo snapshot confrontato
+  const currentDevices = useMemo(() => applyInventory(devices, inventory), [devices, inventory]);
+  const viewDevices = useMemo(() => (overlay ? applyInventory(overlay.devices, inventory) : currentDevices), [overlay, currentDevices, inventory]);
+  const mapDevices = useMemo(() => collapseZones(viewDevices, zones, collapsedZones), [viewDevices, zones, collapsedZones]);
+  const deviceZones = useMemo(() => new Map(viewDevices.map(d => [d.id, resolveDeviceZone(d, zones)])), [viewDevices, zones]);
+  const listDevices = zoneFilter === 'all' ? viewDevices
+    : viewDevices.filter(d => (zoneFilter === 'none' ? !deviceZones.get(d.id) : deviceZones.get(d.id)?.id === zoneFilter));
+  const zoneOf = useCallback((d: NetworkDevice) => deviceZones.get(d.id) ?? null, [deviceZones]);
+  const localFindings = useMemo(() => analyzeNetworkLocally(viewDevices, zones), [viewDevices, zones]);
+  const detailDevice = detailDeviceId ? viewDevices.find(d => d.id === detailDeviceId) : undefined;
+
   const handleOptimize = async () => {
     if (devices.length === 0) return;
     setIsOptimizing(true);
@@ -215,32 +783,82 @@ const App: React.FC = () => {
     }
   };
 
-  const handleTraceWan = async () => {
-      setIsTracing(true);
-      setWanHops([]);
-      setErrorMsg(null);
-      try {
-          const hops = await traceWanPath(wanTarget);
-          if (hops.length === 0) setErrorMsg("Impossibile tracciare il percorso.");
-          else setWanHops(hops);
-      } catch(e: any) {
-          handleError(e, "Errore Tracciamento");
-      } finally {
-          setIsTracing(false);
-      }
+  // Modifiche della proposta accettate: passano dall'editing, quindi si possono annullare
+  const handleApplyTopologyChanges = (changes: TopologyChange[]) =>
+    applyEdit(current => applyTopologyChanges(current, changes));
+
+  // --- Analisi ---
+  const resetAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setAnalysisReport(null);
+    setAnalysisError(null);
+    setIsAnalyzing(false);
+    setMapFocus(null);
   };
 
-  const handleProbeDevice = async (device: NetworkDevice) => {
-      closeMenu();
-      alert(`Sonda manuale su ${device.ip}...`);
-      try {
-          const controller = new AbortController();
-          setTimeout(() => controller.abort(), 2000);
-          await fetch(`http://${device.ip}`, { mode: 'no-cors', signal: controller.signal });
-          alert(`Dispositivo ${device.ip} risponde!`);
-      } catch (e) {
-          alert(`Nessuna risposta da ${device.ip}.`);
-      }
+  // Il report parziale arriva in streaming; una nuova analisi annulla quella in corso
+  const runAnalysis = (target: NetworkDevice[]) => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    analyzeNetwork(target, partial => { if (!controller.signal.aborted) setAnalysisReport(partial); }, controller.signal)
+      .then(report => { if (!controller.signal.aborted) setAnalysisReport(report); })
+      .catch(e => {
+        if (controller.signal.aborted || e?.name === 'AbortError') return;
+        console.warn("Analisi non riuscita", e);
+        setAnalysisError(`Analisi non riuscita: ${e?.message || String(e)}`);
+      })
+      .finally(() => {
+        if (analysisAbortRef.current !== controller) return;
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      });
+  };
+
+  const handleStopAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsAnalyzing(false);
+  };
+
+  const handleFocusOnMap = (title: string, deviceIds: string[]) => {
+    setMapFocus({ title, deviceIds });
+    setViewMode('map');
+  };
+
+  const handleShowFindingOnMap = (finding: AnalysisFinding) => handleFocusOnMap(finding.title, finding.deviceIds);
+
+  const handleWanTracesChange = (traces: WanTrace[]) => setWanTraces(saveWanTraces(traces));
+
+  // --- Diagnostics ---
+  const updateDiagnosticSession = (id: string, update: (session: DiagnosticSession) => DiagnosticSession) =>
+      setDiagnosticSessions(sessions => sessions.map(s => (s.id === id ? update(s) : s)));
+
+  const handleStartDiagnostic = (request: DiagnosticRequest) => {
+      const session = createDiagnosticSession(request);
+      const controller = new AbortController();
+      diagnosticControllersRef.current.set(session.id, controller);
+      setDiagnosticSessions(sessions => [...sessions, session]);
+      setViewMode('diagnostics');
+      runDiagnostic(
+          request,
+          // Il log di una sessione continua conserva solo le righe più recenti
+          line => updateDiagnosticSession(session.id, s => ({ ...s, lines: [...s.lines, line].slice(-MAX_SESSION_LINES) })),
+          controller.signal
+      ).then(stats => {
+          diagnosticControllersRef.current.delete(session.id);
+          updateDiagnosticSession(session.id, s => ({ ...s, stats, status: controller.signal.aborted ? 'stopped' : 'done', endedAt: Date.now() }));
+      });
+  };
+
+  const handleStopDiagnostic = (id: string) => diagnosticControllersRef.current.get(id)?.abort();
+
+  const handleCloseDiagnostic = (id: string) => {
+      handleStopDiagnostic(id);
+      setDiagnosticSessions(sessions => sessions.filter(s => s.id !== id));
   };
 
   // --- Context Menu Handlers ---
@@ -260,9 +878,19 @@ const App: React.FC = () => {
         setViewMode('wan');
         setWanTarget(device.ip === '192.168.1.1' ? 'google.com' : device.ip); 
     } else if (action === 'ping') {
-        alert(`Ping verso ${device.ip}... (Simulazione: Successo 2ms)`);
+        handleStartDiagnostic({ kind: 'ping', ip: device.ip, label: device.name || device.ip, probeId: 'http-80', count: 4, intervalMs: 1000, timeoutMs: 2000 });
     } else if (action === 'probe') {
-        handleProbeDevice(device);
+        handleStartDiagnostic({ kind: 'sweep', ip: device.ip, label: device.name || device.ip, ports: [80, 443], timeoutMs: 2000 });
+    } else if (action === 'details') {
+        setDetailDeviceId(device.id);
+    } else if (action.startsWith('connect_') && CONNECTION_PROTOCOLS.includes(action.slice(8) as ConnectionProtocol)) {
+        launchConnection(device, action.slice(8) as ConnectionProtocol, getDeviceCredentialProfile(device, credentialProfiles, credentialAssignments));
+    } else if (action === 'inventory') {
+        setInventoryDevice(device);
+    } else if (action === 'add_child') {
+        handleAddDevice(device.id);
+    } else if (action === 'delete') {
+        handleDeleteDevice(device.id);
     }
     closeMenu();
   };
@@ -331,10 +959,41 @@ const App: React.FC = () => {
                       <input type="text" value={storedPass} onChange={e => setStoredPass(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded px-4 py-2 text-white font-mono"/>
                   </div>
                   <hr className="border-slate-700" />
+                  <AiSettingsPanel />
                   <div className="space-y-4">
-                      <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-wider flex items-center gap-2"><Zap className="w-4 h-4"/> AI Gemini API Key</h3>
+                      <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-wider flex items-center gap-2"><Zap className="w-4 h-4"/> Chiave API Provider AI</h3>
+                      <p className="text-xs text-slate-500">Usata dal provider selezionato (Gemini o endpoint OpenAI-compatibile che la richiede). I server locali come Ollama di solito non ne hanno bisogno.</p>
                       <input type="password" value={storedApiKey} onChange={e => setStoredApiKey(e.target.value)} placeholder="API Key..." className="w-full bg-slate-900 border border-slate-600 rounded px-4 py-2 text-white font-mono"/>
                   </div>
+                  <hr className="border-slate-700" />
+                  <div className="space-y-4">
+                      <h3 className="text-sm font-bold text-amber-400 uppercase tracking-wider flex items-center gap-2"><BellRing className="w-4 h-4"/> Notifiche Allarmi</h3>
+                      <input type="url" value={webhookUrl} onChange={e => setWebhookUrl(e.target.value)} placeholder="Webhook URL (es. http://192.168.1.10:8080/alerts)" className="w-full bg-slate-900 border border-slate-600 rounded px-4 py-2 text-white font-mono"/>
+                      {isBrowserNotificationSupported() && (
+                          <button onClick={handleEnableNotifications} className="text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded transition-colors">Abilita notifiche browser</button>
+                      )}
+                  </div>
+                  <hr className="border-slate-700" />
+                  <OuiRegistryPanel onUpdated={handleOuiRegistryUpdated} />
+                  <hr className="border-slate-700" />
+                  <FingerprintRulesPanel onChange={handleFingerprintRulesChange} />
+                  <hr className="border-slate-700" />
+                  <div className="space-y-4">
+                      <h3 className="text-sm font-bold text-sky-400 uppercase tracking-wider flex items-center gap-2"><Radar className="w-4 h-4"/> Sonde di Scansione</h3>
+                      <p className="text-xs text-slate-500">Ogni host viene verificato con tutte le sonde selezionate. Più sonde trovano più dispositivi ma rallentano la scansione.</p>
+                      <label className="flex items-center gap-3 text-sm text-slate-300">
+                          Intervallo monitoraggio continuo (secondi)
+                          <input type="number" min={10} value={monitorIntervalSec} onChange={e => setMonitorIntervalSec(Math.max(10, Number(e.target.value) || 60))} className="w-24 bg-slate-900 border border-slate-600 rounded px-3 py-1 text-white font-mono"/>
+                      </label>
+                      <div className="grid grid-cols-2 gap-2">
+                          {PROBE_CATALOG.map(probe => (
+                              <label key={probe.id} className="flex items-center gap-2 text-sm text-slate-300 bg-slate-900 border border-slate-700 rounded px-3 py-2 cursor-pointer">
+                                  <input type="checkbox" checked={scanProbeIds.includes(probe.id)} onChange={() => toggleScanProbe(probe.id)} className="accent-indigo-500"/>
+                                  <span className="font-mono">{probe.label}</span>
+                              </label>
+                          ))}
+                      </div>
+                  </div>
               </div>
               <div className="p-6 border-t border-slate-700 bg-slate-900 flex justify-end">
                   <button onClick={handleSaveSettings} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-bold transition-colors"><Save className="w-4 h-4" /> Salva</button>
@@ -344,67 +1003,51 @@ const App: React.FC = () => {
   );
 
   const renderDeviceList = () => (
-    <div className="overflow-x-auto h-full p-4">
-      <table className="w-full text-left border-collapse min-w-[800px]">
-        <thead>
-          <tr className="bg-slate-800 text-slate-400 text-xs uppercase tracking-wider sticky top-0 z-10">
-            <th className="p-4 border-b border-slate-700 bg-slate-800">Tipo</th>
-            <th className="p-4 border-b border-slate-700 bg-slate-800">Nome</th>
-            <th className="p-4 border-b border-slate-700 bg-slate-800">IP</th>
-            <th className="p-4 border-b border-slate-700 bg-slate-800">MAC (Stimato)</th>
-            <th className="p-4 border-b border-slate-700 bg-slate-800">Stato</th>
-          </tr>
-        </thead>
-        <tbody className="text-sm">
-          {devices.map((device) => (
-            <tr key={device.id} onContextMenu={(e) => handleContextMenu(e, device)} className="hover:bg-slate-800/50 transition-colors cursor-context-menu border-b border-slate-800/50">
-              <td className="p-4 text-slate-300"><div className="flex items-center gap-2">{getDeviceIcon(device.type)}{device.type}</div></td>
-              <td className="p-4 font-medium text-slate-200">{device.name}</td>
-              <td className="p-4 text-slate-400 font-mono">{device.ip}</td>
-              <td className="p-4 text-slate-500 font-mono text-xs">{device.mac}</td>
-              <td className="p-4"><span className="px-2 py-1 rounded-full text-xs font-bold bg-emerald-900/30 text-emerald-400 border border-emerald-900">ONLINE</span></td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-    </div>
-  );
-
-  const renderWanTrace = () => (
-      <div className="flex flex-col h-full gap-6 p-4 overflow-hidden">
-          <div className="bg-slate-800 p-6 rounded-lg shadow-md border border-slate-700 shrink-0">
-              <h2 className="text-xl font-bold text-slate-200 mb-2 flex items-center gap-2"><Globe className="w-5 h-5 text-indigo-400" /> Tracciamento Percorso WAN</h2>
-              <div className="flex gap-4 mb-4 mt-4">
-                  <input type="text" value={wanTarget} onChange={(e) => setWanTarget(e.target.value)} className="flex-1 bg-slate-900 border border-slate-700 rounded px-4 py-2 text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Destinazione Esterna"/>
-                  <button onClick={handleTraceWan} disabled={isTracing} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-medium disabled:opacity-50 transition-colors">{isTracing ? 'Tracciamento...' : 'Traccia Percorso'}</button>
-              </div>
-              <div className="bg-blue-900/30 border border-blue-800 rounded-lg p-4 flex gap-3 text-sm text-slate-300">
-                <Info className="w-5 h-5 text-blue-400 shrink-0 mt-0.5" />
-                <p>Simulazione Traceroute: mostra i nodi pubblici ISP. I dispositivi interni della rete remota sono nascosti dal NAT.</p>
-              </div>
-          </div>
-          <div className="flex-1 overflow-auto bg-slate-800 rounded-lg border border-slate-700 p-6 relative min-h-0">
-              {wanHops.map((hop, index) => (
-                  <div key={index} className="flex group mb-8 last:mb-0 relative z-10">
-                      {index !== wanHops.length - 1 && <div className="absolute left-6 top-10 bottom-0 w-0.5 bg-indigo-900 group-hover:bg-indigo-600 transition-colors h-12"></div>}
-                      <div className="w-12 h-12 rounded-full bg-slate-900 border-2 border-indigo-500 flex items-center justify-center font-bold text-indigo-400 z-10 shrink-0">{hop.hopNumber}</div>
-                      <div className="ml-4 flex-1 bg-slate-900/50 p-3 rounded border border-slate-700/50">
-                          <div className="font-bold text-slate-200">{hop.ip} <span className="text-sm font-normal text-slate-400">({hop.hostname})</span></div>
-                          <div className="text-xs text-emerald-400">{Math.floor(hop.latency)} ms - {hop.location}</div>
-                      </div>
-                  </div>
-              ))}
-          </div>
+    <div className="flex flex-col h-full p-4">
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
+        {[{ id: 'all', name: 'Tutte', color: '#64748b' }, ...zones, { id: 'none', name: 'Senza zona', color: '#475569' }].map(z => {
+          const count = z.id === 'all' ? viewDevices.length
+            : viewDevices.filter(d => (z.id === 'none' ? !deviceZones.get(d.id) : deviceZones.get(d.id)?.id === z.id)).length;
+          return (
+            <button key={z.id} onClick={() => setZoneFilter(z.id)} className={`flex items-center gap-2 px-3 py-1 rounded-full border text-xs transition-colors ${zoneFilter === z.id ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: z.color }} />
+              {z.name} <span className="text-slate-500">{count}</span>
+            </button>
+          );
+        })}
+        <div className="flex-1" />
+        <button onClick={handleExportUptime} disabled={devices.length === 0} className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 px-3 py-1.5 rounded text-xs font-medium disabled:opacity-50 transition-colors"><Download size={14} /> Report Uptime (CSV)</button>
       </div>
+      <DeviceTable
+        devices={listDevices}
+        allDevices={viewDevices}
+        zoneOf={zoneOf}
+        highlights={overlay?.highlights}
+        editable={!overlay}
+        samplesFor={d => recentSamples[getDeviceIdentity(d)] || []}
+        onContextMenu={handleContextMenu}
+        onShowHistory={setHistoryDevice}
+        onBulkSetType={handleBulkSetType}
+        onBulkTag={handleBulkTag}
+        onBulkReparent={handleBulkReparent}
+        onBulkDelete={handleBulkDelete}
+        onExportSelection={handleExportSelection}
+      />
+    </div>
   );
 
   const renderAnalysis = () => (
-      <div className="h-full overflow-y-auto p-4 max-w-4xl mx-auto">
-          <div className="bg-slate-800 p-8 rounded-xl border border-slate-700 shadow-2xl">
-              <div className="flex items-center gap-3 mb-6 border-b border-slate-700 pb-4"><FileText className="w-8 h-8 text-indigo-400" /><h2 className="text-2xl font-bold text-slate-100">Analisi Approfondita</h2></div>
-              {!aiAnalysis ? <div className="text-center py-10 text-slate-500">Nessuna analisi disponibile.</div> : <div className="bg-slate-900/50 p-6 rounded-lg border border-slate-700/50"><MarkdownViewer text={aiAnalysis} /></div>}
-          </div>
-      </div>
+      <AnalysisReportView
+          report={analysisReport}
+          running={isAnalyzing}
+          error={analysisError}
+          devices={viewDevices}
+          localFindings={localFindings}
+          onRun={() => runAnalysis(devices)}
+          onStop={handleStopAnalysis}
+          onSelectDevice={setDetailDeviceId}
+          onShowOnMap={handleShowFindingOnMap}
+      />
   );
 
   const renderOptimization = () => (
@@ -413,7 +1056,7 @@ const App: React.FC = () => {
               <div className="flex-1 flex flex-col items-center justify-center bg-slate-800 rounded-xl border border-slate-700 p-8 text-center">
                   <Zap className="w-16 h-16 text-yellow-400 mb-6" />
                   <h2 className="text-2xl font-bold text-slate-100 mb-2">Ottimizzazione Smart</h2>
-                  <p className="text-slate-400 max-w-lg mb-8">L'IA analizzerà la tua lista di dispositivi e proporrà una nuova architettura.</p>
+                  <p className="text-slate-400 max-w-lg mb-8">{isOffline ? "In modalità offline la proposta viene calcolata con regole locali, senza IA." : "L'IA analizzerà la tua lista di dispositivi e proporrà una nuova architettura."}</p>
                   {devices.length > 0 && <button onClick={handleOptimize} disabled={isOptimizing} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-lg font-bold text-lg flex items-center gap-2 shadow-lg">{isOptimizing ? <RefreshCw className="animate-spin" /> : <Zap className="fill-current" />} Genera Configurazione</button>}
               </div>
           ) : (
@@ -422,7 +1065,10 @@ const App: React.FC = () => {
                       <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex justify-between items-center shrink-0"><h3 className="font-bold text-emerald-400 flex items-center gap-2"><CheckCircle2 size={18}/> Topologia Proposta</h3><button onClick={() => setOptimizationResult(null)} className="text-xs text-slate-500 hover:text-white underline">Reset</button></div>
                       <div className="flex-1 relative min-h-0"><TopologyMap devices={optimizationResult.optimizedTopology} onContextMenu={() => {}} /></div>
                   </div>
-                  <div className="w-1/3 bg-slate-800 rounded-xl border border-slate-700 overflow-y-auto p-6 shrink-0"><h3 className="font-bold text-xl text-slate-100 mb-4 flex items-center gap-2"><FileText className="text-indigo-400"/> Dettagli</h3><MarkdownViewer text={optimizationResult.explanation} /></div>
+                  <div className="w-1/3 bg-slate-800 rounded-xl border border-slate-700 overflow-y-auto p-6 shrink-0 space-y-6">
+                      <OptimizationReview devices={devices} result={optimizationResult} onApply={handleApplyTopologyChanges} />
+                      <div><h3 className="font-bold text-xl text-slate-100 mb-4 flex items-center gap-2"><FileText className="text-indigo-400"/> Dettagli</h3><MarkdownViewer text={optimizationResult.explanation} /></div>
+                  </div>
               </div>
           )}
       </div>
@@ -437,18 +1083,60 @@ const App: React.FC = () => {
             <div className="text-xs font-bold text-slate-500 uppercase px-4 mb-2 mt-2">Monitoraggio</div>
             <button onClick={() => setViewMode('map')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'map' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Network size={18} /><span>Mappa Topologia</span></button>
             <button onClick={() => setViewMode('list')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'list' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><LayoutDashboard size={18} /><span>Lista Dispositivi</span></button>
+            <button onClick={() => setViewMode('history')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'history' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><History size={18} /><span>Storico Scansioni</span></button>
+            <button onClick={() => setViewMode('alerts')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'alerts' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}>
+                <BellRing size={18} /><span className="flex-1 text-left">Allarmi</span>
+                {activeAlertCount > 0 && <span className="px-2 py-0.5 rounded-full bg-red-600 text-white text-xs font-bold">{activeAlertCount}</span>}
+            </button>
+            <button onClick={() => setViewMode('import')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'import' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Upload size={18} /><span>Importa Dati</span></button>
+            <button onClick={() => setViewMode('project')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'project' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><FolderOpen size={18} /><span>Esporta / Progetto</span></button>
+            <button onClick={() => setViewMode('zones')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'zones' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Layers size={18} /><span>Zone e VLAN</span></button>
+            <button onClick={() => setViewMode('diagnostics')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'diagnostics' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}>
+                <Terminal size={18} /><span className="flex-1 text-left">Diagnostica</span>
+                {runningDiagnostics > 0 && <span className="px-2 py-0.5 rounded-full bg-emerald-600 text-white text-xs font-bold">{runningDiagnostics}</span>}
+            </button>
             <button onClick={() => setViewMode('wan')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'wan' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Globe size={18} /><span>Tracciamento WAN</span></button>
             <div className="text-xs font-bold text-slate-500 uppercase px-4 mb-2 mt-6">Intelligenza Artificiale</div>
             <button onClick={() => setViewMode('analysis')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'analysis' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><FileText size={18} /><span>Analisi Approfondita</span></button>
+            <button onClick={() => setViewMode('assistant')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'assistant' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><MessageSquare size={18} /><span>Assistente</span></button>
             <button onClick={() => setViewMode('optimize')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'optimize' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Zap size={18} /><span>Ottimizzazione Smart</span></button>
             <div className="text-xs font-bold text-slate-500 uppercase px-4 mb-2 mt-6">Sistema</div>
             <button onClick={() => setViewMode('settings')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-md transition-colors ${viewMode === 'settings' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Settings size={18} /><span>Impostazioni</span></button>
         </nav>
         <div className="p-4 border-t border-slate-800 space-y-2">
-             <button onClick={handleAutoScan} disabled={isScanning} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-md transition-colors disabled:opacity-50">
-                 {isScanning ? <RefreshCw className="animate-spin" size={16}/> : <Radar size={16} />}
-                 {isScanning ? 'Scansione...' : 'Avvia Auto-Scan'}
-             </button>
+             <ScanTargetEditor
+                includeText={targetInclude}
+                excludeText={targetExclude}
+                recent={recentTargets}
+                disabled={isScanning}
+                onIncludeChange={setTargetInclude}
+                onExcludeChange={setTargetExclude}
+                onSelectRecent={handleSelectRecentTarget}
+             />
+             {!isScanning && pendingSession && (
+                 <div className="bg-slate-900 border border-amber-800/60 rounded-md p-2 text-xs text-amber-300 space-y-2">
+                     <div>Scansione interrotta al {Math.round((pendingSession.nextIndex / pendingSession.total) * 100)}% ({pendingSession.devices.length} device)</div>
+                     <div className="flex gap-2">
+                         <button onClick={handleResumeSession} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded transition-colors"><Play size={12} /> Riprendi</button>
+                         <button onClick={handleDiscardSession} className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded transition-colors"><X size={12} /></button>
+                     </div>
+                 </div>
+             )}
+             {isScanning ? (
+                 <div className="flex gap-2">
+                     <button onClick={handleTogglePause} className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded-md transition-colors">
+                         {isPaused ? <Play size={16} /> : <Pause size={16} />}
+                         {isPaused ? 'Riprendi' : 'Pausa'}
+                     </button>
+                     <button onClick={handleStopScan} className="flex items-center justify-center gap-2 px-4 py-2 bg-red-700 hover:bg-red-800 text-white font-semibold rounded-md transition-colors" title="Interrompi scansione">
+                         <Square size={16} />
+                     </button>
+                 </div>
+             ) : (
+                 <button onClick={handleAutoScan} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-md transition-colors">
+                     <Radar size={16} /> Avvia Auto-Scan
+                 </button>
+             )}
              <button onClick={handleLogout} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-900 hover:bg-red-900/50 text-slate-400 hover:text-red-400 rounded-md transition-colors mt-2 text-xs"><LogOut size={14} /> Logout</button>
         </div>
       </aside>
@@ -458,13 +1146,29 @@ const App: React.FC = () => {
             <h2 className="text-lg font-semibold text-slate-200 capitalize flex items-center gap-2">
                 {viewMode === 'map' && <Network className="text-indigo-400"/>}
                 {viewMode === 'list' && <LayoutDashboard className="text-indigo-400"/>}
+                {viewMode === 'history' && <History className="text-indigo-400"/>}
+                {viewMode === 'alerts' && <BellRing className="text-amber-400"/>}
+                {viewMode === 'import' && <Upload className="text-indigo-400"/>}
+                {viewMode === 'project' && <FolderOpen className="text-indigo-400"/>}
+                {viewMode === 'zones' && <Layers className="text-indigo-400"/>}
+                {viewMode === 'diagnostics' && <Terminal className="text-emerald-400"/>}
                 {viewMode === 'wan' && <Globe className="text-indigo-400"/>}
                 {viewMode === 'analysis' && <FileText className="text-indigo-400"/>}
+                {viewMode === 'assistant' && <MessageSquare className="text-indigo-400"/>}
                 {viewMode === 'optimize' && <Zap className="text-yellow-400"/>}
                 {viewMode === 'settings' && <Settings className="text-slate-400"/>}
                 {viewMode === 'map' ? 'Topologia' : viewMode}
             </h2>
             <div className="flex items-center gap-4">
+                <button
+                    onClick={() => setIsMonitoring(m => !m)}
+                    disabled={devices.length === 0 && !isMonitoring}
+                    title={`Ri-sonda i device ogni ${monitorIntervalSec}s`}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs transition-colors disabled:opacity-50 ${isMonitoring ? 'bg-emerald-900/40 border-emerald-700 text-emerald-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                    <Activity size={14} className={isMonitoring ? 'animate-pulse' : ''} />
+                    {isMonitoring ? `Monitor attivo (${monitorIntervalSec}s)` : 'Monitor'}
+                </button>
                 <div className="flex items-center gap-2 bg-slate-800 px-3 py-1.5 rounded-full border border-slate-700">
                     <div className={`w-2 h-2 rounded-full ${errorMsg ? 'bg-red-500' : (isOffline ? 'bg-yellow-500' : 'bg-emerald-500 animate-pulse')}`}></div>
                     <span className="text-xs text-slate-300">{errorMsg ? 'Attenzione' : (isOffline ? 'Offline' : 'Online')}</span>
@@ -480,7 +1184,18 @@ const App: React.FC = () => {
         
         {isScanning && (
             <div className="bg-indigo-900/80 p-2 text-center text-xs text-indigo-200 font-bold tracking-wider absolute top-16 w-full z-40 backdrop-blur">
-                SCANSIONE ATTIVA - {scanProgress}% - Trovati: {foundCount} device
+                {isPaused ? 'SCANSIONE IN PAUSA' : 'SCANSIONE ATTIVA'} - {scanProgress}% - Trovati: {foundCount} device
+            </div>
+        )}
+
+        {diffOverlay && (viewMode === 'map' || viewMode === 'list') && (
+            <div className="bg-slate-800 border-l-4 border-indigo-500 px-4 py-2 mx-4 mt-4 flex items-center gap-4 text-sm text-slate-300 animate-fade-in shrink-0">
+                <History size={16} className="text-indigo-400" />
+                <span>Differenze {new Date(diffOverlay.before.timestamp).toLocaleString('it-IT')} → {new Date(diffOverlay.after.timestamp).toLocaleString('it-IT')}</span>
+                <span className="text-emerald-400">+{diffOverlay.diff.added.length}</span>
+                <span className="text-red-400">−{diffOverlay.diff.removed.length}</span>
+                <span className="text-amber-400">Δ{diffOverlay.diff.changed.length}</span>
+                <button onClick={() => setDiffOverlay(null)} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white transition-colors"><X size={14} /> Chiudi overlay</button>
             </div>
         )}
 
@@ -492,15 +1207,138 @@ const App: React.FC = () => {
         )}
 
         <div className="flex-1 overflow-hidden relative p-0 bg-slate-900">
-            {viewMode === 'map' && <div className="w-full h-full p-4 overflow-hidden"><TopologyMap devices={devices} onContextMenu={handleContextMenu} /></div>}
+            {viewMode === 'map' && (
+                <div className="w-full h-full p-4 overflow-hidden relative">
+                    <TopologyMap
+                        devices={mapDevices}
+                        highlights={overlay?.highlights}
+                        focusIds={mapFocus?.deviceIds}
+                        onContextMenu={handleContextMenu}
+                        onViewportChange={v => { mapViewportRef.current = v; }}
+                        onReparent={overlay ? undefined : handleReparent}
+                        layout={mapLayout}
+                        onLayoutChange={handleMapLayoutChange}
+                        zones={zones}
+                        onToggleZone={handleToggleZone}
+                    />
+                    {mapFocus && (
+                        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-indigo-900/90 backdrop-blur px-3 py-1.5 rounded-lg border border-indigo-500/50 shadow-lg text-xs text-indigo-100">
+                            <MapPin size={14} />
+                            <span>{mapFocus.title}</span>
+                            <button onClick={() => setMapFocus(null)} className="p-0.5 rounded hover:bg-indigo-700" title="Rimuovi evidenziazione"><X size={14} /></button>
+                        </div>
+                    )}
+                    {!overlay && (
+                        <div className="absolute bottom-8 left-8 z-10 flex items-center gap-1 bg-slate-800/90 backdrop-blur p-1 rounded-lg border border-slate-700 shadow-lg text-xs">
+                            <button onClick={() => handleAddDevice(null)} className="flex items-center gap-1 px-3 py-1.5 rounded text-slate-300 hover:bg-slate-700 hover:text-white" title="Aggiungi un device manuale (switch non gestito, AP, patch panel...)"><Plus size={14} /> Aggiungi</button>
+                            <button onClick={handleUndo} disabled={editHistory.past.length === 0} className="p-1.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40" title="Annulla (Ctrl+Z)"><Undo2 size={14} /></button>
+                            <button onClick={handleRedo} disabled={editHistory.future.length === 0} className="p-1.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40" title="Ripeti (Ctrl+Y)"><Redo2 size={14} /></button>
+                            <span className="px-2 text-slate-500">Trascina un nodo su un altro per spostarlo</span>
+                        </div>
+                    )}
+                    <MapExportMenu
+                        devices={mapDevices}
+                        siteName={projectName}
+                        scanDate={new Date(diffOverlay ? diffOverlay.after.timestamp : lastScanAt ?? Date.now())}
+                        getViewport={() => mapViewportRef.current}
+                        layout={mapLayout}
+                        zones={zones}
+                    />
+                </div>
+            )}
             {viewMode === 'list' && renderDeviceList()}
-            {viewMode === 'wan' && renderWanTrace()}
+            {viewMode === 'history' && <ScanHistory refreshKey={historyRefresh} onShowOverlay={handleShowOverlay} />}
+            {viewMode === 'alerts' && (
+                <AlertCenter
+                    alerts={alerts}
+                    rules={alertRules}
+                    devices={devices}
+                    onAcknowledge={id => updateAlert(id, { state: 'acknowledged', acknowledgedAt: Date.now() })}
+                    onResolve={id => updateAlert(id, { state: 'resolved', resolvedAt: Date.now() })}
+                    onRulesChange={handleRulesChange}
+                />
+            )}
+            {viewMode === 'import' && <ImportView devices={devices} onCommit={handleImportCommit} />}
+            {viewMode === 'project' && (
+                <ProjectExchange
+                    projectName={projectName}
+                    devices={devices}
+                    optimizedTopology={optimizationResult?.optimizedTopology}
+                    zones={zones}
+                    onProjectNameChange={handleProjectNameChange}
+                    onLoad={handleProjectLoad}
+                />
+            )}
+            {viewMode === 'zones' && <ZoneManager zones={zones} devices={devices} onChange={handleZonesChange} />}
+            {viewMode === 'diagnostics' && (
+                <DiagnosticsConsole
+                    sessions={diagnosticSessions}
+                    devices={devices}
+                    onStart={handleStartDiagnostic}
+                    onStop={handleStopDiagnostic}
+                    onClose={handleCloseDiagnostic}
+                />
+            )}
+            {viewMode === 'wan' && <WanTraceView traces={wanTraces} target={wanTarget} onTargetChange={setWanTarget} onTracesChange={handleWanTracesChange} />}
             {viewMode === 'analysis' && renderAnalysis()}
+            {viewMode === 'assistant' && (
+                <ChatAssistant
+                    projectName={projectName}
+                    devices={currentDevices}
+                    zones={zones}
+                    traces={wanTraces}
+                    alerts={alerts}
+                    onApplyChanges={handleApplyTopologyChanges}
+                    onShowOnMap={handleFocusOnMap}
+                    onSelectDevice={setDetailDeviceId}
+                />
+            )}
             {viewMode === 'optimize' && renderOptimization()}
             {viewMode === 'settings' && renderSettings()}
         </div>
       </main>
-      <ContextMenu position={menuPos} device={selectedDeviceId ? devices.find(d => d.id === selectedDeviceId) : undefined} onClose={closeMenu} onAction={handleMenuAction} />
+      {detailDevice && (
+        <DeviceDetailPanel
+          device={detailDevice}
+          devices={viewDevices}
+          zone={zoneOf(detailDevice)}
+          samples={recentSamples[getDeviceIdentity(detailDevice)] || []}
+          editable={!overlay && devices.some(d => d.id === detailDevice.id)}
+          profiles={credentialProfiles}
+          profileId={credentialAssignments[getInventoryIdentity(detailDevice)] ?? null}
+          onAssignProfile={profileId => handleAssignProfile(detailDevice, profileId)}
+          onProfilesChange={handleCredentialProfilesChange}
+          onSelectDevice={d => setDetailDeviceId(d.id)}
+          onEdit={() => handleEditDevice(detailDevice.id)}
+          onEditInventory={() => setInventoryDevice(detailDevice)}
+          onShowHistory={() => setHistoryDevice(detailDevice)}
+          onClose={() => setDetailDeviceId(null)}
+        />
+      )}
+      {historyDevice && <DeviceHistoryChart device={historyDevice} onClose={() => setHistoryDevice(null)} />}
+      <ContextMenu position={menuPos} device={selectedDeviceId ? viewDevices.find(d => d.id === selectedDeviceId) : undefined} editable={!overlay} onClose={closeMenu} onAction={handleMenuAction} />
+      {inventoryDevice && (
+        <DeviceInventoryEditor
+          key={inventoryDevice.id}
+          device={inventoryDevice}
+          fields={inventoryFields}
+          onSave={handleSaveInventory}
+          onFieldsChange={handleInventoryFieldsChange}
+          onClose={() => setInventoryDevice(null)}
+        />
+      )}
+      {editingDevice && (
+        <DevicePropertiesEditor
+          key={editingDevice.device.id}
+          device={editingDevice.device}
+          devices={devices}
+          zones={zones}
+          isNew={editingDevice.isNew}
+          onSave={handleSaveDevice}
+          onDelete={handleDeleteDevice}
+          onClose={() => setEditingDevice(null)}
+        />
+      )}
     </div>
   );
 };
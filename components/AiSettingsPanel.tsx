@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AiProviderId, AiSettings, AiTask, AiTaskSettings } from '../types';
+import { AI_PROVIDERS, AI_TASKS, AI_TASK_LABELS, DEFAULT_AI_SETTINGS, getAiProvider, loadAiSettings, saveAiSettings } from '../services/aiProviders';
+import { testAiConnection } from '../services/aiService';
+import { Bot, RotateCcw, PlugZap } from 'lucide-react';
+
+/**
+ * Provider AI e parametri per attività. Le modifiche valgono subito: ogni
+ * chiamata rilegge le impostazioni salvate.
+ */
+const AiSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const provider = getAiProvider(settings.provider);
+
+  const update = (next: AiSettings) => {
+    setSettings(next);
+    saveAiSettings(next);
+    setTestResult(null);
+  };
+
+  const updateTask = (task: AiTask, patch: Partial<AiTaskSettings>) =>
+    update({ ...settings, tasks: { ...settings.tasks, [task]: { ...settings.tasks[task], ...patch } } });
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult({ ok: true, text: await testAiConnection() });
+    } catch (e: any) {
+      setTestResult({ ok: false, text: e?.message || String(e) });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-600 rounded px-3 py-1 text-white font-mono text-sm";
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-wider flex items-center gap-2"><Bot className="w-4 h-4"/> Provider AI</h3>
+      <p className="text-xs text-slate-500">
+        Import, rete di esempio, analisi e ottimizzazione usano il provider scelto. Con un endpoint OpenAI-compatibile
+        (Ollama, llama.cpp, LM Studio) i dati restano sulla rete locale; il provider mock risponde con dati fissi senza rete.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-slate-400 space-y-1">
+          <span className="block font-bold uppercase">Provider</span>
+          <select value={settings.provider} onChange={e => update({ ...settings, provider: e.target.value as AiProviderId })} className={`${inputClass} w-full font-sans`}>
+            {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+        {settings.provider === 'openai' && (
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block font-bold uppercase">Endpoint (base URL)</span>
+            <input type="url" value={settings.baseUrl} onChange={e => update({ ...settings, baseUrl: e.target.value })} placeholder={DEFAULT_AI_SETTINGS.baseUrl} className={`${inputClass} w-full`}/>
+          </label>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500 uppercase">
+            <th className="py-1 font-bold">Attività</th>
+            <th className="py-1 font-bold">Modello</th>
+            <th className="py-1 font-bold">Temperatura</th>
+            <th className="py-1 font-bold">Max token</th>
+          </tr>
+        </thead>
+        <tbody>
+          {AI_TASKS.map(task => (
+            <tr key={task} className="text-slate-300">
+              <td className="py-1 pr-2">{AI_TASK_LABELS[task]}</td>
+              <td className="py-1 pr-2">
+                <input value={settings.tasks[task].model} onChange={e => updateTask(task, { model: e.target.value.trim() })} placeholder={provider.defaultModel} className={`${inputClass} w-full`}/>
+              </td>
+              <td className="py-1 pr-2">
+                <input type="number" min={0} max={2} step={0.1} value={settings.tasks[task].temperature} onChange={e => updateTask(task, { temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })} className={`${inputClass} w-20`}/>
+              </td>
+              <td className="py-1">
+                <input type="number" min={64} step={256} value={settings.tasks[task].maxTokens} onChange={e => updateTask(task, { maxTokens: Math.max(64, Number(e.target.value) || DEFAULT_AI_SETTINGS.tasks[task].maxTokens) })} className={`${inputClass} w-24`}/>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-2">
+        <button onClick={handleTest} disabled={testing} className="flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded transition-colors disabled:opacity-50"><PlugZap size={14} /> {testing ? 'Verifica...' : 'Prova connessione'}</button>
+        <button onClick={() => update({ ...DEFAULT_AI_SETTINGS, provider: settings.provider, baseUrl: settings.baseUrl })} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white px-3 py-2"><RotateCcw size={14} /> Parametri predefiniti</button>
+      </div>
+      {testResult && (
+        <div className={`text-sm ${testResult.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+          {testResult.ok ? `Risposta del modello: ${testResult.text.slice(0, 120)}` : testResult.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
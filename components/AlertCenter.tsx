@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Alert, AlertRule, AlertRuleKind, AlertSeverity, AlertState, NetworkDevice } from '../types';
+import { RULE_KIND_LABELS } from '../services/alertService';
+import { getDeviceIdentity } from '../services/deviceIdentity';
+import { Bell, BellRing, Check, CheckCheck, Plus, Trash2 } from 'lucide-react';
+
+interface AlertCenterProps {
+  alerts: Alert[];
+  rules: AlertRule[];
+  devices: NetworkDevice[];
+  onAcknowledge: (id: string) => void;
+  onResolve: (id: string) => void;
+  onRulesChange: (rules: AlertRule[]) => void;
+}
+
+const SEVERITY_CLASSES: Record<AlertSeverity, string> = {
+  info: 'border-l-sky-500 text-sky-300',
+  warning: 'border-l-amber-500 text-amber-300',
+  critical: 'border-l-red-500 text-red-300'
+};
+
+const STATE_LABELS: Record<AlertState, string> = {
+  active: 'Attivo',
+  acknowledged: 'Preso in carico',
+  resolved: 'Risolto'
+};
+
+const emptyRule = (): AlertRule => ({
+  id: '',
+  name: '',
+  kind: 'device_offline',
+  enabled: true,
+  severity: 'warning',
+  durationSec: 120,
+  thresholdMs: 200,
+  consecutiveSamples: 5,
+  notifyBrowser: true,
+  notifyWebhook: false
+});
+
+const AlertCenter: React.FC<AlertCenterProps> = ({ alerts, rules, devices, onAcknowledge, onResolve, onRulesChange }) => {
+  const [filter, setFilter] = useState<AlertState | 'open' | 'all'>('open');
+  const [draft, setDraft] = useState<AlertRule>(emptyRule);
+
+  const visible = alerts.filter(a =>
+    filter === 'all' ? true : filter === 'open' ? a.state !== 'resolved' : a.state === filter
+  );
+
+  const addRule = () => {
+    const name = draft.name.trim() || RULE_KIND_LABELS[draft.kind];
+    onRulesChange([...rules, { ...draft, name, id: `rule-${Date.now()}` }]);
+    setDraft(emptyRule());
+  };
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    onRulesChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="h-full flex gap-4 p-4 overflow-hidden">
+      <div className="flex-1 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden min-w-0">
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3 shrink-0">
+          <BellRing size={18} className="text-amber-400" />
+          <h3 className="font-bold text-slate-200 flex-1">Centro Allarmi</h3>
+          {(['open', 'acknowledged', 'resolved', 'all'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1 rounded text-xs transition-colors ${filter === f ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+            >
+              {f === 'open' ? 'Aperti' : f === 'all' ? 'Tutti' : STATE_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {visible.length === 0 && <div className="text-center py-10 text-slate-500 text-sm">Nessun allarme.</div>}
+          {visible.map(a => (
+            <div key={a.id} className={`bg-slate-900/60 border border-slate-700 border-l-4 rounded p-3 flex items-start gap-3 ${SEVERITY_CLASSES[a.severity]} ${a.state === 'resolved' ? 'opacity-60' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm font-bold">
+                  <span className="uppercase text-xs">{a.severity}</span>
+                  <span className="text-slate-200">{a.ruleName}</span>
+                  <span className="text-xs font-normal text-slate-500">{STATE_LABELS[a.state]}</span>
+                </div>
+                <div className="text-sm text-slate-300 mt-1">{a.message}</div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {new Date(a.raisedAt).toLocaleString('it-IT')}
+                  {a.resolvedAt && ` · risolto ${new Date(a.resolvedAt).toLocaleString('it-IT')}`}
+                </div>
+              </div>
+              {a.state === 'active' && (
+                <button onClick={() => onAcknowledge(a.id)} className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300" title="Prendi in carico"><Check size={12} /> Ack</button>
+              )}
+              {a.state !== 'resolved' && (
+                <button onClick={() => onResolve(a.id)} className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300" title="Segna come risolto"><CheckCheck size={12} /> Risolvi</button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-96 shrink-0 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-2 font-bold text-slate-200 shrink-0"><Bell size={18} className="text-indigo-400" /> Regole</div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {rules.map(r => (
+            <div key={r.id} className="bg-slate-900/60 border border-slate-700 rounded p-3 text-sm space-y-1">
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={r.enabled} onChange={e => updateRule(r.id, { enabled: e.target.checked })} className="accent-indigo-500" />
+                <span className="flex-1 font-medium text-slate-200">{r.name}</span>
+                <button onClick={() => onRulesChange(rules.filter(x => x.id !== r.id))} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+              </div>
+              <div className="text-xs text-slate-500">{RULE_KIND_LABELS[r.kind]} · {r.severity}</div>
+              <div className="flex gap-3 text-xs text-slate-400">
+                <label className="flex items-center gap-1"><input type="checkbox" checked={r.notifyBrowser} onChange={e => updateRule(r.id, { notifyBrowser: e.target.checked })} className="accent-indigo-500" /> Browser</label>
+                <label className="flex items-center gap-1"><input type="checkbox" checked={r.notifyWebhook} onChange={e => updateRule(r.id, { notifyWebhook: e.target.checked })} className="accent-indigo-500" /> Webhook</label>
+              </div>
+            </div>
+          ))}
+
+          <div className="border-t border-slate-700 pt-4 space-y-2">
+            <div className="text-xs font-bold text-slate-500 uppercase">Nuova regola</div>
+            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Nome (opzionale)" className={inputClass} />
+            <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as AlertRuleKind })} className={inputClass}>
+              {Object.entries(RULE_KIND_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+            </select>
+            {(draft.kind === 'device_offline' || draft.kind === 'latency_above') && (
+              <select value={draft.deviceIdentity || ''} onChange={e => setDraft({ ...draft, deviceIdentity: e.target.value || undefined })} className={inputClass}>
+                <option value="">Tutti i device</option>
+                {devices.map(d => <option key={d.id} value={getDeviceIdentity(d)}>{d.name} ({d.ip})</option>)}
+              </select>
+            )}
+            {draft.kind === 'device_offline' && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">Offline da almeno (s)
+                <input type="number" min={0} value={draft.durationSec} onChange={e => setDraft({ ...draft, durationSec: Number(e.target.value) })} className={`${inputClass} w-24`} />
+              </label>
+            )}
+            {draft.kind === 'latency_above' && (
+              <div className="flex gap-2">
+                <label className="flex-1 text-xs text-slate-400">Soglia (ms)
+                  <input type="number" min={1} value={draft.thresholdMs} onChange={e => setDraft({ ...draft, thresholdMs: Number(e.target.value) })} className={inputClass} />
+                </label>
+                <label className="flex-1 text-xs text-slate-400">Campioni
+                  <input type="number" min={1} value={draft.consecutiveSamples} onChange={e => setDraft({ ...draft, consecutiveSamples: Number(e.target.value) })} className={inputClass} />
+                </label>
+              </div>
+            )}
+            <select value={draft.severity} onChange={e => setDraft({ ...draft, severity: e.target.value as AlertSeverity })} className={inputClass}>
+              <option value="info">Info</option>
+              <option value="warning">Warning</option>
+              <option value="critical">Critical</option>
+            </select>
+            <button onClick={addRule} className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white py-2 rounded text-sm font-medium transition-colors"><Plus size={14} /> Aggiungi regola</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertCenter;
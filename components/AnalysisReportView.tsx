@@ -0,0 +1,88 @@
+import React from 'react';
+import { AnalysisFinding, AnalysisReport, NetworkDevice } from '../types';
+import FindingsList from './FindingsList';
+import MarkdownViewer from './MarkdownViewer';
+import { FileText, Play, Square, RefreshCw } from 'lucide-react';
+
+interface AnalysisReportViewProps {
+  report: AnalysisReport | null;
+  running: boolean;
+  error: string | null;
+  devices: NetworkDevice[];
+  localFindings: AnalysisFinding[]; // Regole locali, mostrate a parte quando il report è dell'IA
+  onRun: () => void;
+  onStop: () => void;
+  onSelectDevice: (deviceId: string) => void;
+  onShowOnMap: (finding: AnalysisFinding) => void;
+}
+
+const sectionTitle = "text-sm font-bold text-slate-300 uppercase tracking-wider mb-3";
+
+/**
+ * Report di analisi: sintesi, rilievi collegati ai device e raccomandazioni. Durante
+ * lo streaming le sezioni si riempiono man mano che il modello scrive.
+ */
+const AnalysisReportView: React.FC<AnalysisReportViewProps> = ({ report, running, error, devices, localFindings, onRun, onStop, onSelectDevice, onShowOnMap }) => (
+  <div className="h-full overflow-y-auto p-4 max-w-4xl mx-auto">
+    <div className="bg-slate-800 p-8 rounded-xl border border-slate-700 shadow-2xl space-y-8">
+      <div className="flex items-center gap-3 border-b border-slate-700 pb-4">
+        <FileText className="w-8 h-8 text-indigo-400" />
+        <h2 className="text-2xl font-bold text-slate-100 flex-1">Analisi Approfondita</h2>
+        {report && (
+          <span className="text-xs text-slate-500">
+            {report.source === 'local' ? 'Regole locali' : 'IA'} · {new Date(report.generatedAt).toLocaleString('it-IT')}
+          </span>
+        )}
+        {running ? (
+          <button onClick={onStop} className="flex items-center gap-2 px-4 py-2 rounded bg-red-600/20 text-red-300 hover:bg-red-600/40 text-sm font-bold"><Square size={14} /> Interrompi</button>
+        ) : (
+          <button onClick={onRun} disabled={devices.length === 0} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-bold transition-colors">
+            {report ? <RefreshCw size={14} /> : <Play size={14} />} {report ? 'Rigenera' : 'Genera analisi'}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {!report && !running && !error && (
+        <div className="text-center py-10 text-slate-500">Nessuna analisi disponibile.</div>
+      )}
+      {!report && running && (
+        <div className="text-center py-10 text-slate-400 flex items-center justify-center gap-2"><RefreshCw size={16} className="animate-spin" /> Analisi in corso...</div>
+      )}
+
+      {report && (
+        <>
+          <section>
+            <h3 className={sectionTitle}>Sintesi</h3>
+            <div className="bg-slate-900/50 p-6 rounded-lg border border-slate-700/50">
+              <MarkdownViewer text={report.summary} />
+              {running && <span className="inline-block w-2 h-4 bg-indigo-400 animate-pulse align-middle" />}
+            </div>
+          </section>
+          <section>
+            <h3 className={sectionTitle}>Rilievi</h3>
+            <FindingsList findings={report.findings} devices={devices} onSelectDevice={onSelectDevice} onShowOnMap={onShowOnMap} emptyText={running ? 'In attesa dei rilievi...' : 'Nessun rilievo.'} />
+          </section>
+          {report.recommendations.length > 0 && (
+            <section>
+              <h3 className={sectionTitle}>Raccomandazioni</h3>
+              <ol className="list-decimal pl-6 space-y-2">
+                {report.recommendations.map((r, i) => <li key={i} className="text-slate-300"><MarkdownViewer text={r} /></li>)}
+              </ol>
+            </section>
+          )}
+        </>
+      )}
+
+      {report?.source !== 'local' && (
+        <section>
+          <h3 className={sectionTitle}>Regole locali</h3>
+          <FindingsList findings={localFindings} devices={devices} onSelectDevice={onSelectDevice} onShowOnMap={onShowOnMap} />
+        </section>
+      )}
+    </div>
+  </div>
+);
+
+export default AnalysisReportView;
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, ChatConversation, ChatMessage, NetworkDevice, NetworkZone, WanTrace } from '../types';
+import { askAssistant } from '../services/aiService';
+import { ChatContext, conversationTitle, createChatMessage, createConversation, loadConversations, saveConversations } from '../services/chatAssistant';
+import { listSnapshots } from '../services/historyService';
+import { TopologyChange } from '../services/topologyEditing';
+import MarkdownViewer from './MarkdownViewer';
+import OptimizationReview from './OptimizationReview';
+import { MessageSquare, Send, Square, Trash2, Plus, Wrench, MapPin, RefreshCw } from 'lucide-react';
+
+interface ChatAssistantProps {
+  projectName: string; // Le conversazioni sono salvate per progetto
+  devices: NetworkDevice[];
+  zones: NetworkZone[];
+  traces: WanTrace[];
+  alerts: Alert[];
+  onApplyChanges: (changes: TopologyChange[]) => void;
+  onShowOnMap: (title: string, deviceIds: string[]) => void;
+  onSelectDevice: (deviceId: string) => void;
+}
+
+const SUGGESTIONS = [
+  'Quali device sono collegati allo switch principale?',
+  'Perché la stampante è in warning?',
+  'Proponi un piano VLAN per questa rete'
+];
+
+const MAX_DEVICE_CHIPS = 8;
+
+/**
+ * Assistente conversazionale sulla rete corrente: risponde usando device, storico
+ * delle scansioni e tracce WAN, evidenzia device sulla mappa e propone spostamenti
+ * che restano da accettare, come quelli dell'ottimizzazione.
+ */
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ projectName, devices, zones, traces, alerts, onApplyChanges, onShowOnMap, onSelectDevice }) => {
+  const [conversations, setConversations] = useState<ChatConversation[]>(() => loadConversations(projectName));
+  const [activeId, setActiveId] = useState<string | null>(() => conversations[0]?.id ?? null);
+  const [input, setInput] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Cambio progetto: si passa alle sue conversazioni e si annulla la domanda in corso
+  useEffect(() => {
+    abortRef.current?.abort();
+    const list = loadConversations(projectName);
+    setConversations(list);
+    setActiveId(list[0]?.id ?? null);
+    setError(null);
+  }, [projectName]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const active = conversations.find(c => c.id === activeId) ?? null;
+  const byId = useMemo(() => new Map(devices.map(d => [d.id, d])), [devices]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [active?.messages.length, running]);
+
+  const storeConversation = (conversation: ChatConversation) => {
+    setConversations(list => saveConversations(projectName, [conversation, ...list.filter(c => c.id !== conversation.id)]));
+    setActiveId(conversation.id);
+  };
+
+  const handleDelete = (id: string) => {
+    if (id === activeId) abortRef.current?.abort();
+    const next = saveConversations(projectName, conversations.filter(c => c.id !== id));
+    setConversations(next);
+    if (id === activeId) setActiveId(next[0]?.id ?? null);
+  };
+
+  const handleSend = async (text: string) => {
+    const question = text.trim();
+    if (!question || running) return;
+    const base = active ?? createConversation();
+    const history = base.messages;
+    const conversation: ChatConversation = {
+      ...base,
+      title: history.length === 0 ? conversationTitle(question) : base.title,
+      updatedAt: Date.now(),
+      messages: [...history, createChatMessage('user', question)]
+    };
+    storeConversation(conversation);
+    setInput('');
+    setError(null);
+    setRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const ctx: ChatContext = { devices, zones, traces, alerts, loadSnapshots: listSnapshots };
+    try {
+      const reply = await askAssistant(question, history, ctx, controller.signal);
+      if (!controller.signal.aborted) storeConversation({ ...conversation, updatedAt: Date.now(), messages: [...conversation.messages, ...reply] });
+    } catch (e: any) {
+      if (!controller.signal.aborted && e?.name !== 'AbortError') setError(`Assistente non disponibile: ${e?.message || String(e)}`);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend(input);
+    }
+  };
+
+  const renderToolMessage = (message: ChatMessage) => {
+    const involved = (message.deviceIds ?? []).map(id => byId.get(id)).filter((d): d is NetworkDevice => !!d);
+    // Proposta confrontata con i device correnti: le modifiche già accettate spariscono
+    const proposed = message.proposal && devices.map(d => {
+      const change = message.proposal!.find(c => c.deviceId === d.id);
+      return change ? { ...d, parentId: change.parentId, ...(change.type && { type: change.type }) } : d;
+    });
+    return (
+      <div key={message.id} className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          <Wrench size={12} className="shrink-0" />
+          <span>{message.content}</span>
+          {message.highlightTitle && involved.length > 0 && (
+            <button onClick={() => onShowOnMap(message.highlightTitle!, involved.map(d => d.id))} className="flex items-center gap-1 px-2 py-0.5 rounded text-indigo-300 hover:text-white hover:bg-indigo-600/40" title="Evidenzia i device sulla mappa"><MapPin size={12} /> Mappa</button>
+          )}
+        </div>
+        {involved.length > 0 && !proposed && (
+          <div className="flex flex-wrap gap-1 pl-5">
+            {involved.slice(0, MAX_DEVICE_CHIPS).map(d => (
+              <button key={d.id} onClick={() => onSelectDevice(d.id)} className="text-xs px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500" title={d.ip}>{d.name}</button>
+            ))}
+            {involved.length > MAX_DEVICE_CHIPS && <span className="text-xs text-slate-500 px-1">+{involved.length - MAX_DEVICE_CHIPS}</span>}
+          </div>
+        )}
+        {proposed && (
+          <div className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+            <OptimizationReview devices={devices} result={{ explanation: '', optimizedTopology: proposed }} onApply={onApplyChanges} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMessage = (message: ChatMessage) => {
+    if (message.role === 'tool') return renderToolMessage(message);
+    if (message.role === 'user') {
+      return (
+        <div key={message.id} className="flex justify-end">
+          <div className="max-w-[80%] bg-indigo-600 text-white rounded-lg px-4 py-2 text-sm whitespace-pre-wrap">{message.content}</div>
+        </div>
+      );
+    }
+    return (
+      <div key={message.id} className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-3">
+        <MarkdownViewer text={message.content} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex">
+      <aside className="w-64 shrink-0 border-r border-slate-800 bg-slate-900/50 flex flex-col">
+        <div className="p-3 border-b border-slate-800">
+          <button onClick={() => { setActiveId(null); setError(null); }} disabled={running} className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-3 py-2 rounded text-sm font-bold transition-colors"><Plus size={14} /> Nuova conversazione</button>
+        </div>
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {conversations.length === 0 && <li className="text-xs text-slate-500 p-2">Nessuna conversazione per {projectName ? `"${projectName}"` : 'questo progetto'}.</li>}
+          {conversations.map(c => (
+            <li key={c.id} className={`group flex items-center gap-1 rounded ${c.id === activeId ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}>
+              <button onClick={() => { if (!running) setActiveId(c.id); }} className="flex-1 min-w-0 text-left px-3 py-2">
+                <div className="text-sm text-slate-200 truncate">{c.title}</div>
+                <div className="text-[10px] text-slate-500">{new Date(c.updatedAt).toLocaleString('it-IT')}</div>
+              </button>
+              <button onClick={() => handleDelete(c.id)} className="p-1.5 mr-1 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100" title="Elimina conversazione"><Trash2 size={14} /></button>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-3xl mx-auto space-y-4">
+            {(!active || active.messages.length === 0) && (
+              <div className="text-center py-10 space-y-4">
+                <MessageSquare className="w-10 h-10 text-indigo-400 mx-auto" />
+                <p className="text-slate-400 text-sm">Chiedi qualcosa sulla rete: l'assistente usa i device, lo storico delle scansioni e le tracce WAN.</p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {SUGGESTIONS.map(s => (
+                    <button key={s} onClick={() => handleSend(s)} disabled={running || devices.length === 0} className="text-xs px-3 py-1.5 rounded-full border border-slate-700 text-slate-300 hover:border-indigo-500 hover:text-white disabled:opacity-50">{s}</button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {active?.messages.map(renderMessage)}
+            {running && <div className="flex items-center gap-2 text-sm text-slate-400"><RefreshCw size={14} className="animate-spin" /> L'assistente sta rispondendo...</div>}
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            <div ref={bottomRef} />
+          </div>
+        </div>
+
+        <div className="border-t border-slate-800 p-4">
+          <div className="max-w-3xl mx-auto flex items-end gap-2">
+            <textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              rows={2}
+              placeholder={devices.length === 0 ? 'Nessun device: esegui una scansione o importa dei dati.' : 'Scrivi una domanda (Invio per inviare, Maiusc+Invio per andare a capo)'}
+              className="flex-1 resize-none bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+            />
+            {running ? (
+              <button onClick={handleStop} className="flex items-center gap-2 px-4 py-2 rounded bg-red-600/20 text-red-300 hover:bg-red-600/40 text-sm font-bold"><Square size={14} /> Interrompi</button>
+            ) : (
+              <button onClick={() => handleSend(input)} disabled={!input.trim()} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-bold transition-colors"><Send size={14} /> Invia</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatAssistant;
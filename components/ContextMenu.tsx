@@ -1,15 +1,16 @@
 import React from 'react';
 import { ContextMenuPosition, NetworkDevice } from '../types';
-import { Search } from 'lucide-react';
+import { Search, Plus, Trash2, ClipboardList } from 'lucide-react';
 
 interface ContextMenuProps {
   position: ContextMenuPosition | null;
   device: NetworkDevice | undefined;
+  editable?: boolean; // Falso durante l'overlay storico: i device mostrati non sono quelli correnti
   onClose: () => void;
   onAction: (action: string, device: NetworkDevice) => void;
 }
 
-const ContextMenu: React.FC<ContextMenuProps> = ({ position, device, onClose, onAction }) => {
+const ContextMenu: React.FC<ContextMenuProps> = ({ position, device, editable = true, onClose, onAction }) => {
   if (!position || !device) return null;
 
   return (
@@ -39,12 +40,35 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ position, device, onClose, on
         >
           Visualizza Proprietà
         </button>
+        <button
+          onClick={() => onAction('inventory', device)}
+          className="w-full text-left px-4 py-2 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors flex items-center gap-2"
+        >
+          <ClipboardList size={14}/> Scheda Inventario
+        </button>
         <button
           onClick={() => onAction('trace', device)}
           className="w-full text-left px-4 py-2 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
         >
           Traccia Rotta (WAN)
         </button>
+        {editable && (
+          <>
+            <div className="border-t border-slate-700 my-1"></div>
+            <button
+              onClick={() => onAction('add_child', device)}
+              className="w-full text-left px-4 py-2 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors flex items-center gap-2"
+            >
+              <Plus size={14}/> Aggiungi Device a Valle
+            </button>
+            <button
+              onClick={() => onAction('delete', device)}
+              className="w-full text-left px-4 py-2 hover:bg-slate-700 text-red-400 hover:text-red-300 transition-colors flex items-center gap-2"
+            >
+              <Trash2 size={14}/> Elimina Dispositivo
+            </button>
+          </>
+        )}
         <div className="border-t border-slate-700 my-1"></div>
         {['HTTP', 'HTTPS', 'SSH', 'RDP'].map((proto) => (
           <button
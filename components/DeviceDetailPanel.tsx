@@ -0,0 +1,300 @@
+import React, { useMemo, useState } from 'react';
+import { NetworkDevice, NetworkZone, DeviceSample, CredentialProfile } from '../types';
+import { getDeviceIcon, STATUS_BADGES } from './DeviceTable';
+import Sparkline from './Sparkline';
+import MacBadge from './MacBadge';
+import { getUpstreamPath } from '../services/topologyEditing';
+import { getDeviceAddresses } from '../services/networkZones';
+import { LINK_MEDIA, formatSpeed } from '../services/topologyLinks';
+import { lookupVendor } from '../services/ouiService';
+import { describeEvidence, formatConfidence } from '../services/fingerprintService';
+import { PROBE_CATALOG } from '../services/probeService';
+import {
+  CONNECTION_PROTOCOLS,
+  ConnectionProtocol,
+  buildConnectionCommands,
+  createCredentialProfile,
+  launchConnection
+} from '../services/connectionService';
+import { X, SlidersHorizontal, ClipboardList, Activity, Copy, Check, ExternalLink, KeyRound, Plus, Trash2, ChevronRight } from 'lucide-react';
+
+interface DeviceDetailPanelProps {
+  device: NetworkDevice;
+  devices: NetworkDevice[];
+  zone: NetworkZone | null;
+  samples: DeviceSample[];
+  editable: boolean;
+  profiles: CredentialProfile[];
+  profileId: string | null; // Profilo assegnato al device
+  onAssignProfile: (profileId: string | null) => void;
+  onProfilesChange: (profiles: CredentialProfile[]) => void;
+  onSelectDevice: (device: NetworkDevice) => void;
+  onEdit: () => void;
+  onEditInventory: () => void;
+  onShowHistory: () => void;
+  onClose: () => void;
+}
+
+const probeLabel = (probeId: string) => PROBE_CATALOG.find(p => p.id === probeId)?.label ?? probeId;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="p-4 border-b border-slate-700/50">
+    <div className="text-xs font-bold text-slate-400 uppercase mb-2">{title}</div>
+    {children}
+  </div>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <dt className="text-slate-500">{label}</dt>
+    <dd className="text-slate-200 break-all">{children}</dd>
+  </>
+);
+
+/**
+ * Pannello laterale con tutti i dati di un device: campi, sonde, storico della
+ * latenza, percorso verso la radice e avvio delle connessioni.
+ */
+const DeviceDetailPanel: React.FC<DeviceDetailPanelProps> = ({
+  device, devices, zone, samples, editable, profiles, profileId,
+  onAssignProfile, onProfilesChange, onSelectDevice, onEdit, onEditInventory, onShowHistory, onClose
+}) => {
+  const [copied, setCopied] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<CredentialProfile | null>(null);
+
+  const profile = profiles.find(p => p.id === profileId);
+  const upstream = useMemo(() => getUpstreamPath(devices, device.id), [devices, device.id]);
+  const commands = buildConnectionCommands(device, profile);
+  const addresses = getDeviceAddresses(device).filter(a => a !== device.ip);
+  const vendor = lookupVendor(device.mac)?.vendor;
+  const latencies = samples.filter(s => s.online && s.latency !== undefined).map(s => s.latency!);
+  const onlineRatio = samples.length > 0 ? samples.filter(s => s.online).length / samples.length : null;
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(c => (c === key ? null : c)), 1500);
+    } catch {
+      window.prompt('Copia il comando:', text);
+    }
+  };
+
+  const saveProfile = () => {
+    if (!editingProfile || !editingProfile.name.trim()) return;
+    const exists = profiles.some(p => p.id === editingProfile.id);
+    onProfilesChange(exists ? profiles.map(p => (p.id === editingProfile.id ? editingProfile : p)) : [...profiles, editingProfile]);
+    onAssignProfile(editingProfile.id);
+    setEditingProfile(null);
+  };
+
+  const deleteProfile = (target: CredentialProfile) => {
+    if (!window.confirm(`Eliminare il profilo "${target.name}"? Verrà rimosso da tutti i device che lo usano.`)) return;
+    onProfilesChange(profiles.filter(p => p.id !== target.id));
+  };
+
+  const setProfileField = <K extends keyof CredentialProfile>(key: K, value: CredentialProfile[K]) =>
+    setEditingProfile(p => (p ? { ...p, [key]: value } : p));
+  const parsePort = (value: string) => {
+    const port = Number(value);
+    return Number.isInteger(port) && port > 0 && port <= 65535 ? port : undefined;
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside className="w-full max-w-md h-full bg-slate-800 border-l border-slate-700 shadow-2xl flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3">
+          {getDeviceIcon(device.type)}
+          <div className="flex-1 min-w-0">
+            <div className="font-bold text-slate-200 truncate">{device.name || device.ip}</div>
+            <div className="text-xs text-slate-500 font-mono">{device.ip}</div>
+          </div>
+          <span className={`px-2 py-1 rounded-full text-xs font-bold border ${STATUS_BADGES[device.status].className}`}>{STATUS_BADGES[device.status].label}</span>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="flex gap-2 p-3 border-b border-slate-700">
+          {editable && (
+            <button onClick={onEdit} className="flex items-center gap-1 px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200"><SlidersHorizontal size={12} /> Modifica</button>
+          )}
+          <button onClick={onEditInventory} className="flex items-center gap-1 px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200"><ClipboardList size={12} /> Inventario</button>
+          <button onClick={onShowHistory} className="flex items-center gap-1 px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200"><Activity size={12} /> Storico</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto text-sm">
+          <Section title="Dispositivo">
+            <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1">
+              <Field label="Tipo">{device.type}{device.typeLocked && <span className="ml-2 text-xs text-slate-500">(manuale)</span>}</Field>
+              <Field label="MAC"><span className="font-mono">{device.mac || '—'}</span><MacBadge mac={device.mac} /></Field>
+              <Field label="Produttore">{device.manufacturer || vendor || '—'}</Field>
+              {device.os && <Field label="Sistema">{device.os}</Field>}
+              <Field label="Latenza">{device.latency !== undefined ? `${device.latency} ms` : '—'}</Field>
+              <Field label="Zona">{zone ? <span style={{ color: zone.color }}>{zone.name}</span> : '—'}</Field>
+              {device.vlanId !== undefined && <Field label="VLAN">{device.vlanId}</Field>}
+              {addresses.length > 0 && <Field label="Altri IP"><span className="font-mono">{addresses.join(', ')}</span></Field>}
+              {device.uplink && (
+                <Field label="Uplink">
+                  {LINK_MEDIA[device.uplink.medium].label} {formatSpeed(device.uplink.speedMbps)}
+                  {(device.uplink.localPort || device.uplink.remotePort) && <span className="text-slate-500 font-mono"> {device.uplink.localPort || '?'} → {device.uplink.remotePort || '?'}</span>}
+                </Field>
+              )}
+              {device.fingerprint && device.fingerprint.evidence.length > 0 && (
+                <Field label="Rilevamento">{device.fingerprint.type} · {formatConfidence(device.fingerprint.confidence)}</Field>
+              )}
+            </dl>
+            {device.fingerprint && device.fingerprint.evidence.length > 0 && (
+              <ul className="mt-2 text-xs text-slate-400 list-disc list-inside">
+                {device.fingerprint.evidence.map(e => <li key={e.ruleId}>{describeEvidence(e)}</li>)}
+              </ul>
+            )}
+          </Section>
+
+          {device.interfaces && device.interfaces.length > 0 && (
+            <Section title="Interfacce">
+              {device.interfaces.map(i => (
+                <div key={i.name} className="flex justify-between text-xs py-0.5">
+                  <span className="font-mono text-slate-300">{i.name}{i.vlanId !== undefined && <span className="text-slate-500"> · VLAN {i.vlanId}</span>}</span>
+                  <span className="font-mono text-slate-400">{i.addresses.join(', ') || '—'}</span>
+                </div>
+              ))}
+            </Section>
+          )}
+
+          <Section title="Sonde e servizi">
+            {(device.probes || []).length === 0 && (device.services || []).length === 0 && !device.httpBanners?.length
+              ? <div className="text-xs text-slate-500">Nessuna sonda eseguita su questo device.</div>
+              : (
+                <div className="space-y-1 text-xs">
+                  {(device.probes || []).map(p => (
+                    <div key={p.probeId} className="flex items-center gap-2">
+                      <span className={p.open ? 'text-emerald-400' : p.responded ? 'text-amber-400' : 'text-slate-600'}>●</span>
+                      <span className="text-slate-300 flex-1">{probeLabel(p.probeId)}</span>
+                      <span className="text-slate-500 truncate max-w-[10rem]" title={p.detail}>{p.detail}</span>
+                      <span className="font-mono text-slate-400 w-14 text-right">{p.latency !== undefined ? `${p.latency} ms` : '—'}</span>
+                    </div>
+                  ))}
+                  {(device.services || []).map(s => (
+                    <div key={`${s.protocol}-${s.port}`} className="flex items-center gap-2">
+                      <span className="font-mono text-indigo-300 w-20">{s.port}/{s.protocol}</span>
+                      <span className="text-slate-300">{s.name || '?'}</span>
+                      {s.product && <span className="text-slate-500 truncate">{s.product}</span>}
+                    </div>
+                  ))}
+                  {(device.httpBanners || []).map(b => (
+                    <div key={b.port} className="flex items-center gap-2">
+                      <span className="font-mono text-indigo-300 w-20">:{b.port}</span>
+                      <span className="text-slate-300 truncate">{[b.server, b.title && `"${b.title}"`].filter(Boolean).join(' · ')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+          </Section>
+
+          <Section title="Latenza recente">
+            {samples.length === 0
+              ? <div className="text-xs text-slate-500">Nessun campione: avvia il monitoraggio per raccogliere lo storico.</div>
+              : (
+                <div className="flex items-center gap-4">
+                  <Sparkline samples={samples} width={180} height={32} />
+                  <div className="text-xs text-slate-400 space-y-0.5">
+                    {latencies.length > 0 && <div>min {Math.min(...latencies)} / max {Math.max(...latencies)} ms</div>}
+                    {onlineRatio !== null && <div>online {Math.round(onlineRatio * 100)}% di {samples.length}</div>}
+                  </div>
+                </div>
+              )}
+          </Section>
+
+          <Section title="Percorso a monte">
+            {upstream.length === 0
+              ? <div className="text-xs text-slate-500">{device.parentId ? 'Padre non trovato.' : 'Device radice della topologia.'}</div>
+              : (
+                <ol className="space-y-1">
+                  {upstream.map((hop, i) => (
+                    <li key={hop.id}>
+                      <button onClick={() => onSelectDevice(hop)} className="w-full flex items-center gap-2 text-left px-2 py-1 rounded hover:bg-slate-700/50">
+                        <span className="text-xs text-slate-600 w-4">{i + 1}</span>
+                        {getDeviceIcon(hop.type)}
+                        <span className="flex-1 text-slate-200 truncate">{hop.name || hop.ip}</span>
+                        <span className="font-mono text-xs text-slate-500">{hop.ip}</span>
+                        <ChevronRight size={12} className="text-slate-600" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+          </Section>
+
+          <Section title="Connessione">
+            <div className="flex items-center gap-2 mb-3">
+              <KeyRound size={14} className="text-slate-500" />
+              <select value={profileId ?? ''} onChange={e => onAssignProfile(e.target.value || null)} className={inputClass}>
+                <option value="">Nessun profilo</option>
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.username ? ` (${p.username})` : ''}</option>)}
+              </select>
+              {profile && <button onClick={() => setEditingProfile(profile)} className="text-xs text-indigo-400 hover:text-indigo-300">Modifica</button>}
+              {profile && <button onClick={() => deleteProfile(profile)} className="text-slate-500 hover:text-red-400" title="Elimina profilo"><Trash2 size={14} /></button>}
+              <button onClick={() => setEditingProfile(createCredentialProfile(''))} className="text-indigo-400 hover:text-indigo-300" title="Nuovo profilo"><Plus size={14} /></button>
+            </div>
+
+            {editingProfile && (
+              <div className="grid grid-cols-2 gap-2 p-3 mb-3 rounded border border-slate-700 bg-slate-900/50 text-xs">
+                <input value={editingProfile.name} onChange={e => setProfileField('name', e.target.value)} placeholder="Nome profilo" className={`${inputClass} col-span-2`} autoFocus />
+                <input value={editingProfile.username ?? ''} onChange={e => setProfileField('username', e.target.value || undefined)} placeholder="Utente" className={inputClass} />
+                <input value={editingProfile.domain ?? ''} onChange={e => setProfileField('domain', e.target.value || undefined)} placeholder="Dominio (RDP)" className={inputClass} />
+                <input value={editingProfile.sshPort ?? ''} onChange={e => setProfileField('sshPort', parsePort(e.target.value))} placeholder="Porta SSH" className={`${inputClass} font-mono`} />
+                <input value={editingProfile.rdpPort ?? ''} onChange={e => setProfileField('rdpPort', parsePort(e.target.value))} placeholder="Porta RDP" className={`${inputClass} font-mono`} />
+                <input value={editingProfile.identityFile ?? ''} onChange={e => setProfileField('identityFile', e.target.value || undefined)} placeholder="Chiave SSH (es. ~/.ssh/id_ed25519)" className={`${inputClass} col-span-2 font-mono`} />
+                <p className="col-span-2 text-slate-500">Le password non vengono salvate: le chiede il client al momento della connessione.</p>
+                <div className="col-span-2 flex justify-end gap-2">
+                  <button onClick={() => setEditingProfile(null)} className="px-3 py-1 text-slate-400 hover:text-white">Annulla</button>
+                  <button onClick={saveProfile} disabled={!editingProfile.name.trim()} className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold">Salva profilo</button>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-4 gap-2 mb-3">
+              {CONNECTION_PROTOCOLS.map((protocol: ConnectionProtocol) => (
+                <button
+                  key={protocol}
+                  onClick={() => launchConnection(device, protocol, profile)}
+                  className="flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-indigo-600/20 border border-indigo-500/40 text-indigo-300 hover:bg-indigo-600/40 text-xs font-bold"
+                  title={protocol === 'RDP' ? 'Scarica un file .rdp' : protocol === 'SSH' ? 'Apre il client ssh:// registrato nel sistema' : 'Apre una nuova scheda'}
+                >
+                  <ExternalLink size={12} /> {protocol}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              {commands.map(c => (
+                <div key={c.label} className="flex items-center gap-2">
+                  <span className="text-xs text-slate-500 w-24 shrink-0">{c.label}</span>
+                  <code className="flex-1 text-xs font-mono text-slate-300 bg-slate-900 rounded px-2 py-1 truncate" title={c.command}>{c.command}</code>
+                  <button onClick={() => copy(c.label, c.command)} className="text-slate-500 hover:text-white" title="Copia">
+                    {copied === c.label ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          {device.inventory && (
+            <Section title="Inventario">
+              <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1">
+                {device.inventory.tags.length > 0 && <Field label="Tag">{device.inventory.tags.map(t => `#${t}`).join(' ')}</Field>}
+                {device.inventory.owner && <Field label="Responsabile">{device.inventory.owner}</Field>}
+                {device.inventory.location && <Field label="Ubicazione">{device.inventory.location}</Field>}
+                {device.inventory.rack && <Field label="Rack">{device.inventory.rack}</Field>}
+                {device.inventory.notes && <Field label="Note"><span className="whitespace-pre-wrap">{device.inventory.notes}</span></Field>}
+              </dl>
+            </Section>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default DeviceDetailPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { NetworkDevice, DeviceSample } from '../types';
+import { getDeviceSamples, computeUptime, formatUptime, UPTIME_WINDOWS } from '../services/monitorService';
+import { getDeviceIdentity } from '../services/deviceIdentity';
+import { Activity, X } from 'lucide-react';
+
+interface DeviceHistoryChartProps {
+  device: NetworkDevice;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 260;
+const MARGIN = { top: 16, right: 16, bottom: 28, left: 48 };
+
+const DeviceHistoryChart: React.FC<DeviceHistoryChartProps> = ({ device, onClose }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [samples, setSamples] = useState<DeviceSample[]>([]);
+  const [windowKey, setWindowKey] = useState<typeof UPTIME_WINDOWS[number]['key']>('24h');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    const maxWindow = UPTIME_WINDOWS[UPTIME_WINDOWS.length - 1].ms;
+    getDeviceSamples(getDeviceIdentity(device), Date.now() - maxWindow)
+      .then(setSamples)
+      .catch(e => console.warn("Storico campioni non disponibile", e))
+      .finally(() => setLoading(false));
+  }, [device]);
+
+  // D3 Logic
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const windowMs = UPTIME_WINDOWS.find(w => w.key === windowKey)!.ms;
+    const now = Date.now();
+    const visible = samples.filter(s => s.timestamp >= now - windowMs);
+    if (visible.length === 0) return;
+
+    const x = d3.scaleTime()
+      .domain([new Date(now - windowMs), new Date(now)])
+      .range([MARGIN.left, CHART_WIDTH - MARGIN.right]);
+    const y = d3.scaleLinear()
+      .domain([0, Math.max(10, d3.max(visible, s => s.latency ?? 0) ?? 10)])
+      .nice()
+      .range([CHART_HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0,${CHART_HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(6))
+      .attr("color", "#64748b");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(5).tickFormat(v => `${v} ms`))
+      .attr("color", "#64748b");
+
+    // Periodi offline come bande rosse verticali
+    svg.selectAll(".offline")
+      .data(visible.filter(s => !s.online))
+      .enter().append("rect")
+      .attr("x", s => x(new Date(s.timestamp)) - 1)
+      .attr("y", MARGIN.top)
+      .attr("width", 2)
+      .attr("height", CHART_HEIGHT - MARGIN.top - MARGIN.bottom)
+      .attr("fill", "#ef4444")
+      .attr("opacity", 0.5);
+
+    const line = d3.line<DeviceSample>()
+      .defined(s => s.online && s.latency !== undefined)
+      .x(s => x(new Date(s.timestamp)))
+      .y(s => y(s.latency ?? 0));
+
+    svg.append("path")
+      .datum(visible)
+      .attr("fill", "none")
+      .attr("stroke", "#34d399")
+      .attr("stroke-width", 1.5)
+      .attr("d", line);
+  }, [samples, windowKey]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-2xl w-full max-w-3xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3">
+          <Activity className="text-emerald-400" size={18} />
+          <div className="flex-1">
+            <div className="font-bold text-slate-200">{device.name}</div>
+            <div className="text-xs text-slate-500 font-mono">{device.ip}</div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {UPTIME_WINDOWS.map(w => (
+              <button
+                key={w.key}
+                onClick={() => setWindowKey(w.key)}
+                className={`p-3 rounded border text-left transition-colors ${windowKey === w.key ? 'border-indigo-500 bg-indigo-900/30' : 'border-slate-700 bg-slate-900 hover:border-slate-500'}`}
+              >
+                <div className="text-xs text-slate-500 uppercase">Uptime {w.label}</div>
+                <div className="text-xl font-bold text-slate-100">{formatUptime(computeUptime(samples, w.ms))}</div>
+              </button>
+            ))}
+          </div>
+          <div className="bg-slate-900 rounded border border-slate-700 overflow-x-auto">
+            {loading && <div className="p-8 text-center text-slate-500 text-sm">Caricamento...</div>}
+            {!loading && samples.length === 0 && <div className="p-8 text-center text-slate-500 text-sm">Nessun campione: attiva il monitoraggio continuo.</div>}
+            <svg ref={svgRef} width={CHART_WIDTH} height={CHART_HEIGHT} className={samples.length ? 'block' : 'hidden'} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceHistoryChart;
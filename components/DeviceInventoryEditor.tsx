@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { NetworkDevice, InventoryRecord, InventoryFieldDefinition } from '../types';
+import { emptyInventoryRecord, parseTags, createInventoryField } from '../services/inventoryService';
+import { ClipboardList, Save, X, Plus, Trash2 } from 'lucide-react';
+
+interface DeviceInventoryEditorProps {
+  device: NetworkDevice;
+  fields: InventoryFieldDefinition[];
+  onSave: (record: InventoryRecord) => void;
+  onFieldsChange: (fields: InventoryFieldDefinition[]) => void;
+  onClose: () => void;
+}
+
+const DeviceInventoryEditor: React.FC<DeviceInventoryEditorProps> = ({ device, fields, onSave, onFieldsChange, onClose }) => {
+  const [draft, setDraft] = useState<InventoryRecord>(() => device.inventory ?? emptyInventoryRecord(device));
+  // I tag si scrivono come testo libero e si separano al salvataggio
+  const [tagText, setTagText] = useState(draft.tags.join(', '));
+  const [newField, setNewField] = useState('');
+
+  const set = <K extends keyof InventoryRecord>(key: K, value: InventoryRecord[K]) => setDraft(d => ({ ...d, [key]: value }));
+  const setCustom = (id: string, value: string) => setDraft(d => ({ ...d, customFields: { ...d.customFields, [id]: value } }));
+
+  const addField = () => {
+    if (!newField.trim()) return;
+    onFieldsChange([...fields, createInventoryField(newField)]);
+    setNewField('');
+  };
+
+  const removeField = (field: InventoryFieldDefinition) => {
+    if (!window.confirm(`Eliminare il campo "${field.label}" da tutte le schede? I valori già inseriti non saranno più visibili.`)) return;
+    onFieldsChange(fields.filter(f => f.id !== field.id));
+  };
+
+  const handleSave = () => {
+    // Solo i valori dei campi ancora definiti, senza stringhe vuote
+    const customFields = Object.fromEntries(
+      fields.map(f => [f.id, (draft.customFields[f.id] || '').trim()]).filter(([, v]) => v)
+    );
+    onSave({ ...draft, tags: parseTags(tagText), customFields, updatedAt: Date.now() });
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3">
+          <ClipboardList className="text-indigo-400" size={18} />
+          <div className="flex-1">
+            <div className="font-bold text-slate-200">Inventario · {device.name}</div>
+            <div className="text-xs text-slate-500 font-mono">{draft.identity}</div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+        <div className="p-6 grid grid-cols-2 gap-4 overflow-y-auto">
+          <div className="col-span-2">
+            <label className={labelClass}>Tag</label>
+            <input value={tagText} onChange={e => setTagText(e.target.value)} placeholder="es. contabilità, critico" className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className={labelClass}>Responsabile</label>
+            <input value={draft.owner ?? ''} onChange={e => set('owner', e.target.value || undefined)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Data di acquisto</label>
+            <input type="date" value={draft.purchaseDate ?? ''} onChange={e => set('purchaseDate', e.target.value || undefined)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Ubicazione</label>
+            <input value={draft.location ?? ''} onChange={e => set('location', e.target.value || undefined)} placeholder="es. Sede Milano, 2° piano" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Rack</label>
+            <input value={draft.rack ?? ''} onChange={e => set('rack', e.target.value || undefined)} placeholder="es. R2 U14" className={`${inputClass} font-mono`} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Note</label>
+            <textarea value={draft.notes ?? ''} onChange={e => set('notes', e.target.value || undefined)} rows={3} className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Campi personalizzati</label>
+            <div className="space-y-2">
+              {fields.map(f => (
+                <div key={f.id} className="grid grid-cols-12 gap-2 items-center">
+                  <span className="col-span-4 text-sm text-slate-300 truncate" title={f.label}>{f.label}</span>
+                  <input value={draft.customFields[f.id] ?? ''} onChange={e => setCustom(f.id, e.target.value)} className={`${inputClass} col-span-7`} />
+                  <button onClick={() => removeField(f)} className="col-span-1 flex justify-center text-slate-500 hover:text-red-400" title="Elimina campo"><Trash2 size={14} /></button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <input value={newField} onChange={e => setNewField(e.target.value)} onKeyDown={e => e.key === 'Enter' && addField()} placeholder="Nuovo campo (es. Numero di serie)" className={inputClass} />
+                <button onClick={addField} className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 whitespace-nowrap"><Plus size={12} /> Aggiungi</button>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div className="p-4 border-t border-slate-700 bg-slate-900 flex items-center gap-2">
+          <div className="flex-1 text-xs text-slate-500">
+            {device.inventory ? `Aggiornata il ${new Date(device.inventory.updatedAt).toLocaleString('it-IT')}` : 'Nuova scheda'}
+          </div>
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm text-slate-400 hover:text-white transition-colors">Annulla</button>
+          <button onClick={handleSave} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-bold text-sm transition-colors"><Save size={14} /> Salva</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceInventoryEditor;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { NetworkDevice, DeviceType, DeviceLink, LinkMedium, LinkProperties, NetworkZone, DeviceInterface } from '../types';
+import { getParentCandidates } from '../services/topologyEditing';
+import { ipToInt } from '../services/scanTargets';
+import { LINK_MEDIA, LINK_MEDIUM_IDS } from '../services/topologyLinks';
+import { isValidVlanId, isValidInterfaceAddress, resolveDeviceZone } from '../services/networkZones';
+import { describeEvidence, formatConfidence } from '../services/fingerprintService';
+import { Save, Trash2, X, SlidersHorizontal, Plus } from 'lucide-react';
+
+interface DevicePropertiesEditorProps {
+  device: NetworkDevice;
+  devices: NetworkDevice[];
+  zones: NetworkZone[];
+  isNew: boolean;
+  onSave: (device: NetworkDevice) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const DevicePropertiesEditor: React.FC<DevicePropertiesEditorProps> = ({ device, devices, zones, isNew, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<NetworkDevice>(device);
+  const [error, setError] = useState<string | null>(null);
+
+  // Solo padri che non creano cicli: il device stesso e i suoi discendenti sono esclusi
+  const parentOptions = getParentCandidates(devices, isNew ? null : device.id);
+
+  const set = <K extends keyof NetworkDevice>(key: K, value: NetworkDevice[K]) => setDraft(d => ({ ...d, [key]: value }));
+
+  const uplink: LinkProperties = draft.uplink ?? { medium: 'ethernet' };
+  const setUplink = (patch: Partial<LinkProperties>) => set('uplink', { ...uplink, ...patch });
+
+  const links = draft.links ?? [];
+  const peerOptions = devices.filter(d => d.id !== draft.id);
+  const setLink = (index: number, patch: Partial<DeviceLink>) => set('links', links.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  const addLink = () => {
+    const peer = peerOptions.find(d => d.id !== draft.parentId && !links.some(l => l.peerId === d.id)) ?? peerOptions[0];
+    if (peer) set('links', [...links, { peerId: peer.id, medium: 'ethernet' }]);
+  };
+  const removeLink = (index: number) => set('links', links.filter((_, i) => i !== index));
+  const parseSpeed = (value: string) => (Number(value) > 0 ? Number(value) : undefined);
+  const parseVlan = (value: string) => (value.trim() ? Number(value) : undefined);
+
+  // Gli indirizzi delle interfacce si scrivono come testo libero e si separano al salvataggio
+  const interfaces = draft.interfaces ?? [];
+  const [addressText, setAddressText] = useState<string[]>(() => interfaces.map(i => i.addresses.join(', ')));
+  const setInterface = (index: number, patch: Partial<DeviceInterface>) => set('interfaces', interfaces.map((itf, i) => (i === index ? { ...itf, ...patch } : itf)));
+  const addInterface = () => {
+    set('interfaces', [...interfaces, { name: `eth${interfaces.length + 1}`, addresses: [] }]);
+    setAddressText(t => [...t, '']);
+  };
+  const removeInterface = (index: number) => {
+    set('interfaces', interfaces.filter((_, i) => i !== index));
+    setAddressText(t => t.filter((_, i) => i !== index));
+  };
+  const autoZone = resolveDeviceZone({ ...draft, zoneId: undefined }, zones);
+
+  const handleSave = () => {
+    setError(null);
+    if (!draft.name.trim()) return setError("Il nome è obbligatorio.");
+    if (draft.ip && ipToInt(draft.ip) === null) return setError(`IP "${draft.ip}" non valido.`);
+    if (draft.ip && devices.some(d => d.id !== draft.id && d.ip === draft.ip)) return setError(`L'IP ${draft.ip} è già assegnato a un altro device.`);
+    if (links.some(l => l.peerId === draft.parentId)) return setError("Un collegamento aggiuntivo duplica il collegamento a monte.");
+    if (draft.vlanId !== undefined && !isValidVlanId(draft.vlanId)) return setError(`VLAN ${draft.vlanId} non valida (1-4094).`);
+    const parsedInterfaces = interfaces.map((itf, i) => ({
+      ...itf,
+      name: itf.name.trim(),
+      addresses: (addressText[i] || '').split(/[\s,;]+/).map(a => a.trim()).filter(Boolean)
+    }));
+    for (const itf of parsedInterfaces) {
+      if (itf.vlanId !== undefined && !isValidVlanId(itf.vlanId)) return setError(`Interfaccia ${itf.name}: VLAN ${itf.vlanId} non valida (1-4094).`);
+      const invalid = itf.addresses.find(a => !isValidInterfaceAddress(a));
+      if (invalid) return setError(`Interfaccia ${itf.name}: indirizzo "${invalid}" non valido.`);
+    }
+    const isDefaultUplink = uplink.medium === 'ethernet' && !uplink.speedMbps && !uplink.localPort && !uplink.remotePort;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      ip: draft.ip.trim(),
+      uplink: draft.parentId && !isDefaultUplink ? uplink : undefined,
+      links: links.length ? links : undefined,
+      interfaces: parsedInterfaces.length ? parsedInterfaces : undefined
+    });
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3">
+          <SlidersHorizontal className="text-indigo-400" size={18} />
+          <div className="flex-1 font-bold text-slate-200">{isNew ? 'Nuovo dispositivo' : 'Proprietà dispositivo'}</div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+        <div className="p-6 grid grid-cols-2 gap-4 overflow-y-auto">
+          <div className="col-span-2">
+            <label className={labelClass}>Nome</label>
+            <input value={draft.name} onChange={e => set('name', e.target.value)} className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className={labelClass}>IP</label>
+            <input value={draft.ip} onChange={e => set('ip', e.target.value)} placeholder="Nessuno (non gestito)" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>MAC</label>
+            <input value={draft.mac} onChange={e => set('mac', e.target.value)} className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Tipo</label>
+            {/* Un tipo scelto a mano non viene più modificato dal riconoscimento automatico */}
+            <select value={draft.type} onChange={e => setDraft(d => ({ ...d, type: e.target.value as DeviceType, typeLocked: true }))} className={inputClass}>
+              {Object.values(DeviceType).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Stato</label>
+            <select value={draft.status} onChange={e => set('status', e.target.value as NetworkDevice['status'])} className={inputClass}>
+              <option value="online">Online</option>
+              <option value="warning">Lento</option>
+              <option value="offline">Offline</option>
+            </select>
+          </div>
+          {draft.fingerprint && draft.fingerprint.evidence.length > 0 && (
+            <div className="col-span-2 bg-slate-900/60 border border-slate-700 rounded p-3 text-xs space-y-1">
+              <div className="flex items-center gap-2 text-slate-300">
+                <span className="flex-1">Riconosciuto come <b>{draft.fingerprint.type}</b> · affidabilità {formatConfidence(draft.fingerprint.confidence)}</span>
+                {draft.typeLocked && (
+                  <button onClick={() => setDraft(d => ({ ...d, type: d.fingerprint!.type, typeLocked: undefined }))} className="text-indigo-400 hover:text-indigo-300">Usa tipo rilevato</button>
+                )}
+              </div>
+              {draft.fingerprint.evidence.map(e => <div key={e.ruleId} className="text-slate-500">{describeEvidence(e)}</div>)}
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>VLAN</label>
+            <input type="number" min={1} max={4094} value={draft.vlanId ?? ''} onChange={e => set('vlanId', parseVlan(e.target.value))} placeholder="Nessuna" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Zona</label>
+            <select value={draft.zoneId ?? ''} onChange={e => set('zoneId', e.target.value || undefined)} className={inputClass}>
+              <option value="">Automatica{autoZone ? ` (${autoZone.name})` : ' (nessuna)'}</option>
+              {zones.map(z => <option key={z.id} value={z.id}>{z.name}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Produttore</label>
+            <input value={draft.manufacturer} onChange={e => set('manufacturer', e.target.value)} className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Collegato a (a monte)</label>
+            <select value={draft.parentId ?? ''} onChange={e => set('parentId', e.target.value || null)} className={inputClass}>
+              <option value="">— Nessuno (radice) —</option>
+              {parentOptions.map(d => <option key={d.id} value={d.id}>{d.name}{d.ip ? ` (${d.ip})` : ''}</option>)}
+            </select>
+          </div>
+          {draft.parentId && (
+            <div className="col-span-2 grid grid-cols-4 gap-2">
+              <div>
+                <label className={labelClass}>Mezzo</label>
+                <select value={uplink.medium} onChange={e => setUplink({ medium: e.target.value as LinkMedium })} className={inputClass}>
+                  {LINK_MEDIUM_IDS.map(m => <option key={m} value={m}>{LINK_MEDIA[m].label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Mbps</label>
+                <input type="number" min={1} value={uplink.speedMbps ?? ''} onChange={e => setUplink({ speedMbps: parseSpeed(e.target.value) })} placeholder="—" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Porta locale</label>
+                <input value={uplink.localPort ?? ''} onChange={e => setUplink({ localPort: e.target.value || undefined })} placeholder="eth0" className={`${inputClass} font-mono`} />
+              </div>
+              <div>
+                <label className={labelClass}>Porta a monte</label>
+                <input value={uplink.remotePort ?? ''} onChange={e => setUplink({ remotePort: e.target.value || undefined })} placeholder="Gi1/0/1" className={`${inputClass} font-mono`} />
+              </div>
+            </div>
+          )}
+          <div className="col-span-2">
+            <div className="flex items-center justify-between mb-1">
+              <label className={labelClass}>Interfacce aggiuntive</label>
+              <button onClick={addInterface} className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"><Plus size={12} /> Aggiungi</button>
+            </div>
+            {interfaces.length === 0 && <div className="text-xs text-slate-500">Nessuna: aggiungi SVI, trunk o IP secondari (es. 10.0.20.1/24).</div>}
+            <div className="space-y-2">
+              {interfaces.map((itf, i) => (
+                <div key={i} className="grid grid-cols-12 gap-1 items-center">
+                  <input value={itf.name} onChange={e => setInterface(i, { name: e.target.value })} placeholder="Nome" className={`${inputClass} col-span-3 px-1 font-mono`} />
+                  <input type="number" min={1} max={4094} value={itf.vlanId ?? ''} onChange={e => setInterface(i, { vlanId: parseVlan(e.target.value) })} placeholder="VLAN" className={`${inputClass} col-span-2 px-1`} />
+                  <input value={addressText[i] ?? ''} onChange={e => setAddressText(t => t.map((v, j) => (j === i ? e.target.value : v)))} placeholder="10.0.20.1/24, 10.0.21.1/24" className={`${inputClass} col-span-6 px-1 font-mono`} />
+                  <button onClick={() => removeInterface(i)} className="col-span-1 flex justify-center text-slate-500 hover:text-red-400" title="Rimuovi interfaccia"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="col-span-2">
+            <div className="flex items-center justify-between mb-1">
+              <label className={labelClass}>Collegamenti aggiuntivi</label>
+              <button onClick={addLink} disabled={peerOptions.length === 0} className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-40"><Plus size={12} /> Aggiungi</button>
+            </div>
+            {links.length === 0 && <div className="text-xs text-slate-500">Nessuno: aggiungi uplink ridondanti, LAG o tunnel VPN.</div>}
+            <div className="space-y-2">
+              {links.map((l, i) => (
+                <div key={i} className="grid grid-cols-12 gap-1 items-center">
+                  <select value={l.peerId} onChange={e => setLink(i, { peerId: e.target.value })} className={`${inputClass} col-span-4`}>
+                    {peerOptions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                  <select value={l.medium} onChange={e => setLink(i, { medium: e.target.value as LinkMedium })} className={`${inputClass} col-span-2 px-1`}>
+                    {LINK_MEDIUM_IDS.map(m => <option key={m} value={m}>{LINK_MEDIA[m].label}</option>)}
+                  </select>
+                  <input type="number" min={1} value={l.speedMbps ?? ''} onChange={e => setLink(i, { speedMbps: parseSpeed(e.target.value) })} placeholder="Mbps" className={`${inputClass} col-span-2 px-1`} />
+                  <input value={l.localPort ?? ''} onChange={e => setLink(i, { localPort: e.target.value || undefined })} placeholder="Locale" className={`${inputClass} col-span-1 px-1 font-mono`} />
+                  <input value={l.remotePort ?? ''} onChange={e => setLink(i, { remotePort: e.target.value || undefined })} placeholder="Remota" className={`${inputClass} col-span-2 px-1 font-mono`} />
+                  <button onClick={() => removeLink(i)} className="col-span-1 flex justify-center text-slate-500 hover:text-red-400" title="Rimuovi collegamento"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+          {error && <div className="col-span-2 text-sm text-red-400">{error}</div>}
+        </div>
+        <div className="p-4 border-t border-slate-700 bg-slate-900 flex items-center gap-2">
+          {!isNew && (
+            <button onClick={() => onDelete(device.id)} className="flex items-center gap-2 px-4 py-2 rounded text-sm text-red-400 hover:bg-red-900/30 transition-colors"><Trash2 size={14} /> Elimina</button>
+          )}
+          <div className="flex-1" />
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm text-slate-400 hover:text-white transition-colors">Annulla</button>
+          <button onClick={handleSave} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-bold text-sm transition-colors"><Save size={14} /> Salva</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DevicePropertiesEditor;
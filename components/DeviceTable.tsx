@@ -0,0 +1,395 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { NetworkDevice, NetworkZone, DeviceType, DeviceSample } from '../types';
+import { parseDeviceQuery, matchesDeviceQuery, compareSortValues, SortDirection, SortValue, QUERY_FIELDS } from '../services/deviceQuery';
+import { EXPORT_FORMATS, ExportFormat } from '../services/projectFormats';
+import { getDeviceAddresses } from '../services/networkZones';
+import { lookupVendor } from '../services/ouiService';
+import { ipToInt } from '../services/scanTargets';
+import { describeEvidence, formatConfidence } from '../services/fingerprintService';
+import Sparkline from './Sparkline';
+import MacBadge from './MacBadge';
+import {
+  Activity, Network, Server, Printer, Smartphone, Laptop, Search, Columns3, ArrowUp, ArrowDown, Trash2, Tag, Download, X
+} from 'lucide-react';
+
+const COLUMNS_KEY = 'netvisio_list_columns';
+const SORT_KEY = 'netvisio_list_sort';
+
+// Altezza fissa delle righe: permette di renderizzare solo quelle visibili
+const ROW_HEIGHT = 56;
+const OVERSCAN = 8;
+
+export const getDeviceIcon = (type: DeviceType) => {
+  switch (type) {
+    case DeviceType.ROUTER: return <Activity className="w-4 h-4 text-red-400" />;
+    case DeviceType.SWITCH: return <Network className="w-4 h-4 text-blue-400" />;
+    case DeviceType.SERVER: return <Server className="w-4 h-4 text-purple-400" />;
+    case DeviceType.PRINTER: return <Printer className="w-4 h-4 text-orange-400" />;
+    case DeviceType.MOBILE: return <Smartphone className="w-4 h-4 text-green-400" />;
+    default: return <Laptop className="w-4 h-4 text-green-400" />;
+  }
+};
+
+// Evidenziazione righe nella lista durante l'overlay differenze
+const DIFF_ROW_CLASSES: Record<string, string> = {
+  added: 'bg-emerald-900/20 border-l-4 border-l-emerald-500',
+  removed: 'bg-red-900/20 border-l-4 border-l-red-500 opacity-60 line-through',
+  changed: 'bg-amber-900/20 border-l-4 border-l-amber-500'
+};
+
+export const STATUS_BADGES: Record<NetworkDevice['status'], { label: string; className: string }> = {
+  online: { label: 'ONLINE', className: 'bg-emerald-900/30 text-emerald-400 border-emerald-900' },
+  warning: { label: 'WARNING', className: 'bg-amber-900/30 text-amber-400 border-amber-900' },
+  offline: { label: 'OFFLINE', className: 'bg-red-900/30 text-red-400 border-red-900' }
+};
+
+type ColumnId = 'type' | 'name' | 'ip' | 'zone' | 'mac' | 'manufacturer' | 'status' | 'latency' | 'parent' | 'inventory';
+
+interface CellContext {
+  byId: Map<string, NetworkDevice>;
+  zoneOf: (device: NetworkDevice) => NetworkZone | null;
+  samplesFor: (device: NetworkDevice) => DeviceSample[];
+  onShowHistory: (device: NetworkDevice) => void;
+  onTagClick: (tag: string) => void;
+}
+
+interface ColumnDefinition {
+  id: ColumnId;
+  label: string;
+  sortValue: (device: NetworkDevice, ctx: CellContext) => SortValue;
+  render: (device: NetworkDevice, ctx: CellContext) => React.ReactNode;
+}
+
+const vendorOf = (device: NetworkDevice) => lookupVendor(device.mac)?.vendor || device.manufacturer;
+
+const COLUMNS: ColumnDefinition[] = [
+  {
+    id: 'type',
+    label: 'Tipo',
+    sortValue: d => d.type,
+    render: d => (
+      <div title={d.fingerprint?.evidence.map(describeEvidence).join('\n')}>
+        <div className="flex items-center gap-2 text-slate-300">{getDeviceIcon(d.type)}{d.type}</div>
+        {d.fingerprint && !d.typeLocked && (
+          <div className="text-xs text-slate-500">{d.fingerprint.evidence.length ? `Affidabilità ${formatConfidence(d.fingerprint.confidence)}` : 'Nessuna evidenza'}</div>
+        )}
+      </div>
+    )
+  },
+  {
+    id: 'name',
+    label: 'Nome',
+    sortValue: d => d.name,
+    render: d => <div className="font-medium text-slate-200 truncate max-w-[16rem]" title={d.name}>{d.name}</div>
+  },
+  {
+    id: 'ip',
+    label: 'IP',
+    sortValue: d => (d.ip ? ipToInt(d.ip) ?? undefined : undefined),
+    render: d => {
+      const extra = getDeviceAddresses(d).filter(a => a !== d.ip);
+      return (
+        <div className="text-slate-400 font-mono">
+          {d.ip || '—'}
+          {extra.length > 0 && <span className="ml-2 text-xs text-slate-500" title={extra.join('\n')}>+{extra.length}</span>}
+        </div>
+      );
+    }
+  },
+  {
+    id: 'zone',
+    label: 'Zona / VLAN',
+    sortValue: (d, ctx) => ctx.zoneOf(d)?.name,
+    render: (d, ctx) => {
+      const zone = ctx.zoneOf(d);
+      return (
+        <div className="text-xs whitespace-nowrap">
+          {zone && <span className="px-2 py-0.5 rounded-full border font-bold" style={{ color: zone.color, borderColor: zone.color }}>{zone.name}</span>}
+          {d.vlanId !== undefined && <span className="ml-2 text-slate-400 font-mono">VLAN {d.vlanId}</span>}
+        </div>
+      );
+    }
+  },
+  {
+    id: 'mac',
+    label: 'MAC',
+    sortValue: d => d.mac,
+    render: d => <div className="text-xs font-mono text-slate-400 whitespace-nowrap">{d.mac || '—'}{d.mac && <MacBadge mac={d.mac} />}</div>
+  },
+  {
+    id: 'manufacturer',
+    label: 'Produttore',
+    sortValue: vendorOf,
+    render: d => <div className="text-xs text-slate-400 truncate max-w-[12rem]" title={vendorOf(d)}>{vendorOf(d) || '—'}</div>
+  },
+  {
+    id: 'status',
+    label: 'Stato',
+    sortValue: d => ['online', 'warning', 'offline'].indexOf(d.status),
+    render: d => <span className={`px-2 py-1 rounded-full text-xs font-bold border ${STATUS_BADGES[d.status].className}`}>{STATUS_BADGES[d.status].label}</span>
+  },
+  {
+    id: 'latency',
+    label: 'Latenza',
+    sortValue: d => d.latency,
+    render: (d, ctx) => (
+      <button onClick={() => ctx.onShowHistory(d)} className="flex items-center gap-3 group" title="Storico latenza e uptime">
+        <Sparkline samples={ctx.samplesFor(d)} />
+        <span className="text-xs text-slate-400 font-mono group-hover:text-white">{d.latency !== undefined ? `${d.latency} ms` : '—'}</span>
+      </button>
+    )
+  },
+  {
+    id: 'parent',
+    label: 'A monte',
+    sortValue: (d, ctx) => (d.parentId ? ctx.byId.get(d.parentId)?.name : undefined),
+    render: (d, ctx) => {
+      const parent = d.parentId ? ctx.byId.get(d.parentId) : undefined;
+      return <div className="text-xs text-slate-400 truncate max-w-[12rem]">{parent ? parent.name : '—'}</div>;
+    }
+  },
+  {
+    id: 'inventory',
+    label: 'Inventario',
+    sortValue: d => [d.inventory?.location, d.inventory?.rack].filter(Boolean).join(' ') || undefined,
+    render: (d, ctx) => d.inventory ? (
+      <div className="text-xs max-w-[16rem]">
+        <div className="flex gap-1 overflow-hidden whitespace-nowrap">
+          {d.inventory.tags.map(t => (
+            <button key={t} onClick={() => ctx.onTagClick(t)} className="px-1.5 py-0.5 rounded bg-indigo-500/15 text-indigo-300 hover:bg-indigo-500/30">#{t}</button>
+          ))}
+        </div>
+        <div className="text-slate-500 truncate">{[d.inventory.owner, d.inventory.location, d.inventory.rack].filter(Boolean).join(' · ')}</div>
+      </div>
+    ) : null
+  }
+];
+
+const DEFAULT_COLUMNS: ColumnId[] = ['type', 'name', 'ip', 'zone', 'mac', 'manufacturer', 'status', 'latency', 'inventory'];
+
+const loadColumns = (): ColumnId[] => {
+  try {
+    const saved: ColumnId[] = JSON.parse(localStorage.getItem(COLUMNS_KEY) || 'null');
+    return Array.isArray(saved) ? saved.filter(id => COLUMNS.some(c => c.id === id)) : DEFAULT_COLUMNS;
+  } catch {
+    return DEFAULT_COLUMNS;
+  }
+};
+
+const loadSort = (): { column: ColumnId; direction: SortDirection } => {
+  try {
+    return JSON.parse(localStorage.getItem(SORT_KEY) || 'null') || { column: 'ip', direction: 'asc' };
+  } catch {
+    return { column: 'ip', direction: 'asc' };
+  }
+};
+
+interface DeviceTableProps {
+  devices: NetworkDevice[]; // Righe da mostrare (già filtrate per zona)
+  allDevices: NetworkDevice[]; // Tutti i device: padri e destinazioni dello spostamento
+  zoneOf: (device: NetworkDevice) => NetworkZone | null;
+  highlights?: Record<string, string>; // Overlay differenze: id -> added/removed/changed
+  editable: boolean; // Falso durante l'overlay storico: niente modifiche alla topologia
+  samplesFor: (device: NetworkDevice) => DeviceSample[];
+  onContextMenu: (e: React.MouseEvent, device: NetworkDevice) => void;
+  onShowHistory: (device: NetworkDevice) => void;
+  onBulkSetType: (ids: string[], type: DeviceType) => void;
+  onBulkTag: (devices: NetworkDevice[], tag: string) => void;
+  onBulkReparent: (ids: string[], parentId: string | null) => void;
+  onBulkDelete: (ids: string[]) => void;
+  onExportSelection: (ids: string[], format: ExportFormat) => void;
+}
+
+const DeviceTable: React.FC<DeviceTableProps> = ({
+  devices, allDevices, zoneOf, highlights, editable, samplesFor, onContextMenu, onShowHistory,
+  onBulkSetType, onBulkTag, onBulkReparent, onBulkDelete, onExportSelection
+}) => {
+  const [query, setQuery] = useState('');
+  const [visibleColumns, setVisibleColumns] = useState<ColumnId[]>(loadColumns);
+  const [sort, setSort] = useState(loadSort);
+  const [showColumnChooser, setShowColumnChooser] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lastClicked, setLastClicked] = useState<number | null>(null);
+  const [tagText, setTagText] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const byId = useMemo(() => new Map(allDevices.map(d => [d.id, d])), [allDevices]);
+  const ctx: CellContext = {
+    byId,
+    zoneOf,
+    samplesFor,
+    onShowHistory,
+    onTagClick: tag => setQuery(`tag:${/\s/.test(tag) ? `"${tag}"` : tag}`)
+  };
+
+  const parsed = useMemo(() => parseDeviceQuery(query), [query]);
+  const rows = useMemo(() => {
+    const column = COLUMNS.find(c => c.id === sort.column) ?? COLUMNS[0];
+    return devices
+      .filter(d => matchesDeviceQuery(d, parsed, { byId, zoneOf }))
+      .map(d => ({ device: d, key: column.sortValue(d, ctx) }))
+      .sort((a, b) => compareSortValues(a.key, b.key, sort.direction))
+      .map(r => r.device);
+  }, [devices, parsed, sort, byId, zoneOf]);
+
+  // La selezione considera solo le righe ancora presenti
+  const selectedRows = rows.filter(d => selected.has(d.id));
+  const selectedIds = selectedRows.map(d => d.id);
+  const columns = COLUMNS.filter(c => visibleColumns.includes(c.id));
+
+  const toggleColumn = (id: ColumnId) => {
+    const next = visibleColumns.includes(id) ? visibleColumns.filter(c => c !== id) : COLUMNS.map(c => c.id).filter(c => c === id || visibleColumns.includes(c));
+    setVisibleColumns(next);
+    localStorage.setItem(COLUMNS_KEY, JSON.stringify(next));
+  };
+
+  const toggleSort = (column: ColumnId) => {
+    const next = { column, direction: (sort.column === column && sort.direction === 'asc' ? 'desc' : 'asc') as SortDirection };
+    setSort(next);
+    localStorage.setItem(SORT_KEY, JSON.stringify(next));
+  };
+
+  // Shift+clic seleziona l'intervallo dall'ultima riga cliccata
+  const toggleRow = (index: number, shiftKey: boolean) => {
+    const next = new Set(selected);
+    const checked = !next.has(rows[index].id);
+    const [from, to] = shiftKey && lastClicked !== null ? [Math.min(lastClicked, index), Math.max(lastClicked, index)] : [index, index];
+    for (let i = from; i <= to && i < rows.length; i++) {
+      if (checked) next.add(rows[i].id);
+      else next.delete(rows[i].id);
+    }
+    setSelected(next);
+    setLastClicked(index);
+  };
+
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(rows.map(d => d.id)));
+  const clearSelection = () => setSelected(new Set());
+
+  const applyTag = () => {
+    if (!tagText.trim()) return;
+    onBulkTag(selectedRows, tagText.trim());
+    setTagText('');
+  };
+
+  // Virtualizzazione: solo le righe nella finestra visibile (più un margine) sono nel DOM
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none";
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Cerca: type:PRINTER status:offline ip:192.168.1.0/25 tag:critico testo libero"
+            title={Object.entries(QUERY_FIELDS).map(([k, v]) => `${k}: ${v}`).join('\n') + '\n-campo:valore esclude i risultati'}
+            className="w-full bg-slate-800 border border-slate-700 rounded pl-8 pr-3 py-1.5 text-xs text-slate-200 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+        <span className="text-xs text-slate-500 whitespace-nowrap">{rows.length} di {devices.length}</span>
+        <div className="relative">
+          <button onClick={() => setShowColumnChooser(v => !v)} className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 px-3 py-1.5 rounded text-xs"><Columns3 size={14} /> Colonne</button>
+          {showColumnChooser && (
+            <div className="absolute right-0 mt-1 z-20 w-48 bg-slate-800 border border-slate-700 rounded shadow-xl py-1">
+              {COLUMNS.map(c => (
+                <label key={c.id} className="flex items-center gap-2 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700 cursor-pointer">
+                  <input type="checkbox" checked={visibleColumns.includes(c.id)} onChange={() => toggleColumn(c.id)} className="accent-indigo-500" />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      {parsed.errors.length > 0 && <div className="text-xs text-amber-400 mb-2">Ignorati: {parsed.errors.join('; ')}</div>}
+
+      {selectedRows.length > 0 && (
+        <div className="flex items-center gap-3 flex-wrap mb-2 px-3 py-2 rounded bg-indigo-900/30 border border-indigo-800 text-xs text-slate-200">
+          <span className="font-bold">{selectedRows.length} selezionati</span>
+          {editable && (
+            <select value="" onChange={e => e.target.value && onBulkSetType(selectedIds, e.target.value as DeviceType)} className={selectClass}>
+              <option value="">Cambia tipo…</option>
+              {Object.values(DeviceType).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          )}
+          {editable && (
+            <select value="" onChange={e => e.target.value && onBulkReparent(selectedIds, e.target.value === '__root' ? null : e.target.value)} className={selectClass}>
+              <option value="">Collega a…</option>
+              <option value="__root">— Nessuno (radice) —</option>
+              {allDevices.filter(d => !selected.has(d.id)).map(d => <option key={d.id} value={d.id}>{d.name}{d.ip ? ` (${d.ip})` : ''}</option>)}
+            </select>
+          )}
+          <div className="flex items-center gap-1">
+            <input value={tagText} onChange={e => setTagText(e.target.value)} onKeyDown={e => e.key === 'Enter' && applyTag()} placeholder="Tag" className={`${selectClass} w-24`} />
+            <button onClick={applyTag} className="flex items-center gap-1 text-indigo-300 hover:text-white"><Tag size={12} /> Aggiungi</button>
+          </div>
+          <select value="" onChange={e => e.target.value && onExportSelection(selectedIds, e.target.value as ExportFormat)} className={selectClass}>
+            <option value="">Esporta…</option>
+            {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+          {editable && (
+            <button onClick={() => onBulkDelete(selectedIds)} className="flex items-center gap-1 text-red-400 hover:text-red-300"><Trash2 size={12} /> Elimina</button>
+          )}
+          <div className="flex-1" />
+          <button onClick={clearSelection} className="flex items-center gap-1 text-slate-400 hover:text-white"><X size={12} /> Deseleziona</button>
+        </div>
+      )}
+
+      <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 min-h-0 overflow-auto">
+        <table className="w-full text-left border-collapse min-w-[800px]">
+          <thead>
+            <tr className="bg-slate-800 text-slate-400 text-xs uppercase tracking-wider sticky top-0 z-10">
+              <th className="p-4 border-b border-slate-700 bg-slate-800 w-10">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-indigo-500" title="Seleziona tutti i risultati" />
+              </th>
+              {columns.map(c => (
+                <th key={c.id} className="p-4 border-b border-slate-700 bg-slate-800">
+                  <button onClick={() => toggleSort(c.id)} className="flex items-center gap-1 uppercase hover:text-white">
+                    {c.label}
+                    {sort.column === c.id && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-sm">
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {visibleRows.map((device, i) => (
+              <tr
+                key={device.id}
+                onContextMenu={e => onContextMenu(e, device)}
+                style={{ height: ROW_HEIGHT }}
+                className={`hover:bg-slate-800/50 transition-colors cursor-context-menu border-b border-slate-800/50 ${selected.has(device.id) ? 'bg-indigo-900/20' : ''} ${highlights?.[device.id] ? DIFF_ROW_CLASSES[highlights[device.id]] : ''}`}
+              >
+                <td className="px-4">
+                  <input type="checkbox" checked={selected.has(device.id)} onChange={() => {}} onClick={e => toggleRow(start + i, e.shiftKey)} className="accent-indigo-500" />
+                </td>
+                {columns.map(c => <td key={c.id} className="px-4 py-1 overflow-hidden">{c.render(device, ctx)}</td>)}
+              </tr>
+            ))}
+            {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {rows.length === 0 && <div className="text-center text-slate-500 py-12 text-sm">Nessun device corrisponde alla ricerca.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceTable;
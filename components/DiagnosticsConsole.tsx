@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NetworkDevice } from '../types';
+import { PROBE_CATALOG } from '../services/probeService';
+import { ipToInt } from '../services/scanTargets';
+import {
+  DiagnosticKind,
+  DiagnosticRequest,
+  DiagnosticSession,
+  DiagnosticLineLevel,
+  COMMON_SWEEP_PORTS,
+  parsePortSpec
+} from '../services/diagnosticsService';
+import { Terminal, Play, Square, X, Copy } from 'lucide-react';
+
+interface DiagnosticsConsoleProps {
+  sessions: DiagnosticSession[];
+  devices: NetworkDevice[];
+  onStart: (request: DiagnosticRequest) => void;
+  onStop: (sessionId: string) => void;
+  onClose: (sessionId: string) => void;
+}
+
+const LINE_CLASSES: Record<DiagnosticLineLevel, string> = {
+  info: 'text-slate-300',
+  ok: 'text-emerald-400',
+  warn: 'text-amber-400',
+  error: 'text-red-400'
+};
+
+const STATUS_DOTS: Record<DiagnosticSession['status'], string> = {
+  running: 'bg-emerald-400 animate-pulse',
+  done: 'bg-slate-500',
+  stopped: 'bg-amber-500'
+};
+
+const HOSTNAME_PATTERN = /^(?=.*[a-z])[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('it-IT');
+
+/**
+ * Console di diagnostica: ping ripetuti e sweep di porte eseguiti dal browser,
+ * con un log per sessione. Più sessioni possono girare insieme.
+ */
+const DiagnosticsConsole: React.FC<DiagnosticsConsoleProps> = ({ sessions, devices, onStart, onStop, onClose }) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [kind, setKind] = useState<DiagnosticKind>('ping');
+  const [ip, setIp] = useState('');
+  const [probeId, setProbeId] = useState('http-80');
+  const [count, setCount] = useState(4);
+  const [intervalMs, setIntervalMs] = useState(1000);
+  const [timeoutMs, setTimeoutMs] = useState(2000);
+  const [portSpec, setPortSpec] = useState(COMMON_SWEEP_PORTS);
+  const [error, setError] = useState<string | null>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  const sessionCountRef = useRef(sessions.length);
+
+  // Una nuova sessione (anche avviata dal menu contestuale) diventa quella attiva
+  useEffect(() => {
+    if (sessions.length > sessionCountRef.current) setActiveId(sessions[sessions.length - 1].id);
+    sessionCountRef.current = sessions.length;
+  }, [sessions.length]);
+
+  const active = sessions.find(s => s.id === activeId) ?? sessions[sessions.length - 1];
+
+  // Segue le nuove righe solo se l'utente non sta leggendo più in alto
+  useEffect(() => {
+    if (logRef.current && stickToBottomRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [active?.lines.length, active?.id]);
+
+  const handleScroll = () => {
+    const el = logRef.current;
+    if (el) stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  const handleStart = () => {
+    setError(null);
+    const target = ip.trim();
+    // Un singolo host: IP o nome risolvibile dal browser
+    if (ipToInt(target) === null && !HOSTNAME_PATTERN.test(target)) {
+      setError('Indica un singolo indirizzo IP o un nome host');
+      return;
+    }
+    const device = devices.find(d => d.ip === target);
+    const label = device?.name || target;
+    if (kind === 'ping') {
+      onStart({ kind, ip: target, label, probeId, count: Math.max(0, count), intervalMs: Math.max(200, intervalMs), timeoutMs: Math.max(200, timeoutMs) });
+      return;
+    }
+    try {
+      onStart({ kind, ip: target, label, ports: parsePortSpec(portSpec), timeoutMs: Math.max(200, timeoutMs) });
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const copyLog = (session: DiagnosticSession) =>
+    navigator.clipboard.writeText(session.lines.map(l => `[${formatTime(l.timestamp)}] ${l.text}`).join('\n'))
+      .catch(e => console.warn("Copia del log non riuscita", e));
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="flex flex-col h-full gap-4 animate-fade-in">
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-wrap items-end gap-3">
+        <div>
+          <label className={labelClass}>Tipo</label>
+          <select value={kind} onChange={e => setKind(e.target.value as DiagnosticKind)} className={inputClass}>
+            <option value="ping">Ping ripetuto</option>
+            <option value="sweep">Sweep porte</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Destinazione</label>
+          <input value={ip} onChange={e => setIp(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleStart()} list="diagnostics-devices" placeholder="192.168.1.10" className={`${inputClass} font-mono w-44`} />
+          <datalist id="diagnostics-devices">
+            {devices.map(d => <option key={d.id} value={d.ip}>{d.name}</option>)}
+          </datalist>
+        </div>
+        {kind === 'ping' ? (
+          <>
+            <div>
+              <label className={labelClass}>Sonda</label>
+              <select value={probeId} onChange={e => setProbeId(e.target.value)} className={inputClass}>
+                {PROBE_CATALOG.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Numero (0 = continuo)</label>
+              <input type="number" min={0} value={count} onChange={e => setCount(Number(e.target.value) || 0)} className={`${inputClass} w-28`} />
+            </div>
+            <div>
+              <label className={labelClass}>Intervallo (ms)</label>
+              <input type="number" min={200} step={100} value={intervalMs} onChange={e => setIntervalMs(Number(e.target.value) || 1000)} className={`${inputClass} w-28`} />
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 min-w-[16rem]">
+            <label className={labelClass}>Porte (elenco o intervalli)</label>
+            <input value={portSpec} onChange={e => setPortSpec(e.target.value)} placeholder="22,80,443,8000-8100" className={`${inputClass} w-full font-mono`} />
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Timeout (ms)</label>
+          <input type="number" min={200} step={100} value={timeoutMs} onChange={e => setTimeoutMs(Number(e.target.value) || 2000)} className={`${inputClass} w-28`} />
+        </div>
+        <button onClick={handleStart} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded font-bold text-sm transition-colors"><Play size={14} /> Avvia</button>
+        {error && <div className="w-full text-xs text-red-400">{error}</div>}
+      </div>
+
+      <div className="flex-1 min-h-0 bg-slate-950 rounded-lg border border-slate-700 flex flex-col overflow-hidden">
+        <div className="flex items-center gap-1 border-b border-slate-800 bg-slate-900 overflow-x-auto">
+          {sessions.length === 0 && (
+            <div className="px-4 py-2 text-xs text-slate-500 flex items-center gap-2"><Terminal size={14} /> Nessuna sessione: avvia un ping o uno sweep, anche dal menu contestuale di un device.</div>
+          )}
+          {sessions.map(s => (
+            <div key={s.id} className={`flex items-center gap-2 px-3 py-2 text-xs border-r border-slate-800 cursor-pointer whitespace-nowrap ${s.id === active?.id ? 'bg-slate-950 text-white' : 'text-slate-400 hover:text-white'}`} onClick={() => setActiveId(s.id)}>
+              <span className={`w-2 h-2 rounded-full ${STATUS_DOTS[s.status]}`} />
+              <span className="font-bold">{s.request.kind === 'ping' ? 'ping' : 'sweep'}</span>
+              <span>{s.request.label}</span>
+              <button onClick={e => { e.stopPropagation(); onClose(s.id); }} className="text-slate-500 hover:text-red-400" title="Chiudi sessione"><X size={12} /></button>
+            </div>
+          ))}
+        </div>
+        {active && (
+          <>
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-800 text-xs text-slate-400">
+              <span className="font-mono">{active.request.ip}</span>
+              <span>avviata alle {formatTime(active.startedAt)}</span>
+              {active.endedAt && <span>{active.status === 'stopped' ? 'fermata' : 'terminata'} alle {formatTime(active.endedAt)}</span>}
+              {active.stats && active.stats.avg !== undefined && (
+                <span className="font-mono text-slate-300">avg {active.stats.avg} ms · jitter {active.stats.jitter} ms · perse {active.stats.lossPercent}%</span>
+              )}
+              <div className="flex-1" />
+              <button onClick={() => copyLog(active)} className="flex items-center gap-1 hover:text-white"><Copy size={12} /> Copia log</button>
+              {active.status === 'running' && (
+                <button onClick={() => onStop(active.id)} className="flex items-center gap-1 px-2 py-1 rounded bg-red-600/20 text-red-300 hover:bg-red-600/40"><Square size={12} /> Stop</button>
+              )}
+            </div>
+            <div ref={logRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 font-mono text-xs leading-relaxed">
+              {active.lines.map((line, i) => (
+                <div key={i} className={LINE_CLASSES[line.level]}>
+                  <span className="text-slate-600">[{formatTime(line.timestamp)}]</span> {line.text}
+                </div>
+              ))}
+              {active.status === 'running' && <div className="text-slate-600 animate-pulse">_</div>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsConsole;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AnalysisFinding, FindingSeverity, NetworkDevice } from '../types';
+import { SEVERITY_LABELS, SEVERITY_ORDER } from '../services/networkAnalyzer';
+import MarkdownViewer from './MarkdownViewer';
+import { AlertOctagon, AlertTriangle, Info, MapPin } from 'lucide-react';
+
+interface FindingsListProps {
+  findings: AnalysisFinding[];
+  devices: NetworkDevice[];
+  onSelectDevice: (deviceId: string) => void;
+  onShowOnMap?: (finding: AnalysisFinding) => void; // Evidenzia sulla mappa i device coinvolti
+  emptyText?: string;
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, { icon: React.ReactNode; badge: string; border: string }> = {
+  critical: { icon: <AlertOctagon size={16} className="text-red-400" />, badge: 'bg-red-900/50 text-red-300', border: 'border-red-700/50' },
+  warning: { icon: <AlertTriangle size={16} className="text-amber-400" />, badge: 'bg-amber-900/50 text-amber-300', border: 'border-amber-700/40' },
+  info: { icon: <Info size={16} className="text-sky-400" />, badge: 'bg-sky-900/50 text-sky-300', border: 'border-slate-700' }
+};
+
+const MAX_DEVICE_CHIPS = 8;
+
+const FindingsList: React.FC<FindingsListProps> = ({ findings, devices, onSelectDevice, onShowOnMap, emptyText = 'Nessun problema rilevato dalle regole locali.' }) => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+
+  if (findings.length === 0) {
+    return <div className="text-center py-6 text-slate-500 text-sm">{emptyText}</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-xs">
+        {SEVERITY_ORDER.map(severity => {
+          const count = findings.filter(f => f.severity === severity).length;
+          return count > 0 && (
+            <span key={severity} className={`px-2 py-0.5 rounded font-bold ${SEVERITY_STYLES[severity].badge}`}>{count} {SEVERITY_LABELS[severity]}</span>
+          );
+        })}
+      </div>
+      {findings.map(finding => {
+        const style = SEVERITY_STYLES[finding.severity];
+        const involved = finding.deviceIds.map(id => byId.get(id)).filter((d): d is NetworkDevice => !!d);
+        return (
+          <div key={finding.id} className={`bg-slate-900/50 border rounded-lg p-4 space-y-2 ${style.border}`}>
+            <div className="flex items-start gap-2">
+              <span className="mt-0.5 shrink-0">{style.icon}</span>
+              <div className="flex-1">
+                <div className="font-bold text-slate-100 text-sm">{finding.title}</div>
+                {finding.detail && <MarkdownViewer text={finding.detail} className="mt-1 text-slate-400" />}
+                {finding.recommendation && <MarkdownViewer text={`**Consiglio:** ${finding.recommendation}`} className="mt-1" />}
+              </div>
+              <span className={`text-[10px] uppercase px-2 py-0.5 rounded font-bold shrink-0 ${style.badge}`}>{SEVERITY_LABELS[finding.severity]}</span>
+            </div>
+            {involved.length > 0 && (
+              <div className="flex flex-wrap gap-1 pl-6">
+                {involved.slice(0, MAX_DEVICE_CHIPS).map(d => (
+                  <button key={d.id} onClick={() => onSelectDevice(d.id)} className="text-xs px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500" title={d.ip}>{d.name}</button>
+                ))}
+                {involved.length > MAX_DEVICE_CHIPS && <span className="text-xs text-slate-500 px-1">+{involved.length - MAX_DEVICE_CHIPS}</span>}
+                {onShowOnMap && (
+                  <button onClick={() => onShowOnMap(finding)} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded text-indigo-300 hover:text-white hover:bg-indigo-600/40" title="Evidenzia i device sulla mappa"><MapPin size={12} /> Mappa</button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FindingsList;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { DeviceType, FingerprintField, FingerprintRule } from '../types';
+import {
+  BUILTIN_FINGERPRINT_RULES, FINGERPRINT_FIELD_LABELS, loadCustomFingerprintRules, saveCustomFingerprintRules, validateFingerprintRule
+} from '../services/fingerprintService';
+import { Fingerprint, Plus, Trash2 } from 'lucide-react';
+
+interface FingerprintRulesPanelProps {
+  onChange: () => void; // Le regole sono cambiate: i tipi dei device vanno ricalcolati
+}
+
+const emptyRule = (): FingerprintRule => ({
+  id: '',
+  name: '',
+  field: 'hostname',
+  pattern: '',
+  type: DeviceType.IOT,
+  weight: 0.8,
+  enabled: true
+});
+
+const PATTERN_PLACEHOLDERS: Record<FingerprintField, string> = {
+  vendor: 'es. Ubiquiti|TP-Link',
+  hostname: 'es. ^cam-|nvr',
+  port: 'es. 8554, 37777',
+  http: 'es. NVR Login',
+  service: 'es. onvif',
+  os: 'es. VxWorks',
+  ip: 'es. ^10\\.0\\.50\\.'
+};
+
+const FingerprintRulesPanel: React.FC<FingerprintRulesPanelProps> = ({ onChange }) => {
+  const [rules, setRules] = useState<FingerprintRule[]>(loadCustomFingerprintRules);
+  const [draft, setDraft] = useState<FingerprintRule>(emptyRule);
+  const [error, setError] = useState<string | null>(null);
+  const [showBuiltin, setShowBuiltin] = useState(false);
+
+  const update = (next: FingerprintRule[]) => {
+    setRules(next);
+    saveCustomFingerprintRules(next);
+    onChange();
+  };
+
+  const addRule = () => {
+    const validation = validateFingerprintRule(draft);
+    if (validation) return setError(validation);
+    setError(null);
+    const name = draft.name.trim() || `${FINGERPRINT_FIELD_LABELS[draft.field]} → ${draft.type}`;
+    update([...rules, { ...draft, name, pattern: draft.pattern.trim(), id: `fp-${Date.now()}` }]);
+    setDraft(emptyRule());
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-bold text-fuchsia-400 uppercase tracking-wider flex items-center gap-2"><Fingerprint className="w-4 h-4"/> Riconoscimento Dispositivi</h3>
+      <p className="text-xs text-slate-500">
+        Il tipo di ogni device è dedotto combinando produttore, porte aperte, pagine web, hostname, servizi e sistema operativo.
+        Le regole personalizzate si aggiungono alle {BUILTIN_FINGERPRINT_RULES.length} incluse e hanno la precedenza a parità di punteggio.
+        I pattern sono espressioni regolari senza distinzione tra maiuscole e minuscole; per le porte un elenco separato da virgole.
+      </p>
+
+      {rules.map(r => (
+        <div key={r.id} className="flex items-center gap-3 text-sm bg-slate-900 border border-slate-700 rounded px-3 py-2">
+          <input type="checkbox" checked={r.enabled} onChange={e => update(rules.map(x => (x.id === r.id ? { ...x, enabled: e.target.checked } : x)))} className="accent-indigo-500" />
+          <span className="flex-1 text-slate-200">{r.name}</span>
+          <span className="font-mono text-xs text-slate-400 truncate max-w-[12rem]" title={r.pattern}>{FINGERPRINT_FIELD_LABELS[r.field]}: {r.pattern}</span>
+          <span className="text-xs text-slate-400">{r.type} · {r.weight}</span>
+          <button onClick={() => update(rules.filter(x => x.id !== r.id))} className="text-slate-500 hover:text-red-400" title="Elimina regola"><Trash2 size={14} /></button>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-6 gap-2">
+        <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Nome (opzionale)" className={`${inputClass} col-span-6`} />
+        <select value={draft.field} onChange={e => setDraft({ ...draft, field: e.target.value as FingerprintField })} className={`${inputClass} col-span-2`}>
+          {Object.entries(FINGERPRINT_FIELD_LABELS).map(([f, label]) => <option key={f} value={f}>{label}</option>)}
+        </select>
+        <input value={draft.pattern} onChange={e => setDraft({ ...draft, pattern: e.target.value })} placeholder={PATTERN_PLACEHOLDERS[draft.field]} className={`${inputClass} col-span-4 font-mono`} />
+        <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as DeviceType })} className={`${inputClass} col-span-2`}>
+          {Object.values(DeviceType).map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <label className="col-span-2 flex items-center gap-2 text-xs text-slate-400">Peso
+          <input type="number" min={0.05} max={1} step={0.05} value={draft.weight} onChange={e => setDraft({ ...draft, weight: Number(e.target.value) })} className={`${inputClass} w-full`} />
+        </label>
+        <button onClick={addRule} className="col-span-2 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm font-medium transition-colors"><Plus size={14} /> Aggiungi</button>
+      </div>
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <button onClick={() => setShowBuiltin(v => !v)} className="text-xs text-slate-400 hover:text-white">
+        {showBuiltin ? 'Nascondi' : 'Mostra'} regole incluse
+      </button>
+      {showBuiltin && (
+        <div className="max-h-64 overflow-y-auto text-xs border border-slate-700 rounded divide-y divide-slate-800">
+          {BUILTIN_FINGERPRINT_RULES.map(r => (
+            <div key={r.id} className="flex gap-3 px-3 py-1.5">
+              <span className="w-48 shrink-0 text-slate-300">{r.name}</span>
+              <span className="flex-1 font-mono text-slate-500 truncate" title={r.pattern}>{FINGERPRINT_FIELD_LABELS[r.field]}: {r.pattern}</span>
+              <span className="text-slate-400 whitespace-nowrap">{r.type} · {r.weight}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FingerprintRulesPanel;
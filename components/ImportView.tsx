@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { NetworkDevice } from '../types';
+import { IMPORT_PARSERS, ImportParser, detectParser } from '../services/importParsers';
+import { entryToDevice, previewMerge } from '../services/importService';
+import { parseImportedData } from '../services/aiService';
+import { isUnknownManufacturer } from '../services/ouiService';
+import MacBadge from './MacBadge';
+import { Upload, Terminal, Trash2, Sparkles, RefreshCw, CheckCircle2 } from 'lucide-react';
+
+interface ImportViewProps {
+  devices: NetworkDevice[];
+  onCommit: (imported: NetworkDevice[]) => void;
+}
+
+interface ImportSource {
+  id: string;
+  name: string;
+  text: string;
+  parserId: string; // 'auto' oppure l'id di un parser
+  aiDevices?: NetworkDevice[]; // Risultato dell'interpretazione IA per formati non riconosciuti
+}
+
+interface ParsedSource {
+  source: ImportSource;
+  parser: ImportParser | null;
+  devices: NetworkDevice[];
+  error?: string;
+}
+
+const PASTE_ID = 'paste';
+
+// Unisce le voci con lo stesso IP provenienti da sorgenti diverse (es. arp + nmap)
+const mergeByIp = (devices: NetworkDevice[]): NetworkDevice[] => {
+  const byIp = new Map<string, NetworkDevice>();
+  devices.forEach(d => {
+    const prev = byIp.get(d.ip);
+    if (!prev) return byIp.set(d.ip, d);
+    byIp.set(d.ip, {
+      ...prev,
+      mac: d.mac || prev.mac,
+      name: prev.name.startsWith('Device ') ? d.name : prev.name,
+      manufacturer: isUnknownManufacturer(prev.manufacturer) ? d.manufacturer : prev.manufacturer,
+      type: prev.type === d.type ? prev.type : (d.services ? d.type : prev.type),
+      services: d.services || prev.services
+    });
+  });
+  return [...byIp.values()];
+};
+
+const ImportView: React.FC<ImportViewProps> = ({ devices, onCommit }) => {
+  const [sources, setSources] = useState<ImportSource[]>([{ id: PASTE_ID, name: 'Testo incollato', text: '', parserId: 'auto' }]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  const [aiBusy, setAiBusy] = useState<string | null>(null);
+
+  const updateSource = (id: string, patch: Partial<ImportSource>) =>
+    setSources(prev => prev.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const loaded = await Promise.all(Array.from(files).map(async f => ({
+      id: `file-${f.name}-${f.lastModified}`,
+      name: f.name,
+      text: await f.text(),
+      parserId: 'auto'
+    })));
+    setSources(prev => [...prev, ...loaded.filter(l => !prev.some(p => p.id === l.id))]);
+  };
+
+  const parsed: ParsedSource[] = useMemo(() => sources.filter(s => s.text.trim()).map(source => {
+    if (source.aiDevices) return { source, parser: null, devices: source.aiDevices };
+    const parser = source.parserId === 'auto'
+      ? detectParser(source.text)
+      : IMPORT_PARSERS.find(p => p.id === source.parserId) || null;
+    if (!parser) return { source, parser, devices: [], error: 'Formato non riconosciuto' };
+    try {
+      return { source, parser, devices: parser.parse(source.text).map(entryToDevice) };
+    } catch (e: any) {
+      return { source, parser, devices: [], error: e?.message || String(e) };
+    }
+  }), [sources]);
+
+  const preview = useMemo(
+    () => previewMerge(devices, mergeByIp(parsed.flatMap(p => p.devices))),
+    [devices, parsed]
+  );
+  const selected = preview.filter(p => !excluded.has(p.device.ip));
+
+  const toggleRow = (ip: string) => setExcluded(prev => {
+    const next = new Set(prev);
+    if (next.has(ip)) next.delete(ip);
+    else next.add(ip);
+    return next;
+  });
+
+  const handleAiParse = async (source: ImportSource) => {
+    setAiBusy(source.id);
+    try {
+      const result = await parseImportedData(source.text);
+      updateSource(source.id, { aiDevices: result.filter(d => d.ip) });
+    } finally {
+      setAiBusy(null);
+    }
+  };
+
+  const handleCommit = () => {
+    onCommit(selected.map(p => p.device));
+    setSources([{ id: PASTE_ID, name: 'Testo incollato', text: '', parserId: 'auto' }]);
+    setExcluded(new Set());
+  };
+
+  const paste = sources.find(s => s.id === PASTE_ID)!;
+
+  return (
+    <div className="h-full flex gap-4 p-4 overflow-hidden">
+      <div className="w-[28rem] shrink-0 flex flex-col gap-4 overflow-y-auto">
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+          <h3 className="font-bold text-slate-200 flex items-center gap-2"><Terminal size={18} className="text-indigo-400" /> Incolla output comando</h3>
+          <textarea
+            value={paste.text}
+            onChange={e => updateSource(PASTE_ID, { text: e.target.value, aiDevices: undefined })}
+            rows={10}
+            placeholder="arp -a, ip neigh, arp -an, nmap -oX/-oG, dhcpd.leases, dnsmasq.leases, MikroTik /ip arp, /proc/net/arp..."
+            className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-xs text-slate-200 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <label
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={e => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+            className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-6 text-sm cursor-pointer transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-900/20 text-indigo-300' : 'border-slate-600 text-slate-400 hover:border-slate-500'}`}
+          >
+            <Upload size={24} />
+            Trascina qui i file o clicca per selezionarli
+            <input type="file" multiple className="hidden" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+          </label>
+        </div>
+
+        {parsed.length > 0 && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+            <h3 className="text-xs font-bold text-slate-500 uppercase">Sorgenti</h3>
+            {parsed.map(({ source, parser, devices: found, error }) => (
+              <div key={source.id} className="bg-slate-900/60 border border-slate-700 rounded p-3 text-sm space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-slate-200" title={source.name}>{source.name}</span>
+                  {source.id !== PASTE_ID && (
+                    <button onClick={() => setSources(prev => prev.filter(s => s.id !== source.id))} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+                  )}
+                </div>
+                <select
+                  value={source.parserId}
+                  onChange={e => updateSource(source.id, { parserId: e.target.value, aiDevices: undefined })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300"
+                >
+                  <option value="auto">Rilevamento automatico{source.parserId === 'auto' && parser ? ` (${parser.label})` : ''}</option>
+                  {IMPORT_PARSERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <div className={`text-xs ${error ? 'text-red-400' : 'text-slate-500'}`}>
+                  {source.aiDevices ? `Interpretato con IA: ${found.length} device` : error || `${found.length} device`}
+                </div>
+                {error && (
+                  <button onClick={() => handleAiParse(source)} disabled={aiBusy === source.id} className="flex items-center gap-2 text-xs text-indigo-300 hover:text-white disabled:opacity-50">
+                    {aiBusy === source.id ? <RefreshCw size={12} className="animate-spin" /> : <Sparkles size={12} />} Interpreta con IA
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden min-w-0">
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-3 shrink-0">
+          <h3 className="font-bold text-slate-200 flex-1">Anteprima ({selected.length}/{preview.length})</h3>
+          <button onClick={handleCommit} disabled={selected.length === 0} className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50 transition-colors">
+            <CheckCircle2 size={16} /> Unisci alla rete
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {preview.length === 0 ? (
+            <div className="text-center py-16 text-slate-500 text-sm">Incolla un output o trascina un file per vedere l'anteprima.</div>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="bg-slate-800 text-slate-400 text-xs uppercase tracking-wider sticky top-0">
+                  <th className="p-3 w-8"></th>
+                  <th className="p-3">IP</th>
+                  <th className="p-3">MAC</th>
+                  <th className="p-3">Nome</th>
+                  <th className="p-3">Produttore</th>
+                  <th className="p-3">Porte</th>
+                  <th className="p-3">Esito</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(({ device, existingId }) => (
+                  <tr key={device.ip} className={`border-b border-slate-800/50 ${excluded.has(device.ip) ? 'opacity-40' : ''}`}>
+                    <td className="p-3"><input type="checkbox" checked={!excluded.has(device.ip)} onChange={() => toggleRow(device.ip)} className="accent-indigo-500" /></td>
+                    <td className="p-3 font-mono text-slate-300">{device.ip}</td>
+                    <td className="p-3 font-mono text-xs text-slate-500">{device.mac || '—'}{device.mac && <MacBadge mac={device.mac} />}</td>
+                    <td className="p-3 text-slate-200">{device.name}</td>
+                    <td className="p-3 text-slate-400 text-xs">{device.manufacturer}</td>
+                    <td className="p-3 text-slate-500 text-xs font-mono">{device.services?.map(s => s.port).join(', ') || '—'}</td>
+                    <td className="p-3 text-xs">{existingId ? <span className="text-amber-400">Aggiorna</span> : <span className="text-emerald-400">Nuovo</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportView;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { getMacKind } from '../services/ouiService';
+
+interface MacBadgeProps {
+  mac: string;
+}
+
+// Segnala gli indirizzi che non identificano un produttore (MAC privati/casuali e multicast)
+const MacBadge: React.FC<MacBadgeProps> = ({ mac }) => {
+  const kind = getMacKind(mac);
+  if (kind === 'random') {
+    return (
+      <span className="ml-2 px-1.5 py-0.5 rounded border border-amber-700 bg-amber-900/30 text-amber-300 text-[10px] font-sans font-bold" title="MAC amministrato localmente: di solito un indirizzo privato casuale (iOS, Android, Windows). Può cambiare nel tempo e non indica il produttore.">
+        Casuale
+      </span>
+    );
+  }
+  if (kind === 'multicast') {
+    return <span className="ml-2 px-1.5 py-0.5 rounded border border-slate-600 text-slate-400 text-[10px] font-sans font-bold" title="Indirizzo di gruppo, non appartiene a un singolo device">Multicast</span>;
+  }
+  return null;
+};
+
+export default MacBadge;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { NetworkDevice, NetworkZone } from '../types';
+import { MapExportOptions, MapViewport, exportSvg, exportPng, openPrintablePage } from '../services/mapExport';
+import { LayoutMode } from '../services/topologyLayout';
+import { Download, Image, Printer, FileCode, X } from 'lucide-react';
+
+interface MapExportMenuProps {
+  devices: NetworkDevice[];
+  siteName: string;
+  scanDate: Date;
+  getViewport: () => MapViewport | null;
+  layout: LayoutMode;
+  zones: NetworkZone[];
+}
+
+const DPI_OPTIONS = [96, 150, 300];
+
+const slugify = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'topologia';
+
+const MapExportMenu: React.FC<MapExportMenuProps> = ({ devices, siteName, scanDate, getViewport, layout, zones }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<'tree' | 'view'>('tree');
+  const [dpi, setDpi] = useState(150);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const buildOptions = (): MapExportOptions => ({
+    siteName,
+    scanDate,
+    viewport: scope === 'view' ? getViewport() ?? undefined : undefined,
+    layout,
+    zones
+  });
+
+  const run = async (action: (base: string, options: MapExportOptions) => void | Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const base = `${slugify(siteName)}-${scanDate.toISOString().slice(0, 10)}`;
+      await action(base, buildOptions());
+      setIsOpen(false);
+    } catch (e: any) {
+      setError(e.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const itemClass = "w-full flex items-center gap-2 px-3 py-2 rounded text-sm text-slate-300 hover:bg-slate-700 disabled:opacity-50 transition-colors";
+
+  return (
+    <div className="absolute top-8 right-8 z-10">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={devices.length === 0}
+        className="flex items-center gap-2 bg-slate-800/90 backdrop-blur px-3 py-2 rounded-lg border border-slate-700 text-xs text-slate-300 hover:text-white shadow-lg disabled:opacity-50"
+      >
+        {isOpen ? <X size={14} /> : <Download size={14} />} Esporta mappa
+      </button>
+      {isOpen && (
+        <div className="mt-2 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex gap-1 bg-slate-900 rounded p-1 text-xs">
+            <button onClick={() => setScope('tree')} className={`flex-1 py-1 rounded ${scope === 'tree' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Albero intero</button>
+            <button onClick={() => setScope('view')} className={`flex-1 py-1 rounded ${scope === 'view' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Vista corrente</button>
+          </div>
+          <button disabled={busy} onClick={() => run((base, o) => exportSvg(`${base}.svg`, devices, o))} className={itemClass}><FileCode size={14} className="text-indigo-400" /> SVG</button>
+          <div className="flex items-center gap-2">
+            <button disabled={busy} onClick={() => run((base, o) => exportPng(`${base}-${dpi}dpi.png`, devices, o, dpi))} className={itemClass}><Image size={14} className="text-indigo-400" /> PNG</button>
+            <select value={dpi} onChange={e => setDpi(Number(e.target.value))} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300">
+              {DPI_OPTIONS.map(v => <option key={v} value={v}>{v} DPI</option>)}
+            </select>
+          </div>
+          <button disabled={busy} onClick={() => run((_, o) => openPrintablePage(devices, o))} className={itemClass}><Printer size={14} className="text-indigo-400" /> Pagina stampabile / PDF</button>
+          {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapExportMenu;
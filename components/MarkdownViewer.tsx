@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { MdBlock, MdInline, parseMarkdown } from '../services/markdown';
+
+interface MarkdownViewerProps {
+  text: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  'text-xl font-bold text-indigo-300 mt-4',
+  'text-lg font-bold text-indigo-300 mt-4',
+  'text-base font-bold text-indigo-300 mt-3',
+  'text-sm font-bold text-slate-200 mt-3',
+  'text-sm font-bold text-slate-300 mt-2',
+  'text-xs font-bold text-slate-400 uppercase mt-2'
+];
+
+const renderInline = (nodes: MdInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-900 text-amber-200 font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong': return <strong key={i} className="font-bold text-slate-100">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i} className="text-slate-500">{renderInline(node.children)}</del>;
+      case 'link': return <a key={i} href={node.href} title={node.title} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-400 hover:text-indigo-300 underline">{renderInline(node.children)}</a>;
+      // Le immagini remote non vengono caricate (eviterebbero richieste verso host esterni): solo il link
+      case 'image': return <a key={i} href={node.src} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-400 underline">[immagine: {node.alt || node.src}]</a>;
+      case 'break': return <br key={i} />;
+    }
+  });
+
+const renderBlocks = (blocks: MdBlock[], tight = false): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        // Negli elenchi compatti il testo non va a capo come paragrafo
+        return tight ? <React.Fragment key={i}>{renderInline(block.children)}</React.Fragment> : <p key={i} className="text-slate-300 leading-relaxed">{renderInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={i} className="bg-slate-950 border border-slate-700 rounded p-3 overflow-x-auto text-xs" data-lang={block.lang || undefined}>
+            <code className="font-mono text-slate-200">{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return <blockquote key={i} className="border-l-4 border-slate-600 pl-4 text-slate-400 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="text-slate-300 space-y-2">{renderBlocks(item, block.tight)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>{block.header.map((cell, c) => <th key={c} style={{ textAlign: block.align[c] ?? undefined }} className="border border-slate-700 bg-slate-900 px-3 py-1 font-bold text-slate-200">{renderInline(cell)}</th>)}</tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>{row.map((cell, c) => <td key={c} style={{ textAlign: block.align[c] ?? undefined }} className="border border-slate-700 px-3 py-1 text-slate-300">{renderInline(cell)}</td>)}</tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      // L'HTML grezzo resta testo: niente markup interpretato dall'output del modello
+      case 'html': return <pre key={i} className="text-xs text-slate-400 whitespace-pre-wrap font-mono">{block.text}</pre>;
+      case 'hr': return <hr key={i} className="border-slate-700" />;
+    }
+  });
+
+/**
+ * Markdown renderizzato come elementi React (mai come HTML): il testo del modello
+ * non può iniettare markup, script o URL pericolosi.
+ */
+const MarkdownViewer: React.FC<MarkdownViewerProps> = ({ text, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`text-sm space-y-3 ${className}`}>{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownViewer;
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { NetworkDevice, OptimizationResult } from '../types';
+import { TopologyChange, diffTopology } from '../services/topologyEditing';
+import { ArrowRight, Check, CheckCheck, AlertTriangle } from 'lucide-react';
+
+interface OptimizationReviewProps {
+  devices: NetworkDevice[];
+  result: OptimizationResult;
+  onApply: (changes: TopologyChange[]) => void;
+}
+
+/**
+ * Modifiche della topologia proposta rispetto a quella attuale, da accettare una alla
+ * volta o in blocco. Il confronto è sempre con i device correnti: una modifica
+ * accettata (o fatta a mano nello stesso modo) sparisce dall'elenco.
+ */
+const OptimizationReview: React.FC<OptimizationReviewProps> = ({ devices, result, onApply }) => {
+  const changes = useMemo(() => diffTopology(devices, result.optimizedTopology), [devices, result]);
+  const byId = useMemo(() => new Map(devices.map(d => [d.id, d])), [devices]);
+
+  const nameOf = (id: string | null) => (id ? byId.get(id)?.name || id : 'radice');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-300 uppercase tracking-wider">Modifiche proposte ({changes.length})</h4>
+        {changes.length > 1 && (
+          <button onClick={() => onApply(changes)} className="flex items-center gap-1 text-xs bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1 rounded font-bold transition-colors"><CheckCheck size={14} /> Accetta tutte</button>
+        )}
+      </div>
+      {changes.length === 0 && <p className="text-xs text-slate-500">Nessuna differenza rispetto alla topologia attuale.</p>}
+      <ul className="space-y-2">
+        {changes.map(change => (
+          <li key={change.deviceId} className="flex items-center gap-3 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-xs">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="font-bold text-slate-200 truncate">{nameOf(change.deviceId)}</div>
+              {change.fromParentId !== change.toParentId && (
+                <div className="flex items-center gap-2 text-slate-400">
+                  <span className="text-red-300 line-through truncate">{nameOf(change.fromParentId)}</span>
+                  <ArrowRight size={12} className="shrink-0" />
+                  <span className="text-emerald-300 truncate">{nameOf(change.toParentId)}</span>
+                </div>
+              )}
+              {change.fromType !== change.toType && (
+                <div className="flex items-center gap-2 text-slate-400 font-mono">
+                  <span className="text-red-300 line-through">{change.fromType}</span>
+                  <ArrowRight size={12} />
+                  <span className="text-emerald-300">{change.toType}</span>
+                </div>
+              )}
+            </div>
+            <button onClick={() => onApply([change])} className="flex items-center gap-1 px-2 py-1 rounded bg-emerald-600/20 text-emerald-300 hover:bg-emerald-600/40 shrink-0" title="Applica questa modifica"><Check size={12} /> Accetta</button>
+          </li>
+        ))}
+      </ul>
+      {result.issues && result.issues.length > 0 && (
+        <details className="text-xs text-amber-300 bg-amber-900/20 border border-amber-700/40 rounded px-3 py-2">
+          <summary className="cursor-pointer flex items-center gap-2"><AlertTriangle size={12} /> Risposta del modello corretta ({result.issues.length})</summary>
+          <ul className="mt-2 space-y-1 list-disc list-inside text-amber-200/80">
+            {result.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default OptimizationReview;
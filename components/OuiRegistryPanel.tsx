@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { OuiRegistryInfo, getOuiRegistryInfo, installOuiRegistry, resetOuiRegistry } from '../services/ouiService';
+import { Database, Upload, RotateCcw } from 'lucide-react';
+
+interface OuiRegistryPanelProps {
+  onUpdated: () => void; // Il registro attivo è cambiato: i produttori vanno ricalcolati
+}
+
+const OuiRegistryPanel: React.FC<OuiRegistryPanelProps> = ({ onUpdated }) => {
+  const [info, setInfo] = useState<OuiRegistryInfo>(getOuiRegistryInfo);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    setBusy(true);
+    try {
+      setInfo(await installOuiRegistry(await Promise.all(Array.from(files).map(f => f.text()))));
+      onUpdated();
+    } catch (e: any) {
+      setError(e.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setInfo(await resetOuiRegistry());
+    onUpdated();
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-bold text-cyan-400 uppercase tracking-wider flex items-center gap-2"><Database className="w-4 h-4"/> Database Produttori (OUI)</h3>
+      <p className="text-xs text-slate-500">
+        Il produttore viene ricavato offline dal prefisso del MAC con il registro IEEE incluso. Per aggiornarlo carica i file IEEE
+        (oui.csv, mam.csv, oui36.csv o oui.txt) oppure il file manuf di Wireshark: le voci vengono aggiunte a quelle presenti.
+      </p>
+      <div className="flex items-center gap-4 text-sm text-slate-300 bg-slate-900 border border-slate-700 rounded px-4 py-3">
+        <span className="flex-1">
+          {info.source === 'bundled' ? 'Registro incluso' : `Registro aggiornato il ${new Date(info.updatedAt!).toLocaleString('it-IT')}`}
+        </span>
+        <span className="font-mono text-xs text-slate-400">MA-L {info.counts['MA-L']} · MA-M {info.counts['MA-M']} · MA-S {info.counts['MA-S']}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className={`flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded transition-colors cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload size={14} /> {busy ? 'Elaborazione...' : 'Carica registro'}
+          <input type="file" multiple accept=".csv,.txt,manuf" className="hidden" onChange={e => { handleFiles(e.target.files); e.target.value = ''; }} />
+        </label>
+        {info.source === 'custom' && (
+          <button onClick={handleReset} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white px-3 py-2"><RotateCcw size={14} /> Torna al registro incluso</button>
+        )}
+      </div>
+      {error && <div className="text-sm text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default OuiRegistryPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { NetworkDevice, NetVisioProject, NetworkZone } from '../types';
+import { EXPORT_FORMATS, ExportFormat, ProjectValidationError, exportDevices, importProject } from '../services/projectFormats';
+import { downloadTextFile, slugifyFileName } from '../services/download';
+import { Download, FolderOpen, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface ProjectExchangeProps {
+  projectName: string;
+  devices: NetworkDevice[];
+  optimizedTopology?: NetworkDevice[];
+  zones: NetworkZone[];
+  onProjectNameChange: (name: string) => void;
+  onLoad: (project: NetVisioProject) => void;
+}
+
+const ProjectExchange: React.FC<ProjectExchangeProps> = ({ projectName, devices, optimizedTopology, zones, onProjectNameChange, onLoad }) => {
+  const [loaded, setLoaded] = useState<{ fileName: string; project: NetVisioProject } | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleExport = (format: ExportFormat, source: NetworkDevice[], suffix = '') => {
+    const meta = EXPORT_FORMATS.find(f => f.id === format)!;
+    try {
+      // Il progetto JSON include sempre anche la topologia ottimizzata (se presente) e le zone
+      const content = exportDevices(format, source, projectName, format === 'json' ? optimizedTopology : undefined, zones);
+      downloadTextFile(`${slugifyFileName(projectName)}${suffix}.${meta.extension}`, content, meta.mime);
+    } catch (e: any) {
+      setIssues([`Export non riuscito: ${e.message || e}`]);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoaded(null);
+    setIssues([]);
+    try {
+      setLoaded({ fileName: file.name, project: importProject(await file.text()) });
+    } catch (e: any) {
+      setIssues(e instanceof ProjectValidationError ? e.issues : [e.message || String(e)]);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!loaded) return;
+    onLoad(loaded.project);
+    setLoaded(null);
+  };
+
+  const exportButtons = (source: NetworkDevice[], suffix = '') => (
+    <div className="grid grid-cols-2 gap-2">
+      {EXPORT_FORMATS.map(f => (
+        <button
+          key={f.id}
+          onClick={() => handleExport(f.id, source, suffix)}
+          disabled={source.length === 0}
+          className="flex items-center gap-2 px-3 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded text-sm text-slate-300 disabled:opacity-50 transition-colors"
+        >
+          <Download size={14} className="text-indigo-400" /> {f.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="h-full overflow-y-auto p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+          <h3 className="text-lg font-bold text-white">Progetto</h3>
+          <label className="block text-sm text-slate-400">Nome sito / progetto
+            <input
+              value={projectName}
+              onChange={e => onProjectNameChange(e.target.value)}
+              placeholder="Es. Studio Rossi - Sede Bari"
+              className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+        </div>
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+          <h3 className="text-lg font-bold text-white">Esporta rete corrente <span className="text-sm font-normal text-slate-500">({devices.length} device)</span></h3>
+          {exportButtons(devices)}
+          {optimizedTopology && (
+            <>
+              <h4 className="text-sm font-bold text-emerald-400 pt-2">Esporta topologia ottimizzata</h4>
+              {exportButtons(optimizedTopology, '-ottimizzata')}
+            </>
+          )}
+        </div>
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+          <h3 className="text-lg font-bold text-white">Importa progetto</h3>
+          <label
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={e => { e.preventDefault(); setIsDragging(false); handleFile(e.dataTransfer.files[0]); }}
+            className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-6 text-sm cursor-pointer transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-900/20 text-indigo-300' : 'border-slate-600 text-slate-400 hover:border-slate-500'}`}
+          >
+            <FolderOpen size={24} />
+            Trascina un file .netvisio.json, .csv, .graphml o .drawio
+            <input type="file" accept=".json,.csv,.graphml,.xml,.drawio" className="hidden" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {issues.length > 0 && (
+            <div className="bg-red-900/20 border border-red-800 rounded p-4 text-sm text-red-300 space-y-1">
+              <div className="flex items-center gap-2 font-bold"><AlertTriangle size={16} /> Import non riuscito</div>
+              <ul className="list-disc list-inside text-xs space-y-0.5">
+                {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {loaded && (
+            <div className="bg-emerald-900/20 border border-emerald-800 rounded p-4 text-sm text-emerald-300 flex items-center gap-4">
+              <CheckCircle2 size={18} />
+              <div className="flex-1">
+                <div className="font-bold">{loaded.fileName}</div>
+                <div className="text-xs text-slate-400">
+                  {loaded.project.name && `${loaded.project.name} · `}{loaded.project.devices.length} device
+                  {loaded.project.optimizedTopology && ' · include topologia ottimizzata'}
+                </div>
+              </div>
+              <button onClick={handleConfirm} className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors">Sostituisci rete corrente</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectExchange;
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScanSnapshot, SnapshotDiff, NetworkDevice } from '../types';
+import { listSnapshots, deleteSnapshot, diffDevices } from '../services/historyService';
+import { History, GitCompare, Trash2, Eye, PlusCircle, MinusCircle, RefreshCw } from 'lucide-react';
+
+interface ScanHistoryProps {
+  refreshKey: number; // Incrementato dall'App dopo ogni nuovo snapshot
+  onShowOverlay: (diff: SnapshotDiff, before: ScanSnapshot, after: ScanSnapshot) => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString('it-IT');
+
+const DeviceRow: React.FC<{ device: NetworkDevice }> = ({ device }) => (
+  <tr className="border-b border-slate-800/50">
+    <td className="p-2 text-slate-200">{device.name}</td>
+    <td className="p-2 text-slate-400 font-mono">{device.ip}</td>
+    <td className="p-2 text-slate-500 font-mono text-xs">{device.mac}</td>
+    <td className="p-2 text-slate-400 text-xs">{device.type}</td>
+  </tr>
+);
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ refreshKey, onShowOverlay }) => {
+  const [snapshots, setSnapshots] = useState<ScanSnapshot[]>([]);
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSnapshots()
+      .then(list => {
+        setSnapshots(list);
+        setAfterId(list[0]?.id || '');
+        setBeforeId(list[1]?.id || list[0]?.id || '');
+      })
+      .catch(e => setLoadError(e?.message || String(e)));
+  }, [refreshKey]);
+
+  const before = snapshots.find(s => s.id === beforeId);
+  const after = snapshots.find(s => s.id === afterId);
+  const diff = useMemo(
+    () => (before && after ? diffDevices(before.devices, after.devices) : null),
+    [before, after]
+  );
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Eliminare questo snapshot?")) return;
+    await deleteSnapshot(id);
+    const next = snapshots.filter(s => s.id !== id);
+    setSnapshots(next);
+    if (beforeId === id) setBeforeId(next[1]?.id || next[0]?.id || '');
+    if (afterId === id) setAfterId(next[0]?.id || '');
+  };
+
+  const selectClass = "flex-1 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="h-full flex gap-4 p-4 overflow-hidden">
+      <div className="w-80 shrink-0 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-2 font-bold text-slate-200"><History size={18} className="text-indigo-400" /> Snapshot ({snapshots.length})</div>
+        <div className="flex-1 overflow-y-auto">
+          {loadError && <div className="p-4 text-sm text-red-400">{loadError}</div>}
+          {!loadError && snapshots.length === 0 && <div className="p-4 text-sm text-slate-500">Nessuna scansione salvata. Ogni Auto-Scan completato crea uno snapshot.</div>}
+          {snapshots.map(s => (
+            <div key={s.id} className={`px-4 py-3 border-b border-slate-700/50 text-sm flex items-start gap-2 ${s.id === afterId || s.id === beforeId ? 'bg-slate-900/60' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200">{formatDate(s.timestamp)}</div>
+                <div className="text-xs text-slate-500 truncate font-mono" title={s.label}>{s.label}</div>
+                <div className="text-xs text-slate-400">{s.devices.length} device</div>
+              </div>
+              <button onClick={() => handleDelete(s.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Elimina"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden min-w-0">
+        <div className="p-4 border-b border-slate-700 bg-slate-900/50 space-y-3 shrink-0">
+          <h3 className="font-bold text-slate-200 flex items-center gap-2"><GitCompare size={18} className="text-indigo-400" /> Confronto Snapshot</h3>
+          <div className="flex gap-3 items-center">
+            <select value={beforeId} onChange={e => setBeforeId(e.target.value)} className={selectClass}>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{formatDate(s.timestamp)} ({s.devices.length})</option>)}
+            </select>
+            <span className="text-slate-500">→</span>
+            <select value={afterId} onChange={e => setAfterId(e.target.value)} className={selectClass}>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{formatDate(s.timestamp)} ({s.devices.length})</option>)}
+            </select>
+            <button
+              onClick={() => diff && before && after && onShowOverlay(diff, before, after)}
+              disabled={!diff}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50 transition-colors"
+            >
+              <Eye size={16} /> Overlay
+            </button>
+          </div>
+        </div>
+
+        {diff && (
+          <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            <div className="flex gap-4 text-sm">
+              <span className="text-emerald-400">+{diff.added.length} nuovi</span>
+              <span className="text-red-400">−{diff.removed.length} scomparsi</span>
+              <span className="text-amber-400">Δ{diff.changed.length} modificati</span>
+              <span className="text-slate-500">{diff.unchangedCount} invariati</span>
+            </div>
+
+            <section>
+              <h4 className="text-sm font-bold text-emerald-400 uppercase mb-2 flex items-center gap-2"><PlusCircle size={14} /> Nuovi</h4>
+              {diff.added.length === 0 ? <p className="text-xs text-slate-500">Nessuno</p> : (
+                <table className="w-full text-left text-sm"><tbody>{diff.added.map(d => <DeviceRow key={d.id} device={d} />)}</tbody></table>
+              )}
+            </section>
+
+            <section>
+              <h4 className="text-sm font-bold text-red-400 uppercase mb-2 flex items-center gap-2"><MinusCircle size={14} /> Scomparsi</h4>
+              {diff.removed.length === 0 ? <p className="text-xs text-slate-500">Nessuno</p> : (
+                <table className="w-full text-left text-sm"><tbody>{diff.removed.map(d => <DeviceRow key={d.id} device={d} />)}</tbody></table>
+              )}
+            </section>
+
+            <section>
+              <h4 className="text-sm font-bold text-amber-400 uppercase mb-2 flex items-center gap-2"><RefreshCw size={14} /> Modificati</h4>
+              {diff.changed.length === 0 ? <p className="text-xs text-slate-500">Nessuno</p> : (
+                <table className="w-full text-left text-sm">
+                  <tbody>
+                    {diff.changed.map(c => (
+                      <tr key={c.identity} className="border-b border-slate-800/50 align-top">
+                        <td className="p-2 text-slate-200">{c.after.name}<div className="text-xs text-slate-500 font-mono">{c.identity}</div></td>
+                        <td className="p-2 text-xs space-y-1">
+                          {c.changes.map(ch => (
+                            <div key={ch.field} className="font-mono">
+                              <span className="text-slate-500 uppercase">{ch.field}</span>{' '}
+                              <span className="text-red-300 line-through">{ch.before ?? '—'}</span>{' → '}
+                              <span className="text-emerald-300">{ch.after ?? '—'}</span>
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanHistory;
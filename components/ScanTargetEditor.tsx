@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { ScanTarget } from '../types';
+import { countTargetHosts, formatScanTarget, splitTargetList } from '../services/scanTargets';
+import { History } from 'lucide-react';
+
+interface ScanTargetEditorProps {
+  includeText: string;
+  excludeText: string;
+  recent: ScanTarget[];
+  disabled?: boolean;
+  onIncludeChange: (text: string) => void;
+  onExcludeChange: (text: string) => void;
+  onSelectRecent: (target: ScanTarget) => void;
+}
+
+const ScanTargetEditor: React.FC<ScanTargetEditorProps> = ({
+  includeText,
+  excludeText,
+  recent,
+  disabled,
+  onIncludeChange,
+  onExcludeChange,
+  onSelectRecent
+}) => {
+  // Anteprima: numero di host o primo errore di sintassi
+  const preview = useMemo(() => {
+    try {
+      const include = splitTargetList(includeText);
+      if (include.length === 0) return { ok: false, text: 'Nessun target' };
+      const count = countTargetHosts({ include, exclude: splitTargetList(excludeText) });
+      return { ok: true, text: `${count} host da sondare` };
+    } catch (e: any) {
+      return { ok: false, text: e.message };
+    }
+  }, [includeText, excludeText]);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <label className="block font-bold text-slate-500 uppercase">Target</label>
+      <textarea
+        value={includeText}
+        onChange={e => onIncludeChange(e.target.value)}
+        disabled={disabled}
+        rows={2}
+        placeholder="10.20.0.0/22, 192.168.1.0/24"
+        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono resize-none focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+      />
+      <label className="block font-bold text-slate-500 uppercase">Escludi</label>
+      <input
+        type="text"
+        value={excludeText}
+        onChange={e => onExcludeChange(e.target.value)}
+        disabled={disabled}
+        placeholder="10.20.1.0/28, 10.20.0.5"
+        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+      />
+      <div className={preview.ok ? 'text-slate-500' : 'text-red-400'}>{preview.text}</div>
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 font-bold text-slate-500 uppercase"><History size={12} /> Recenti</div>
+          {recent.map((t, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectRecent(t)}
+              disabled={disabled}
+              title={formatScanTarget(t)}
+              className="w-full text-left px-2 py-1 rounded bg-slate-900 hover:bg-slate-800 text-slate-400 hover:text-white font-mono truncate transition-colors disabled:opacity-50"
+            >
+              {formatScanTarget(t)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanTargetEditor;
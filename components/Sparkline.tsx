@@ -0,0 +1,35 @@
+import React from 'react';
+import { DeviceSample } from '../types';
+
+interface SparklineProps {
+  samples: DeviceSample[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Mini grafico della latenza: linea per i campioni online, tacche rosse per quelli offline.
+ */
+const Sparkline: React.FC<SparklineProps> = ({ samples, width = 100, height = 24 }) => {
+  if (samples.length === 0) return <span className="text-xs text-slate-600">—</span>;
+
+  const maxLatency = Math.max(1, ...samples.map(s => s.latency ?? 0));
+  const step = samples.length > 1 ? width / (samples.length - 1) : 0;
+  const yOf = (latency: number) => height - 2 - (latency / maxLatency) * (height - 4);
+
+  const points = samples
+    .map((s, i) => (s.online && s.latency !== undefined ? `${(i * step).toFixed(1)},${yOf(s.latency).toFixed(1)}` : null))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="block">
+      {points && <polyline points={points} fill="none" stroke="#34d399" strokeWidth={1.5} />}
+      {samples.map((s, i) => !s.online && (
+        <rect key={i} x={i * step - 1} y={0} width={2} height={height} fill="#ef4444" opacity={0.7} />
+      ))}
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -1,16 +1,89 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { NetworkDevice, DeviceType } from '../types';
+import { NetworkDevice, DeviceType, DiffKind, NetworkZone } from '../types';
+import { NODE_WIDTH, NODE_HEIGHT, TYPE_COLORS, TYPE_LABELS, LAYOUT_MODES, LayoutMode, LayoutEdge, LayoutNode, TopologyLayout, computeLayout } from '../services/topologyLayout';
+import { LINK_MEDIA, LINK_MEDIUM_IDS, formatSpeed } from '../services/topologyLinks';
+import { isInSubtree } from '../services/topologyEditing';
+import { MapViewport } from '../services/mapExport';
+import { ZoneHull, computeZoneHulls, formatZoneHullLabel, isZoneNode } from '../services/networkZones';
 
 interface TopologyMapProps {
   devices: NetworkDevice[];
   onContextMenu: (e: React.MouseEvent, device: NetworkDevice) => void;
+  highlights?: Record<string, DiffKind>; // Overlay differenze tra snapshot, per id device
+  focusIds?: string[]; // Device evidenziati (es. un rilievo dell'analisi): la vista si centra su di loro
+  onViewportChange?: (viewport: MapViewport) => void; // Area visibile in coordinate del layout, per l'export
+  onReparent?: (deviceId: string, parentId: string) => void; // Se presente, i nodi si trascinano su un nuovo padre
+  layout?: LayoutMode;
+  onLayoutChange?: (layout: LayoutMode) => void; // Se presente, la legenda mostra il selettore di layout
+  zones?: NetworkZone[]; // Zone disegnate come contorni; i device possono già essere compressi con collapseZones
+  onToggleZone?: (zoneId: string) => void;
 }
 
-const TopologyMap: React.FC<TopologyMapProps> = ({ devices, onContextMenu }) => {
+const DIFF_COLORS: Record<DiffKind, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#f59e0b'
+};
+
+const DIFF_BADGES: Record<DiffKind, string> = {
+  added: '+',
+  removed: '−',
+  changed: 'Δ'
+};
+
+const FALLBACK_SIZE = { width: 800, height: 600 };
+
+const STATUS_COLORS: Record<NetworkDevice['status'], string> = {
+  online: '#10b981',
+  warning: '#f59e0b',
+  offline: '#ef4444'
+};
+
+// Firma dei dati che influiscono sul layout: stato e latenza (aggiornati dal monitoraggio) ne sono esclusi
+const layoutSignature = (devices: NetworkDevice[]) =>
+  JSON.stringify(devices.map(({ status: _status, latency: _latency, ...rest }) => rest));
+
+// Etichette lungo un collegamento: velocità e porte, solo se note
+const linkLabels = (d: LayoutEdge) => ([
+  [d.speedLabel, formatSpeed(d.edge.speedMbps)],
+  [d.sourcePortLabel, d.edge.sourcePort],
+  [d.targetPortLabel, d.edge.targetPort]
+] as const).flatMap(([pos, text]) => (text ? [{ ...pos, text, anchor: d.orthogonal ? 'start' : 'middle' }] : []));
+
+const TopologyMap: React.FC<TopologyMapProps> = ({ devices, onContextMenu, highlights, focusIds, onViewportChange, onReparent, layout = 'hierarchical' as LayoutMode, onLayoutChange, zones, onToggleZone }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  // In un ref per non ridisegnare la mappa quando cambia la callback
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+  const onReparentRef = useRef(onReparent);
+  onReparentRef.current = onReparent;
+  const onToggleZoneRef = useRef(onToggleZone);
+  onToggleZoneRef.current = onToggleZone;
+  const onContextMenuRef = useRef(onContextMenu);
+  onContextMenuRef.current = onContextMenu;
+  const canEdit = !!onReparent;
   const wrapperRef = useRef<HTMLDivElement>(null);
-  const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  const [dimensions, setDimensions] = useState(FALLBACK_SIZE);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Layout e focus dell'ultima inquadratura: la vista si reimposta solo quando cambiano
+  const framedRef = useRef<{ layout: LayoutMode; focusKey: string } | null>(null);
+  const focusKey = (focusIds ?? []).join(',');
+  // Device correnti per id: il layout può essere stato calcolato con stato e latenza precedenti
+  const devicesById = useMemo(() => new Map(devices.map(d => [d.id, d])), [devices]);
+  const devicesByIdRef = useRef(devicesById);
+  devicesByIdRef.current = devicesById;
+
+  // Letta dal DOM: al primo disegno lo stato ha ancora le dimensioni di default
+  const viewportSize = () => ({
+    width: wrapperRef.current?.clientWidth || FALLBACK_SIZE.width,
+    height: wrapperRef.current?.clientHeight || FALLBACK_SIZE.height
+  });
+
+  const reportViewport = (t: d3.ZoomTransform) => {
+    const { width, height } = viewportSize();
+    onViewportChangeRef.current?.({ x: -t.x / t.k, y: -t.y / t.k, width: width / t.k, height: height / t.k });
+  };
 
   // Handle Resize
   useEffect(() => {
@@ -27,208 +100,382 @@ const TopologyMap: React.FC<TopologyMapProps> = ({ devices, onContextMenu }) =>
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // D3 Logic
+  // Zoom e gruppi dei livelli creati una sola volta: i nuovi dati non toccano pan e zoom dell'utente
   useEffect(() => {
-    if (!devices.length || !svgRef.current) return;
-
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous
-
-    const { width, height } = dimensions;
-    
-    // Zoom behavior
-    const zoomGroup = svg.append("g");
+    const svg = d3.select(svgRef.current!);
+    const zoomGroup = svg.append("g").attr("class", "zoom-root");
+    ["zone-layer", "link-layer", "node-layer", "overlay-layer"].forEach(layer => zoomGroup.append("g").attr("class", layer));
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 3])
       .on("zoom", (event) => {
         zoomGroup.attr("transform", event.transform);
+        reportViewport(event.transform);
       });
-    
     svg.call(zoom);
+    zoomRef.current = zoom;
+    return () => {
+      svg.on(".zoom", null);
+      zoomGroup.remove();
+      zoomRef.current = null;
+      framedRef.current = null;
+    };
+  }, []);
 
-    // Initial transform to center roughly
-    svg.call(zoom.transform, d3.zoomIdentity.translate(width / 2, 50).scale(1));
-
-    // Data Preparation
-    const validIds = new Set(devices.map(d => d.id));
-    
-    // Clean data
-    let cleanDevices = devices.map(d => ({
-      ...d,
-      parentId: d.parentId && validIds.has(d.parentId) ? d.parentId : null
-    }));
-
-    // Handle orphans/multiple roots
-    const roots = cleanDevices.filter(d => d.parentId === null);
-    if (roots.length > 1) {
-        const mainRoot = roots.find(r => r.type === DeviceType.ROUTER) || roots[0];
-        cleanDevices = cleanDevices.map(d => {
-            if (d.parentId === null && d.id !== mainRoot.id) {
-                return { ...d, parentId: mainRoot.id };
-            }
-            return d;
-        });
-    }
+  useEffect(() => {
+    if (svgRef.current) reportViewport(d3.zoomTransform(svgRef.current));
+  }, [dimensions]);
 
-    let root;
+  const signature = useMemo(() => layoutSignature(devices), [devices]);
+  const graph = useMemo((): TopologyLayout | null => {
+    if (!devices.length) return { nodes: [], edges: [] };
     try {
-        const stratify = d3.stratify<NetworkDevice>()
-            .id(d => d.id)
-            .parentId(d => d.parentId);
-        root = stratify(cleanDevices);
+      return computeLayout(devices, layout);
     } catch (e) {
-        console.warn("Topology stratify failed:", e);
-        zoomGroup.append("text")
-           .attr("x", 0)
-           .attr("y", 0)
-           .attr("text-anchor", "middle")
-           .attr("fill", "red")
-           .text("Errore dati topologia");
-        return; 
+      console.warn("Topology stratify failed:", e);
+      return null;
     }
+  }, [signature, layout]);
+
+  // D3 Logic: join sui dati, i nodi esistenti vengono aggiornati e non ricreati
+  useEffect(() => {
+    const zoom = zoomRef.current;
+    if (!zoom || !svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoomGroup = svg.select<SVGGElement>("g.zoom-root");
+    const overlayLayer = zoomGroup.select<SVGGElement>("g.overlay-layer");
+    const layoutNodes = graph?.nodes ?? [];
+
+    overlayLayer.selectAll<SVGTextElement, string>("text.layout-error")
+      .data(graph ? [] : ["Errore dati topologia"])
+      .join("text")
+      .attr("class", "layout-error")
+      .attr("x", 0)
+      .attr("y", 0)
+      .attr("text-anchor", "middle")
+      .attr("fill", "red")
+      .text(d => d);
 
     // Configurazione Card
-    const nodeWidth = 180;
-    const nodeHeight = 70;
-    const horizontalSpacing = nodeWidth + 40;
-    const verticalSpacing = nodeHeight + 60;
-
-    const treeLayout = d3.tree<NetworkDevice>()
-        .nodeSize([horizontalSpacing, verticalSpacing])
-        .separation((a, b) => a.parent === b.parent ? 1.1 : 1.3);
-
-    treeLayout(root);
-
-    // Custom Orthogonal Link Generator
-    const stepPath = (d: any) => {
-        const sourceX = d.source.x;
-        const sourceY = d.source.y + nodeHeight / 2; // Bottom center of source
-        const targetX = d.target.x;
-        const targetY = d.target.y - nodeHeight / 2; // Top center of target
-        const midY = (sourceY + targetY) / 2;
-
-        return `M${sourceX},${sourceY} 
-                V${midY} 
-                H${targetX} 
-                V${targetY}`;
-    };
+    const nodeWidth = NODE_WIDTH;
+    const nodeHeight = NODE_HEIGHT;
 
-    // Links
-    zoomGroup.selectAll(".link")
-      .data(root.links())
-      .enter().append("path")
-      .attr("class", "link")
-      .attr("fill", "none")
-      .attr("stroke", "#475569") // slate-600
-      .attr("stroke-width", 2)
-      .attr("d", stepPath);
-
-    // Nodes Group
-    const node = zoomGroup.selectAll(".node")
-      .data(root.descendants())
-      .enter().append("g")
-      .attr("class", "node cursor-pointer hover:brightness-110 transition-all")
-      .attr("transform", (d: any) => `translate(${d.x},${d.y})`)
-      .on("contextmenu", (event, d) => {
-          onContextMenu(event, d.data);
+    // Contorni delle zone (dietro a collegamenti e card); clic sull'etichetta per comprimere/espandere
+    const hull = zoomGroup.select("g.zone-layer").selectAll<SVGGElement, ZoneHull>(".zone-hull")
+      .data(graph && zones?.length ? computeZoneHulls(graph.nodes, zones) : [], d => d.zone.id)
+      .join(enter => {
+        const g = enter.append("g").attr("class", "zone-hull");
+        g.append("path")
+          .attr("fill-opacity", 0.07)
+          .attr("stroke-opacity", 0.7)
+          .attr("stroke-width", 1.5)
+          .attr("stroke-dasharray", "8,4")
+          .attr("stroke-linejoin", "round");
+        g.append("text")
+          .attr("class", "cursor-pointer select-none")
+          .style("font-size", "12px")
+          .style("font-weight", "bold")
+          .on("click", (event, d) => {
+            event.stopPropagation();
+            onToggleZoneRef.current?.(d.zone.id);
+          });
+        return g;
       });
+    hull.select("path")
+      .attr("d", d => d.path)
+      .attr("fill", d => d.zone.color)
+      .attr("stroke", d => d.zone.color);
+    hull.select("text")
+      .attr("x", d => d.labelX)
+      .attr("y", d => d.labelY)
+      .style("fill", d => d.zone.color)
+      .text(d => formatZoneHullLabel(d));
 
-    // 1. Rectangle Card Body
-    node.append("rect")
-      .attr("x", -nodeWidth / 2)
-      .attr("y", -nodeHeight / 2)
-      .attr("width", nodeWidth)
-      .attr("height", nodeHeight)
-      .attr("rx", 6) // Rounded corners
-      .attr("ry", 6)
-      .attr("fill", "#1e293b") // slate-800
-      .attr("stroke", d => {
-          switch(d.data.type) {
-              case DeviceType.ROUTER: return "#ef4444"; // Red
-              case DeviceType.SWITCH: return "#3b82f6"; // Blue
-              case DeviceType.SERVER: return "#8b5cf6"; // Purple
-              case DeviceType.PRINTER: return "#f59e0b"; // Yellow
-              case DeviceType.MOBILE: return "#10b981"; // Green
-              default: return "#64748b"; // Slate
-          }
-      })
-      .attr("stroke-width", 2)
-      .style("filter", "drop-shadow(3px 3px 5px rgba(0,0,0,0.5))"); // Shadow
+    // Links: stile per mezzo fisico, etichette di velocità e porte se presenti
+    const link = zoomGroup.select("g.link-layer").selectAll<SVGGElement, LayoutEdge>(".link")
+      .data(graph?.edges ?? [], d => d.edge.id)
+      .join(enter => {
+        const g = enter.append("g").attr("class", "link");
+        g.append("path").attr("fill", "none");
+        return g;
+      });
+
+    link.select("path")
+      .attr("stroke", d => LINK_MEDIA[d.edge.medium].color)
+      .attr("stroke-width", d => LINK_MEDIA[d.edge.medium].width)
+      .attr("stroke-dasharray", d => LINK_MEDIA[d.edge.medium].dash)
+      .attr("d", d => d.path);
 
-    // 2. Icon Area Background (Left side)
-    node.append("path")
-      .attr("d", `M${-nodeWidth/2 + 1},${-nodeHeight/2 + 1} 
+    link.selectAll<SVGTextElement, ReturnType<typeof linkLabels>[number]>("text")
+      .data(d => linkLabels(d))
+      .join(enter => enter.append("text")
+        .attr("dominant-baseline", "middle")
+        .style("font-family", "monospace")
+        .style("font-size", "9px")
+        .style("fill", "#cbd5e1")
+        .style("paint-order", "stroke")
+        .style("stroke", "#0f172a")
+        .style("stroke-width", "3px"))
+      .attr("x", l => l.x)
+      .attr("y", l => l.y)
+      .attr("text-anchor", l => l.anchor)
+      .text(l => l.text);
+
+    // Nodes Group: la struttura della card nasce all'ingresso, i valori si aggiornano a ogni render
+    const node = zoomGroup.select("g.node-layer").selectAll<SVGGElement, LayoutNode>(".node")
+      .data(layoutNodes, d => d.device.id)
+      .join(enter => {
+        const g = enter.append("g")
+          .attr("class", "node cursor-pointer hover:brightness-110 transition-all")
+          .on("contextmenu", (event, d) => {
+              // Il nodo di una zona compressa non è un device reale: niente menu
+              if (isZoneNode(d.device.id)) {
+                event.preventDefault();
+                return;
+              }
+              onContextMenuRef.current(event, devicesByIdRef.current.get(d.device.id) ?? d.device);
+          })
+          .on("dblclick", (event, d) => {
+              if (!isZoneNode(d.device.id)) return;
+              event.stopPropagation();
+              onToggleZoneRef.current?.(d.device.zoneId!);
+          });
+
+        // 1. Rectangle Card Body
+        g.append("rect")
+          .attr("class", "card")
+          .attr("x", -nodeWidth / 2)
+          .attr("y", -nodeHeight / 2)
+          .attr("width", nodeWidth)
+          .attr("height", nodeHeight)
+          .attr("rx", 6) // Rounded corners
+          .attr("ry", 6)
+          .attr("fill", "#1e293b") // slate-800
+          .attr("stroke-width", 2)
+          .style("filter", "drop-shadow(3px 3px 5px rgba(0,0,0,0.5))"); // Shadow
+
+        // 2. Icon Area Background (Left side)
+        g.append("path")
+          .attr("class", "icon-area")
+          .attr("d", `M${-nodeWidth/2 + 1},${-nodeHeight/2 + 1} 
                   h35 
                   v${nodeHeight - 2} 
                   h-35 
                   a5,5 0 0 1 -5,-5 
                   v-${nodeHeight - 12} 
-                  a5,5 0 0 1 5,-5 z`)
-      .attr("fill", d => {
-          switch(d.data.type) {
-              case DeviceType.ROUTER: return "#ef444420"; 
-              case DeviceType.SWITCH: return "#3b82f620";
-              default: return "#ffffff05";
-          }
-      });
+                  a5,5 0 0 1 5,-5 z`);
 
-    // 3. Icon Text
-    node.append("text")
-      .attr("x", -nodeWidth / 2 + 18)
-      .attr("y", 4)
-      .attr("text-anchor", "middle")
-      .style("font-family", "monospace")
-      .style("font-size", "10px")
-      .style("font-weight", "bold")
+        // 3. Icon Text
+        g.append("text")
+          .attr("class", "icon-label")
+          .attr("x", -nodeWidth / 2 + 18)
+          .attr("y", 4)
+          .attr("text-anchor", "middle")
+          .style("font-family", "monospace")
+          .style("font-size", "10px")
+          .style("font-weight", "bold");
+
+        // 4. Device Name (Top Line)
+        g.append("text")
+          .attr("class", "device-name")
+          .attr("x", -nodeWidth / 2 + 45)
+          .attr("y", -nodeHeight / 2 + 25)
+          .attr("text-anchor", "start")
+          .style("font-size", "12px")
+          .style("font-weight", "bold")
+          .style("fill", "#e2e8f0");
+
+        // 5. IP Address (Bottom Line)
+        g.append("text")
+          .attr("class", "device-ip")
+          .attr("x", -nodeWidth / 2 + 45)
+          .attr("y", -nodeHeight / 2 + 45)
+          .attr("text-anchor", "start")
+          .style("font-family", "monospace")
+          .style("font-size", "11px")
+          .style("fill", "#94a3b8");
+
+        // 6. Status Indicator (Dot)
+        g.append("circle")
+          .attr("class", "status-dot")
+          .attr("cx", nodeWidth / 2 - 10)
+          .attr("cy", -nodeHeight / 2 + 10)
+          .attr("r", 4);
+        g.append("title");
+        return g;
+      })
+      .attr("transform", d => `translate(${d.x},${d.y})`)
+      .style("opacity", d => highlights?.[d.device.id] === 'removed' ? 0.55 : 1);
+
+    node.select(".card").attr("stroke", d => TYPE_COLORS[d.device.type]);
+    node.select(".icon-area").attr("fill", d => {
+        switch(d.device.type) {
+            case DeviceType.ROUTER: return "#ef444420"; 
+            case DeviceType.SWITCH: return "#3b82f620";
+            default: return "#ffffff05";
+        }
+    });
+    node.select(".icon-label")
       .style("fill", d => {
-        switch(d.data.type) {
+        switch(d.device.type) {
             case DeviceType.ROUTER: return "#ef4444"; 
             case DeviceType.SWITCH: return "#3b82f6";
             default: return "#94a3b8";
         }
       })
-      .text(d => {
-          switch(d.data.type) {
-              case DeviceType.ROUTER: return "R";
-              case DeviceType.SWITCH: return "SW";
-              case DeviceType.SERVER: return "SRV";
-              case DeviceType.PRINTER: return "PRN";
-              case DeviceType.MOBILE: return "MB";
-              default: return "PC";
-          }
-      });
+      .text(d => TYPE_LABELS[d.device.type]);
+    node.select(".device-name").text(d => {
+        const name = d.device.name;
+        return name.length > 18 ? name.substring(0, 16) + "..." : name;
+    });
+    node.select(".device-ip").text(d => d.device.ip);
+
+    // 0. Alone dell'overlay differenze (dietro la card)
+    node.selectAll<SVGRectElement, LayoutNode>(".diff-halo")
+      .data(d => highlights?.[d.device.id] ? [d] : [])
+      .join(enter => enter.insert("rect", ".card")
+        .attr("class", "diff-halo")
+        .attr("x", -nodeWidth / 2 - 5)
+        .attr("y", -nodeHeight / 2 - 5)
+        .attr("width", nodeWidth + 10)
+        .attr("height", nodeHeight + 10)
+        .attr("rx", 9)
+        .attr("fill", "none")
+        .attr("stroke-width", 3))
+      .attr("stroke", d => DIFF_COLORS[highlights![d.device.id]])
+      .attr("stroke-dasharray", d => highlights![d.device.id] === 'removed' ? "6,4" : null);
 
-    // 4. Device Name (Top Line)
-    node.append("text")
-      .attr("x", -nodeWidth / 2 + 45)
-      .attr("y", -nodeHeight / 2 + 25)
-      .attr("text-anchor", "start")
-      .style("font-size", "12px")
-      .style("font-weight", "bold")
-      .style("fill", "#e2e8f0")
-      .text(d => {
-          const name = d.data.name;
-          return name.length > 18 ? name.substring(0, 16) + "..." : name;
+    // 0b. Anello dei device in evidenza
+    const focusSet = new Set(focusKey ? focusKey.split(',') : []);
+    node.selectAll<SVGRectElement, LayoutNode>(".focus-ring")
+      .data(d => focusSet.has(d.device.id) ? [d] : [])
+      .join(enter => enter.insert("rect", ".card")
+        .attr("x", -nodeWidth / 2 - 9)
+        .attr("y", -nodeHeight / 2 - 9)
+        .attr("width", nodeWidth + 18)
+        .attr("height", nodeHeight + 18)
+        .attr("rx", 12)
+        .attr("fill", "none")
+        .attr("stroke", "#818cf8")
+        .attr("stroke-width", 3)
+        .attr("class", "focus-ring animate-pulse"));
+
+    // 7. Badge overlay differenze (angolo in alto a sinistra)
+    const badge = node.selectAll<SVGGElement, LayoutNode>(".diff-badge")
+      .data(d => highlights?.[d.device.id] ? [d] : [])
+      .join(enter => {
+        const g = enter.append("g").attr("class", "diff-badge");
+        g.append("circle")
+          .attr("cx", -nodeWidth / 2)
+          .attr("cy", -nodeHeight / 2)
+          .attr("r", 9);
+        g.append("text")
+          .attr("x", -nodeWidth / 2)
+          .attr("y", -nodeHeight / 2 + 4)
+          .attr("text-anchor", "middle")
+          .style("font-size", "12px")
+          .style("font-weight", "bold")
+          .style("fill", "#0f172a");
+        return g;
       });
+    badge.select("circle").attr("fill", d => DIFF_COLORS[highlights![d.device.id]]);
+    badge.select("text").text(d => DIFF_BADGES[highlights![d.device.id]]);
+
+    // 8. Drag & drop per cambiare il padre: il nodo trascinato su un altro diventa suo figlio.
+    // I discendenti del nodo sono bersagli non validi (creerebbero un ciclo) e vengono segnalati in rosso.
+    const dropIndicator = overlayLayer.selectAll<SVGRectElement, null>("rect.drop-indicator")
+      .data(canEdit ? [null] : [])
+      .join(enter => enter.append("rect")
+        .attr("class", "drop-indicator")
+        .attr("width", nodeWidth + 12)
+        .attr("height", nodeHeight + 12)
+        .attr("rx", 10)
+        .attr("fill", "none")
+        .attr("stroke-width", 3)
+        .attr("stroke-dasharray", "6,4")
+        .attr("pointer-events", "none")
+        .style("display", "none"));
+
+    node.on(".drag", null);
+    if (canEdit) {
+      const layoutDevices = layoutNodes.map(n => n.device);
+      // I nodi di sintesi delle zone compresse non si spostano e non accolgono figli
+      const nodes = layoutNodes.filter(n => !isZoneNode(n.device.id));
+
+      let dropTarget: LayoutNode | null = null;
+      let forbidden = new Set<string>();
+
+      const drag = d3.drag<SVGGElement, LayoutNode>()
+        .on("start", function (event, d) {
+          event.sourceEvent.stopPropagation();
+          forbidden = new Set(layoutDevices.filter(x => isInSubtree(layoutDevices, d.device.id, x.id)).map(x => x.id));
+          d3.select(this).raise();
+        })
+        .on("drag", function (event, d) {
+          d3.select(this).attr("transform", `translate(${event.x},${event.y})`);
+          dropTarget = nodes.find(n => n !== d && Math.abs(n.x - event.x) < nodeWidth / 2 && Math.abs(n.y - event.y) < nodeHeight / 2) || null;
+          if (!dropTarget) {
+            dropIndicator.style("display", "none");
+            return;
+          }
+          dropIndicator
+            .style("display", null)
+            .attr("x", dropTarget.x - nodeWidth / 2 - 6)
+            .attr("y", dropTarget.y - nodeHeight / 2 - 6)
+            .attr("stroke", forbidden.has(dropTarget.device.id) ? "#ef4444" : "#22c55e");
+        })
+        .on("end", function (_event, d) {
+          dropIndicator.style("display", "none");
+          const target = dropTarget;
+          dropTarget = null;
+          if (target && !forbidden.has(target.device.id) && target.device.id !== d.device.parentId) {
+            onReparentRef.current?.(d.device.id, target.device.id);
+          } else {
+            d3.select(this).attr("transform", `translate(${d.x},${d.y})`);
+          }
+        });
+
+      node.filter(d => !isZoneNode(d.device.id)).call(drag);
+    }
 
-    // 5. IP Address (Bottom Line)
-    node.append("text")
-      .attr("x", -nodeWidth / 2 + 45)
-      .attr("y", -nodeHeight / 2 + 45)
-      .attr("text-anchor", "start")
-      .style("font-family", "monospace")
-      .style("font-size", "11px")
-      .style("fill", "#94a3b8")
-      .text(d => d.data.ip);
-
-    // 6. Status Indicator (Dot)
-    node.append("circle")
-        .attr("cx", nodeWidth / 2 - 10)
-        .attr("cy", -nodeHeight / 2 + 10)
-        .attr("r", 4)
-        .attr("fill", d => d.data.status === 'online' ? '#10b981' : '#ef4444');
-
-  }, [devices, dimensions, onContextMenu]);
+    // 9. Inquadratura solo al primo disegno, al cambio di layout o di device in evidenza;
+    // gli altri aggiornamenti (nuovi host, monitoraggio) lasciano pan e zoom dell'utente
+    const framed = framedRef.current;
+    const layoutChanged = framed?.layout !== layout;
+    if (layoutNodes.length === 0 || (!layoutChanged && framed?.focusKey === focusKey)) return;
+    framedRef.current = { layout, focusKey };
+    const { width, height } = viewportSize();
+    const focused = layoutNodes.filter(n => focusSet.has(n.device.id));
+    if (focused.length > 0) {
+      // Inquadra i device in evidenza (senza superare lo zoom 1:1)
+      const margin = 60;
+      const minX = d3.min(focused, n => n.x)! - nodeWidth / 2 - margin;
+      const maxX = d3.max(focused, n => n.x)! + nodeWidth / 2 + margin;
+      const minY = d3.min(focused, n => n.y)! - nodeHeight / 2 - margin;
+      const maxY = d3.max(focused, n => n.y)! + nodeHeight / 2 + margin;
+      const k = Math.max(0.1, Math.min(1, width / (maxX - minX), height / (maxY - minY)));
+      svg.call(zoom.transform, d3.zoomIdentity.translate(width / 2 - k * (minX + maxX) / 2, height / 2 - k * (minY + maxY) / 2).scale(k));
+    } else if (layoutChanged) {
+      // L'albero parte dall'alto, i layout radiale e a forze sono centrati
+      svg.call(zoom.transform, d3.zoomIdentity.translate(width / 2, layout === 'hierarchical' ? 50 : height / 2).scale(1));
+    }
+
+  }, [graph, highlights, focusKey, canEdit, layout, zones]);
+
+  // Stato e latenza (es. a ogni ciclo di monitoraggio): si aggiornano solo classi e attributi dei nodi
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const node = d3.select(svgRef.current).selectAll<SVGGElement, LayoutNode>("g.node-layer > .node");
+    const current = (d: LayoutNode) => devicesById.get(d.device.id) ?? d.device;
+    node
+      .classed("status-online", d => current(d).status === 'online')
+      .classed("status-warning", d => current(d).status === 'warning')
+      .classed("status-offline", d => current(d).status === 'offline');
+    node.select(".status-dot").attr("fill", d => STATUS_COLORS[current(d).status]);
+    node.select("title").text(d => {
+      const { name, ip, status, latency } = current(d);
+      return `${name} (${ip}) · ${status}${latency !== undefined ? ` · ${latency} ms` : ''}`;
+    });
+  }, [devicesById, graph]);
 
   return (
     <div ref={wrapperRef} className="w-full h-full bg-slate-900 rounded-lg border border-slate-700 overflow-hidden relative shadow-inner">
@@ -236,6 +483,18 @@ const TopologyMap: React.FC<TopologyMapProps> = ({ devices, onContextMenu }) =>
            <div className="flex items-center gap-2"><div className="w-3 h-3 bg-slate-800 border-2 border-red-500 rounded sm"></div> Router</div>
            <div className="flex items-center gap-2"><div className="w-3 h-3 bg-slate-800 border-2 border-blue-500 rounded sm"></div> Switch</div>
            <div className="flex items-center gap-2"><div className="w-3 h-3 bg-slate-800 border-2 border-green-500 rounded sm"></div> Client</div>
+           <span className="text-slate-500">|</span>
+           {LINK_MEDIUM_IDS.map(m => (
+             <div key={m} className="flex items-center gap-1">
+               <svg width="18" height="6"><line x1="0" y1="3" x2="18" y2="3" stroke={LINK_MEDIA[m].color} strokeWidth={LINK_MEDIA[m].width} strokeDasharray={LINK_MEDIA[m].dash ?? undefined} /></svg>
+               {LINK_MEDIA[m].label}
+             </div>
+           ))}
+           {onLayoutChange && (
+             <select value={layout} onChange={e => onLayoutChange(e.target.value as LayoutMode)} className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-300" title="Layout mappa">
+               {LAYOUT_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+             </select>
+           )}
            <span className="text-slate-500">| Scroll per Zoom, Drag per Pan</span>
         </div>
       <svg ref={svgRef} width={dimensions.width} height={dimensions.height} className="block cursor-grab active:cursor-grabbing" />
@@ -0,0 +1,278 @@
+import React, { useMemo, useState } from 'react';
+import { WanHop, WanTrace } from '../types';
+import {
+  importWanTrace,
+  buildTraceCommands,
+  detectLatencyJumps,
+  compareWanTraces,
+  isSameTraceTarget,
+  getHopRange,
+  LatencyJump
+} from '../services/wanTraceService';
+import { Globe, Info, Upload, Copy, Trash2, GitCompare, AlertTriangle } from 'lucide-react';
+
+interface WanTraceViewProps {
+  traces: WanTrace[];
+  target: string;
+  onTargetChange: (target: string) => void;
+  onTracesChange: (traces: WanTrace[]) => void;
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const MARGIN = { top: 16, right: 16, bottom: 44, left: 48 };
+const COLORS = { a: '#818cf8', b: '#f59e0b' };
+
+const hopLabel = (hop: WanHop | undefined) => {
+  if (!hop) return '—';
+  if (!hop.ip && !hop.hostname) return '* * *';
+  return hop.hostname && hop.hostname !== hop.ip ? `${hop.hostname} (${hop.ip || '?'})` : hop.ip;
+};
+
+const formatMs = (value: number | undefined) => (value === undefined ? '—' : `${value} ms`);
+
+const formatTraceOption = (trace: WanTrace) =>
+  `${trace.label || trace.target} · ${new Date(trace.capturedAt).toLocaleString('it-IT')} · ${trace.format}`;
+
+interface LatencyChartProps {
+  series: { key: 'a' | 'b'; hops: WanHop[] }[];
+  jumps: LatencyJump[];
+}
+
+/**
+ * Latenza per hop: punto = media, barra verticale = intervallo dei campioni,
+ * barra rossa sull'asse = perdita. Gli hop con salto di latenza sono evidenziati.
+ */
+const LatencyChart: React.FC<LatencyChartProps> = ({ series, jumps }) => {
+  const hopNumbers = [...new Set<number>(series.flatMap(s => s.hops.map(h => h.hopNumber)))].sort((a, b) => a - b);
+  if (hopNumbers.length === 0) return null;
+  const maxLatency = Math.max(10, ...series.flatMap(s => s.hops.map(h => getHopRange(h)?.max ?? h.latency ?? 0)));
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotBottom = CHART_HEIGHT - MARGIN.bottom;
+  const band = plotWidth / hopNumbers.length;
+  const xOf = (hopNumber: number) => MARGIN.left + band * (hopNumbers.indexOf(hopNumber) + 0.5);
+  const yOf = (latency: number) => plotBottom - (latency / maxLatency) * (plotBottom - MARGIN.top);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(t => Math.round(maxLatency * t));
+  const offset = series.length > 1 ? band * 0.12 : 0;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {jumps.map(j => (
+        <rect
+          key={j.hopNumber}
+          x={xOf(j.hopNumber) - band / 2}
+          y={MARGIN.top}
+          width={band}
+          height={plotBottom - MARGIN.top}
+          fill={j.kind === 'jump' ? '#f59e0b' : '#64748b'}
+          opacity={0.15}
+        />
+      ))}
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={MARGIN.left} x2={CHART_WIDTH - MARGIN.right} y1={yOf(t)} y2={yOf(t)} stroke="#334155" strokeDasharray="2 4" />
+          <text x={MARGIN.left - 6} y={yOf(t) + 3} textAnchor="end" fontSize={10} fill="#64748b">{t} ms</text>
+        </g>
+      ))}
+      {series.map((s, si) => {
+        const dx = si === 0 ? -offset : offset;
+        const answered = s.hops.filter(h => h.latency !== undefined);
+        return (
+          <g key={s.key}>
+            <polyline
+              points={answered.map(h => `${xOf(h.hopNumber) + dx},${yOf(h.latency!)}`).join(' ')}
+              fill="none"
+              stroke={COLORS[s.key]}
+              strokeWidth={1.5}
+              opacity={0.6}
+            />
+            {s.hops.map(h => {
+              const x = xOf(h.hopNumber) + dx;
+              const range = getHopRange(h);
+              return (
+                <g key={h.hopNumber}>
+                  {range && <line x1={x} x2={x} y1={yOf(range.min)} y2={yOf(range.max)} stroke={COLORS[s.key]} strokeWidth={3} opacity={0.35} />}
+                  {h.latency !== undefined && <circle cx={x} cy={yOf(h.latency)} r={3.5} fill={COLORS[s.key]} />}
+                  {!!h.lossPercent && (
+                    <rect x={x - 3} y={plotBottom + 4} width={6} height={Math.max(2, (h.lossPercent / 100) * 14)} fill="#ef4444">
+                      <title>{h.lossPercent}% perse</title>
+                    </rect>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+      {hopNumbers.map(n => (
+        <text key={n} x={xOf(n)} y={CHART_HEIGHT - 10} textAnchor="middle" fontSize={10} fill="#94a3b8">{n}</text>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Percorso WAN da traceroute reali: import di traceroute, tracert e mtr,
+ * grafico della latenza per hop e confronto tra due tracce della stessa destinazione.
+ */
+const WanTraceView: React.FC<WanTraceViewProps> = ({ traces, target, onTargetChange, onTracesChange }) => {
+  const [text, setText] = useState('');
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(traces[0]?.id ?? null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const selected = traces.find(t => t.id === selectedId) ?? traces[0];
+  const compareCandidates = selected ? traces.filter(t => t.id !== selected.id && isSameTraceTarget(t, selected)) : [];
+  const compared = compareCandidates.find(t => t.id === compareId);
+
+  const jumps = useMemo(() => (selected ? detectLatencyJumps(selected.hops) : []), [selected]);
+  const comparison = useMemo(() => (selected && compared ? compareWanTraces(selected, compared) : null), [selected, compared]);
+  const jumpOf = (hopNumber: number) => jumps.find(j => j.hopNumber === hopNumber);
+
+  const handleImport = () => {
+    setError(null);
+    try {
+      const trace = importWanTrace(text, target, label);
+      onTracesChange([trace, ...traces]);
+      setSelectedId(trace.id);
+      setCompareId(null);
+      setText('');
+      setLabel('');
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(setText).catch(e => setError(`File non leggibile: ${e.message}`));
+  };
+
+  const handleDelete = (trace: WanTrace) => {
+    if (!window.confirm(`Eliminare la traccia "${trace.label || trace.target}"?`)) return;
+    onTracesChange(traces.filter(t => t.id !== trace.id));
+    if (trace.id === selectedId) setSelectedId(null);
+    if (trace.id === compareId) setCompareId(null);
+  };
+
+  const copy = (command: string) => navigator.clipboard.writeText(command).catch(e => console.warn("Copia non riuscita", e));
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="flex flex-col h-full gap-4 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg shadow-md border border-slate-700 shrink-0 space-y-4">
+        <h2 className="text-xl font-bold text-slate-200 flex items-center gap-2"><Globe className="w-5 h-5 text-indigo-400" /> Tracciamento Percorso WAN</h2>
+        <div className="bg-blue-900/30 border border-blue-800 rounded-lg p-4 flex gap-3 text-sm text-slate-300">
+          <Info className="w-5 h-5 text-blue-400 shrink-0 mt-0.5" />
+          <p>Il browser non può eseguire un traceroute: lancia uno dei comandi sul tuo PC e incolla qui l'output (o carica il file). Sono riconosciuti traceroute, tracert, mtr --report e mtr --json.</p>
+        </div>
+        <div className="flex gap-4 items-start">
+          <input value={target} onChange={e => onTargetChange(e.target.value)} className={`${inputClass} w-64`} placeholder="Destinazione esterna" />
+          <div className="flex-1 grid grid-cols-2 gap-2">
+            {buildTraceCommands(target).map(c => (
+              <div key={c.label} className="flex items-center gap-2">
+                <span className="text-xs text-slate-500 w-24 shrink-0">{c.label}</span>
+                <code className="flex-1 text-xs font-mono text-slate-300 bg-slate-900 rounded px-2 py-1 truncate" title={c.command}>{c.command}</code>
+                <button onClick={() => copy(c.command)} className="text-slate-500 hover:text-white" title="Copia"><Copy size={14} /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={6}
+          placeholder={'traceroute to 8.8.8.8 (8.8.8.8), 30 hops max, 60 byte packets\n 1  _gateway (192.168.1.1)  0.512 ms  0.480 ms  0.466 ms\n 2  * * *'}
+          className={`${inputClass} w-full font-mono text-xs`}
+        />
+        <div className="flex items-center gap-3">
+          <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Etichetta (es. Fibra, ore 21)" className={`${inputClass} w-64`} />
+          <label className="flex items-center gap-2 text-sm text-indigo-300 hover:text-white cursor-pointer">
+            <Upload size={14} /> Carica file
+            <input type="file" accept=".txt,.json,.log" className="hidden" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+          <div className="flex-1" />
+          <button onClick={handleImport} disabled={!text.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-medium disabled:opacity-50 transition-colors">Importa traccia</button>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+      </div>
+
+      {selected ? (
+        <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select value={selected.id} onChange={e => { setSelectedId(e.target.value); setCompareId(null); }} className={`${inputClass} flex-1 min-w-[16rem]`}>
+              {traces.map(t => <option key={t.id} value={t.id}>{formatTraceOption(t)}</option>)}
+            </select>
+            <GitCompare size={16} className="text-slate-500" />
+            <select value={compared?.id ?? ''} onChange={e => setCompareId(e.target.value || null)} disabled={compareCandidates.length === 0} className={`${inputClass} flex-1 min-w-[16rem] disabled:opacity-50`}>
+              <option value="">{compareCandidates.length === 0 ? 'Nessuna altra traccia verso questa destinazione' : 'Confronta con...'}</option>
+              {compareCandidates.map(t => <option key={t.id} value={t.id}>{formatTraceOption(t)}</option>)}
+            </select>
+            <button onClick={() => handleDelete(selected)} className="text-slate-500 hover:text-red-400" title="Elimina traccia"><Trash2 size={16} /></button>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-slate-400">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ background: COLORS.a }} /> {selected.label || selected.target}</span>
+            {compared && <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ background: COLORS.b }} /> {compared.label || compared.target}</span>}
+            <span className="flex items-center gap-1"><span className="w-3 h-3 bg-amber-500/30" /> Salto di latenza</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-500" /> Perdita</span>
+          </div>
+          <LatencyChart series={[{ key: 'a', hops: selected.hops }, ...(compared ? [{ key: 'b' as const, hops: compared.hops }] : [])]} jumps={jumps} />
+
+          {comparison ? (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 uppercase">
+                <tr><th className="text-left py-1 w-10">#</th><th className="text-left">Traccia A</th><th className="text-right">A</th><th className="text-left pl-4">Traccia B</th><th className="text-right">B</th><th className="text-right">Δ</th></tr>
+              </thead>
+              <tbody>
+                {comparison.map(row => (
+                  <tr key={row.hopNumber} className={`border-t border-slate-700/50 ${row.pathChanged ? 'bg-purple-900/20' : ''}`}>
+                    <td className="py-1.5 text-slate-500">{row.hopNumber}</td>
+                    <td className="font-mono text-xs text-slate-300">{hopLabel(row.a)}</td>
+                    <td className="text-right font-mono text-xs">{formatMs(row.a?.latency)}{!!row.a?.lossPercent && <span className="text-red-400"> · {row.a.lossPercent}%</span>}</td>
+                    <td className="pl-4 font-mono text-xs text-slate-300">{hopLabel(row.b)}{row.pathChanged && <span className="ml-2 text-purple-300 font-sans">percorso diverso</span>}</td>
+                    <td className="text-right font-mono text-xs">{formatMs(row.b?.latency)}{!!row.b?.lossPercent && <span className="text-red-400"> · {row.b.lossPercent}%</span>}</td>
+                    <td className={`text-right font-mono text-xs ${row.latencyDelta === undefined ? 'text-slate-600' : row.latencyDelta > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                      {row.latencyDelta === undefined ? '—' : `${row.latencyDelta > 0 ? '+' : ''}${row.latencyDelta} ms`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="space-y-2">
+              {selected.hops.map(hop => {
+                const jump = jumpOf(hop.hopNumber);
+                const range = getHopRange(hop);
+                return (
+                  <div key={hop.hopNumber} className={`flex items-center gap-4 p-3 rounded border ${jump?.kind === 'jump' ? 'border-amber-600 bg-amber-900/20' : 'border-slate-700/50 bg-slate-900/50'}`}>
+                    <div className="w-10 h-10 rounded-full bg-slate-900 border-2 border-indigo-500 flex items-center justify-center font-bold text-indigo-400 shrink-0">{hop.hopNumber}</div>
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-mono text-sm truncate ${hop.ip || hop.hostname ? 'text-slate-200' : 'text-slate-500'}`}>{hopLabel(hop)}</div>
+                      <div className="text-xs text-slate-500 font-mono">
+                        {hop.rtts ? hop.rtts.map(r => (r === null ? '*' : `${r}`)).join('  ') : range ? `best ${range.min} / worst ${range.max}${hop.stdDev !== undefined ? ` / σ ${hop.stdDev}` : ''}` : ''}
+                      </div>
+                    </div>
+                    {jump && (
+                      <span className={`flex items-center gap-1 text-xs font-bold ${jump.kind === 'jump' ? 'text-amber-300' : 'text-slate-400'}`} title={jump.kind === 'spike' ? "Gli hop successivi tornano bassi: probabilmente il router risponde agli ICMP con bassa priorità" : undefined}>
+                        <AlertTriangle size={12} /> {jump.kind === 'jump' ? 'Salto' : 'Picco'} +{jump.delta} ms
+                      </span>
+                    )}
+                    {!!hop.lossPercent && <span className="text-xs font-bold text-red-400">{hop.lossPercent}% perse</span>}
+                    <span className="font-mono text-sm text-emerald-400 w-20 text-right">{formatMs(hop.latency)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center text-slate-500 py-10">Nessuna traccia importata.</div>
+      )}
+    </div>
+  );
+};
+
+export default WanTraceView;
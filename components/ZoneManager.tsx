@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { NetworkDevice, NetworkZone } from '../types';
+import { createZone, isValidVlanId, parseSubnet, resolveDeviceZone, DEFAULT_ZONES } from '../services/networkZones';
+import { Layers, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface ZoneManagerProps {
+  zones: NetworkZone[];
+  devices: NetworkDevice[];
+  onChange: (zones: NetworkZone[]) => void;
+}
+
+const splitList = (text: string) => text.split(/[\s,;]+/).map(s => s.trim()).filter(Boolean);
+
+const ZoneRow: React.FC<{
+  zone: NetworkZone;
+  count: number;
+  onChange: (zone: NetworkZone) => void;
+  onDelete: () => void;
+}> = ({ zone, count, onChange, onDelete }) => {
+  // Le liste restano testo libero finché il campo non perde il focus
+  const [vlanText, setVlanText] = useState(zone.vlanIds.join(', '));
+  const [subnetText, setSubnetText] = useState(zone.subnets.join(', '));
+  const [error, setError] = useState<string | null>(null);
+
+  const commitVlans = () => {
+    const values = splitList(vlanText).map(Number);
+    const invalid = values.filter(v => !isValidVlanId(v));
+    if (invalid.length) return setError(`VLAN non valide: ${invalid.join(', ')} (ammesse 1-4094).`);
+    setError(null);
+    onChange({ ...zone, vlanIds: [...new Set(values)] });
+  };
+
+  const commitSubnets = () => {
+    const values = splitList(subnetText);
+    const invalid = values.filter(c => !parseSubnet(c));
+    if (invalid.length) return setError(`Subnet non valide: ${invalid.join(', ')}.`);
+    setError(null);
+    onChange({ ...zone, subnets: [...new Set(values)] });
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 space-y-3" style={{ borderLeft: `4px solid ${zone.color}` }}>
+      <div className="flex items-center gap-3">
+        <input type="color" value={zone.color} onChange={e => onChange({ ...zone, color: e.target.value })} className="w-8 h-8 bg-transparent border-0 cursor-pointer" title="Colore" />
+        <input value={zone.name} onChange={e => onChange({ ...zone, name: e.target.value })} className={`${inputClass} flex-1 font-bold`} />
+        <span className="text-xs text-slate-400 whitespace-nowrap">{count} device</span>
+        <button onClick={onDelete} className="p-2 text-slate-500 hover:text-red-400" title="Elimina zona"><Trash2 size={16} /></button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-1">VLAN</label>
+          <input value={vlanText} onChange={e => setVlanText(e.target.value)} onBlur={commitVlans} placeholder="es. 20, 21" className={`${inputClass} w-full font-mono`} />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Subnet</label>
+          <input value={subnetText} onChange={e => setSubnetText(e.target.value)} onBlur={commitSubnets} placeholder="es. 10.0.20.0/24" className={`${inputClass} w-full font-mono`} />
+        </div>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+const ZoneManager: React.FC<ZoneManagerProps> = ({ zones, devices, onChange }) => {
+  const unassigned = devices.filter(d => !resolveDeviceZone(d, zones)).length;
+
+  const updateZone = (index: number, zone: NetworkZone) => onChange(zones.map((z, i) => (i === index ? zone : z)));
+
+  const deleteZone = (index: number) => {
+    const zone = zones[index];
+    const manual = devices.filter(d => d.zoneId === zone.id).length;
+    if (manual && !window.confirm(`${manual} device sono assegnati a mano alla zona "${zone.name}" e resteranno senza zona. Continuare?`)) return;
+    onChange(zones.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-8 h-full overflow-y-auto space-y-4">
+      <div className="flex items-center gap-3">
+        <Layers className="w-6 h-6 text-indigo-400" />
+        <h2 className="text-xl font-bold text-white flex-1">Zone, VLAN e Subnet</h2>
+        <button onClick={() => onChange(DEFAULT_ZONES)} className="flex items-center gap-2 text-xs text-slate-400 hover:text-white px-3 py-1.5" title="Ripristina LAN, DMZ, Guest, IoT"><RotateCcw size={14} /> Predefinite</button>
+        <button onClick={() => onChange([...zones, createZone(zones)])} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded font-bold text-sm transition-colors"><Plus size={14} /> Nuova zona</button>
+      </div>
+      <p className="text-sm text-slate-400">
+        Un device appartiene alla zona assegnata a mano nelle sue proprietà; altrimenti alla prima zona che contiene una delle sue VLAN,
+        altrimenti alla subnet più specifica che contiene uno dei suoi IP (anche delle interfacce aggiuntive).
+      </p>
+      {zones.map((zone, i) => (
+        <ZoneRow
+          key={zone.id}
+          zone={zone}
+          count={devices.filter(d => resolveDeviceZone(d, zones)?.id === zone.id).length}
+          onChange={z => updateZone(i, z)}
+          onDelete={() => deleteZone(i)}
+        />
+      ))}
+      {zones.length === 0 && <div className="text-center text-slate-500 py-12">Nessuna zona definita.</div>}
+      <div className="text-xs text-slate-500">Device senza zona: {unassigned}</div>
+    </div>
+  );
+};
+
+export default ZoneManager;
@@ -0,0 +1,76 @@
+// Rigenera il registro OUI incluso nell'app (services/ouiRegistry.tsv.gz) dai registri IEEE.
+//
+//   node scripts/build-oui-registry.mjs oui.csv mam.csv oui36.csv
+//
+// I CSV si scaricano da https://standards-oui.ieee.org (MA-L, MA-M, MA-S). In alternativa
+// si può indicare l'index.json del pacchetto npm oui-data, che riporta gli stessi tre
+// registri come { prefisso: "Organizzazione\nindirizzo..." }.
+// L'uscita è il formato compatto letto da ouiService (produttore, tabulazione, prefissi
+// separati da spazi), compresso con gzip.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { gzipSync } from 'node:zlib';
+
+const OUTPUT = new URL('../services/ouiRegistry.tsv.gz', import.meta.url);
+const PREFIX_DIGITS = [6, 7, 9]; // MA-L, MA-M, MA-S
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error('Uso: node scripts/build-oui-registry.mjs oui.csv mam.csv oui36.csv (oppure oui-data/index.json)');
+  process.exit(1);
+}
+
+const cleanVendor = name => name.replace(/\s+/g, ' ').trim();
+
+const splitCsvLine = line => {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells;
+};
+
+const prefixes = new Map();
+const add = (prefix, vendor) => {
+  const hex = prefix.trim().toUpperCase();
+  const name = cleanVendor(vendor);
+  if (/^[0-9A-F]+$/.test(hex) && PREFIX_DIGITS.includes(hex.length) && name) prefixes.set(hex, name);
+};
+
+files.forEach(file => {
+  const text = readFileSync(file, 'utf8').replace(/^\uFEFF/, '');
+  if (file.endsWith('.json')) {
+    Object.entries(JSON.parse(text)).forEach(([prefix, org]) => add(prefix, String(org).split('\n')[0]));
+    return;
+  }
+  const lines = text.split(/\r?\n/);
+  if (!/^Registry,Assignment,Organization Name/i.test(lines[0])) {
+    console.error(`${file}: non è un CSV IEEE (intestazione Registry,Assignment,Organization Name attesa).`);
+    process.exit(1);
+  }
+  lines.slice(1).forEach(line => {
+    const [, assignment = '', vendor = ''] = splitCsvLine(line);
+    add(assignment, vendor);
+  });
+});
+
+const byVendor = new Map();
+prefixes.forEach((vendor, prefix) => byVendor.set(vendor, [...(byVendor.get(vendor) || []), prefix]));
+const compact = [...byVendor]
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([vendor, list]) => `${vendor}\t${list.sort().join(' ')}`)
+  .join('\n');
+
+const gz = gzipSync(compact, { level: 9 });
+writeFileSync(OUTPUT, gz);
+const counts = PREFIX_DIGITS.map(d => [...prefixes.keys()].filter(p => p.length === d).length);
+console.log(`MA-L ${counts[0]}, MA-M ${counts[1]}, MA-S ${counts[2]}: ${(compact.length / 1024).toFixed(0)} KB, compresso ${(gz.length / 1024).toFixed(0)} KB`);
@@ -0,0 +1,285 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { AiProviderId, AiSettings, AiTask, AiTaskSettings } from "../types";
+
+const SETTINGS_KEY = 'netvisio_ai_settings';
+
+/**
+ * Schema JSON della risposta, in forma neutra (sottoinsieme di JSON Schema):
+ * ogni provider lo traduce nel proprio formato.
+ */
+export interface AiSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, AiSchema>;
+  items?: AiSchema;
+  enum?: string[];
+  nullable?: boolean;
+  required?: string[];
+}
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  system?: string;
+  json?: boolean; // Risposta in JSON (con schema, se indicato)
+  schema?: AiSchema;
+  settings: AiTaskSettings;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  local: boolean; // Non richiede servizi cloud: resta utilizzabile in modalità offline
+  generate: (request: AiRequest, apiKey: string | null, settings: AiSettings) => Promise<string>;
+  // Come generate, ma consegna il testo man mano che arriva; restituisce il testo completo
+  stream: (request: AiRequest, apiKey: string | null, settings: AiSettings, onDelta: (delta: string) => void) => Promise<string>;
+}
+
+// Errore HTTP del provider: lo status serve al retry per riconoscere 429/503
+export class AiProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+  import: 'Import dati grezzi',
+  sample: 'Rete di esempio',
+  analysis: 'Analisi',
+  optimize: 'Ottimizzazione',
+  chat: 'Assistente'
+};
+
+export const AI_TASKS = Object.keys(AI_TASK_LABELS) as AiTask[];
+
+// --- Gemini ---
+
+const toGeminiSchema = (schema: AiSchema): Schema => ({
+  type: schema.type.toUpperCase() as Schema['type'],
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.nullable && { nullable: true }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+  })
+});
+
+const toGeminiRequest = (request: AiRequest, apiKey: string | null) => {
+  // Priorità: Chiave di sessione (manuale) > Variabile d'ambiente
+  const key = apiKey || process.env.API_KEY;
+  if (!key) throw new Error("API Key mancante. Configura process.env.API_KEY o inseriscila manualmente.");
+  return {
+    ai: new GoogleGenAI({ apiKey: key }),
+    params: {
+      model: request.settings.model || geminiProvider.defaultModel,
+      contents: request.prompt,
+      config: {
+        temperature: request.settings.temperature,
+        maxOutputTokens: request.settings.maxTokens,
+        ...(request.signal && { abortSignal: request.signal }),
+        ...(request.system && { systemInstruction: request.system }),
+        ...(request.json && { responseMimeType: "application/json" }),
+        ...(request.schema && { responseSchema: toGeminiSchema(request.schema) })
+      }
+    }
+  };
+};
+
+const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  local: false,
+  generate: async (request, apiKey) => {
+    const { ai, params } = toGeminiRequest(request, apiKey);
+    const response = await ai.models.generateContent(params);
+    return response.text || '';
+  },
+  stream: async (request, apiKey, _settings, onDelta) => {
+    const { ai, params } = toGeminiRequest(request, apiKey);
+    let text = '';
+    for await (const chunk of await ai.models.generateContentStream(params)) {
+      const delta = chunk.text || '';
+      if (!delta) continue;
+      text += delta;
+      onDelta(delta);
+    }
+    return text;
+  }
+};
+
+// --- OpenAI-compatibile (OpenAI, Ollama, llama.cpp, LM Studio, vLLM...) ---
+
+const postChatCompletion = async (request: AiRequest, apiKey: string | null, settings: AiSettings, stream: boolean): Promise<Response> => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  if (!baseUrl) throw new Error("Endpoint del provider OpenAI-compatibile non configurato.");
+  // I server locali spesso ignorano lo schema: viene ripetuto anche nelle istruzioni
+  const system = [
+    request.system,
+    request.schema && `Rispondi esclusivamente con JSON conforme a questo schema: ${JSON.stringify(request.schema)}`
+  ].filter(Boolean).join('\n\n');
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal: request.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+    },
+    body: JSON.stringify({
+      model: request.settings.model || openAiProvider.defaultModel,
+      messages: [...(system ? [{ role: 'system', content: system }] : []), { role: 'user', content: request.prompt }],
+      temperature: request.settings.temperature,
+      max_tokens: request.settings.maxTokens,
+      stream,
+      ...(request.json && {
+        response_format: request.schema
+          ? { type: 'json_schema', json_schema: { name: `netvisio_${request.task}`, schema: request.schema } }
+          : { type: 'json_object' }
+      })
+    })
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AiProviderError(`Provider AI: HTTP ${response.status} ${detail.slice(0, 200)}`, response.status);
+  }
+  return response;
+};
+
+const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatibile (Ollama, llama.cpp...)',
+  defaultModel: 'llama3.1',
+  local: true,
+  generate: async (request, apiKey, settings) => {
+    const data = await (await postChatCompletion(request, apiKey, settings, false)).json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  },
+  // Server-Sent Events: righe "data: {...}" con il testo in choices[0].delta.content, chiuse da "data: [DONE]"
+  stream: async (request, apiKey, settings, onDelta) => {
+    const response = await postChatCompletion(request, apiKey, settings, true);
+    if (!response.body) throw new AiProviderError("Provider AI: risposta in streaming non supportata dal browser.");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+        if (!data || data === '[DONE]') continue;
+        try {
+          const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        } catch {
+          console.warn("Evento di streaming non valido", data);
+        }
+      }
+      if (done) return text;
+    }
+  }
+};
+
+// --- Mock (nessuna rete: test e sviluppo) ---
+
+type MockResponder = (request: AiRequest) => string;
+
+const MOCK_SAMPLE = [
+  { id: 'mock-gw', ip: '192.168.1.1', mac: '00:00:5E:00:01:01', name: 'Gateway', manufacturer: 'Mock', type: 'ROUTER', parentId: null, status: 'online', latency: 1 },
+  { id: 'mock-sw', ip: '192.168.1.2', mac: '00:00:5E:00:01:02', name: 'Switch', manufacturer: 'Mock', type: 'SWITCH', parentId: 'mock-gw', status: 'online', latency: 1 },
+  { id: 'mock-pc', ip: '192.168.1.10', mac: '00:00:5E:00:01:0A', name: 'PC', manufacturer: 'Mock', type: 'PC', parentId: 'mock-sw', status: 'online', latency: 3 }
+];
+
+const DEFAULT_MOCK_RESPONDERS: Record<AiTask, MockResponder> = {
+  import: () => '[]',
+  sample: () => JSON.stringify(MOCK_SAMPLE),
+  analysis: () => JSON.stringify({
+    summary: '### Analisi (provider mock)\n\nRisposta fissa del provider di test.',
+    findings: [],
+    recommendations: ['Configura un provider reale nelle impostazioni.']
+  }),
+  // Ripropone la topologia ricevuta, cioè nessuna modifica
+  optimize: request => JSON.stringify({
+    explanation: 'Nessuna modifica proposta (provider mock).',
+    optimizedTopology: JSON.parse(request.prompt.match(/Input: (\[.*\])\s*$/s)?.[1] || '[]')
+  }),
+  chat: () => JSON.stringify({ reply: 'Risposta fissa del provider di test.', toolCalls: [] })
+};
+
+let mockResponders: Record<AiTask, MockResponder> = { ...DEFAULT_MOCK_RESPONDERS };
+
+// Sostituisce le risposte del provider mock; senza argomenti ripristina quelle predefinite
+export const setMockResponders = (responders?: Partial<Record<AiTask, MockResponder>>) => {
+  mockResponders = { ...DEFAULT_MOCK_RESPONDERS, ...responders };
+};
+
+const MOCK_CHUNK_SIZE = 24;
+
+const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock (test, senza rete)',
+  defaultModel: 'mock',
+  local: true,
+  generate: async request => mockResponders[request.task](request),
+  // Consegna la risposta fissa a pezzi, come uno streaming reale
+  stream: async (request, _apiKey, _settings, onDelta) => {
+    const text = mockResponders[request.task](request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      if (request.signal?.aborted) throw new DOMException('Richiesta annullata', 'AbortError');
+      onDelta(text.slice(i, i + MOCK_CHUNK_SIZE));
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return text;
+  }
+};
+
+export const AI_PROVIDERS: AiProvider[] = [geminiProvider, openAiProvider, mockProvider];
+
+export const getAiProvider = (id: AiProviderId): AiProvider =>
+  AI_PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+// --- Impostazioni ---
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  tasks: {
+    import: { model: '', temperature: 0.1, maxTokens: 4096 },
+    sample: { model: '', temperature: 0.8, maxTokens: 2048 },
+    analysis: { model: '', temperature: 0.4, maxTokens: 2048 },
+    optimize: { model: '', temperature: 0.2, maxTokens: 4096 },
+    chat: { model: '', temperature: 0.3, maxTokens: 2048 }
+  }
+};
+
+let cachedSettings: AiSettings | null = null;
+
+// Le impostazioni salvate vengono completate con i default (nuove attività, campi mancanti)
+export const loadAiSettings = (): AiSettings => {
+  if (cachedSettings) return cachedSettings;
+  let saved: Partial<AiSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    saved = {};
+  }
+  cachedSettings = {
+    ...DEFAULT_AI_SETTINGS,
+    ...saved,
+    tasks: Object.fromEntries(AI_TASKS.map(t => [t, { ...DEFAULT_AI_SETTINGS.tasks[t], ...saved.tasks?.[t] }])) as AiSettings['tasks']
+  };
+  return cachedSettings;
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  cachedSettings = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,192 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiProviderError, AiRequest, DEFAULT_AI_SETTINGS, saveAiSettings, setMockResponders } from './aiProviders';
+import { AiValidationError } from './aiValidation';
+import { askAssistant, optimizeNetworkTopology, parseImportedData, setOfflineMode } from './aiService';
+import { ChatContext } from './chatAssistant';
+import { DeviceType, NetworkDevice } from '../types';
+
+const devices: NetworkDevice[] = [
+  { id: 'gw', ip: '192.168.1.1', mac: '', name: 'Gateway', manufacturer: '', type: DeviceType.ROUTER, parentId: null, status: 'online' },
+  { id: 'sw', ip: '192.168.1.2', mac: '', name: 'Switch Core', manufacturer: '', type: DeviceType.SWITCH, parentId: 'gw', status: 'online' },
+  { id: 'prn', ip: '192.168.1.50', mac: '', name: 'Stampante', manufacturer: '', type: DeviceType.PRINTER, parentId: 'sw', status: 'warning' }
+];
+
+const ctx: ChatContext = { devices, zones: [], traces: [], alerts: [], loadSnapshots: async () => [] };
+
+// Risposte del provider mock in sequenza (l'ultima si ripete); registra i prompt ricevuti
+const scripted = (...responses: unknown[]) => {
+  const prompts: string[] = [];
+  const responder = (request: AiRequest) => {
+    prompts.push(request.prompt);
+    const response = responses[Math.min(prompts.length, responses.length) - 1];
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  };
+  return { prompts, responder };
+};
+
+beforeAll(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+  saveAiSettings({ ...DEFAULT_AI_SETTINGS, provider: 'mock' });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setMockResponders();
+  vi.restoreAllMocks();
+});
+
+describe('risposte validate', () => {
+  it('richiede di nuovo la risposta dopo un JSON non valido', async () => {
+    const { prompts, responder } = scripted('non è JSON', {
+      explanation: 'Stampante sul gateway',
+      optimizedTopology: [{ id: 'gw', parentId: null }, { id: 'sw', parentId: 'gw' }, { id: 'prn', parentId: 'gw' }]
+    });
+    setMockResponders({ optimize: responder });
+    const result = await optimizeNetworkTopology(devices);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('La risposta precedente è stata scartata (La risposta non è JSON valido.)');
+    expect(result.explanation).toBe('Stampante sul gateway');
+    expect(result.optimizedTopology.find(d => d.id === 'prn')?.parentId).toBe('gw');
+  });
+
+  it('richiede di nuovo una proposta che copre pochi device', async () => {
+    const { prompts, responder } = scripted(
+      { explanation: 'parziale', optimizedTopology: [{ id: 'prn', parentId: 'gw' }] },
+      { explanation: 'completa', optimizedTopology: [{ id: 'gw', parentId: null }, { id: 'sw', parentId: 'gw' }, { id: 'prn', parentId: 'sw' }] }
+    );
+    setMockResponders({ optimize: responder });
+    const result = await optimizeNetworkTopology(devices);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('la proposta copre solo 1 device su 3');
+    expect(result.explanation).toBe('completa');
+  });
+
+  it('tiene la risposta riparata quando anche il nuovo tentativo è incompleto', async () => {
+    const { prompts, responder } = scripted({ explanation: 'parziale', optimizedTopology: [{ id: 'prn', parentId: 'gw' }] });
+    setMockResponders({ optimize: responder });
+    const result = await optimizeNetworkTopology(devices);
+    expect(prompts).toHaveLength(2);
+    expect(result.optimizedTopology.map(d => d.parentId)).toEqual([null, 'gw', 'gw']);
+    expect(result.issues).toEqual(['2 device assenti dalla proposta: mantenuto il collegamento attuale.']);
+  });
+
+  it('rinuncia dopo i tentativi previsti', async () => {
+    const { prompts, responder } = scripted('{"explanation":');
+    setMockResponders({ optimize: responder });
+    await expect(optimizeNetworkTopology(devices)).rejects.toBeInstanceOf(AiValidationError);
+    expect(prompts).toHaveLength(2);
+  });
+});
+
+describe('parseImportedData', () => {
+  const arp = `Interface: 10.0.0.10 --- 0x4
+  10.0.0.1              00-11-22-33-44-55     dynamic
+  10.0.1.255            00-11-22-33-44-66     dynamic
+  10.255.255.255        ff-ff-ff-ff-ff-ff     static`;
+
+  it('in modalità offline usa i parser di import, senza padri né latenze inventati', async () => {
+    setOfflineMode(true);
+    try {
+      const imported = await parseImportedData(arp);
+      expect(imported.map(d => d.ip)).toEqual(['10.0.0.1', '10.0.1.255']);
+      expect(imported.every(d => d.parentId === null && d.latency === undefined)).toBe(true);
+    } finally {
+      setOfflineMode(false);
+    }
+  });
+
+  it('ripiega sui parser di import se la risposta AI non è valida', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setMockResponders({ import: () => 'non è JSON' });
+    const imported = await parseImportedData(arp);
+    expect(imported.map(d => d.mac)).toEqual(['00:11:22:33:44:55', '00:11:22:33:44:66']);
+  });
+});
+
+describe('askAssistant', () => {
+  it('esegue gli strumenti richiesti e restituisce i risultati al modello', async () => {
+    const { prompts, responder } = scripted(
+      { reply: '', toolCalls: [{ tool: 'find_devices', query: 'type:PRINTER' }] },
+      { reply: 'La **Stampante** è in warning.', toolCalls: [{ tool: 'highlight_devices', deviceIds: ['192.168.1.50'], title: 'Stampanti' }] }
+    );
+    setMockResponders({ chat: responder });
+    const messages = await askAssistant('Perché la stampante è in warning?', [], ctx);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain('Domanda: Perché la stampante è in warning?');
+    expect(prompts[1]).toContain('Risultati degli strumenti:\nfind_devices({"query":"type:PRINTER"}): {"count":1');
+    expect(messages.map(m => m.role)).toEqual(['tool', 'tool', 'assistant']);
+    expect(messages[0]).toMatchObject({ tool: 'find_devices', content: 'Ricerca «type:PRINTER»: 1 risultato' });
+    expect(messages[1]).toMatchObject({ tool: 'highlight_devices', deviceIds: ['prn'], highlightTitle: 'Stampanti' });
+    expect(messages[2].content).toBe('La **Stampante** è in warning.');
+  });
+
+  it('non fa un altro giro dopo le sole azioni', async () => {
+    const { prompts, responder } = scripted({
+      reply: 'Ecco la proposta.',
+      toolCalls: [{ tool: 'propose_reparent', changes: [{ deviceId: 'prn', parentId: 'gw' }] }]
+    });
+    setMockResponders({ chat: responder });
+    const messages = await askAssistant('Sposta la stampante sul gateway', [], ctx);
+    expect(prompts).toHaveLength(1);
+    expect(messages[0].proposal).toEqual([{ deviceId: 'prn', parentId: 'gw' }]);
+    expect(messages[1].content).toBe('Ecco la proposta.');
+  });
+
+  it('chiude la conversazione dopo il numero massimo di giri', async () => {
+    const { prompts, responder } = scripted({ reply: '', toolCalls: [{ tool: 'get_device', deviceId: 'sw' }] });
+    setMockResponders({ chat: responder });
+    const messages = await askAssistant('Dettagli dello switch', [], ctx);
+    expect(prompts).toHaveLength(4);
+    expect(prompts[3]).toContain('Non sono ammesse altre chiamate agli strumenti');
+    expect(messages.filter(m => m.role === 'tool')).toHaveLength(3);
+    expect(messages[messages.length - 1].content).toBe('_Nessuna risposta dal modello._');
+  });
+
+  it('si interrompe quando la richiesta viene annullata', async () => {
+    const controller = new AbortController();
+    setMockResponders({
+      chat: () => {
+        controller.abort();
+        return JSON.stringify({ reply: '', toolCalls: [{ tool: 'find_devices', query: '' }] });
+      }
+    });
+    await expect(askAssistant('Tutti i device', [], ctx, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('non ripete una richiesta annullata durante l\'attesa tra i tentativi', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    setMockResponders({
+      chat: () => {
+        calls++;
+        setTimeout(() => controller.abort(), 10);
+        throw new AiProviderError('Provider AI: HTTP 503', 503);
+      }
+    });
+    const started = Date.now();
+    await expect(askAssistant('Tutti i device', [], ctx, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('in modalità offline funziona solo con un provider locale', async () => {
+    setOfflineMode(true);
+    try {
+      const messages = await askAssistant('Ciao', [], ctx);
+      expect(messages[messages.length - 1].content).toBe('Risposta fissa del provider di test.');
+      saveAiSettings({ ...DEFAULT_AI_SETTINGS, provider: 'gemini' });
+      await expect(askAssistant('Ciao', [], ctx)).rejects.toThrow("L'assistente richiede un provider AI");
+    } finally {
+      setOfflineMode(false);
+      saveAiSettings({ ...DEFAULT_AI_SETTINGS, provider: 'mock' });
+    }
+  });
+});
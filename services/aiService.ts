@@ -0,0 +1,385 @@
+import { NetworkDevice, DeviceType, OptimizationResult, AiTask, AnalysisReport, ChatMessage } from "../types";
+import { lookupVendor } from "./ouiService";
+import { detectParser } from "./importParsers";
+import { entryToDevice } from "./importService";
+import { AiSchema, getAiProvider, loadAiSettings } from "./aiProviders";
+import { AiValidation, AiValidationError, ChatToolCall, validateDeviceList, validateOptimizedTopology, validateAnalysisReport, validateChatResponse, parsePartialJson } from "./aiValidation";
+import { analyzeNetworkLocally, createLocalReport, optimizeTopologyLocally } from "./networkAnalyzer";
+import { loadZones } from "./networkZones";
+import { CHAT_TOOL_NAMES, ChatContext, ChatToolResult, buildChatPrompt, createChatMessage, isActionTool, runChatTool } from "./chatAssistant";
+
+// Variabile per memorizzare la chiave temporanea di sessione
+let sessionApiKey: string | null = null;
+let isOfflineMode = false;
+
+export const setSessionApiKey = (key: string) => {
+  sessionApiKey = key;
+  isOfflineMode = false; // Se settiamo una chiave, disattiviamo l'offline
+};
+
+export const setOfflineMode = (value: boolean) => {
+    isOfflineMode = value;
+};
+
+const DEVICE_LIST_SCHEMA: AiSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      ip: { type: 'string' },
+      mac: { type: 'string' },
+      name: { type: 'string' },
+      manufacturer: { type: 'string' },
+      type: { type: 'string', enum: Object.values(DeviceType) },
+      parentId: { type: 'string', nullable: true },
+      status: { type: 'string', enum: ['online', 'offline', 'warning'] },
+      latency: { type: 'number' },
+    }
+  }
+};
+
+const OPTIMIZATION_SCHEMA: AiSchema = {
+  type: 'object',
+  properties: {
+    explanation: { type: 'string' },
+    optimizedTopology: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          parentId: { type: 'string', nullable: true },
+          type: { type: 'string', enum: Object.values(DeviceType) }
+        },
+        required: ['id', 'parentId']
+      }
+    }
+  },
+  required: ['explanation', 'optimizedTopology']
+};
+
+const ANALYSIS_SCHEMA: AiSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['critical', 'warning', 'info'] },
+          title: { type: 'string' },
+          detail: { type: 'string' },
+          recommendation: { type: 'string' },
+          deviceIds: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['severity', 'title', 'detail', 'deviceIds']
+      }
+    },
+    recommendations: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'findings', 'recommendations']
+};
+
+const CHAT_SCHEMA: AiSchema = {
+  type: 'object',
+  properties: {
+    reply: { type: 'string' },
+    toolCalls: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tool: { type: 'string', enum: CHAT_TOOL_NAMES },
+          query: { type: 'string' },
+          deviceId: { type: 'string' },
+          deviceIds: { type: 'array', items: { type: 'string' } },
+          title: { type: 'string' },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                deviceId: { type: 'string' },
+                parentId: { type: 'string', nullable: true },
+                type: { type: 'string', enum: Object.values(DeviceType) }
+              },
+              required: ['deviceId', 'parentId']
+            }
+          }
+        },
+        required: ['tool']
+      }
+    }
+  },
+  required: ['reply', 'toolCalls']
+};
+
+const MAX_VALIDATION_ATTEMPTS = 2;
+const MAX_TOOL_ROUNDS = 4;
+
+// Opzioni di una singola richiesta: streaming del testo parziale e annullamento
+interface GenerateOptions {
+  json?: boolean;
+  schema?: AiSchema;
+  onText?: (text: string) => void; // Testo ricevuto finora (ricomincia da capo a ogni tentativo)
+  signal?: AbortSignal;
+}
+
+// Helper per pulire la risposta JSON da eventuali blocchi markdown
+const cleanJson = (text: string): string => {
+  if (!text) return "[]";
+  let cleaned = text.replace(/```json/g, "").replace(/```/g, "");
+  return cleaned.trim();
+};
+
+// Attesa tra due tentativi, interrotta subito se la richiesta viene annullata
+const waitUnlessAborted = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Richiesta annullata', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Esegue una operazione asincrona con tentativi di retry automatici.
+ * Una richiesta annullata non viene più ripetuta.
+ */
+const retryWithBackoff = async <T>(operation: () => Promise<T>, signal?: AbortSignal, retries = 5, delay = 2000): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error: any) {
+    if (signal?.aborted || error?.name === 'AbortError') throw error;
+    const errorCode = error?.code || error?.status || error?.error?.code || error?.error?.status;
+    const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
+    const isTransientError = errorCode === 503 || errorCode === 429 || errorMessage.includes('overloaded') || errorMessage.includes('quota') || errorMessage.includes('RESOURCE_EXHAUSTED');
+
+    if (retries > 0 && isTransientError) {
+      console.warn(`Provider AI occupato (${errorCode}). Nuovo tentativo tra ${delay}ms...`);
+      await waitUnlessAborted(delay, signal);
+      return retryWithBackoff(operation, signal, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Esegue un'attività con il provider e le impostazioni (modello, temperatura, token)
+ * configurati per quell'attività.
+ */
+const generate = (task: AiTask, prompt: string, options: GenerateOptions = {}): Promise<string> => {
+  const settings = loadAiSettings();
+  const provider = getAiProvider(settings.provider);
+  const { onText, ...rest } = options;
+  const request = { task, prompt, ...rest, settings: settings.tasks[task] };
+  return retryWithBackoff(() => {
+    if (!onText) return provider.generate(request, sessionApiKey, settings);
+    let text = '';
+    onText(text);
+    return provider.stream(request, sessionApiKey, settings, delta => onText(text += delta));
+  }, rest.signal);
+};
+
+/**
+ * Attività con risposta JSON validata: le risposte non conformi vengono riparate dal
+ * validatore; se non sono riparabili (o lo sono solo in minima parte) il modello
+ * riceve di nuovo la richiesta insieme al motivo dello scarto.
+ */
+const generateValidated = async <T>(
+  task: AiTask,
+  prompt: string,
+  schema: AiSchema,
+  validate: (data: unknown) => AiValidation<T>,
+  options: Pick<GenerateOptions, 'onText' | 'signal'> = {}
+): Promise<AiValidation<T>> => {
+  let request = prompt;
+  for (let attempt = 1; ; attempt++) {
+    const text = await generate(task, request, { json: true, schema, ...options });
+    let reason: string;
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(cleanJson(text));
+      } catch {
+        throw new AiValidationError("La risposta non è JSON valido.");
+      }
+      const result = validate(data);
+      if (!result.retryReason || attempt >= MAX_VALIDATION_ATTEMPTS) {
+        if (result.issues.length > 0) console.warn(`Risposta AI (${task}) corretta:`, result.issues);
+        return result;
+      }
+      reason = result.retryReason;
+    } catch (e) {
+      if (!(e instanceof AiValidationError) || attempt >= MAX_VALIDATION_ATTEMPTS) throw e;
+      reason = e.message;
+    }
+    if (options.signal?.aborted) throw new DOMException('Richiesta annullata', 'AbortError');
+    console.warn(`Risposta AI (${task}) non valida, nuova richiesta: ${reason}`);
+    request = `${prompt}\n\nLa risposta precedente è stata scartata (${reason}). Rispondi di nuovo solo con JSON conforme allo schema.`;
+  }
+};
+
+// --- FUNZIONI LOCALI (OFFLINE) ---
+
+// Stessi parser della vista Importa: i device restano scollegati e senza latenza, come in un import manuale
+const parseImportLocally = (text: string): NetworkDevice[] => {
+    const parser = detectParser(text);
+    return parser ? parser.parse(text).map(entryToDevice) : [];
+};
+
+const getOfflineSampleData = (): NetworkDevice[] => {
+    return [
+        { id: '1', ip: '192.168.1.1', mac: 'AA:BB:CC:DD:01', name: 'Gateway Principale', manufacturer: 'Cisco', type: DeviceType.ROUTER, parentId: null, status: 'online' },
+        { id: '2', ip: '192.168.1.10', mac: 'AA:BB:CC:DD:02', name: 'Switch Core', manufacturer: 'HP', type: DeviceType.SWITCH, parentId: '1', status: 'online' },
+        { id: '3', ip: '192.168.1.100', mac: 'AA:BB:CC:DD:03', name: 'PC Ufficio 1', manufacturer: 'Dell', type: DeviceType.PC, parentId: '2', status: 'online' },
+        { id: '4', ip: '192.168.1.101', mac: 'AA:BB:CC:DD:04', name: 'PC Ufficio 2', manufacturer: 'Lenovo', type: DeviceType.PC, parentId: '2', status: 'online' },
+        { id: '5', ip: '192.168.1.200', mac: 'AA:BB:CC:DD:05', name: 'Stampante', manufacturer: 'Brother', type: DeviceType.PRINTER, parentId: '2', status: 'warning' },
+        { id: '6', ip: '192.168.1.50', mac: 'AA:BB:CC:DD:06', name: 'NAS Server', manufacturer: 'Synology', type: DeviceType.SERVER, parentId: '2', status: 'online' },
+    ];
+};
+
+// --- EXPORTED FUNCTIONS ---
+
+export const parseImportedData = async (rawText: string): Promise<NetworkDevice[]> => {
+  if (isOfflineMode) {
+      console.log("Parsing in modalità offline (parser di import)...");
+      return parseImportLocally(rawText);
+  }
+
+  try {
+    const prompt = `
+      Analizza il seguente output testuale grezzo proveniente da un comando di rete (es. 'arp -a').
+      Estrai dispositivi unici. Restituisci JSON.
+      Input: """${rawText.substring(0, 5000)}"""
+    `;
+
+    const { value } = await generateValidated('import', prompt, DEVICE_LIST_SCHEMA, validateDeviceList);
+    // Il produttore dal registro OUI è più affidabile di quello stimato dal modello
+    return value.map(d => {
+      const vendor = lookupVendor(d.mac || '')?.vendor;
+      return vendor ? { ...d, manufacturer: vendor } : d;
+    });
+  } catch (error) {
+    console.error("Errore parsing AI, fallback locale:", error);
+    return parseImportLocally(rawText);
+  }
+};
+
+export const generateSampleNetwork = async (): Promise<NetworkDevice[]> => {
+  if (isOfflineMode) return getOfflineSampleData();
+
+  try {
+    const prompt = `Genera lista JSON realistica LAN piccola impresa: 1 Router, 1 Switch, 4 PC, 1 Printer. Schema NetworkDevice.`;
+    const { value } = await generateValidated('sample', prompt, DEVICE_LIST_SCHEMA, validateDeviceList);
+    if (value.length === 0) throw new AiValidationError("Nessun device generato.");
+    return value;
+  } catch (error) {
+    console.warn("Errore generazione AI, uso dati statici.");
+    return getOfflineSampleData();
+  }
+};
+
+/**
+ * Report di analisi strutturato. Con onUpdate il report viene consegnato anche
+ * parziale, man mano che il modello lo scrive; in offline è quello delle regole locali.
+ */
+export const analyzeNetwork = async (
+  devices: NetworkDevice[],
+  onUpdate?: (partial: AnalysisReport) => void,
+  signal?: AbortSignal
+): Promise<AnalysisReport> => {
+  const zones = loadZones();
+  if (isOfflineMode) return createLocalReport(devices, zones);
+
+  const input = devices.map(d => ({
+    id: d.id, name: d.name, ip: d.ip, type: d.type, manufacturer: d.manufacturer, parentId: d.parentId ?? null,
+    status: d.status, latency: d.latency, os: d.os,
+    ports: [...new Set([...(d.services || []).map(s => s.port), ...(d.probes || []).filter(p => p.open).map(p => Number(p.probeId.split('-').pop()))])].filter(Boolean)
+  }));
+  const hints = analyzeNetworkLocally(devices, zones).map(f => ({ severity: f.severity, title: f.title, deviceIds: f.deviceIds }));
+  const prompt = `Senior Network Engineer. Analizza la rete descritta in JSON e rispondi in Italiano con JSON:
+- summary: sintesi in Markdown (ammessi elenchi e tabelle)
+- findings: problemi con severity (critical, warning, info), title, detail, recommendation e deviceIds (id dei device coinvolti, presi dall'input)
+- recommendations: azioni consigliate in ordine di priorità, in Markdown
+Rilievi delle regole locali, da confermare, approfondire o integrare: ${JSON.stringify(hints)}
+Device: ${JSON.stringify(input)}`;
+
+  const onText = onUpdate && ((text: string) => {
+    const data = parsePartialJson(text);
+    if (data === undefined) return;
+    try {
+      onUpdate(validateAnalysisReport(data, devices).value);
+    } catch {
+      // Ancora nessun oggetto riconoscibile
+    }
+  });
+  const { value } = await generateValidated('analysis', prompt, ANALYSIS_SCHEMA, data => validateAnalysisReport(data, devices), { onText, signal });
+  return value;
+};
+
+export const optimizeNetworkTopology = async (currentDevices: NetworkDevice[]): Promise<OptimizationResult> => {
+    if (isOfflineMode) return optimizeTopologyLocally(currentDevices, loadZones());
+
+    const input = currentDevices.map(d => ({ id: d.id, name: d.name, ip: d.ip, type: d.type, parentId: d.parentId ?? null }));
+    const prompt = `Architetto Rete. Ottimizza la topologia JSON cambiando solo parentId (ed eventualmente type) dei device esistenti.
+Non aggiungere né rimuovere device e non creare cicli: optimizedTopology deve contenere tutti gli id ricevuti.
+Output JSON con explanation (Markdown, in Italiano) e optimizedTopology. Input: ${JSON.stringify(input)}`;
+    const { value, issues } = await generateValidated('optimize', prompt, OPTIMIZATION_SCHEMA, data => validateOptimizedTopology(data, currentDevices));
+    return { explanation: value.explanation, optimizedTopology: value.topology, issues };
+}
+
+/**
+ * Una domanda all'assistente. Il modello può chiedere di eseguire strumenti locali
+ * (ricerche, dettagli, storico, tracce WAN): i risultati gli vengono restituiti finché
+ * non risponde, per al massimo MAX_TOOL_ROUNDS giri. Restituisce i messaggi da
+ * aggiungere alla conversazione: uno per strumento eseguito, poi la risposta.
+ */
+export const askAssistant = async (question: string, history: ChatMessage[], ctx: ChatContext, signal?: AbortSignal): Promise<ChatMessage[]> => {
+  if (isOfflineMode && !getAiProvider(loadAiSettings().provider).local) throw new Error("L'assistente richiede un provider AI: esci dalla modalità offline o configura un provider locale (OpenAI-compatibile) nelle impostazioni.");
+
+  const results: { call: ChatToolCall; result: ChatToolResult }[] = [];
+  const messages: ChatMessage[] = [];
+  for (let round = 1; ; round++) {
+    const lastRound = round >= MAX_TOOL_ROUNDS;
+    const prompt = buildChatPrompt(ctx, history, question, results, lastRound);
+    const { value } = await generateValidated('chat', prompt, CHAT_SCHEMA, data => validateChatResponse(data, ctx.devices, CHAT_TOOL_NAMES), { signal });
+    const calls = lastRound ? [] : value.toolCalls;
+    for (const call of calls) {
+      if (signal?.aborted) throw new DOMException('Richiesta annullata', 'AbortError');
+      const result = await runChatTool(call, ctx);
+      results.push({ call, result });
+      messages.push(createChatMessage('tool', result.summary, {
+        tool: call.tool,
+        ...(result.deviceIds && { deviceIds: result.deviceIds }),
+        ...(result.highlightTitle && { highlightTitle: result.highlightTitle }),
+        ...(result.proposal && { proposal: result.proposal })
+      }));
+    }
+    // Serve un altro giro solo se il modello ha chiesto dei dati o non ha ancora risposto
+    const needsResults = calls.some(c => !isActionTool(c.tool)) || (!value.reply && calls.length > 0);
+    if (!needsResults || lastRound) {
+      messages.push(createChatMessage('assistant', value.reply || '_Nessuna risposta dal modello._'));
+      return messages;
+    }
+  }
+};
+
+// Verifica rapida di provider, endpoint e chiave (senza retry: l'esito serve subito)
+export const testAiConnection = async (): Promise<string> => {
+  const settings = loadAiSettings();
+  const provider = getAiProvider(settings.provider);
+  const text = await provider.generate({
+    task: 'analysis',
+    prompt: 'Rispondi soltanto con: OK',
+    settings: { ...settings.tasks.analysis, maxTokens: 16 }
+  }, sessionApiKey, settings);
+  return text.trim() || '(risposta vuota)';
+};
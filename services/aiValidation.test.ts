@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DeviceType, NetworkDevice } from '../types';
+import { AiValidationError, validateOptimizedTopology } from './aiValidation';
+import { findCycleDevice } from './topologyEditing';
+
+const device = (id: string, type: DeviceType, parentId: string | null): NetworkDevice => ({
+  id, ip: `192.168.1.${id.charCodeAt(0)}`, mac: '', name: id.toUpperCase(), manufacturer: '', type, parentId, status: 'online'
+});
+
+const current = [
+  device('r', DeviceType.ROUTER, null),
+  device('s', DeviceType.SWITCH, 'r'),
+  device('p', DeviceType.PC, 's'),
+  device('q', DeviceType.PRINTER, 's')
+];
+
+const parentOf = (topology: NetworkDevice[], id: string) => topology.find(d => d.id === id)?.parentId;
+
+describe('validateOptimizedTopology', () => {
+  it('applica padre e tipo proposti ai device esistenti', () => {
+    const { value, issues, retryReason } = validateOptimizedTopology({
+      explanation: ' Stampante sul router ',
+      optimizedTopology: [
+        { id: 'r', parentId: null },
+        { id: 's', parentId: 'r' },
+        { id: 'p', parentId: 's' },
+        { id: 'q', parentId: 'r', type: 'iot' }
+      ]
+    }, current);
+    expect(value.explanation).toBe('Stampante sul router');
+    expect(value.topology.map(d => d.id)).toEqual(['r', 's', 'p', 'q']);
+    expect(value.topology.find(d => d.id === 'q')).toMatchObject({ parentId: 'r', type: DeviceType.IOT, name: 'Q' });
+    expect(value.topology[0]).toBe(current[0]);
+    expect(issues).toEqual([]);
+    expect(retryReason).toBeUndefined();
+  });
+
+  it('ignora device inventati e mantiene i collegamenti non validi', () => {
+    const { value, issues } = validateOptimizedTopology({
+      explanation: '',
+      optimizedTopology: [
+        { id: 'r', parentId: null },
+        { id: 's', parentId: 'r' },
+        { id: 'p', parentId: 'ghost' },
+        { id: 'q', parentId: 's', type: 'TOASTER' },
+        { id: 'x', parentId: 'r' }
+      ]
+    }, current);
+    expect(value.topology.map(d => d.id)).toEqual(['r', 's', 'p', 'q']);
+    expect(parentOf(value.topology, 'p')).toBe('s');
+    expect(value.topology.find(d => d.id === 'q')?.type).toBe(DeviceType.PRINTER);
+    expect(issues).toHaveLength(3);
+  });
+
+  it('interrompe i cicli ripristinando il collegamento cambiato', () => {
+    const { value, issues } = validateOptimizedTopology({
+      explanation: '',
+      optimizedTopology: [{ id: 'r', parentId: 'p' }, { id: 's', parentId: 'r' }, { id: 'p', parentId: 's' }, { id: 'q', parentId: 's' }]
+    }, current);
+    expect(findCycleDevice(value.topology)).toBeNull();
+    expect(parentOf(value.topology, 'r')).toBeNull();
+    expect(issues.some(i => i.startsWith('Ciclo su R'))).toBe(true);
+  });
+
+  it('chiede di riprovare se la proposta copre meno di metà dei device', () => {
+    const { value, retryReason } = validateOptimizedTopology({ explanation: '', optimizedTopology: [{ id: 'q', parentId: 'r' }] }, current);
+    expect(parentOf(value.topology, 'q')).toBe('r');
+    expect(parentOf(value.topology, 'p')).toBe('s');
+    expect(retryReason).toBe('la proposta copre solo 1 device su 4');
+  });
+
+  it('rifiuta le risposte senza elenco', () => {
+    expect(() => validateOptimizedTopology([], current)).toThrow(AiValidationError);
+    expect(() => validateOptimizedTopology({ explanation: 'ok' }, current)).toThrow("Manca l'elenco optimizedTopology.");
+  });
+});
@@ -0,0 +1,403 @@
+import { NetworkDevice, DeviceType, AnalysisFinding, AnalysisReport, FindingSeverity, ChatToolName, ChatReparent } from '../types';
+import { ipToInt } from './scanTargets';
+import { findCycleDevice } from './topologyEditing';
+
+/**
+ * Esito della validazione di una risposta AI: il valore riparato, l'elenco delle
+ * correzioni applicate e, se la risposta è molto lontana dallo schema, il motivo per
+ * cui conviene chiedere al modello di riprovare.
+ */
+export interface AiValidation<T> {
+  value: T;
+  issues: string[];
+  retryReason?: string;
+}
+
+// Risposta non riparabile (JSON non valido o struttura errata): va richiesta di nuovo
+export class AiValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiValidationError';
+  }
+}
+
+const DEVICE_TYPES = Object.values(DeviceType) as string[];
+const DEVICE_STATUSES: NetworkDevice['status'][] = ['online', 'offline', 'warning'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Tipo dichiarato dal modello, senza distinzione di maiuscole; null se non valido
+const toDeviceType = (value: unknown): DeviceType | null => {
+  const type = asText(value).toUpperCase();
+  return DEVICE_TYPES.includes(type) ? (type as DeviceType) : null;
+};
+
+const toParentRef = (value: unknown): string | null => {
+  if (typeof value === 'number') return String(value);
+  return asText(value) || null;
+};
+
+// Riferimento a un device esistente, per id o per IP (come fanno spesso i modelli); null se inesistente
+const createDeviceResolver = (devices: NetworkDevice[]) => {
+  const ids = new Set(devices.map(d => d.id));
+  const idByIp = new Map(devices.filter(d => d.ip).map(d => [d.ip, d.id]));
+  return (value: string): string | null => (ids.has(value) ? value : idByIp.get(value) ?? null);
+};
+
+/**
+ * Interrompe i cicli: in ogni ciclo si preferisce ripristinare un device il cui padre
+ * è cambiato (`resolve` indica il padre sostitutivo); altrimenti il device viene
+ * staccato e diventa una radice. Ogni giro elimina almeno un ciclo.
+ */
+const breakCycles = (devices: NetworkDevice[], resolve: (device: NetworkDevice) => string | null, issues: string[]): NetworkDevice[] => {
+  let result = devices;
+  for (let i = 0; i < devices.length; i++) {
+    const cycleId = findCycleDevice(result);
+    if (!cycleId) break;
+    const byId = new Map(result.map(d => [d.id, d]));
+    const cycle: NetworkDevice[] = [];
+    let current = byId.get(cycleId);
+    while (current && !cycle.includes(current)) {
+      cycle.push(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    const device = cycle.find(d => resolve(d) !== d.parentId) ?? cycle[0];
+    const replacement = resolve(device);
+    const parentId = replacement !== device.parentId ? replacement : null;
+    issues.push(`Ciclo su ${device.name || device.id}: collegamento a monte ${parentId ? 'ripristinato' : 'rimosso'}.`);
+    result = result.map(d => (d.id === device.id ? { ...d, parentId } : d));
+  }
+  return result;
+};
+
+// --- Elenco di device (import e rete di esempio) ---
+
+/**
+ * Valida un elenco di device generato dal modello: scarta le voci senza IP valido o
+ * duplicate, normalizza tipo e stato, scollega i padri inesistenti e i cicli.
+ */
+export const validateDeviceList = (data: unknown): AiValidation<NetworkDevice[]> => {
+  const list = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.devices) ? data.devices : null;
+  if (!list) throw new AiValidationError("La risposta non è un elenco di device.");
+  const issues: string[] = [];
+  const ids = new Set<string>();
+  const ips = new Set<string>();
+  const parents = new Map<string, string | null>();
+  const devices: NetworkDevice[] = [];
+
+  list.forEach((entry: unknown, index: number) => {
+    const ip = isRecord(entry) ? asText(entry.ip) : '';
+    if (!isRecord(entry) || ipToInt(ip) === null) {
+      issues.push(`Voce ${index + 1} scartata: indirizzo IP mancante o non valido.`);
+      return;
+    }
+    if (ips.has(ip)) {
+      issues.push(`Voce ${index + 1} scartata: IP ${ip} duplicato.`);
+      return;
+    }
+    ips.add(ip);
+    let id = asText(entry.id) || (typeof entry.id === 'number' ? String(entry.id) : '');
+    if (!id || ids.has(id)) {
+      id = `ai-${index + 1}-${ip}`;
+      issues.push(`${ip}: id mancante o duplicato, assegnato "${id}".`);
+    }
+    ids.add(id);
+    const type = toDeviceType(entry.type);
+    if (!type) issues.push(`${ip}: tipo "${String(entry.type ?? '')}" non valido, impostato ${DeviceType.PC}.`);
+    const status = DEVICE_STATUSES.includes(entry.status) ? entry.status : 'online';
+    parents.set(id, toParentRef(entry.parentId));
+    devices.push({
+      id,
+      ip,
+      mac: asText(entry.mac),
+      name: asText(entry.name) || `Device ${ip}`,
+      manufacturer: asText(entry.manufacturer) || 'Sconosciuto',
+      type: type ?? DeviceType.PC,
+      parentId: null,
+      status,
+      ...(typeof entry.latency === 'number' && Number.isFinite(entry.latency) && { latency: entry.latency })
+    });
+  });
+
+  // I modelli indicano spesso il padre con il suo IP invece che con l'id
+  const idByIp = new Map(devices.map(d => [d.ip, d.id]));
+  const linked = devices.map(d => {
+    const ref = parents.get(d.id) ?? null;
+    const parentId = ref && !ids.has(ref) ? idByIp.get(ref) ?? ref : ref;
+    if (!parentId) return d;
+    if (parentId === d.id || !ids.has(parentId)) {
+      issues.push(`${d.ip}: device a monte "${parentId}" inesistente, collegamento rimosso.`);
+      return d;
+    }
+    return { ...d, parentId };
+  });
+  const value = breakCycles(linked, () => null, issues);
+  return {
+    value,
+    issues,
+    retryReason: list.length > 0 && value.length === 0 ? "nessuna voce valida nell'elenco" : undefined
+  };
+};
+
+// --- Topologia ottimizzata ---
+
+export interface OptimizedTopology {
+  explanation: string;
+  topology: NetworkDevice[];
+}
+
+/**
+ * Valida la topologia proposta rispetto a quella attuale: l'insieme dei device resta
+ * lo stesso (id inventati ignorati, device mancanti lasciati dove sono), i padri
+ * devono esistere, i tipi devono essere validi e l'albero non può contenere cicli.
+ * Il risultato parte sempre dai device attuali, modificando solo padre e tipo.
+ */
+export const validateOptimizedTopology = (data: unknown, current: NetworkDevice[]): AiValidation<OptimizedTopology> => {
+  if (!isRecord(data)) throw new AiValidationError("La risposta non è un oggetto JSON con explanation e optimizedTopology.");
+  const list = Array.isArray(data.optimizedTopology) ? data.optimizedTopology : Array.isArray(data.topology) ? data.topology : null;
+  if (!list) throw new AiValidationError("Manca l'elenco optimizedTopology.");
+  const issues: string[] = [];
+  const byId = new Map(current.map(d => [d.id, d]));
+  const proposals = new Map<string, Record<string, any>>();
+  const invented: string[] = [];
+
+  list.forEach((entry: unknown) => {
+    const id = isRecord(entry) ? toParentRef(entry.id) : null;
+    if (!isRecord(entry) || !id) return;
+    if (!byId.has(id)) invented.push(id);
+    else if (!proposals.has(id)) proposals.set(id, entry);
+  });
+  if (invented.length > 0) issues.push(`Ignorati ${invented.length} device inesistenti: ${invented.slice(0, 5).join(', ')}${invented.length > 5 ? '...' : ''}.`);
+  const missing = current.filter(d => !proposals.has(d.id));
+  if (missing.length > 0) issues.push(`${missing.length} device assenti dalla proposta: mantenuto il collegamento attuale.`);
+
+  const proposed = current.map(d => {
+    const entry = proposals.get(d.id);
+    if (!entry) return d;
+    let parentId = 'parentId' in entry ? toParentRef(entry.parentId) : d.parentId ?? null;
+    if (parentId && (parentId === d.id || !byId.has(parentId))) {
+      issues.push(`${d.name}: device a monte "${parentId}" inesistente, mantenuto il collegamento attuale.`);
+      parentId = d.parentId ?? null;
+    }
+    let type = d.type;
+    if (entry.type !== undefined) {
+      const proposedType = toDeviceType(entry.type);
+      if (proposedType) type = proposedType;
+      else issues.push(`${d.name}: tipo "${String(entry.type)}" non valido, mantenuto ${d.type}.`);
+    }
+    return parentId === (d.parentId ?? null) && type === d.type ? d : { ...d, parentId, type };
+  });
+  const topology = breakCycles(proposed, d => byId.get(d.id)?.parentId ?? null, issues);
+
+  return {
+    value: { explanation: asText(data.explanation), topology },
+    issues,
+    retryReason: current.length > 0 && missing.length > current.length / 2
+      ? `la proposta copre solo ${current.length - missing.length} device su ${current.length}`
+      : undefined
+  };
+};
+
+// --- Report di analisi ---
+
+const SEVERITY_ALIASES: Record<string, FindingSeverity> = {
+  critical: 'critical', critico: 'critical', high: 'critical', alta: 'critical', alto: 'critical', error: 'critical',
+  warning: 'warning', avviso: 'warning', medium: 'warning', media: 'warning', medio: 'warning',
+  info: 'info', informativo: 'info', low: 'info', bassa: 'info', basso: 'info'
+};
+
+/**
+ * Valida il report di analisi: gravità normalizzata, device indicati per id (o per IP,
+ * come fanno spesso i modelli) ricondotti a quelli esistenti, gli altri scartati.
+ * Usata anche sui report parziali durante lo streaming.
+ */
+export const validateAnalysisReport = (data: unknown, devices: NetworkDevice[]): AiValidation<AnalysisReport> => {
+  if (!isRecord(data)) throw new AiValidationError("La risposta non è un oggetto JSON con summary, findings e recommendations.");
+  const issues: string[] = [];
+  const resolveDevice = createDeviceResolver(devices);
+  const rawFindings: unknown[] = Array.isArray(data.findings) ? data.findings : [];
+
+  const findings = rawFindings.flatMap((entry, index): AnalysisFinding[] => {
+    if (!isRecord(entry)) return [];
+    const title = asText(entry.title);
+    if (!title) return [];
+    const severity = SEVERITY_ALIASES[asText(entry.severity).toLowerCase()];
+    if (!severity && entry.severity !== undefined) issues.push(`"${title}": gravità "${String(entry.severity)}" non valida, impostata come avviso.`);
+    const refs: unknown[] = Array.isArray(entry.deviceIds) ? entry.deviceIds : [];
+    const deviceIds = [...new Set(refs.flatMap(ref => {
+      const value = toParentRef(ref);
+      const id = value && resolveDevice(value);
+      if (value && !id) issues.push(`"${title}": device "${value}" inesistente, ignorato.`);
+      return id ? [id] : [];
+    }))];
+    return [{
+      id: `ai:${index}`,
+      ruleId: 'ai',
+      severity: severity ?? 'warning',
+      title,
+      detail: asText(entry.detail),
+      recommendation: asText(entry.recommendation) || undefined,
+      deviceIds
+    }];
+  });
+
+  const rawRecommendations: unknown[] = Array.isArray(data.recommendations) ? data.recommendations : [];
+  return {
+    value: {
+      source: 'ai',
+      summary: asText(data.summary),
+      findings,
+      recommendations: rawRecommendations.map(asText).filter(Boolean),
+      generatedAt: Date.now()
+    },
+    issues,
+    retryReason: !asText(data.summary) && findings.length === 0 ? 'report vuoto' : undefined
+  };
+};
+
+// --- Assistente ---
+
+// Invocazione di uno strumento locale: gli argomenti sono campi piatti, usati secondo lo strumento
+export interface ChatToolCall {
+  tool: ChatToolName;
+  query?: string;
+  deviceId?: string;
+  deviceIds?: string[];
+  title?: string;
+  changes?: ChatReparent[];
+}
+
+export interface ChatResponse {
+  reply: string; // Markdown
+  toolCalls: ChatToolCall[];
+}
+
+/**
+ * Valida una risposta dell'assistente: strumenti sconosciuti scartati, device (anche
+ * indicati per IP) ricondotti a quelli esistenti, spostamenti con padre o tipo non
+ * validi ignorati.
+ */
+export const validateChatResponse = (data: unknown, devices: NetworkDevice[], toolNames: readonly ChatToolName[]): AiValidation<ChatResponse> => {
+  if (!isRecord(data)) throw new AiValidationError("La risposta non è un oggetto JSON con reply e toolCalls.");
+  const issues: string[] = [];
+  const resolveDevice = createDeviceResolver(devices);
+  const resolveRef = (ref: unknown, tool: string): string | null => {
+    const value = toParentRef(ref);
+    const id = value && resolveDevice(value);
+    if (value && !id) issues.push(`${tool}: device "${value}" inesistente, ignorato.`);
+    return id || null;
+  };
+  const rawCalls: unknown[] = Array.isArray(data.toolCalls) ? data.toolCalls : [];
+
+  const toolCalls = rawCalls.flatMap((entry): ChatToolCall[] => {
+    if (!isRecord(entry)) return [];
+    const tool = asText(entry.tool) as ChatToolName;
+    if (!toolNames.includes(tool)) {
+      issues.push(`Strumento "${String(entry.tool)}" sconosciuto, ignorato.`);
+      return [];
+    }
+    const refs: unknown[] = Array.isArray(entry.deviceIds) ? entry.deviceIds : [];
+    const rawChanges: unknown[] = Array.isArray(entry.changes) ? entry.changes : [];
+    const changes = rawChanges.flatMap((change): ChatReparent[] => {
+      if (!isRecord(change)) return [];
+      const deviceId = resolveRef(change.deviceId, tool);
+      if (!deviceId) return [];
+      const parentRef = toParentRef(change.parentId);
+      const parentId = parentRef && resolveRef(parentRef, tool);
+      if (parentRef && !parentId) return [];
+      const type = toDeviceType(change.type);
+      if (change.type !== undefined && change.type !== null && !type) issues.push(`${tool}: tipo "${String(change.type)}" non valido, ignorato.`);
+      return [{ deviceId, parentId: parentId || null, ...(type && { type }) }];
+    });
+    return [{
+      tool,
+      ...(asText(entry.query) && { query: asText(entry.query) }),
+      ...(entry.deviceId !== undefined && entry.deviceId !== null && { deviceId: toParentRef(entry.deviceId) ?? undefined }),
+      ...(refs.length > 0 && { deviceIds: [...new Set(refs.map(ref => resolveRef(ref, tool)).filter((id): id is string => !!id))] }),
+      ...(asText(entry.title) && { title: asText(entry.title) }),
+      ...(rawChanges.length > 0 && { changes })
+    }];
+  });
+
+  const reply = asText(data.reply);
+  return {
+    value: { reply, toolCalls },
+    issues,
+    retryReason: !reply && toolCalls.length === 0 ? 'risposta vuota' : undefined
+  };
+};
+
+// --- JSON parziale (streaming) ---
+
+/**
+ * Interpreta un JSON ancora incompleto chiudendo stringhe, oggetti e array aperti.
+ * Se la coda non è interpretabile (es. una chiave senza valore) riparte dall'ultimo
+ * punto in cui tutti i valori erano completi. Restituisce undefined se non c'è
+ * ancora nulla di utilizzabile.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const source = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+  const stack: string[] = [];
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+  let afterColon = false;
+  let safeEnd = -1;
+  let safeClosers = '';
+  const closers = () => stack.map(c => (c === '{' ? '}' : ']')).reverse().join('');
+  const checkpoint = (end: number) => {
+    safeEnd = end;
+    safeClosers = closers();
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (!isKey) checkpoint(i + 1);
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      isKey = stack[stack.length - 1] === '{' && !afterColon;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      afterColon = false;
+      checkpoint(i + 1);
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      afterColon = false;
+      checkpoint(i + 1);
+    } else if (ch === ':') {
+      afterColon = true;
+    } else if (ch === ',') {
+      afterColon = false;
+      checkpoint(i);
+    }
+  }
+
+  const attempts: string[] = [];
+  if (inString && !isKey) {
+    // Stringa troncata: si scartano un eventuale escape incompleto e si chiude
+    const body = source.replace(/\\(?:u[0-9a-fA-F]{0,3})?$/, '');
+    attempts.push(`${body}"${closers()}`);
+  } else if (!inString) {
+    attempts.push(source + closers());
+  }
+  if (safeEnd > 0) attempts.push(source.slice(0, safeEnd) + safeClosers);
+  for (const candidate of attempts) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Prova il candidato successivo
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AlertContext, evaluateAlertRules } from './alertService';
+import { Alert, AlertRule, DeviceSample, DeviceType, NetworkDevice } from '../types';
+
+const NOW = 1_700_000_000_000;
+
+const router: NetworkDevice = { id: 'gw', ip: '192.168.1.1', mac: 'A4:5E:60:AA:BB:01', name: 'Gateway', manufacturer: 'Ubiquiti', type: DeviceType.ROUTER, parentId: null, status: 'online' };
+const nas: NetworkDevice = { id: 'nas', ip: '192.168.1.20', mac: '', name: 'NAS', manufacturer: '', type: DeviceType.SERVER, parentId: 'gw', status: 'online' };
+const ROUTER_ID = 'mac:A4:5E:60:AA:BB:01';
+const NAS_ID = 'ip:192.168.1.20';
+
+const rule = (kind: AlertRule['kind'], extra: Partial<AlertRule> = {}): AlertRule =>
+  ({ id: `rule-${kind}`, name: kind, kind, enabled: true, severity: 'warning', notifyBrowser: false, notifyWebhook: false, ...extra });
+
+// Campioni a 30 secondi di distanza, l'ultimo al momento della valutazione
+const samples = (identity: string, ...values: (number | null)[]): DeviceSample[] =>
+  values.map((v, i) => ({ identity, timestamp: NOW - (values.length - 1 - i) * 30_000, online: v !== null, latency: v ?? undefined }));
+
+const context = (extra: Partial<AlertContext> = {}): AlertContext =>
+  ({ devices: [router, nas], samples: {}, knownMacs: new Set(), now: NOW, ...extra });
+
+const raisedKeys = (rules: AlertRule[], ctx: AlertContext, alerts: Alert[] = []) =>
+  evaluateAlertRules(rules, alerts, ctx).raised.map(a => a.key);
+
+describe('evaluateAlertRules', () => {
+  it('device offline: solo oltre la durata della serie offline più recente', () => {
+    const offline = rule('device_offline', { durationSec: 60 });
+    expect(raisedKeys([offline], context({ samples: { [NAS_ID]: samples(NAS_ID, 2, null, null, null) } }))).toEqual([`rule-device_offline|${NAS_ID}`]);
+    expect(raisedKeys([offline], context({ samples: { [NAS_ID]: samples(NAS_ID, null, null, 2, null, null) } }))).toEqual([]);
+    expect(raisedKeys([offline], context({ samples: { [NAS_ID]: samples(NAS_ID, null, null, null, 2) } }))).toEqual([]);
+  });
+
+  it('latenza: servono N campioni consecutivi oltre soglia', () => {
+    const latency = rule('latency_above', { thresholdMs: 100, consecutiveSamples: 3 });
+    expect(raisedKeys([latency], context({ samples: { [NAS_ID]: samples(NAS_ID, 20, 150, 180, 300) } }))).toEqual([`rule-latency_above|${NAS_ID}`]);
+    expect(raisedKeys([latency], context({ samples: { [NAS_ID]: samples(NAS_ID, 150, 80, 180, 300) } }))).toEqual([]);
+    expect(raisedKeys([latency], context({ samples: { [NAS_ID]: samples(NAS_ID, 150, null, 300) } }))).toEqual([]);
+    expect(raisedKeys([latency], context({ samples: { [NAS_ID]: samples(NAS_ID, 150, 300) } }))).toEqual([]);
+  });
+
+  it('MAC sconosciuto: nessun allarme senza una base di MAC noti né per MAC segnaposto', () => {
+    const unknown = rule('unknown_mac');
+    const intruder = { ...nas, id: 'x', ip: '192.168.1.66', mac: 'a4-5e-60-aa-bb-66' };
+    const placeholder = { ...nas, id: 'y', ip: '192.168.1.67', mac: '00:11:22:33:44:67' };
+    const devices = [router, intruder, placeholder];
+    expect(raisedKeys([unknown], context({ devices }))).toEqual([]);
+    expect(raisedKeys([unknown], context({ devices, knownMacs: new Set(['A4:5E:60:AA:BB:01']) }))).toEqual(['rule-unknown_mac|mac:A4:5E:60:AA:BB:66']);
+  });
+
+  it('router irraggiungibile: ultimo campione, altrimenti lo stato del device', () => {
+    const unreachable = rule('router_unreachable');
+    expect(raisedKeys([unreachable], context({ samples: { [ROUTER_ID]: samples(ROUTER_ID, 1, null) } }))).toEqual([`rule-router_unreachable|${ROUTER_ID}`]);
+    expect(raisedKeys([unreachable], context({ devices: [{ ...router, status: 'offline' }] }))).toEqual([`rule-router_unreachable|${ROUTER_ID}`]);
+    expect(raisedKeys([unreachable], context({ devices: [{ ...router, status: 'offline' }], samples: { [ROUTER_ID]: samples(ROUTER_ID, 1) } }))).toEqual([]);
+    expect(raisedKeys([unreachable], context({ devices: [{ ...nas, status: 'offline' }] }))).toEqual([]);
+  });
+
+  it('ignora le regole disattivate e rispetta il device della regola', () => {
+    const ctx = context({ devices: [{ ...router, status: 'offline' }, { ...router, id: 'gw2', ip: '192.168.1.254', mac: '', status: 'offline' }] });
+    expect(raisedKeys([rule('router_unreachable', { enabled: false })], ctx)).toEqual([]);
+    expect(raisedKeys([rule('router_unreachable', { deviceIdentity: 'ip:192.168.1.254' })], ctx)).toEqual(['rule-router_unreachable|ip:192.168.1.254']);
+  });
+
+  it('non duplica gli allarmi aperti e risolve quelli rientrati, tranne gli eventi', () => {
+    const rules = [rule('router_unreachable', { severity: 'critical' }), rule('unknown_mac'), rule('device_offline')];
+    const ctx = context({ devices: [{ ...router, status: 'offline' }, nas] });
+    const [first] = evaluateAlertRules(rules, [], ctx).raised;
+    expect(first).toEqual({
+      id: `alert-${NOW}-0`,
+      key: `rule-router_unreachable|${ROUTER_ID}`,
+      ruleId: 'rule-router_unreachable',
+      ruleName: 'router_unreachable',
+      severity: 'critical',
+      deviceIdentity: ROUTER_ID,
+      deviceName: 'Gateway',
+      message: 'Router Gateway (192.168.1.1) non risponde',
+      state: 'active',
+      raisedAt: NOW
+    });
+
+    const acknowledged: Alert = { ...first, state: 'acknowledged', acknowledgedAt: NOW };
+    const event: Alert = { ...first, id: 'mac', key: 'rule-unknown_mac|mac:A4:5E:60:AA:BB:66', ruleId: 'rule-unknown_mac' };
+    const old: Alert = { ...first, id: 'old', key: `rule-device_offline|${NAS_ID}`, ruleId: 'rule-device_offline', state: 'resolved', resolvedAt: 1 };
+    expect(evaluateAlertRules(rules, [acknowledged, event, old], ctx)).toEqual({ raised: [], resolved: [] });
+
+    const later = { ...ctx, devices: [router, nas], now: NOW + 60_000 };
+    expect(evaluateAlertRules(rules, [acknowledged, event, old], later)).toEqual({
+      raised: [],
+      resolved: [{ ...acknowledged, state: 'resolved', resolvedAt: NOW + 60_000 }]
+    });
+  });
+});
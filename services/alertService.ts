@@ -0,0 +1,173 @@
+import { Alert, AlertRule, DeviceSample, DeviceType, NetworkDevice } from '../types';
+import { getDeviceIdentity, isPlaceholderMac, normalizeMac } from './deviceIdentity';
+import { dbGetAll, dbPutMany, dbDelete, STORE_ALERTS } from './db';
+
+const RULES_KEY = 'netvisio_alert_rules';
+const KNOWN_MACS_KEY = 'netvisio_known_macs';
+
+export const RULE_KIND_LABELS: Record<AlertRule['kind'], string> = {
+  device_offline: 'Device offline da più di N secondi',
+  latency_above: 'Latenza oltre soglia per N campioni',
+  unknown_mac: 'Nuovo MAC sconosciuto in rete',
+  router_unreachable: 'Router irraggiungibile'
+};
+
+const DEFAULT_RULES: AlertRule[] = [
+  { id: 'rule-router', name: 'Router irraggiungibile', kind: 'router_unreachable', enabled: true, severity: 'critical', notifyBrowser: true, notifyWebhook: false },
+  { id: 'rule-unknown-mac', name: 'MAC sconosciuto', kind: 'unknown_mac', enabled: true, severity: 'warning', notifyBrowser: false, notifyWebhook: false }
+];
+
+// --- Regole (localStorage) ---
+
+export const loadAlertRules = (): AlertRule[] => {
+  const raw = localStorage.getItem(RULES_KEY);
+  if (!raw) return DEFAULT_RULES;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+export const loadKnownMacs = (): Set<string> =>
+  new Set((localStorage.getItem(KNOWN_MACS_KEY) || '').split(',').filter(Boolean));
+
+// Aggiunge ai MAC noti quelli reali dei device correnti
+export const learnMacs = (known: Set<string>, devices: NetworkDevice[]): Set<string> => {
+  const next = new Set(known);
+  devices.forEach(d => { if (!isPlaceholderMac(d.mac)) next.add(normalizeMac(d.mac)); });
+  localStorage.setItem(KNOWN_MACS_KEY, [...next].join(','));
+  return next;
+};
+
+// --- Allarmi (IndexedDB) ---
+
+export const loadAlerts = async (): Promise<Alert[]> => {
+  const all = await dbGetAll<Alert>(STORE_ALERTS);
+  return all.sort((a, b) => b.raisedAt - a.raisedAt);
+};
+
+export const saveAlerts = (alerts: Alert[]): Promise<void> => dbPutMany(STORE_ALERTS, alerts);
+
+export const deleteAlert = (id: string): Promise<void> => dbDelete(STORE_ALERTS, id);
+
+// --- Valutazione ---
+
+export interface AlertContext {
+  devices: NetworkDevice[];
+  samples: Record<string, DeviceSample[]>; // Campioni recenti per identità, in ordine cronologico
+  knownMacs: Set<string>;
+  now: number;
+}
+
+interface Condition {
+  key: string;
+  device: NetworkDevice;
+  message: string;
+}
+
+const lastSample = (ctx: AlertContext, identity: string): DeviceSample | undefined => {
+  const list = ctx.samples[identity];
+  return list?.[list.length - 1];
+};
+
+// Inizio della serie continua di campioni offline più recente, se l'ultimo campione è offline
+const offlineSince = (samples: DeviceSample[] | undefined): number | null => {
+  if (!samples?.length || samples[samples.length - 1].online) return null;
+  let start = samples[samples.length - 1].timestamp;
+  for (let i = samples.length - 1; i >= 0 && !samples[i].online; i--) start = samples[i].timestamp;
+  return start;
+};
+
+const findConditions = (rule: AlertRule, ctx: AlertContext): Condition[] => {
+  const targets = ctx.devices.filter(d => !rule.deviceIdentity || getDeviceIdentity(d) === rule.deviceIdentity);
+  const conditions: Condition[] = [];
+
+  targets.forEach(device => {
+    const identity = getDeviceIdentity(device);
+    const key = `${rule.id}|${identity}`;
+
+    switch (rule.kind) {
+      case 'device_offline': {
+        const since = offlineSince(ctx.samples[identity]);
+        const durationMs = (rule.durationSec ?? 120) * 1000;
+        if (since !== null && ctx.now - since >= durationMs) {
+          conditions.push({ key, device, message: `${device.name} (${device.ip}) offline da ${Math.round((ctx.now - since) / 1000)}s` });
+        }
+        break;
+      }
+      case 'latency_above': {
+        const count = rule.consecutiveSamples ?? 5;
+        const threshold = rule.thresholdMs ?? 200;
+        const recent = (ctx.samples[identity] || []).slice(-count);
+        if (recent.length === count && recent.every(s => s.online && (s.latency ?? 0) > threshold)) {
+          conditions.push({ key, device, message: `${device.name} (${device.ip}) oltre ${threshold} ms per ${count} campioni` });
+        }
+        break;
+      }
+      case 'unknown_mac': {
+        // Al primo avvio non c'è una base di MAC noti: nessun allarme finché non viene appresa
+        if (ctx.knownMacs.size === 0 || isPlaceholderMac(device.mac)) break;
+        if (!ctx.knownMacs.has(normalizeMac(device.mac))) {
+          conditions.push({ key, device, message: `Nuovo MAC ${device.mac} (${device.ip}, ${device.manufacturer})` });
+        }
+        break;
+      }
+      case 'router_unreachable': {
+        if (device.type !== DeviceType.ROUTER) break;
+        const sample = lastSample(ctx, identity);
+        if (sample ? !sample.online : device.status === 'offline') {
+          conditions.push({ key, device, message: `Router ${device.name} (${device.ip}) non risponde` });
+        }
+        break;
+      }
+    }
+  });
+
+  return conditions;
+};
+
+/**
+ * Valuta le regole attive e restituisce gli allarmi nuovi e quelli da chiudere.
+ * Un allarme già aperto per la stessa regola e device non viene duplicato; quando la
+ * condizione rientra viene risolto automaticamente (tranne i MAC sconosciuti, che sono
+ * eventi e restano aperti finché l'utente non li gestisce).
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  alerts: Alert[],
+  ctx: AlertContext
+): { raised: Alert[]; resolved: Alert[] } => {
+  const open = alerts.filter(a => a.state !== 'resolved');
+  const openKeys = new Set(open.map(a => a.key));
+  const activeKeys = new Set<string>();
+  const raised: Alert[] = [];
+
+  rules.filter(r => r.enabled).forEach(rule => {
+    findConditions(rule, ctx).forEach(c => {
+      activeKeys.add(c.key);
+      if (openKeys.has(c.key)) return;
+      raised.push({
+        id: `alert-${ctx.now}-${raised.length}`,
+        key: c.key,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        deviceIdentity: getDeviceIdentity(c.device),
+        deviceName: c.device.name,
+        message: c.message,
+        state: 'active',
+        raisedAt: ctx.now
+      });
+    });
+  });
+
+  const eventRuleIds = new Set(rules.filter(r => r.kind === 'unknown_mac').map(r => r.id));
+  const resolved = open
+    .filter(a => !activeKeys.has(a.key) && !eventRuleIds.has(a.ruleId))
+    .map(a => ({ ...a, state: 'resolved' as const, resolvedAt: ctx.now }));
+
+  return { raised, resolved };
+};
@@ -0,0 +1,328 @@
+import { NetworkDevice, NetworkZone, ScanSnapshot, WanTrace, Alert, ChatConversation, ChatMessage, ChatReparent, ChatToolName } from '../types';
+import { parseDeviceQuery, matchesDeviceQuery, QUERY_FIELDS } from './deviceQuery';
+import { resolveDeviceZone } from './networkZones';
+import { getDeviceIdentity } from './deviceIdentity';
+import { diffDevices } from './historyService';
+import { detectLatencyJumps } from './wanTraceService';
+import { analyzeNetworkLocally, HIGH_LATENCY_MS } from './networkAnalyzer';
+import { findCycleDevice, getUpstreamPath } from './topologyEditing';
+import { ChatToolCall } from './aiValidation';
+
+const STORAGE_KEY = 'netvisio_chat_conversations';
+const MAX_CONVERSATIONS = 20; // Per progetto, le più recenti
+const MAX_RESULT_DEVICES = 40; // Device restituiti da una ricerca
+const MAX_PROMPT_DEVICES = 150; // Oltre, il modello deve usare find_devices
+const MAX_HISTORY_MESSAGES = 12;
+const MAX_SNAPSHOTS = 10;
+
+// --- Conversazioni, salvate per nome di progetto ---
+
+type ConversationStore = Record<string, ChatConversation[]>;
+
+const readStore = (): ConversationStore => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadConversations = (project: string): ChatConversation[] => {
+  const list = readStore()[project];
+  return Array.isArray(list) ? list : [];
+};
+
+// Restituisce l'elenco effettivamente salvato (ordinato e limitato)
+export const saveConversations = (project: string, conversations: ChatConversation[]): ChatConversation[] => {
+  const store = readStore();
+  const kept = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_CONVERSATIONS);
+  if (kept.length > 0) store[project] = kept;
+  else delete store[project];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  return kept;
+};
+
+export const createConversation = (): ChatConversation => {
+  const now = Date.now();
+  return { id: `chat-${now}-${Math.random().toString(36).slice(2, 6)}`, title: 'Nuova conversazione', createdAt: now, updatedAt: now, messages: [] };
+};
+
+export const createChatMessage = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  content,
+  createdAt: Date.now(),
+  ...extra
+});
+
+// Titolo dalla prima domanda
+export const conversationTitle = (question: string): string => {
+  const text = question.replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text || 'Nuova conversazione';
+};
+
+// --- Strumenti locali ---
+
+// Dati su cui l'assistente risponde: la rete corrente, lo storico e le tracce WAN
+export interface ChatContext {
+  devices: NetworkDevice[];
+  zones: NetworkZone[];
+  traces: WanTrace[];
+  alerts: Alert[];
+  loadSnapshots: () => Promise<ScanSnapshot[]>;
+}
+
+export interface ChatToolResult {
+  data: unknown; // Restituito al modello come JSON
+  summary: string; // Mostrato nella conversazione
+  deviceIds?: string[];
+  highlightTitle?: string;
+  proposal?: ChatReparent[];
+}
+
+export interface ChatTool {
+  name: ChatToolName;
+  description: string; // Uso e argomenti, riportati nel prompt
+  action: boolean; // Agisce sull'interfaccia invece di restituire dati
+  run: (call: ChatToolCall, ctx: ChatContext) => ChatToolResult | Promise<ChatToolResult>;
+}
+
+const compactDevice = (d: NetworkDevice) => ({
+  id: d.id, name: d.name, ip: d.ip, type: d.type, status: d.status, parentId: d.parentId ?? null,
+  ...(d.latency !== undefined && { latency: d.latency })
+});
+
+// Per id, IP o nome (senza distinzione di maiuscole)
+const findDevice = (devices: NetworkDevice[], ref: string | undefined): NetworkDevice | undefined => {
+  const value = (ref || '').trim();
+  if (!value) return undefined;
+  return devices.find(d => d.id === value || d.ip === value) ?? devices.find(d => d.name.toLowerCase() === value.toLowerCase());
+};
+
+const findDevicesTool: ChatTool = {
+  name: 'find_devices',
+  description: `find_devices(query): cerca i device con la sintassi "campo:valore" (testo libero, -campo:valore per escludere). Campi: ${Object.entries(QUERY_FIELDS).map(([k, v]) => `${k} (${v})`).join('; ')}. Esempi: parent:"Switch Core", type:PRINTER status:warning, latency:>50.`,
+  action: false,
+  run: (call, ctx) => {
+    const query = call.query || '';
+    const parsed = parseDeviceQuery(query);
+    const byId = new Map(ctx.devices.map(d => [d.id, d]));
+    const zoneOf = (d: NetworkDevice) => resolveDeviceZone(d, ctx.zones);
+    const matches = ctx.devices.filter(d => matchesDeviceQuery(d, parsed, { byId, zoneOf }));
+    return {
+      data: {
+        count: matches.length,
+        devices: matches.slice(0, MAX_RESULT_DEVICES).map(compactDevice),
+        ...(matches.length > MAX_RESULT_DEVICES && { truncated: true }),
+        ...(parsed.errors.length > 0 && { errors: parsed.errors })
+      },
+      summary: `Ricerca ${query ? `«${query}»` : 'di tutti i device'}: ${matches.length} risultat${matches.length === 1 ? 'o' : 'i'}`
+    };
+  }
+};
+
+const getDeviceTool: ChatTool = {
+  name: 'get_device',
+  description: 'get_device(deviceId): dettagli di un device (id, IP o nome): porte, percorso a monte, device collegati, zona, allarmi attivi e rilievi delle regole locali. Utile per spiegare uno stato "warning" o "offline".',
+  action: false,
+  run: (call, ctx) => {
+    const device = findDevice(ctx.devices, call.deviceId);
+    if (!device) return { data: { error: `Device "${call.deviceId ?? ''}" non trovato.` }, summary: `Device "${call.deviceId ?? ''}" non trovato` };
+    const identity = getDeviceIdentity(device);
+    const ports = [...new Set([...(device.services || []).map(s => s.port), ...(device.probes || []).filter(p => p.open).map(p => Number(p.probeId.split('-').pop()))])].filter(Boolean);
+    return {
+      data: {
+        ...compactDevice(device),
+        mac: device.mac,
+        manufacturer: device.manufacturer,
+        os: device.os,
+        vlanId: device.vlanId,
+        ports,
+        highLatency: device.latency !== undefined && device.latency >= HIGH_LATENCY_MS,
+        highLatencyThresholdMs: HIGH_LATENCY_MS,
+        zone: resolveDeviceZone(device, ctx.zones)?.name ?? null,
+        upstreamPath: getUpstreamPath(ctx.devices, device.id).map(d => d.name),
+        children: ctx.devices.filter(d => d.parentId === device.id).map(d => d.name),
+        activeAlerts: ctx.alerts.filter(a => a.state !== 'resolved' && a.deviceIdentity === identity).map(a => ({ rule: a.ruleName, severity: a.severity, message: a.message })),
+        findings: analyzeNetworkLocally(ctx.devices, ctx.zones).filter(f => f.deviceIds.includes(device.id)).map(f => ({ severity: f.severity, title: f.title, detail: f.detail }))
+      },
+      summary: `Dettagli di ${device.name}`,
+      deviceIds: [device.id]
+    };
+  }
+};
+
+const scanHistoryTool: ChatTool = {
+  name: 'scan_history',
+  description: 'scan_history(deviceId?): scansioni salvate (le più recenti) con le differenze tra le ultime due; con deviceId, presenza, stato e latenza del device in ogni scansione.',
+  action: false,
+  run: async (call, ctx) => {
+    const snapshots = (await ctx.loadSnapshots()).slice(0, MAX_SNAPSHOTS);
+    if (snapshots.length === 0) return { data: { snapshots: [] }, summary: 'Nessuna scansione nello storico' };
+    const device = call.deviceId ? findDevice(ctx.devices, call.deviceId) : undefined;
+    if (device) {
+      const identity = getDeviceIdentity(device);
+      return {
+        data: {
+          device: device.name,
+          history: snapshots.map(s => {
+            const match = s.devices.find(d => getDeviceIdentity(d) === identity);
+            return { at: new Date(s.timestamp).toISOString(), present: !!match, status: match?.status, latency: match?.latency, ip: match?.ip };
+          })
+        },
+        summary: `Storico di ${device.name} (${snapshots.length} scansioni)`,
+        deviceIds: [device.id]
+      };
+    }
+    const [latest, previous] = snapshots;
+    const diff = previous ? diffDevices(previous.devices, latest.devices) : null;
+    return {
+      data: {
+        snapshots: snapshots.map(s => ({ at: new Date(s.timestamp).toISOString(), label: s.label, devices: s.devices.length, offline: s.devices.filter(d => d.status === 'offline').length })),
+        ...(diff && {
+          lastChanges: {
+            added: diff.added.map(d => `${d.name} (${d.ip})`),
+            removed: diff.removed.map(d => `${d.name} (${d.ip})`),
+            changed: diff.changed.map(c => ({ device: c.after.name, changes: c.changes.map(f => `${f.field}: ${f.before ?? '-'} → ${f.after ?? '-'}`) }))
+          }
+        })
+      },
+      summary: `Storico scansioni (${snapshots.length})`
+    };
+  }
+};
+
+const wanTracesTool: ChatTool = {
+  name: 'wan_traces',
+  description: 'wan_traces(query?): traceroute importati (filtrati per destinazione con query) con hop, latenze, perdite e salti di latenza rilevati.',
+  action: false,
+  run: (call, ctx) => {
+    const filter = (call.query || '').toLowerCase();
+    const traces = ctx.traces.filter(t => !filter || t.target.toLowerCase().includes(filter) || (t.label || '').toLowerCase().includes(filter));
+    return {
+      data: traces.map(t => ({
+        target: t.target,
+        label: t.label,
+        capturedAt: new Date(t.capturedAt).toISOString(),
+        hops: t.hops.map(h => ({ hop: h.hopNumber, ip: h.ip || null, hostname: h.hostname || undefined, latency: h.latency, loss: h.lossPercent })),
+        latencyJumps: detectLatencyJumps(t.hops)
+      })),
+      summary: `Tracce WAN: ${traces.length}`
+    };
+  }
+};
+
+const listZonesTool: ChatTool = {
+  name: 'list_zones',
+  description: 'list_zones(): zone configurate con VLAN, subnet e numero di device, più le subnet /24 osservate. Utile per proporre un piano VLAN.',
+  action: false,
+  run: (_call, ctx) => {
+    const counts = new Map<string, number>();
+    const subnets = new Map<string, number>();
+    ctx.devices.forEach(d => {
+      const zone = resolveDeviceZone(d, ctx.zones);
+      const key = zone?.id ?? '';
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+      const subnet = d.ip.split('.').slice(0, 3).join('.');
+      if (d.ip) subnets.set(`${subnet}.0/24`, (subnets.get(`${subnet}.0/24`) ?? 0) + 1);
+    });
+    return {
+      data: {
+        zones: ctx.zones.map(z => ({ name: z.name, vlanIds: z.vlanIds, subnets: z.subnets, devices: counts.get(z.id) ?? 0 })),
+        unassignedDevices: counts.get('') ?? 0,
+        observedSubnets: Object.fromEntries(subnets)
+      },
+      summary: `Zone: ${ctx.zones.length}`
+    };
+  }
+};
+
+const highlightDevicesTool: ChatTool = {
+  name: 'highlight_devices',
+  description: 'highlight_devices(deviceIds, title): evidenzia i device sulla mappa con un titolo breve.',
+  action: true,
+  run: call => {
+    const deviceIds = call.deviceIds ?? [];
+    const title = call.title || 'Device indicati dall\'assistente';
+    return {
+      data: { highlighted: deviceIds.length },
+      summary: `Evidenziati ${deviceIds.length} device: ${title}`,
+      deviceIds,
+      highlightTitle: title
+    };
+  }
+};
+
+const proposeReparentTool: ChatTool = {
+  name: 'propose_reparent',
+  description: 'propose_reparent(changes): propone spostamenti come [{deviceId, parentId, type?}] (parentId null = radice). L\'utente li rivede e li accetta uno per uno: non sono applicati subito.',
+  action: true,
+  run: (call, ctx) => {
+    const byId = new Map(ctx.devices.map(d => [d.id, d]));
+    // Restano solo gli spostamenti che cambiano davvero qualcosa
+    const changes = (call.changes ?? []).filter(c => {
+      const device = byId.get(c.deviceId);
+      if (!device || c.parentId === c.deviceId) return false;
+      return (device.parentId ?? null) !== c.parentId || (!!c.type && c.type !== device.type);
+    });
+    const proposed = ctx.devices.map(d => {
+      const change = changes.find(c => c.deviceId === d.id);
+      return change ? { ...d, parentId: change.parentId, ...(change.type && { type: change.type }) } : d;
+    });
+    const cycleId = findCycleDevice(proposed);
+    if (cycleId) {
+      const name = byId.get(cycleId)?.name ?? cycleId;
+      return { data: { error: `Le modifiche creano un ciclo attorno a ${name}: proposta scartata.` }, summary: `Proposta scartata: ciclo attorno a ${name}` };
+    }
+    return {
+      data: { proposed: changes.length },
+      summary: changes.length === 0 ? 'Nessuna modifica da proporre' : changes.length === 1 ? 'Proposta 1 modifica alla topologia' : `Proposte ${changes.length} modifiche alla topologia`,
+      ...(changes.length > 0 && { proposal: changes, deviceIds: changes.map(c => c.deviceId) })
+    };
+  }
+};
+
+export const CHAT_TOOLS: ChatTool[] = [findDevicesTool, getDeviceTool, scanHistoryTool, wanTracesTool, listZonesTool, highlightDevicesTool, proposeReparentTool];
+
+export const CHAT_TOOL_NAMES = CHAT_TOOLS.map(t => t.name);
+
+// Argomenti dell'invocazione, senza il nome dello strumento: ripetuti al modello insieme al risultato
+const describeToolCall = ({ tool: _tool, ...args }: ChatToolCall) => args;
+
+export const runChatTool = async (call: ChatToolCall, ctx: ChatContext): Promise<ChatToolResult> => {
+  const tool = CHAT_TOOLS.find(t => t.name === call.tool);
+  if (!tool) return { data: { error: `Strumento ${call.tool} sconosciuto.` }, summary: `Strumento ${call.tool} sconosciuto` };
+  try {
+    return await tool.run(call, ctx);
+  } catch (e: any) {
+    return { data: { error: e?.message || String(e) }, summary: `${call.tool}: errore` };
+  }
+};
+
+export const isActionTool = (name: ChatToolName) => CHAT_TOOLS.some(t => t.name === name && t.action);
+
+// --- Prompt ---
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = { user: 'Utente', assistant: 'Assistente', tool: 'Strumento' };
+
+export const buildChatPrompt = (ctx: ChatContext, history: ChatMessage[], question: string, toolResults: { call: ChatToolCall; result: ChatToolResult }[], lastRound: boolean): string => {
+  const statusCount = (status: NetworkDevice['status']) => ctx.devices.filter(d => d.status === status).length;
+  const deviceList = ctx.devices.length <= MAX_PROMPT_DEVICES
+    ? `Device: ${JSON.stringify(ctx.devices.map(compactDevice))}`
+    : `Elenco device omesso (${ctx.devices.length}): usa find_devices.`;
+  const transcript = history.slice(-MAX_HISTORY_MESSAGES).map(m => `${ROLE_LABELS[m.role]}: ${m.content}`).join('\n');
+  return [
+    `Sei l'assistente di rete di NetVisio. Rispondi in Italiano, in Markdown, solo in base ai dati qui sotto o ottenuti con gli strumenti; se un dato manca, dillo.
+Rispondi con JSON {reply, toolCalls}. Per usare uno strumento aggiungi a toolCalls un oggetto {tool, ...argomenti}: riceverai i risultati e potrai rispondere di nuovo (reply può restare vuoto nel frattempo).
+Per indicare device sulla mappa usa highlight_devices, per proporre spostamenti usa propose_reparent: non descriverli solo a parole.
+Strumenti:
+${CHAT_TOOLS.map(t => `- ${t.description}`).join('\n')}`,
+    `Rete: ${ctx.devices.length} device (${statusCount('online')} online, ${statusCount('warning')} warning, ${statusCount('offline')} offline), ${ctx.zones.length} zone, ${ctx.traces.length} tracce WAN.
+${deviceList}`,
+    transcript && `Conversazione precedente:\n${transcript}`,
+    `Domanda: ${question}`,
+    toolResults.length > 0 && `Risultati degli strumenti:\n${toolResults.map(({ call, result }) => `${call.tool}(${JSON.stringify(describeToolCall(call))}): ${JSON.stringify(result.data)}`).join('\n')}`,
+    lastRound && 'Non sono ammesse altre chiamate agli strumenti: rispondi ora con reply.'
+  ].filter(Boolean).join('\n\n');
+};
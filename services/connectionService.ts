@@ -0,0 +1,168 @@
+import { NetworkDevice, CredentialProfile } from '../types';
+import { getInventoryIdentity, normalizeInventoryIdentity } from './deviceIdentity';
+import { getProbePort } from './probeService';
+import { downloadTextFile, slugifyFileName } from './download';
+
+const PROFILES_KEY = 'netvisio_credential_profiles';
+const ASSIGNMENTS_KEY = 'netvisio_device_credentials';
+
+export type ConnectionProtocol = 'HTTP' | 'HTTPS' | 'SSH' | 'RDP';
+
+export const CONNECTION_PROTOCOLS: ConnectionProtocol[] = ['HTTP', 'HTTPS', 'SSH', 'RDP'];
+
+const DEFAULT_PORTS: Record<ConnectionProtocol, number> = { HTTP: 80, HTTPS: 443, SSH: 22, RDP: 3389 };
+
+// Nomi di servizio (nmap) che identificano un protocollo su una porta non standard
+const SERVICE_NAMES: Record<ConnectionProtocol, RegExp> = {
+  HTTP: /^http(-alt|-proxy)?$/i,
+  HTTPS: /^(https|ssl\/http)/i,
+  SSH: /^ssh$/i,
+  RDP: /^(ms-wbt-server|rdp)$/i
+};
+
+// --- Profili ---
+
+export const loadCredentialProfiles = (): CredentialProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveCredentialProfiles = (profiles: CredentialProfile[]) =>
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+
+export const createCredentialProfile = (name: string): CredentialProfile =>
+  ({ id: `cred-${Date.now().toString(36)}`, name: name.trim() });
+
+// Associazione device -> profilo, per identità stabile (sopravvive alle nuove scansioni)
+export const loadCredentialAssignments = (): Record<string, string> => {
+  try {
+    const stored: Record<string, string> = JSON.parse(localStorage.getItem(ASSIGNMENTS_KEY) || '{}');
+    return Object.fromEntries(Object.entries(stored).map(([identity, profileId]) => [normalizeInventoryIdentity(identity), profileId]));
+  } catch {
+    return {};
+  }
+};
+
+export const saveCredentialAssignments = (assignments: Record<string, string>) =>
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+
+export const getDeviceCredentialProfile = (
+  device: NetworkDevice,
+  profiles: CredentialProfile[],
+  assignments: Record<string, string>
+): CredentialProfile | undefined => {
+  const id = assignments[getInventoryIdentity(device)];
+  return id ? profiles.find(p => p.id === id) : undefined;
+};
+
+// --- Destinazione ---
+
+/**
+ * Porta da usare per il protocollo: quella del profilo (SSH/RDP), poi un servizio
+ * noto dall'import o una sonda web aperta, infine la porta standard.
+ */
+export const getConnectionPort = (device: NetworkDevice, protocol: ConnectionProtocol, profile?: CredentialProfile): number => {
+  if (protocol === 'SSH' && profile?.sshPort) return profile.sshPort;
+  if (protocol === 'RDP' && profile?.rdpPort) return profile.rdpPort;
+  const fallback = DEFAULT_PORTS[protocol];
+  const services = (device.services || []).filter(s => s.protocol === 'tcp' && s.name && SERVICE_NAMES[protocol].test(s.name));
+  if (services.some(s => s.port === fallback)) return fallback;
+  if (services[0]) return services[0].port;
+  if (protocol === 'HTTP' || protocol === 'HTTPS') {
+    const scheme = protocol.toLowerCase();
+    const probe = (device.probes || []).find(p => p.open && p.probeId.startsWith(`${scheme}-`));
+    const port = probe ? getProbePort(probe.probeId) : null;
+    if (port) return port;
+  }
+  return fallback;
+};
+
+const formatHost = (ip: string) => (ip.includes(':') ? `[${ip}]` : ip);
+
+const formatAddress = (ip: string, port: number, protocol: ConnectionProtocol) =>
+  port === DEFAULT_PORTS[protocol] ? formatHost(ip) : `${formatHost(ip)}:${port}`;
+
+// Argomento di shell POSIX: virgolette solo se servono
+const shellQuote = (value: string) => (/^[\w@%+=:,./~-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`);
+
+export const buildWebUrl = (device: NetworkDevice, protocol: 'HTTP' | 'HTTPS'): string =>
+  `${protocol.toLowerCase()}://${formatAddress(device.ip, getConnectionPort(device, protocol), protocol)}/`;
+
+export const buildSshUri = (device: NetworkDevice, profile?: CredentialProfile): string => {
+  const user = profile?.username ? `${encodeURIComponent(profile.username)}@` : '';
+  return `ssh://${user}${formatAddress(device.ip, getConnectionPort(device, 'SSH', profile), 'SSH')}`;
+};
+
+const rdpUser = (profile?: CredentialProfile) =>
+  profile?.username ? (profile.domain ? `${profile.domain}\\${profile.username}` : profile.username) : '';
+
+/**
+ * Contenuto di un file .rdp per mstsc e client compatibili. Non include mai la
+ * password: il client la chiede alla connessione.
+ */
+export const buildRdpFile = (device: NetworkDevice, profile?: CredentialProfile): string => {
+  const lines = [
+    `full address:s:${formatAddress(device.ip, getConnectionPort(device, 'RDP', profile), 'RDP')}`,
+    'prompt for credentials:i:1',
+    'authentication level:i:2',
+    'screen mode id:i:2'
+  ];
+  const user = rdpUser(profile);
+  if (user) lines.push(`username:s:${user}`);
+  return lines.join('\r\n') + '\r\n';
+};
+
+export interface ConnectionCommand {
+  label: string;
+  command: string;
+}
+
+// Righe di comando pronte da copiare, per protocollo
+export const buildConnectionCommands = (device: NetworkDevice, profile?: CredentialProfile): ConnectionCommand[] => {
+  const sshPort = getConnectionPort(device, 'SSH', profile);
+  const ssh = ['ssh'];
+  if (sshPort !== DEFAULT_PORTS.SSH) ssh.push('-p', String(sshPort));
+  // "~/" resta fuori dalle virgolette, altrimenti la shell non lo espande
+  if (profile?.identityFile) ssh.push('-i', profile.identityFile.startsWith('~/') ? `~/${shellQuote(profile.identityFile.slice(2))}` : shellQuote(profile.identityFile));
+  ssh.push(shellQuote(profile?.username ? `${profile.username}@${device.ip}` : device.ip));
+
+  const rdpAddress = formatAddress(device.ip, getConnectionPort(device, 'RDP', profile), 'RDP');
+  const freerdp = ['xfreerdp', `/v:${rdpAddress}`];
+  if (profile?.username) freerdp.push(shellQuote(`/u:${profile.username}`));
+  if (profile?.domain) freerdp.push(shellQuote(`/d:${profile.domain}`));
+
+  return [
+    { label: 'SSH', command: ssh.join(' ') },
+    { label: 'RDP (Windows)', command: `mstsc /v:${rdpAddress}` },
+    { label: 'RDP (Linux)', command: freerdp.join(' ') },
+    { label: 'HTTP', command: `curl -I ${buildWebUrl(device, 'HTTP')}` },
+    { label: 'HTTPS', command: `curl -kI ${buildWebUrl(device, 'HTTPS')}` }
+  ];
+};
+
+// --- Avvio ---
+
+/**
+ * Apre la connessione con il mezzo disponibile nel browser: una nuova scheda per
+ * HTTP/HTTPS, il gestore ssh:// registrato nel sistema, un file .rdp da aprire.
+ */
+export const launchConnection = (device: NetworkDevice, protocol: ConnectionProtocol, profile?: CredentialProfile) => {
+  switch (protocol) {
+    case 'HTTP':
+    case 'HTTPS':
+      window.open(buildWebUrl(device, protocol), '_blank', 'noopener,noreferrer');
+      break;
+    case 'SSH': {
+      const a = document.createElement('a');
+      a.href = buildSshUri(device, profile);
+      a.click();
+      break;
+    }
+    case 'RDP':
+      downloadTextFile(`${slugifyFileName(device.name || device.ip)}.rdp`, buildRdpFile(device, profile), 'application/x-rdp');
+      break;
+  }
+};
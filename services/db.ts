@@ -0,0 +1,117 @@
+/**
+ * Accesso minimale a IndexedDB condiviso dai servizi che persistono dati locali.
+ * Per aggiungere uno store: inserirlo in STORES e incrementare DB_VERSION.
+ */
+
+const DB_NAME = 'netvisio';
+const DB_VERSION = 4;
+
+export const STORE_SNAPSHOTS = 'snapshots';
+export const STORE_SAMPLES = 'samples';
+export const STORE_ALERTS = 'alerts';
+export const STORE_INVENTORY = 'inventory';
+
+interface StoreDefinition {
+  params: IDBObjectStoreParameters;
+  indexes?: { name: string; keyPath: string | string[] }[];
+}
+
+const STORES: Record<string, StoreDefinition> = {
+  [STORE_SNAPSHOTS]: { params: { keyPath: 'id' } },
+  [STORE_SAMPLES]: {
+    params: { autoIncrement: true },
+    indexes: [
+      { name: 'identity_time', keyPath: ['identity', 'timestamp'] },
+      { name: 'timestamp', keyPath: 'timestamp' }
+    ]
+  },
+  [STORE_ALERTS]: { params: { keyPath: 'id' } },
+  [STORE_INVENTORY]: { params: { keyPath: 'identity' } }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB non disponibile in questo browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, def]) => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, def.params);
+        def.indexes?.forEach(index => store.createIndex(index.name, index.keyPath));
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Se l'apertura fallisce si potrà ritentare alla prossima chiamata
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGetAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+};
+
+export const dbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key)) as Promise<T | undefined>;
+};
+
+export const dbPut = async <T>(store: string, value: T): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const dbDelete = async (store: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const dbPutMany = async <T>(store: string, values: T[]): Promise<void> => {
+  if (values.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach(v => objectStore.put(v));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const dbGetByIndex = async <T>(store: string, index: string, range: IDBKeyRange): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(range)) as Promise<T[]>;
+};
+
+// Elimina tutti i record il cui valore d'indice cade nel range (es. campioni troppo vecchi)
+export const dbDeleteByIndex = async (store: string, index: string, range: IDBKeyRange): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const request = tx.objectStore(store).index(index).openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,32 @@
+import { NetworkDevice } from '../types';
+
+// MAC segnaposto delle versioni precedenti dello scanner (ancora presenti nello storico) o di device virtuali
+const PLACEHOLDER_MAC_PREFIXES = ['00:11:22:33:44:', '00:00:00:00:00:'];
+
+export const normalizeMac = (mac: string): string =>
+  mac.trim().toUpperCase().replace(/-/g, ':');
+
+export const isPlaceholderMac = (mac: string | undefined): boolean => {
+  if (!mac) return true;
+  const normalized = normalizeMac(mac);
+  return normalized === '' || PLACEHOLDER_MAC_PREFIXES.some(p => normalized.startsWith(p));
+};
+
+/**
+ * Identità stabile di un device tra scansioni diverse: il MAC quando è reale,
+ * altrimenti l'IP. L'id interno (es. auto-<ip> o casuale) non è affidabile e si
+ * usa solo per i device inseriti a mano senza indirizzo (es. switch non gestiti).
+ */
+export const getDeviceIdentity = (device: NetworkDevice): string => {
+  if (!isPlaceholderMac(device.mac)) return `mac:${normalizeMac(device.mac)}`;
+  return device.ip ? `ip:${device.ip}` : `id:${device.id}`;
+};
+
+/**
+ * Chiave dell'inventario e delle credenziali: il MAC quando è reale, altrimenti l'IP.
+ * Il tipo non ne fa parte: il fingerprinting può cambiarlo da una scansione all'altra.
+ */
+export const getInventoryIdentity = (device: NetworkDevice): string => getDeviceIdentity(device);
+
+// Le versioni precedenti aggiungevano il tipo alla chiave per IP (ip:<ip>#<tipo>)
+export const normalizeInventoryIdentity = (identity: string): string => identity.replace(/^(ip:[^#]+)#.*$/, '$1');
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { QueryContext, compareSortValues, matchesDeviceQuery, parseDeviceQuery } from './deviceQuery';
+import { DeviceType, NetworkDevice, NetworkZone } from '../types';
+
+const devices: NetworkDevice[] = [
+  { id: 'gw', ip: '192.168.1.1', mac: 'A4:5E:60:AA:BB:01', name: 'Gateway', manufacturer: 'Ubiquiti', type: DeviceType.ROUTER, parentId: null, status: 'online', latency: 1 },
+  {
+    id: 'prn', ip: '192.168.1.50', mac: 'a4-5e-60-aa-bb-02', name: 'Stampante Ufficio', manufacturer: 'HP', type: DeviceType.PRINTER, parentId: 'gw', status: 'warning', latency: 230,
+    inventory: { identity: 'mac:A4:5E:60:AA:BB:02', tags: ['Contabilità', 'piano-2'], owner: 'Mario Rossi', rack: 'R2 U14', customFields: {}, updatedAt: 0 }
+  },
+  {
+    id: 'cam', ip: '10.0.20.5', mac: '', name: 'Telecamera', manufacturer: '', type: DeviceType.IOT, parentId: 'gw', status: 'offline', vlanId: 20,
+    interfaces: [{ name: 'eth1', vlanId: 30, addresses: ['192.168.1.200/24'] }]
+  }
+];
+
+const zones: NetworkZone[] = [{ id: 'iot', name: 'IoT', color: '#06b6d4', vlanIds: [20], subnets: [] }];
+
+const ctx: QueryContext = {
+  byId: new Map(devices.map(d => [d.id, d])),
+  zoneOf: d => zones.find(z => d.vlanId !== undefined && z.vlanIds.includes(d.vlanId)) ?? null
+};
+
+const search = (text: string) => {
+  const query = parseDeviceQuery(text);
+  expect(query.errors).toEqual([]);
+  return devices.filter(d => matchesDeviceQuery(d, query, ctx)).map(d => d.id);
+};
+
+describe('parseDeviceQuery / matchesDeviceQuery', () => {
+  it.each([
+    ['type:printer', ['prn']],
+    ['status:down', ['cam']],
+    ['-status:online', ['prn', 'cam']],
+    ['ip:192.168.1.0/25', ['gw', 'prn']],
+    ['ip:192.168.1.128-254', ['cam']],
+    ['mac:aa:bb:0', ['gw', 'prn']],
+    ['mac:A45E60AABB02', ['prn']],
+    ['vendor:ubi', ['gw']],
+    ['tag:contabilità', ['prn']],
+    ['owner:"mario rossi"', ['prn']],
+    ['location:R2', ['prn']],
+    ['zone:iot', ['cam']],
+    ['zone:none', ['gw', 'prn']],
+    ['vlan:30', ['cam']],
+    ['parent:gateway', ['prn', 'cam']],
+    ['parent:none', ['gw']],
+    ['latency:>50', ['prn']],
+    ['latency:<=1', ['gw']],
+    ['stampante #piano-2', ['prn']],
+    ['-telecamera gateway', ['gw']],
+    ['', ['gw', 'prn', 'cam']]
+  ])('"%s"', (text, expected) => {
+    expect(search(text)).toEqual(expected);
+  });
+
+  it('riporta i termini non validi e applica gli altri', () => {
+    const query = parseDeviceQuery('type:tostapane status:rotto ip:10.0.0 vlan:dieci latency:molta colore:rosso name:"" type:router');
+    expect(query.errors).toEqual([
+      'type:tostapane: tipo "tostapane" sconosciuto',
+      'status:rotto: stato "rotto" sconosciuto',
+      'ip:10.0.0: Indirizzo non valido: "10.0.0"',
+      'vlan:dieci: VLAN "dieci" non numerica',
+      'latency:molta: latenza "molta" non valida (es. >50)',
+      'colore:rosso: campo "colore" sconosciuto',
+      'name:"": valore mancante'
+    ]);
+    expect(devices.filter(d => matchesDeviceQuery(d, query, ctx)).map(d => d.id)).toEqual(['gw']);
+  });
+});
+
+describe('compareSortValues', () => {
+  it('confronta numeri, stringhe con numeri e accenti', () => {
+    expect([10, 2, 33].sort((a, b) => compareSortValues(a, b, 'asc'))).toEqual([2, 10, 33]);
+    expect(['pc-10', 'pc-2', 'PC-1'].sort((a, b) => compareSortValues(a, b, 'asc'))).toEqual(['PC-1', 'pc-2', 'pc-10']);
+    expect(compareSortValues('èlite', 'elite', 'asc')).toBe(0);
+  });
+
+  it('lascia i valori mancanti in fondo in entrambe le direzioni', () => {
+    expect(['', 5, 1].sort((a, b) => compareSortValues(a, b, 'asc'))).toEqual([1, 5, '']);
+    expect(['', 5, 1].sort((a, b) => compareSortValues(a, b, 'desc'))).toEqual([5, 1, '']);
+    expect(compareSortValues(undefined, 1, 'desc')).toBe(1);
+    expect(compareSortValues(1, undefined, 'desc')).toBe(-1);
+    expect(compareSortValues(undefined, '', 'asc')).toBe(0);
+  });
+});
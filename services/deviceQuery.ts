@@ -0,0 +1,171 @@
+import { NetworkDevice, NetworkZone, DeviceType } from '../types';
+import { ipToInt, parseTargetEntry } from './scanTargets';
+import { getDeviceAddresses, getDeviceVlans } from './networkZones';
+import { lookupVendor } from './ouiService';
+import { normalizeMac } from './deviceIdentity';
+import { matchesInventorySearch } from './inventoryService';
+
+/**
+ * Campi ammessi nella ricerca "campo:valore". Un prefisso "-" nega il termine
+ * (es. -status:online), i valori con spazi vanno tra virgolette (owner:"Mario Rossi").
+ */
+export const QUERY_FIELDS: Record<string, string> = {
+  type: `Tipo (${Object.values(DeviceType).join(', ')})`,
+  status: 'Stato: online, warning, offline',
+  ip: 'IP, CIDR, range o prefisso (192.168.1.0/25, 10.0.0.10-80)',
+  mac: 'MAC o parte di esso',
+  vendor: 'Produttore',
+  name: 'Nome',
+  tag: 'Tag esatto',
+  zone: 'Nome della zona, oppure "none"',
+  vlan: 'VLAN',
+  parent: 'Nome o IP del device a monte, oppure "none"',
+  latency: 'Latenza in ms: >50, <=10, 5',
+  owner: 'Responsabile',
+  location: 'Ubicazione o rack'
+};
+
+interface QueryTerm {
+  field: string | null; // null = testo libero
+  value: string;
+  negate: boolean;
+  test?: (device: NetworkDevice, ctx: QueryContext) => boolean;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+export interface QueryContext {
+  byId: Map<string, NetworkDevice>;
+  zoneOf: (device: NetworkDevice) => NetworkZone | null;
+}
+
+const includes = (haystack: string | undefined, needle: string) => (haystack || '').toLowerCase().includes(needle.toLowerCase());
+
+const STATUS_ALIASES: Record<string, NetworkDevice['status']> = { lento: 'warning', slow: 'warning', up: 'online', down: 'offline' };
+
+// Costruisce il test di un termine "campo:valore"; lancia un errore leggibile se il valore non è valido
+const buildTest = (field: string, value: string): QueryTerm['test'] => {
+  switch (field) {
+    case 'type': {
+      const type = value.toUpperCase();
+      if (!Object.values(DeviceType).includes(type as DeviceType)) throw new Error(`tipo "${value}" sconosciuto`);
+      return d => d.type === type;
+    }
+    case 'status': {
+      const status = STATUS_ALIASES[value.toLowerCase()] || value.toLowerCase();
+      if (!['online', 'warning', 'offline'].includes(status)) throw new Error(`stato "${value}" sconosciuto`);
+      return d => d.status === status;
+    }
+    case 'ip': {
+      const range = parseTargetEntry(value, true);
+      return d => getDeviceAddresses(d).some(a => {
+        const ip = ipToInt(a);
+        return ip !== null && ip >= range.start && ip <= range.end;
+      });
+    }
+    case 'mac': {
+      const needle = normalizeMac(value).replace(/:/g, '');
+      return d => normalizeMac(d.mac).replace(/:/g, '').includes(needle);
+    }
+    case 'vendor':
+      return d => includes(lookupVendor(d.mac)?.vendor, value) || includes(d.manufacturer, value);
+    case 'name':
+      return d => includes(d.name, value);
+    case 'tag':
+      return d => (d.inventory?.tags || []).some(t => t.toLowerCase() === value.toLowerCase());
+    case 'zone':
+      return (d, ctx) => {
+        const zone = ctx.zoneOf(d);
+        return value.toLowerCase() === 'none' ? !zone : !!zone && (zone.id === value || zone.name.toLowerCase() === value.toLowerCase());
+      };
+    case 'vlan': {
+      const vlan = Number(value);
+      if (!Number.isInteger(vlan)) throw new Error(`VLAN "${value}" non numerica`);
+      return d => getDeviceVlans(d).includes(vlan);
+    }
+    case 'parent':
+      return (d, ctx) => {
+        if (value.toLowerCase() === 'none') return !d.parentId;
+        const parent = d.parentId ? ctx.byId.get(d.parentId) : undefined;
+        return !!parent && (includes(parent.name, value) || parent.ip === value);
+      };
+    case 'latency': {
+      const match = value.match(/^(<=|>=|<|>|=)?\s*(\d+(?:\.\d+)?)$/);
+      if (!match) throw new Error(`latenza "${value}" non valida (es. >50)`);
+      const [, op = '=', num] = match;
+      const limit = Number(num);
+      return d => {
+        if (d.latency === undefined) return false;
+        switch (op) {
+          case '<': return d.latency < limit;
+          case '<=': return d.latency <= limit;
+          case '>': return d.latency > limit;
+          case '>=': return d.latency >= limit;
+          default: return d.latency === limit;
+        }
+      };
+    }
+    case 'owner':
+      return d => includes(d.inventory?.owner, value);
+    case 'location':
+      return d => includes(d.inventory?.location, value) || includes(d.inventory?.rack, value);
+    default:
+      throw new Error(`campo "${field}" sconosciuto`);
+  }
+};
+
+/**
+ * Interpreta una ricerca come "type:PRINTER status:offline ip:192.168.1.0/25 scanner".
+ * I termini non validi vengono ignorati e riportati in errors.
+ */
+export const parseDeviceQuery = (text: string): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  const tokenRegex = /(-?)(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(text)) !== null) {
+    const [token, minus, rawField, quoted, plain] = match;
+    const value = quoted ?? plain ?? '';
+    const field = rawField?.toLowerCase() ?? null;
+    if (!field) {
+      // Un "-" isolato davanti a testo libero lo nega, come per i campi
+      if (value) terms.push({ field: null, value, negate: minus === '-' });
+      continue;
+    }
+    if (!value) {
+      errors.push(`${token}: valore mancante`);
+      continue;
+    }
+    try {
+      terms.push({ field, value, negate: minus === '-', test: buildTest(field, value) });
+    } catch (e: any) {
+      errors.push(`${token}: ${e.message}`);
+    }
+  }
+  return { terms, errors };
+};
+
+export const matchesDeviceQuery = (device: NetworkDevice, query: ParsedQuery, ctx: QueryContext): boolean =>
+  query.terms.every(term => {
+    const hit = term.test ? term.test(device, ctx) : matchesInventorySearch(device, term.value);
+    return term.negate ? !hit : hit;
+  });
+
+// --- Ordinamento ---
+
+export type SortDirection = 'asc' | 'desc';
+
+// Valore di ordinamento: numeri e stringhe; undefined finisce sempre in fondo
+export type SortValue = number | string | undefined;
+
+export const compareSortValues = (a: SortValue, b: SortValue, direction: SortDirection): number => {
+  if (a === undefined || a === '') return b === undefined || b === '' ? 0 : 1;
+  if (b === undefined || b === '') return -1;
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), 'it', { numeric: true, sensitivity: 'base' });
+  return direction === 'asc' ? result : -result;
+};
@@ -0,0 +1,209 @@
+import { ProbeResult } from '../types';
+import { createHttpProbe, getProbesByIds } from './probeService';
+import { runAdaptivePool } from './scanScheduler';
+
+export type DiagnosticKind = 'ping' | 'sweep';
+
+export interface DiagnosticRequest {
+  kind: DiagnosticKind;
+  ip: string;
+  label: string; // Nome mostrato nella scheda della sessione
+  timeoutMs: number;
+  probeId?: string; // ping: sonda ripetuta (default http-80)
+  count?: number; // ping: numero di sonde, 0 = continuo fino allo stop
+  intervalMs?: number; // ping: pausa tra due sonde
+  ports?: number[]; // sweep
+}
+
+export type DiagnosticLineLevel = 'info' | 'ok' | 'warn' | 'error';
+
+export interface DiagnosticLine {
+  timestamp: number;
+  level: DiagnosticLineLevel;
+  text: string;
+}
+
+export interface PingStats {
+  sent: number;
+  received: number;
+  lossPercent: number;
+  min?: number;
+  avg?: number;
+  max?: number;
+  jitter?: number; // Media delle differenze tra RTT consecutivi (come RFC 3550)
+}
+
+export interface DiagnosticSession {
+  id: string;
+  request: DiagnosticRequest;
+  status: 'running' | 'done' | 'stopped';
+  startedAt: number;
+  endedAt?: number;
+  lines: DiagnosticLine[];
+  stats?: PingStats;
+}
+
+export const MAX_SWEEP_PORTS = 1024;
+export const MAX_SESSION_LINES = 2000;
+
+// Porte su cui lo sweep usa https invece di http
+const HTTPS_PORTS = new Set([443, 4443, 8443, 9443, 10443]);
+
+export const COMMON_SWEEP_PORTS = '21,22,23,25,53,80,110,139,143,443,445,631,3389,5000,5900,8000,8080,8443,9100';
+
+/**
+ * Interpreta un elenco di porte con intervalli: "22,80,8000-8010". Lancia un errore
+ * leggibile su valori non validi o troppe porte.
+ */
+export const parsePortSpec = (spec: string): number[] => {
+  const ports = new Set<number>();
+  for (const part of spec.split(/[\s,;]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    const start = match ? Number(match[1]) : NaN;
+    const end = match?.[2] ? Number(match[2]) : start;
+    if (!match || start < 1 || end > 65535 || end < start) throw new Error(`Porta o intervallo non valido: "${part}"`);
+    if (ports.size + (end - start + 1) > MAX_SWEEP_PORTS) throw new Error(`Massimo ${MAX_SWEEP_PORTS} porte per sweep`);
+    for (let p = start; p <= end; p++) ports.add(p);
+  }
+  if (ports.size === 0) throw new Error('Nessuna porta indicata');
+  return [...ports].sort((a, b) => a - b);
+};
+
+/**
+ * Statistiche nello stile di ping: undefined nell'elenco = sonda senza risposta.
+ */
+export const computePingStats = (rtts: (number | undefined)[]): PingStats => {
+  const received = rtts.filter((r): r is number => r !== undefined);
+  const stats: PingStats = {
+    sent: rtts.length,
+    received: received.length,
+    lossPercent: rtts.length > 0 ? Math.round(((rtts.length - received.length) / rtts.length) * 1000) / 10 : 0
+  };
+  if (received.length === 0) return stats;
+  const round = (v: number) => Math.round(v * 10) / 10;
+  stats.min = Math.min(...received);
+  stats.max = Math.max(...received);
+  stats.avg = round(received.reduce((s, r) => s + r, 0) / received.length);
+  stats.jitter = received.length > 1
+    ? round(received.slice(1).reduce((s, r, i) => s + Math.abs(r - received[i]), 0) / (received.length - 1))
+    : 0;
+  return stats;
+};
+
+export const formatPingStats = (stats: PingStats): string[] => {
+  const lines = [`${stats.sent} sonde inviate, ${stats.received} risposte, ${stats.lossPercent}% perse`];
+  if (stats.min !== undefined) lines.push(`rtt min/avg/max/jitter = ${stats.min}/${stats.avg}/${stats.max}/${stats.jitter} ms`);
+  return lines;
+};
+
+// Pausa interrompibile: risolve subito all'abort
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+
+type Log = (level: DiagnosticLineLevel, text: string) => void;
+
+const runPing = async (request: DiagnosticRequest, log: Log, signal: AbortSignal): Promise<PingStats> => {
+  const probe = getProbesByIds([request.probeId || 'http-80'])[0];
+  const count = request.count ?? 4;
+  const intervalMs = request.intervalMs ?? 1000;
+  log('info', `PING ${request.ip} via ${probe.label}: ${count > 0 ? `${count} sonde` : 'continuo'}, intervallo ${intervalMs} ms, timeout ${request.timeoutMs} ms`);
+
+  const rtts: (number | undefined)[] = [];
+  for (let seq = 1; count === 0 || seq <= count; seq++) {
+    const result: ProbeResult = await probe.run(request.ip, request.timeoutMs, signal);
+    if (signal.aborted) break;
+    rtts.push(result.responded ? result.latency : undefined);
+    if (result.responded) log('ok', `Risposta da ${request.ip}: seq=${seq} tempo=${result.latency} ms (${result.detail})`);
+    else log('warn', `Nessuna risposta: seq=${seq} (${result.detail || 'Timeout'})`);
+    if (count === 0 || seq < count) await wait(intervalMs, signal);
+    if (signal.aborted) break;
+  }
+
+  const stats = computePingStats(rtts);
+  log('info', `--- statistiche ping ${request.ip} ---`);
+  formatPingStats(stats).forEach(line => log('info', line));
+  return stats;
+};
+
+/**
+ * Sweep di porte con sonde HTTP/HTTPS: "web" = servizio che risponde come un server web,
+ * "risponde" = rifiuto o risposta non HTTP arrivata prima del timeout (host raggiungibile,
+ * porta chiusa o servizio diverso), nessuna risposta = filtrata o host assente.
+ */
+const runSweep = async (request: DiagnosticRequest, log: Log, signal: AbortSignal): Promise<void> => {
+  const ports = request.ports || [];
+  log('info', `SWEEP ${request.ip}: ${ports.length} porte, timeout ${request.timeoutMs} ms`);
+  const web: number[] = [];
+  const responded: number[] = [];
+  let silent = 0;
+
+  await runAdaptivePool(
+    ports,
+    (port, timeoutMs, poolSignal) => createHttpProbe(HTTPS_PORTS.has(port) ? 'https' : 'http', port).run(request.ip, timeoutMs, poolSignal),
+    result => (result.responded ? result.latency : undefined),
+    (result, port) => {
+      if (result.open) {
+        web.push(port);
+        log('ok', `${port}/tcp web (${result.latency} ms) — ${result.detail}`);
+      } else if (result.responded) {
+        responded.push(port);
+        log('info', `${port}/tcp risponde (${result.latency} ms) — ${result.detail}`);
+      } else {
+        silent++;
+      }
+    },
+    {
+      signal,
+      initialConcurrency: 6,
+      minConcurrency: 2,
+      maxConcurrency: 12,
+      initialTimeoutMs: request.timeoutMs,
+      minTimeoutMs: request.timeoutMs,
+      maxTimeoutMs: request.timeoutMs
+    }
+  ).catch(e => {
+    if (e?.name !== 'AbortError') throw e;
+  });
+
+  const sorted = (list: number[]) => [...list].sort((a, b) => a - b).join(', ') || 'nessuna';
+  log('info', `--- riepilogo sweep ${request.ip} ---`);
+  log('info', `Servizi web: ${sorted(web)}`);
+  log('info', `Rispondono: ${sorted(responded)}`);
+  log('info', `Senza risposta: ${silent}${signal.aborted ? ' (sweep interrotto)' : ''}`);
+};
+
+/**
+ * Esegue una diagnostica scrivendo il log riga per riga. Con l'abort la diagnostica
+ * si ferma e riporta comunque il riepilogo di quanto raccolto.
+ */
+export const runDiagnostic = async (
+  request: DiagnosticRequest,
+  onLine: (line: DiagnosticLine) => void,
+  signal: AbortSignal
+): Promise<PingStats | undefined> => {
+  const log: Log = (level, text) => onLine({ timestamp: Date.now(), level, text });
+  try {
+    if (request.kind === 'ping') return await runPing(request, log, signal);
+    await runSweep(request, log, signal);
+  } catch (e: any) {
+    log('error', `Errore: ${e?.message || e}`);
+  }
+  return undefined;
+};
+
+export const createDiagnosticSession = (request: DiagnosticRequest): DiagnosticSession => ({
+  id: `diag-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  request,
+  status: 'running',
+  startedAt: Date.now(),
+  lines: []
+});
@@ -0,0 +1,21 @@
+/**
+ * Avvia il download di un contenuto generato nel browser.
+ */
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoca differita: alcuni browser avviano il download in modo asincrono
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadTextFile = (filename: string, content: string, mime = 'text/plain') =>
+  downloadBlob(filename, new Blob([content], { type: `${mime};charset=utf-8` }));
+
+// Nome file sicuro ricavato dal nome del progetto
+export const slugifyFileName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'netvisio';
@@ -0,0 +1,208 @@
+import { NetworkDevice, DeviceType, FingerprintRule, FingerprintField, FingerprintEvidence, DeviceFingerprint } from '../types';
+import { lookupVendor, isUnknownManufacturer } from './ouiService';
+import { getProbePort } from './probeService';
+
+const STORAGE_KEY = 'netvisio_fingerprint_rules';
+
+export const FINGERPRINT_FIELD_LABELS: Record<FingerprintField, string> = {
+  vendor: 'Produttore (OUI)',
+  hostname: 'Hostname',
+  port: 'Porte aperte',
+  http: 'Server / titolo web',
+  service: 'Servizio nmap',
+  os: 'Sistema operativo',
+  ip: 'Indirizzo IP'
+};
+
+const rule = (id: string, field: FingerprintField, pattern: string, type: DeviceType, weight: number, name: string): FingerprintRule =>
+  ({ id: `builtin-${id}`, name, field, pattern, type, weight, enabled: true });
+
+/**
+ * Regole incluse. I pesi riflettono quanto l'evidenza è specifica: un produttore
+ * di stampanti o la porta JetDirect valgono molto, un server SSH o il suffisso .1 poco.
+ */
+export const BUILTIN_FINGERPRINT_RULES: FingerprintRule[] = [
+  // Produttore
+  rule('vendor-router', 'vendor', '\\b(Cisco|Juniper|MikroTik|Routerboard|Fortinet|Palo Alto|SonicWall|WatchGuard|AVM|Zyxel|DrayTek|Netgate|Check Point|Technicolor|Sagemcom)\\b', DeviceType.ROUTER, 0.5, 'Produttore di router e firewall'),
+  rule('vendor-switch', 'vendor', '\\b(Arista|Extreme Networks|Aruba|Hewlett Packard Enterprise|Brocade|Allied Telesis)\\b', DeviceType.SWITCH, 0.4, 'Produttore di switch'),
+  rule('vendor-printer', 'vendor', '\\b(Brother|Canon|Seiko Epson|Epson|Lexmark|Xerox|Kyocera|Ricoh|Konica Minolta|Sharp|Zebra)\\b', DeviceType.PRINTER, 0.7, 'Produttore di stampanti'),
+  rule('vendor-server', 'vendor', '\\b(Synology|QNAP|Super Micro|Supermicro|VMware|Western Digital|Netapp|Proxmox)\\b', DeviceType.SERVER, 0.5, 'Produttore di NAS e server'),
+  rule('vendor-iot', 'vendor', '\\b(Espressif|Tuya|Shelly|Philips Lighting|Signify|Nest|Sonos|Roku|Hikvision|Dahua|Axis|Ring|Yealink|Polycom|Grandstream|Snom|Amazon Technologies|Google|Nintendo|American Power Conversion)\\b', DeviceType.IOT, 0.5, 'Produttore di dispositivi IoT'),
+  rule('vendor-mobile', 'vendor', '\\b(Apple|Samsung|Xiaomi|Huawei|OnePlus|Oppo|Motorola Mobility)\\b', DeviceType.MOBILE, 0.25, 'Produttore di smartphone'),
+  rule('vendor-pc', 'vendor', '\\b(Dell|Lenovo|Hewlett|HP Inc|Intel Corporate|ASUSTek|Micro-Star|Gigabyte|Realtek|Acer)\\b', DeviceType.PC, 0.3, 'Produttore di PC'),
+
+  // Porte
+  rule('port-printer', 'port', '631, 9100, 515', DeviceType.PRINTER, 0.6, 'Porte di stampa (IPP, JetDirect, LPD)'),
+  rule('port-dns', 'port', '53', DeviceType.ROUTER, 0.35, 'DNS locale'),
+  rule('port-routing', 'port', '179', DeviceType.ROUTER, 0.6, 'BGP'),
+  rule('port-rdp', 'port', '3389', DeviceType.PC, 0.4, 'Desktop remoto'),
+  rule('port-server', 'port', '25, 88, 389, 636, 1433, 3306, 5432, 27017', DeviceType.SERVER, 0.45, 'Servizi da server (posta, directory, database)'),
+  rule('port-nas', 'port', '5000, 5001, 2049', DeviceType.SERVER, 0.3, 'NAS (DSM, NFS)'),
+  rule('port-ssh', 'port', '22', DeviceType.SERVER, 0.15, 'SSH'),
+  rule('port-iot', 'port', '554, 1883, 8883, 8009, 5060', DeviceType.IOT, 0.45, 'RTSP, MQTT, Cast, SIP'),
+  rule('port-iphone', 'port', '62078', DeviceType.MOBILE, 0.7, 'Sincronizzazione iPhone'),
+
+  // Pagine web
+  rule('http-router', 'http', 'RouterOS|MikroTik|OpenWrt|LuCI|DD-WRT|pfSense|OPNsense|FRITZ!Box|FortiGate|SonicWall|UniFi|EdgeOS|Vigor|Router', DeviceType.ROUTER, 0.6, 'Interfaccia web di un router'),
+  rule('http-switch', 'http', 'Switch|ProCurve|Catalyst|TL-SG|GS\\d{3}|Netgear ProSAFE', DeviceType.SWITCH, 0.6, 'Interfaccia web di uno switch'),
+  rule('http-printer', 'http', 'Printer|LaserJet|OfficeJet|DeskJet|Brother|EPSON|Canon|CUPS|Kyocera|Xerox|RICOH|Web Image Monitor', DeviceType.PRINTER, 0.7, 'Interfaccia web di una stampante'),
+  rule('http-nas', 'http', 'Synology|DiskStation|QNAP|TrueNAS|FreeNAS|Proxmox|ESXi|vSphere|Jenkins|Grafana', DeviceType.SERVER, 0.6, 'Interfaccia web di NAS o hypervisor'),
+  rule('http-webserver', 'http', 'Apache|nginx|Microsoft-IIS|lighttpd|Caddy', DeviceType.SERVER, 0.2, 'Server web generico'),
+  rule('http-iot', 'http', 'Hikvision|Dahua|IP Camera|Webcam|Axis|Shelly|Tasmota|ESPHome|Hue|Sonos|Home Assistant', DeviceType.IOT, 0.6, 'Interfaccia web di un dispositivo IoT'),
+
+  // Hostname
+  rule('host-router', 'hostname', '^(router|gw|gateway|fw|firewall|edge|pfsense|opnsense|fritz\\.box|mikrotik)|[-_.](gw|rtr|fw)\\d*\\b', DeviceType.ROUTER, 0.6, 'Nome da router'),
+  rule('host-switch', 'hostname', '^(sw|switch)|[-_.]sw\\d*\\b|core-?sw|access-?sw', DeviceType.SWITCH, 0.55, 'Nome da switch'),
+  rule('host-printer', 'hostname', 'printer|stampante|^prn|mfp|laserjet|officejet|^brn[0-9a-f]{12}|^epson|^canon|^kyocera', DeviceType.PRINTER, 0.7, 'Nome da stampante'),
+  rule('host-mobile', 'hostname', 'iphone|ipad|android|galaxy|pixel|redmi|oneplus|^huawei-', DeviceType.MOBILE, 0.7, 'Nome da smartphone'),
+  rule('host-server', 'hostname', '^(srv|server|nas|dc\\d|ad\\d|esx|proxmox|pve|db\\d|sql)|[-_.](srv|nas)\\d*\\b', DeviceType.SERVER, 0.5, 'Nome da server'),
+  rule('host-pc', 'hostname', '^(desktop|laptop|pc|nb|ws)-|macbook|imac|workstation', DeviceType.PC, 0.6, 'Nome da PC'),
+  rule('host-iot', 'hostname', '^esp[_-]|shelly|tasmota|sonoff|chromecast|^echo|alexa|nest|^hue|roku|cam\\d*\\b|ipcam|doorbell|smart-?tv', DeviceType.IOT, 0.55, 'Nome da dispositivo IoT'),
+
+  // Servizi rilevati da nmap
+  rule('svc-printer', 'service', 'ipp|jetdirect|printer|pjl', DeviceType.PRINTER, 0.7, 'Servizio di stampa'),
+  rule('svc-router', 'service', '\\b(domain|dnsmasq|bgp|ospf|routeros|mikrotik|upnp)\\b', DeviceType.ROUTER, 0.4, 'Servizio da router'),
+  rule('svc-rdp', 'service', 'ms-wbt-server|\\brdp\\b', DeviceType.PC, 0.4, 'Desktop remoto'),
+  rule('svc-server', 'service', '\\b(mysql|postgresql|ms-sql|ldap|kerberos|smtp|imap|pop3|vmware|nfs|mongod)', DeviceType.SERVER, 0.45, 'Servizio da server'),
+  rule('svc-iot', 'service', '\\b(rtsp|mqtt|sip|castv2)\\b', DeviceType.IOT, 0.45, 'Servizio IoT'),
+  rule('svc-iphone', 'service', 'iphone-sync|apple-iphone', DeviceType.MOBILE, 0.7, 'Sincronizzazione iPhone'),
+
+  // Sistema operativo (nmap -O)
+  rule('os-windows-server', 'os', 'Windows Server', DeviceType.SERVER, 0.7, 'Windows Server'),
+  rule('os-desktop', 'os', 'Windows (XP|Vista|7|8|10|11)|Mac OS X|macOS', DeviceType.PC, 0.6, 'Sistema desktop'),
+  rule('os-mobile', 'os', 'Apple iOS|iPadOS|Android', DeviceType.MOBILE, 0.7, 'Sistema mobile'),
+  rule('os-router', 'os', 'RouterOS|Cisco IOS|JunOS|FortiOS|OpenWrt|pfSense|OPNsense', DeviceType.ROUTER, 0.6, 'Sistema da router'),
+  rule('os-switch', 'os', 'switch', DeviceType.SWITCH, 0.6, 'Firmware di uno switch'),
+  rule('os-printer', 'os', 'printer|JetDirect', DeviceType.PRINTER, 0.7, 'Firmware di una stampante'),
+  rule('os-linux', 'os', 'Linux', DeviceType.SERVER, 0.2, 'Linux'),
+
+  // Convenzione di indirizzamento: solo un indizio debole
+  rule('ip-gateway', 'ip', '\\.(1|254)$', DeviceType.ROUTER, 0.3, 'Indirizzo tipico del gateway')
+];
+
+// --- Regole personalizzate (localStorage) ---
+
+let customRules: FingerprintRule[] | null = null;
+
+export const loadCustomFingerprintRules = (): FingerprintRule[] => {
+  if (customRules) return customRules;
+  try {
+    customRules = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    customRules = [];
+  }
+  return customRules!;
+};
+
+export const saveCustomFingerprintRules = (rules: FingerprintRule[]) => {
+  customRules = rules;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+// Le regole personalizzate precedono quelle incluse: a parità di punteggio vincono loro
+export const getActiveFingerprintRules = (): FingerprintRule[] =>
+  [...loadCustomFingerprintRules(), ...BUILTIN_FINGERPRINT_RULES].filter(r => r.enabled);
+
+export const parsePortList = (pattern: string): number[] =>
+  pattern.split(/[\s,;]+/).map(Number).filter(p => Number.isInteger(p) && p > 0 && p <= 65535);
+
+/**
+ * Verifica il pattern di una regola: restituisce il messaggio d'errore o null.
+ */
+export const validateFingerprintRule = (rule: Pick<FingerprintRule, 'field' | 'pattern' | 'weight'>): string | null => {
+  if (!rule.pattern.trim()) return "Il pattern è obbligatorio.";
+  if (!(rule.weight > 0 && rule.weight <= 1)) return "Il peso deve essere compreso tra 0 e 1.";
+  if (rule.field === 'port') return parsePortList(rule.pattern).length ? null : "Indica una o più porte separate da virgola.";
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (e: any) {
+    return `Espressione regolare non valida: ${e.message}`;
+  }
+};
+
+// --- Valutazione ---
+
+// Nomi assegnati dallo scanner e dai parser quando l'hostname non è noto
+const isGenericName = (device: NetworkDevice) =>
+  !device.name || device.name === `Device ${device.ip}` || device.name === 'Gateway / Router';
+
+// Valori osservati sul device per ogni campo a cui si applicano le regole
+const collectObservations = (device: NetworkDevice): Record<FingerprintField, string[]> => {
+  const vendor = lookupVendor(device.mac)?.vendor || (isUnknownManufacturer(device.manufacturer) ? '' : device.manufacturer);
+  const ports = [
+    ...(device.probes || []).filter(p => p.open).map(p => getProbePort(p.probeId)),
+    ...(device.services || []).map(s => s.port)
+  ].filter((p): p is number => p !== null);
+  return {
+    vendor: vendor ? [vendor] : [],
+    hostname: isGenericName(device) ? [] : [device.name],
+    port: [...new Set(ports)].map(String),
+    http: (device.httpBanners || []).flatMap(b => [b.server, b.title]).filter((v): v is string => !!v),
+    service: (device.services || []).map(s => [s.name, s.product].filter(Boolean).join(' ')).filter(Boolean),
+    os: device.os ? [device.os] : [],
+    ip: device.ip ? [device.ip] : []
+  };
+};
+
+const matchRule = (rule: FingerprintRule, values: string[]): string | undefined => {
+  if (rule.field === 'port') {
+    const ports = parsePortList(rule.pattern).map(String);
+    return values.find(v => ports.includes(v));
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.pattern, 'i');
+  } catch {
+    return undefined; // Regola personalizzata salvata con un pattern non valido
+  }
+  return values.find(v => regex.test(v));
+};
+
+/**
+ * Deduce il tipo del device combinando le evidenze raccolte (produttore, porte aperte,
+ * pagine web, hostname, servizi e sistema operativo importati). Ogni regola conta una
+ * volta; i pesi dello stesso tipo si combinano come probabilità indipendenti
+ * (1 - Π(1 - w)). La confidenza è il punteggio del vincitore ridotto di metà di quello
+ * del secondo classificato. Senza evidenze il tipo è PC con confidenza 0.
+ */
+export const fingerprintDevice = (device: NetworkDevice, rules: FingerprintRule[] = getActiveFingerprintRules()): DeviceFingerprint => {
+  const observations = collectObservations(device);
+  const evidence: FingerprintEvidence[] = [];
+  rules.forEach(rule => {
+    const value = matchRule(rule, observations[rule.field] || []);
+    if (value !== undefined) evidence.push({ ruleId: rule.id, field: rule.field, value, type: rule.type, weight: rule.weight });
+  });
+
+  const scores = new Map<DeviceType, number>();
+  evidence.forEach(e => scores.set(e.type, 1 - (1 - (scores.get(e.type) ?? 0)) * (1 - e.weight)));
+  const ranked = [...scores].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return { type: DeviceType.PC, confidence: 0, evidence };
+
+  const [[type, best], second] = ranked;
+  const confidence = Math.max(0, Math.min(1, best - (second?.[1] ?? 0) / 2));
+  return { type, confidence: Math.round(confidence * 100) / 100, evidence };
+};
+
+/**
+ * Aggiorna fingerprint e tipo del device. Il tipo resta invariato se è stato scelto
+ * a mano o se non c'è alcuna evidenza (es. tipo assegnato dall'AI o da un import).
+ */
+export const applyFingerprint = <T extends NetworkDevice>(device: T, rules?: FingerprintRule[]): T => {
+  const fingerprint = fingerprintDevice(device, rules);
+  const keepType = device.typeLocked || fingerprint.evidence.length === 0;
+  return { ...device, fingerprint, type: keepType ? device.type : fingerprint.type };
+};
+
+export const findFingerprintRule = (ruleId: string): FingerprintRule | undefined =>
+  [...loadCustomFingerprintRules(), ...BUILTIN_FINGERPRINT_RULES].find(r => r.id === ruleId);
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// Una riga per evidenza, es. "Produttore (OUI): Brother → PRINTER (peso 0.7)"
+export const describeEvidence = (evidence: FingerprintEvidence): string =>
+  `${FINGERPRINT_FIELD_LABELS[evidence.field]}: ${evidence.value} → ${evidence.type} (peso ${evidence.weight})`;
+
+// Re-fingerprint dopo un cambio di regole o di registro OUI: solo i device già tipizzati dal motore
+export const refreshFingerprint = <T extends NetworkDevice>(device: T): T =>
+  device.fingerprint ? applyFingerprint(device) : device;
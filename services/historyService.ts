@@ -0,0 +1,105 @@
+import { NetworkDevice, ScanSnapshot, SnapshotDiff, DeviceChange, FieldChange, DiffKind } from '../types';
+import { dbGetAll, dbGet, dbPut, dbDelete, STORE_SNAPSHOTS } from './db';
+import { getDeviceIdentity } from './deviceIdentity';
+
+// Una variazione di latenza è significativa solo se supera entrambe le soglie
+const LATENCY_MIN_DELTA_MS = 20;
+const LATENCY_MIN_RATIO = 0.5;
+
+export const saveSnapshot = async (label: string, devices: NetworkDevice[]): Promise<ScanSnapshot> => {
+  const timestamp = Date.now();
+  const snapshot: ScanSnapshot = { id: `snap-${timestamp}`, timestamp, label, devices };
+  await dbPut(STORE_SNAPSHOTS, snapshot);
+  return snapshot;
+};
+
+// Snapshot ordinati dal più recente
+export const listSnapshots = async (): Promise<ScanSnapshot[]> => {
+  const all = await dbGetAll<ScanSnapshot>(STORE_SNAPSHOTS);
+  return all.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getSnapshot = (id: string): Promise<ScanSnapshot | undefined> =>
+  dbGet<ScanSnapshot>(STORE_SNAPSHOTS, id);
+
+export const deleteSnapshot = (id: string): Promise<void> => dbDelete(STORE_SNAPSHOTS, id);
+
+const isLatencyChanged = (before?: number, after?: number): boolean => {
+  if (before === undefined || after === undefined) return before !== after;
+  const delta = Math.abs(after - before);
+  return delta >= LATENCY_MIN_DELTA_MS && delta >= before * LATENCY_MIN_RATIO;
+};
+
+const compareDevices = (before: NetworkDevice, after: NetworkDevice): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  (['ip', 'mac', 'name', 'type'] as const).forEach(field => {
+    if (before[field] !== after[field]) changes.push({ field, before: before[field], after: after[field] });
+  });
+  if (isLatencyChanged(before.latency, after.latency)) {
+    changes.push({ field: 'latency', before: before.latency, after: after.latency });
+  }
+  return changes;
+};
+
+/**
+ * Confronta due elenchi di device usando l'identità stabile (MAC o IP).
+ */
+export const diffDevices = (before: NetworkDevice[], after: NetworkDevice[]): SnapshotDiff => {
+  const beforeMap = new Map(before.map(d => [getDeviceIdentity(d), d]));
+  const afterMap = new Map(after.map(d => [getDeviceIdentity(d), d]));
+
+  const added: NetworkDevice[] = [];
+  const changed: DeviceChange[] = [];
+  let unchangedCount = 0;
+
+  afterMap.forEach((device, identity) => {
+    const previous = beforeMap.get(identity);
+    if (!previous) {
+      added.push(device);
+      return;
+    }
+    const changes = compareDevices(previous, device);
+    if (changes.length) changed.push({ identity, before: previous, after: device, changes });
+    else unchangedCount++;
+  });
+
+  const removed = [...beforeMap].filter(([identity]) => !afterMap.has(identity)).map(([, d]) => d);
+
+  return { added, removed, changed, unchangedCount };
+};
+
+/**
+ * Prepara i dati per l'overlay su mappa e lista: i device correnti marcati come
+ * nuovi/modificati e i device scomparsi aggiunti come "fantasmi" offline.
+ */
+export const buildDiffOverlay = (
+  diff: SnapshotDiff,
+  devices: NetworkDevice[]
+): { devices: NetworkDevice[]; highlights: Record<string, DiffKind> } => {
+  const highlights: Record<string, DiffKind> = {};
+  const addedIds = new Set(diff.added.map(getDeviceIdentity));
+  const changedIds = new Set(diff.changed.map(c => c.identity));
+
+  devices.forEach(d => {
+    const identity = getDeviceIdentity(d);
+    if (addedIds.has(identity)) highlights[d.id] = 'added';
+    else if (changedIds.has(identity)) highlights[d.id] = 'changed';
+  });
+
+  const currentIdentities = new Set(devices.map(getDeviceIdentity));
+  const validIds = new Set(devices.map(d => d.id));
+  const ghosts = diff.removed
+    .filter(d => !currentIdentities.has(getDeviceIdentity(d)))
+    .map(d => {
+      const ghost: NetworkDevice = {
+        ...d,
+        id: `ghost-${d.id}`,
+        parentId: d.parentId && validIds.has(d.parentId) ? d.parentId : null,
+        status: 'offline'
+      };
+      highlights[ghost.id] = 'removed';
+      return ghost;
+    });
+
+  return { devices: [...devices, ...ghosts], highlights };
+};
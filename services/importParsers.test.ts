@@ -0,0 +1,205 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { IMPORT_PARSERS, detectParser } from './importParsers';
+
+const WINDOWS_ARP = `
+Interface: 192.168.1.10 --- 0x4
+  Internet Address      Physical Address      Type
+  192.168.1.1           00-11-22-33-44-55     dynamic
+  192.168.1.20          a4-5e-60-aa-bb-cc     dynamic
+  192.168.1.255         ff-ff-ff-ff-ff-ff     static
+  224.0.0.22            01-00-5e-00-00-16     static
+  239.255.255.250       01-00-5e-7f-ff-fa     static
+  255.255.255.255       ff-ff-ff-ff-ff-ff     static
+`;
+
+const IP_NEIGH = `192.168.1.1 dev eth0 lladdr 00:11:22:33:44:55 REACHABLE
+10.0.1.255 dev eth1 lladdr 00:11:22:33:44:66 STALE
+192.168.1.30 dev eth0  INCOMPLETE
+192.168.1.31 dev eth0  FAILED
+fe80::1 dev eth0 lladdr 00:11:22:33:44:55 router STALE
+`;
+
+const MACOS_ARP = `? (192.168.1.1) at 0:11:22:33:44:55 on en0 ifscope [ethernet]
+nas.lan (192.168.1.40) at 00:11:32:aa:bb:cc on en0 ifscope [ethernet]
+? (192.168.1.41) at (incomplete) on en0 ifscope [ethernet]
+? (192.168.1.255) at ff:ff:ff:ff:ff:ff on en0 ifscope [ethernet]
+? (224.0.0.251) at 1:0:5e:0:0:fb on en0 ifscope permanent [ethernet]
+`;
+
+const NMAP_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<nmaprun scanner="nmap" args="nmap -O -oX - 192.168.1.0/24" version="7.94">
+<host starttime="1700000000" endtime="1700000010"><status state="up" reason="arp-response"/>
+<address addr="192.168.1.1" addrtype="ipv4"/>
+<address addr="00:11:22:33:44:55" addrtype="mac" vendor="Ubiquiti"/>
+<hostnames><hostname name="router.lan" type="PTR"/></hostnames>
+<ports>
+<port protocol="tcp" portid="22"><state state="open" reason="syn-ack"/><service name="ssh" product="OpenSSH" version="9.0"/></port>
+<port protocol="tcp" portid="23"><state state="closed" reason="reset"/><service name="telnet"/></port>
+<port protocol="udp" portid="53"><state state="open" reason="udp-response"/><service name="domain"/></port>
+</ports>
+<os><osmatch name="Linux 5.4" accuracy="96"/></os>
+</host>
+<host><status state="down" reason="no-response"/><address addr="192.168.1.9" addrtype="ipv4"/></host>
+<host><status state="up" reason="arp-response"/><address addr="192.168.1.255" addrtype="ipv4"/><address addr="FF:FF:FF:FF:FF:FF" addrtype="mac"/></host>
+</nmaprun>
+`;
+
+const NMAP_GREPABLE = `# Nmap 7.94 scan initiated Tue Jan 10 10:00:00 2024 as: nmap -oG - 192.168.1.0/24
+Host: 192.168.1.1 (router.lan)	Status: Up
+Host: 192.168.1.1 (router.lan)	Ports: 22/open/tcp//ssh//OpenSSH 9.0/, 80/open/tcp//http///, 443/closed/tcp//https///	Ignored State: closed (997)
+Host: 192.168.1.9 ()	Status: Down
+Host: 192.168.1.12 ()	Status: Up
+# Nmap done at Tue Jan 10 10:00:05 2024 -- 256 IP addresses (2 hosts up) scanned in 5.00 seconds
+`;
+
+const DHCPD_LEASES = `# The format of this file is documented in the dhcpd.leases(5) manual page.
+lease 192.168.1.50 {
+  starts 3 2024/01/10 10:00:00;
+  binding state active;
+  hardware ethernet 00:11:22:33:44:77;
+  client-hostname "pc-1";
+}
+lease 192.168.1.51 {
+  binding state free;
+  hardware ethernet 00:11:22:33:44:78;
+}
+lease 192.168.1.50 {
+  starts 4 2024/01/11 10:00:00;
+  binding state active;
+  hardware ethernet 00:11:22:33:44:79;
+  client-hostname "pc-1b";
+}
+`;
+
+const DNSMASQ_LEASES = `1700000000 00:11:22:33:44:55 192.168.1.50 pc-1 01:00:11:22:33:44:55
+1700000100 00:11:22:33:44:56 192.168.1.51 * *
+`;
+
+const MIKROTIK_PRINT = `Flags: X - disabled, I - invalid, H - DHCP, D - dynamic, P - published, C - complete
+ #    ADDRESS         MAC-ADDRESS       INTERFACE
+ 0 DC 192.168.88.254  00:0C:42:11:22:33 ether1
+ 1 D  192.168.88.20                     bridge
+`;
+
+const MIKROTIK_EXPORT = `# jan/10/2024 10:00:00 by RouterOS 7.12
+/ip arp
+add address=192.168.88.10 interface=bridge mac-address=00:11:22:33:44:55 comment="NAS"
+add address=224.0.0.1 interface=bridge mac-address=01:00:5E:00:00:01
+`;
+
+const OPENWRT_ARP = `IP address       HW type     Flags       HW address            Mask     Device
+192.168.1.2      0x1         0x2         00:11:22:33:44:55     *        br-lan
+192.168.1.3      0x1         0x0         00:00:00:00:00:00     *        br-lan
+`;
+
+const GENERIC = `host 192.168.1.77 has mac 00:11:22:33:44:99
+00:11:22:33:44:98 is at 192.168.1.78
+192.168.1.79 without mac
+`;
+
+const parse = (id: string, text: string) => IMPORT_PARSERS.find(p => p.id === id)!.parse(text);
+
+describe('detectParser', () => {
+  it.each([
+    ['windows-arp', WINDOWS_ARP],
+    ['linux-ip-neigh', IP_NEIGH],
+    ['macos-arp', MACOS_ARP],
+    ['nmap-xml', NMAP_XML],
+    ['nmap-grepable', NMAP_GREPABLE],
+    ['isc-dhcpd', DHCPD_LEASES],
+    ['dnsmasq', DNSMASQ_LEASES],
+    ['mikrotik-arp', MIKROTIK_PRINT],
+    ['mikrotik-arp', MIKROTIK_EXPORT],
+    ['openwrt-arp', OPENWRT_ARP],
+    ['generic', GENERIC]
+  ])('riconosce %s', (id, text) => {
+    expect(detectParser(text)?.id).toBe(id);
+  });
+
+  it('non riconosce testo senza indirizzi', () => {
+    expect(detectParser('nessun dato di rete qui')).toBeNull();
+  });
+});
+
+describe('parser di import', () => {
+  it('Windows arp -a: scarta broadcast e multicast', () => {
+    expect(parse('windows-arp', WINDOWS_ARP)).toEqual([
+      { ip: '192.168.1.1', mac: '00:11:22:33:44:55' },
+      { ip: '192.168.1.20', mac: 'A4:5E:60:AA:BB:CC' }
+    ]);
+  });
+
+  it('ip neigh: tiene gli host .255 e scarta le voci incomplete', () => {
+    expect(parse('linux-ip-neigh', IP_NEIGH)).toEqual([
+      { ip: '192.168.1.1', mac: '00:11:22:33:44:55' },
+      { ip: '10.0.1.255', mac: '00:11:22:33:44:66' }
+    ]);
+  });
+
+  it('macOS arp -an: completa i MAC abbreviati e legge l\'hostname', () => {
+    expect(parse('macos-arp', MACOS_ARP)).toEqual([
+      { ip: '192.168.1.1', mac: '00:11:22:33:44:55', hostname: undefined },
+      { ip: '192.168.1.40', mac: '00:11:32:AA:BB:CC', hostname: 'nas.lan' }
+    ]);
+  });
+
+  it('nmap XML: host attivi con porte aperte, produttore e OS', () => {
+    expect(parse('nmap-xml', NMAP_XML)).toEqual([{
+      ip: '192.168.1.1',
+      mac: '00:11:22:33:44:55',
+      vendor: 'Ubiquiti',
+      hostname: 'router.lan',
+      os: 'Linux 5.4',
+      services: [
+        { port: 22, protocol: 'tcp', name: 'ssh', product: 'OpenSSH 9.0' },
+        { port: 53, protocol: 'udp', name: 'domain', product: undefined }
+      ]
+    }]);
+  });
+
+  it('nmap XML: rifiuta un documento non valido', () => {
+    expect(() => parse('nmap-xml', '<nmaprun><host>')).toThrow('XML nmap non valido.');
+  });
+
+  it('nmap grepable: unisce le righe dello stesso host', () => {
+    expect(parse('nmap-grepable', NMAP_GREPABLE)).toEqual([
+      {
+        ip: '192.168.1.1',
+        hostname: 'router.lan',
+        services: [
+          { port: 22, protocol: 'tcp', name: 'ssh', product: 'OpenSSH 9.0' },
+          { port: 80, protocol: 'tcp', name: 'http', product: undefined }
+        ]
+      },
+      { ip: '192.168.1.12', hostname: undefined, services: [] }
+    ]);
+  });
+
+  it('dhcpd.leases: vale l\'ultimo lease attivo per IP', () => {
+    expect(parse('isc-dhcpd', DHCPD_LEASES)).toEqual([{ ip: '192.168.1.50', mac: '00:11:22:33:44:79', hostname: 'pc-1b' }]);
+  });
+
+  it('dnsmasq: "*" non è un hostname', () => {
+    expect(parse('dnsmasq', DNSMASQ_LEASES)).toEqual([
+      { ip: '192.168.1.50', mac: '00:11:22:33:44:55', hostname: 'pc-1' },
+      { ip: '192.168.1.51', mac: '00:11:22:33:44:56', hostname: undefined }
+    ]);
+  });
+
+  it('MikroTik: print senza voci incomplete ed export con commento', () => {
+    expect(parse('mikrotik-arp', MIKROTIK_PRINT)).toEqual([{ ip: '192.168.88.254', mac: '00:0C:42:11:22:33' }]);
+    expect(parse('mikrotik-arp', MIKROTIK_EXPORT)).toEqual([{ ip: '192.168.88.10', mac: '00:11:22:33:44:55', hostname: 'NAS' }]);
+  });
+
+  it('OpenWrt: scarta le voci con flag 0x0', () => {
+    expect(parse('openwrt-arp', OPENWRT_ARP)).toEqual([{ ip: '192.168.1.2', mac: '00:11:22:33:44:55' }]);
+  });
+
+  it('testo generico: solo righe con IP e MAC', () => {
+    expect(parse('generic', GENERIC)).toEqual([
+      { ip: '192.168.1.77', mac: '00:11:22:33:44:99' },
+      { ip: '192.168.1.78', mac: '00:11:22:33:44:98' }
+    ]);
+  });
+});
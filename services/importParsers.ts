@@ -0,0 +1,295 @@
+import { DiscoveredService } from '../types';
+import { normalizeMac } from './deviceIdentity';
+import { ipToInt } from './scanTargets';
+
+/**
+ * Voce estratta da un output di rete importato, prima della conversione in NetworkDevice.
+ */
+export interface ImportedEntry {
+  ip: string;
+  mac?: string;
+  hostname?: string;
+  vendor?: string;
+  services?: DiscoveredService[];
+  os?: string;
+}
+
+export interface ImportParser {
+  id: string;
+  label: string;
+  // Punteggio di riconoscimento: 0 = formato non riconosciuto, più alto = più specifico
+  detect: (text: string) => number;
+  parse: (text: string) => ImportedEntry[];
+}
+
+const IPV4 = '(?:\\d{1,3}\\.){3}\\d{1,3}';
+// Accetta anche ottetti senza zero iniziale (macOS: 0:11:2:33:44:55) e separatore "-" (Windows)
+const MAC = '(?:[0-9A-Fa-f]{1,2}[:-]){5}[0-9A-Fa-f]{1,2}';
+
+const isValidIp = (ip: string) => ipToInt(ip) !== null;
+
+// Normalizza a XX:XX:XX:XX:XX:XX completando gli ottetti abbreviati
+export const canonicalMac = (mac: string): string =>
+  normalizeMac(mac).split(':').map(o => o.padStart(2, '0')).join(':');
+
+// Broadcast e multicast non sono dispositivi reali: si riconoscono dal MAC, perché un IP
+// che termina in .255 è un host normale nelle reti più ampie di una /24
+const isUsableEntry = (ip: string, mac?: string) => {
+  if (!isValidIp(ip) || /^(22[4-9]|23\d|255)\./.test(ip)) return false;
+  if (mac) {
+    const m = canonicalMac(mac);
+    if (m === 'FF:FF:FF:FF:FF:FF' || m === '00:00:00:00:00:00' || m.startsWith('01:00:5E')) return false;
+  }
+  return true;
+};
+
+const lines = (text: string) => text.split(/\r?\n/);
+
+// --- Windows arp -a ---
+// Interface: 192.168.1.10 --- 0x4
+//   192.168.1.1           00-11-22-33-44-55     dynamic
+const windowsArp: ImportParser = {
+  id: 'windows-arp',
+  label: 'Windows arp -a',
+  detect: text => (/Interface:\s*\S+\s+---\s+0x/i.test(text) || /Interfaccia:\s*\S+\s+---/i.test(text) ? 10 : 0)
+    + (new RegExp(`^\\s*${IPV4}\\s+(?:[0-9a-f]{2}-){5}[0-9a-f]{2}\\s+\\w+`, 'im').test(text) ? 5 : 0),
+  parse: text => {
+    const re = new RegExp(`^\\s*(${IPV4})\\s+((?:[0-9A-Fa-f]{2}-){5}[0-9A-Fa-f]{2})\\s+\\w+`);
+    return lines(text).flatMap(line => {
+      const m = line.match(re);
+      return m && isUsableEntry(m[1], m[2]) ? [{ ip: m[1], mac: canonicalMac(m[2]) }] : [];
+    });
+  }
+};
+
+// --- Linux ip neigh ---
+// 192.168.1.1 dev eth0 lladdr 00:11:22:33:44:55 REACHABLE
+const linuxIpNeigh: ImportParser = {
+  id: 'linux-ip-neigh',
+  label: 'Linux ip neigh',
+  detect: text => (new RegExp(`^${IPV4}\\s+dev\\s+\\S+\\s+(lladdr|FAILED|INCOMPLETE)`, 'm').test(text) ? 12 : 0),
+  parse: text => {
+    const re = new RegExp(`^(${IPV4})\\s+dev\\s+\\S+\\s+lladdr\\s+(${MAC})`);
+    return lines(text).flatMap(line => {
+      const m = line.trim().match(re);
+      return m && isUsableEntry(m[1], m[2]) ? [{ ip: m[1], mac: canonicalMac(m[2]) }] : [];
+    });
+  }
+};
+
+// --- macOS arp -an (e Linux net-tools arp -a) ---
+// ? (192.168.1.1) at 0:11:22:33:44:55 on en0 ifscope [ethernet]
+// router.lan (192.168.1.1) at 00:11:22:33:44:55 [ether] on eth0
+const bsdArp: ImportParser = {
+  id: 'macos-arp',
+  label: 'macOS arp -an / Linux arp -a',
+  detect: text => (new RegExp(`^\\S+\\s+\\(${IPV4}\\)\\s+at\\s+`, 'm').test(text) ? 12 : 0),
+  parse: text => {
+    const re = new RegExp(`^(\\S+)\\s+\\((${IPV4})\\)\\s+at\\s+(${MAC})`);
+    return lines(text).flatMap(line => {
+      const m = line.trim().match(re);
+      if (!m || !isUsableEntry(m[2], m[3])) return [];
+      return [{ ip: m[2], mac: canonicalMac(m[3]), hostname: m[1] !== '?' ? m[1] : undefined }];
+    });
+  }
+};
+
+// --- nmap -oX ---
+const nmapXml: ImportParser = {
+  id: 'nmap-xml',
+  label: 'nmap -oX (XML)',
+  detect: text => (/<nmaprun[\s>]/.test(text) ? 20 : 0),
+  parse: text => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error("XML nmap non valido.");
+    return Array.from(doc.querySelectorAll('host')).flatMap(host => {
+      if (host.querySelector('status')?.getAttribute('state') === 'down') return [];
+      const ip = host.querySelector('address[addrtype="ipv4"]')?.getAttribute('addr');
+      if (!ip) return [];
+      const macEl = host.querySelector('address[addrtype="mac"]');
+      const mac = macEl?.getAttribute('addr') || undefined;
+      if (!isUsableEntry(ip, mac)) return [];
+      const services: DiscoveredService[] = Array.from(host.querySelectorAll('ports > port'))
+        .filter(p => p.querySelector('state')?.getAttribute('state') === 'open')
+        .map(p => {
+          const svc = p.querySelector('service');
+          const product = [svc?.getAttribute('product'), svc?.getAttribute('version')].filter(Boolean).join(' ');
+          return {
+            port: Number(p.getAttribute('portid')),
+            protocol: p.getAttribute('protocol') === 'udp' ? 'udp' : 'tcp',
+            name: svc?.getAttribute('name') || undefined,
+            product: product || undefined
+          };
+        });
+      return [{
+        ip,
+        mac: mac ? canonicalMac(mac) : undefined,
+        vendor: macEl?.getAttribute('vendor') || undefined,
+        hostname: host.querySelector('hostnames > hostname')?.getAttribute('name') || undefined,
+        os: host.querySelector('os > osmatch')?.getAttribute('name') || undefined,
+        services
+      }];
+    });
+  }
+};
+
+// --- nmap -oG ---
+// Host: 192.168.1.1 (router.lan)	Status: Up
+// Host: 192.168.1.1 (router.lan)	Ports: 22/open/tcp//ssh//OpenSSH 9.0/, 80/open/tcp//http///
+const nmapGrepable: ImportParser = {
+  id: 'nmap-grepable',
+  label: 'nmap -oG (grepable)',
+  detect: text => (new RegExp(`^Host:\\s+${IPV4}\\s+\\(.*?\\)\\s+(Status|Ports):`, 'm').test(text) ? 15 : 0),
+  parse: text => {
+    const byIp = new Map<string, ImportedEntry>();
+    const re = new RegExp(`^Host:\\s+(${IPV4})\\s+\\((.*?)\\)\\s+(.*)$`);
+    lines(text).forEach(line => {
+      const m = line.match(re);
+      if (!m || !isUsableEntry(m[1])) return;
+      const fields = m[3];
+      if (/Status:\s*Down/i.test(fields)) return;
+      const entry = byIp.get(m[1]) || { ip: m[1], hostname: m[2] || undefined, services: [] };
+      const ports = fields.match(/Ports:\s*([^\t]*)/);
+      if (ports) {
+        ports[1].split(',').forEach(p => {
+          const [port, state, protocol, , name, , product] = p.trim().split('/');
+          if (state !== 'open') return;
+          entry.services!.push({
+            port: Number(port),
+            protocol: protocol === 'udp' ? 'udp' : 'tcp',
+            name: name || undefined,
+            product: product || undefined
+          });
+        });
+      }
+      const os = fields.match(/OS:\s*([^\t]*)/);
+      if (os) entry.os = os[1].trim();
+      byIp.set(m[1], entry);
+    });
+    return [...byIp.values()];
+  }
+};
+
+// --- ISC dhcpd.leases ---
+// lease 192.168.1.50 { ... hardware ethernet 00:11:22:33:44:55; client-hostname "pc-1"; }
+const iscDhcpd: ImportParser = {
+  id: 'isc-dhcpd',
+  label: 'ISC dhcpd.leases',
+  detect: text => (new RegExp(`lease\\s+${IPV4}\\s*\\{`).test(text) ? 15 : 0),
+  parse: text => {
+    // Più lease per lo stesso IP: vale l'ultimo nel file (è il più recente)
+    const byIp = new Map<string, ImportedEntry>();
+    const re = new RegExp(`lease\\s+(${IPV4})\\s*\\{([^}]*)\\}`, 'g');
+    for (const m of text.matchAll(re)) {
+      const body = m[2];
+      if (/binding state\s+(free|abandoned|backup)/.test(body)) continue;
+      const mac = body.match(new RegExp(`hardware ethernet\\s+(${MAC})`))?.[1];
+      if (!isUsableEntry(m[1], mac)) continue;
+      byIp.set(m[1], {
+        ip: m[1],
+        mac: mac ? canonicalMac(mac) : undefined,
+        hostname: body.match(/client-hostname\s+"([^"]*)"/)?.[1]
+      });
+    }
+    return [...byIp.values()];
+  }
+};
+
+// --- dnsmasq.leases ---
+// 1700000000 00:11:22:33:44:55 192.168.1.50 pc-1 01:00:11:22:33:44:55
+const dnsmasqLeases: ImportParser = {
+  id: 'dnsmasq',
+  label: 'dnsmasq leases',
+  detect: text => (new RegExp(`^\\d{9,11}\\s+${MAC}\\s+${IPV4}\\s+\\S+`, 'm').test(text) ? 15 : 0),
+  parse: text => {
+    const re = new RegExp(`^\\d{9,11}\\s+(${MAC})\\s+(${IPV4})\\s+(\\S+)`);
+    return lines(text).flatMap(line => {
+      const m = line.trim().match(re);
+      if (!m || !isUsableEntry(m[2], m[1])) return [];
+      return [{ ip: m[2], mac: canonicalMac(m[1]), hostname: m[3] !== '*' ? m[3] : undefined }];
+    });
+  }
+};
+
+// --- MikroTik /ip arp print | export ---
+//  0 DC 192.168.88.254  00:0C:42:11:22:33 ether1
+// add address=192.168.88.10 interface=bridge mac-address=00:11:22:33:44:55
+const mikrotikArp: ImportParser = {
+  id: 'mikrotik-arp',
+  label: 'MikroTik /ip arp',
+  detect: text => (/mac-address=/.test(text) || /#\s+ADDRESS\s+MAC-ADDRESS/.test(text) ? 15 : 0),
+  parse: text => {
+    const printRe = new RegExp(`^\\s*\\d+\\s+(?:[A-Z]+\\s+)?(${IPV4})\\s+(${MAC})`);
+    return lines(text).flatMap(line => {
+      if (line.includes('mac-address=')) {
+        const ip = line.match(new RegExp(`address=(${IPV4})`))?.[1];
+        const mac = line.match(new RegExp(`mac-address=(${MAC})`))?.[1];
+        const comment = line.match(/comment="?([^"]+?)"?(\s|$)/)?.[1];
+        return ip && isUsableEntry(ip, mac) ? [{ ip, mac: mac ? canonicalMac(mac) : undefined, hostname: comment }] : [];
+      }
+      const m = line.match(printRe);
+      return m && isUsableEntry(m[1], m[2]) ? [{ ip: m[1], mac: canonicalMac(m[2]) }] : [];
+    });
+  }
+};
+
+// --- OpenWrt /proc/net/arp ---
+// IP address       HW type     Flags       HW address            Mask     Device
+// 192.168.1.2      0x1         0x2         00:11:22:33:44:55     *        br-lan
+const openwrtArp: ImportParser = {
+  id: 'openwrt-arp',
+  label: 'OpenWrt /proc/net/arp',
+  detect: text => (/IP address\s+HW type\s+Flags\s+HW address/.test(text) ? 15 : 0),
+  parse: text => {
+    const re = new RegExp(`^(${IPV4})\\s+0x[0-9a-f]+\\s+(0x[0-9a-f]+)\\s+(${MAC})`, 'i');
+    return lines(text).flatMap(line => {
+      const m = line.trim().match(re);
+      // Flags 0x0 = voce incompleta
+      if (!m || m[2] === '0x0' || !isUsableEntry(m[1], m[3])) return [];
+      return [{ ip: m[1], mac: canonicalMac(m[3]) }];
+    });
+  }
+};
+
+// --- Testo generico ---
+// Qualsiasi riga con un IPv4 e un MAC: ultima risorsa quando nessun formato noto è riconosciuto
+const genericIpMac: ImportParser = {
+  id: 'generic',
+  label: 'Testo generico (IP e MAC)',
+  detect: text => (new RegExp(`${IPV4}.*?${MAC}|${MAC}.*?${IPV4}`).test(text) ? 1 : 0),
+  parse: text => {
+    const byIp = new Map<string, ImportedEntry>();
+    lines(text).forEach(line => {
+      const ip = line.match(new RegExp(`\\b${IPV4}\\b`))?.[0];
+      const mac = line.match(new RegExp(`\\b${MAC}\\b`))?.[0];
+      if (ip && mac && !byIp.has(ip) && isUsableEntry(ip, mac)) byIp.set(ip, { ip, mac: canonicalMac(mac) });
+    });
+    return [...byIp.values()];
+  }
+};
+
+export const IMPORT_PARSERS: ImportParser[] = [
+  windowsArp,
+  linuxIpNeigh,
+  bsdArp,
+  nmapXml,
+  nmapGrepable,
+  iscDhcpd,
+  dnsmasqLeases,
+  mikrotikArp,
+  openwrtArp,
+  genericIpMac
+];
+
+export const detectParser = (text: string): ImportParser | null => {
+  let best: ImportParser | null = null;
+  let bestScore = 0;
+  IMPORT_PARSERS.forEach(p => {
+    const score = p.detect(text);
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,68 @@
+import { NetworkDevice, DeviceType } from '../types';
+import { ImportedEntry } from './importParsers';
+import { getDeviceIdentity, isPlaceholderMac } from './deviceIdentity';
+import { lookupVendor, isUnknownManufacturer } from './ouiService';
+import { applyFingerprint } from './fingerprintService';
+
+// Il tipo è dedotto dal fingerprinting: produttore, hostname, servizi e OS importati
+export const entryToDevice = (entry: ImportedEntry): NetworkDevice => applyFingerprint({
+  id: `import-${entry.ip}`,
+  ip: entry.ip,
+  mac: entry.mac || '',
+  name: entry.hostname || `Device ${entry.ip}`,
+  manufacturer: entry.vendor || lookupVendor(entry.mac || '')?.vendor || 'Sconosciuto',
+  type: DeviceType.PC,
+  parentId: null,
+  status: 'online',
+  services: entry.services?.length ? entry.services : undefined,
+  os: entry.os
+});
+
+const isGenericName = (name: string, ip: string) => !name || name === `Device ${ip}`;
+
+export interface MergePreview {
+  device: NetworkDevice;
+  existingId: string | null; // Device esistente che verrà aggiornato, null = nuovo
+}
+
+// Cerca il device esistente per identità, oppure per IP se l'esistente non ha un MAC reale
+const findExisting = (existing: NetworkDevice[], device: NetworkDevice): NetworkDevice | undefined => {
+  const identity = getDeviceIdentity(device);
+  return existing.find(d => getDeviceIdentity(d) === identity)
+    || existing.find(d => d.ip === device.ip && isPlaceholderMac(d.mac));
+};
+
+export const previewMerge = (existing: NetworkDevice[], imported: NetworkDevice[]): MergePreview[] =>
+  imported.map(device => ({ device, existingId: findExisting(existing, device)?.id ?? null }));
+
+/**
+ * Unisce i device importati alla lista corrente. I device già presenti mantengono id e
+ * parentId e acquisiscono i dati reali (MAC, hostname, produttore, servizi, OS), con
+ * cui viene ricalcolato il fingerprint; i nuovi vengono collegati al router, se presente.
+ */
+export const mergeImportedDevices = (existing: NetworkDevice[], imported: NetworkDevice[]): NetworkDevice[] => {
+  const result = existing.map(d => ({ ...d }));
+  const router = result.find(d => d.type === DeviceType.ROUTER && !d.parentId);
+
+  imported.forEach(device => {
+    const match = findExisting(result, device);
+    if (match) {
+      if (!isPlaceholderMac(device.mac)) match.mac = device.mac;
+      if (!isGenericName(device.name, device.ip) && isGenericName(match.name, match.ip)) match.name = device.name;
+      if (!isUnknownManufacturer(device.manufacturer)) match.manufacturer = device.manufacturer;
+      if (device.services) match.services = device.services;
+      if (device.os) match.os = device.os;
+      match.ip = device.ip;
+      Object.assign(match, applyFingerprint(match));
+      return;
+    }
+    const isNewRouter = device.type === DeviceType.ROUTER && !router;
+    result.push({
+      ...device,
+      id: result.some(d => d.id === device.id) ? `${device.id}-${Date.now()}` : device.id,
+      parentId: isNewRouter ? null : router?.id ?? null
+    });
+  });
+
+  return result;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyInventory, reconcileInventory } from './inventoryService';
+import { DeviceType, InventoryRecord, NetworkDevice } from '../types';
+
+const device = (ip: string, mac: string, name = ip): NetworkDevice =>
+  ({ id: `auto-${ip}`, ip, mac, name, manufacturer: '', type: DeviceType.PC, parentId: null, status: 'online' });
+
+const record = (identity: string, extra: Partial<InventoryRecord> = {}): InventoryRecord =>
+  ({ identity, tags: ['ufficio'], customFields: {}, updatedAt: 1, ...extra });
+
+describe('reconcileInventory', () => {
+  it('passa alla chiave per MAC la scheda creata quando il device era noto per IP', () => {
+    const { updated, removed } = reconcileInventory([device('192.168.1.50', 'a4-5e-60-aa-bb-02', 'NAS')], [record('ip:192.168.1.50')]);
+    expect(updated).toEqual([record('mac:A4:5E:60:AA:BB:02', { lastSeenName: 'NAS', lastSeenIp: '192.168.1.50' })]);
+    expect(removed).toEqual(['ip:192.168.1.50']);
+  });
+
+  it('tiene la chiave per MAC quando il device torna senza MAC dall\'ultimo IP visto', () => {
+    const records = [
+      record('mac:A4:5E:60:AA:BB:02', { lastSeenName: 'NAS', lastSeenIp: '192.168.1.50', updatedAt: 1 }),
+      record('mac:A4:5E:60:AA:BB:03', { lastSeenName: 'Vecchio NAS', lastSeenIp: '192.168.1.50', updatedAt: 2 })
+    ];
+    const { updated, removed } = reconcileInventory([device('192.168.1.50', '', 'nas.lan')], records);
+    expect(updated).toEqual([{ ...records[1], lastSeenName: 'nas.lan' }]);
+    expect(removed).toEqual([]);
+  });
+
+  it('migra le chiavi delle versioni precedenti con il tipo', () => {
+    const { updated, removed } = reconcileInventory([device('10.0.0.5', '00:11:22:33:44:55')], [record('ip:10.0.0.5#PC', { lastSeenName: '10.0.0.5', lastSeenIp: '10.0.0.5' })]);
+    expect(updated.map(r => r.identity)).toEqual(['ip:10.0.0.5']);
+    expect(removed).toEqual(['ip:10.0.0.5#PC']);
+  });
+
+  it('non restituisce nulla per schede già allineate o senza device', () => {
+    const records = [record('ip:10.0.0.5', { lastSeenName: '10.0.0.5', lastSeenIp: '10.0.0.5' }), record('ip:10.0.0.9')];
+    expect(reconcileInventory([device('10.0.0.5', '')], records)).toEqual({ updated: [], removed: [] });
+  });
+
+  it('non rimuove una chiave che un altro device continua a usare', () => {
+    const devices = [device('10.0.0.5', 'A4:5E:60:AA:BB:04'), device('10.0.0.5', '')];
+    const { updated, removed } = reconcileInventory(devices, [record('ip:10.0.0.5')]);
+    expect(updated.map(r => r.identity).sort()).toEqual(['ip:10.0.0.5', 'mac:A4:5E:60:AA:BB:04']);
+    expect(removed).toEqual([]);
+  });
+});
+
+describe('applyInventory', () => {
+  it('riporta le schede e toglie quelle non più valide', () => {
+    const stale = { ...device('10.0.0.7', ''), inventory: record('ip:10.0.0.7') };
+    const [nas, other] = applyInventory([device('10.0.0.5', ''), stale], [record('ip:10.0.0.5#SERVER')]);
+    expect(nas.inventory?.identity).toBe('ip:10.0.0.5#SERVER');
+    expect(other).not.toHaveProperty('inventory');
+  });
+});
@@ -0,0 +1,149 @@
+import { NetworkDevice, InventoryRecord, InventoryFieldDefinition } from '../types';
+import { getInventoryIdentity, isPlaceholderMac, normalizeInventoryIdentity } from './deviceIdentity';
+import { dbGetAll, dbPutMany, dbDelete, STORE_INVENTORY } from './db';
+
+const FIELDS_KEY = 'netvisio_inventory_fields';
+
+// --- Persistenza ---
+
+export const loadInventory = (): Promise<InventoryRecord[]> => dbGetAll<InventoryRecord>(STORE_INVENTORY);
+
+export const saveInventoryRecords = (records: InventoryRecord[]): Promise<void> => dbPutMany(STORE_INVENTORY, records);
+
+export const deleteInventoryRecord = (identity: string): Promise<void> => dbDelete(STORE_INVENTORY, identity);
+
+export const loadInventoryFields = (): InventoryFieldDefinition[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FIELDS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveInventoryFields = (fields: InventoryFieldDefinition[]) =>
+  localStorage.setItem(FIELDS_KEY, JSON.stringify(fields));
+
+export const createInventoryField = (label: string): InventoryFieldDefinition =>
+  ({ id: `field-${Date.now().toString(36)}`, label: label.trim() });
+
+// --- Schede ---
+
+export const emptyInventoryRecord = (device: NetworkDevice): InventoryRecord => ({
+  identity: getInventoryIdentity(device),
+  tags: [],
+  customFields: {},
+  updatedAt: Date.now()
+});
+
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(/[,;]+/).map(t => t.trim()).filter(Boolean))];
+
+// Una scheda senza alcun dato viene eliminata invece di essere salvata
+export const isEmptyInventoryRecord = (record: InventoryRecord) =>
+  record.tags.length === 0
+  && !record.notes?.trim() && !record.owner?.trim() && !record.location?.trim() && !record.rack?.trim() && !record.purchaseDate
+  && Object.values(record.customFields).every(v => !v.trim());
+
+interface InventoryIndex {
+  byIdentity: Map<string, InventoryRecord>; // Chiavi delle versioni precedenti già normalizzate
+  byLastSeenIp: Map<string, InventoryRecord>; // Schede per MAC di device non presenti con quel MAC
+}
+
+const buildInventoryIndex = (devices: NetworkDevice[], records: InventoryRecord[]): InventoryIndex => {
+  const byIdentity = new Map<string, InventoryRecord>();
+  records.forEach(r => {
+    const key = normalizeInventoryIdentity(r.identity);
+    if (!byIdentity.has(key) || key === r.identity) byIdentity.set(key, r);
+  });
+  const present = new Set(devices.map(getInventoryIdentity));
+  const byLastSeenIp = new Map<string, InventoryRecord>();
+  records.forEach(r => {
+    if (!r.identity.startsWith('mac:') || !r.lastSeenIp || present.has(r.identity)) return;
+    const current = byLastSeenIp.get(r.lastSeenIp);
+    if (!current || r.updatedAt > current.updatedAt) byLastSeenIp.set(r.lastSeenIp, r);
+  });
+  return { byIdentity, byLastSeenIp };
+};
+
+/**
+ * Scheda di un device. Le scansioni dal browser non vedono il MAC: un device senza MAC
+ * ritrova la scheda registrata per MAC (da import ARP/DHCP o inserita a mano)
+ * dall'ultimo IP con cui quel MAC è stato visto.
+ */
+const findInventoryRecord = (index: InventoryIndex, device: NetworkDevice): InventoryRecord | undefined =>
+  index.byIdentity.get(getInventoryIdentity(device))
+  ?? (isPlaceholderMac(device.mac) && device.ip ? index.byLastSeenIp.get(device.ip) : undefined);
+
+/**
+ * Riporta le schede di inventario sui device correnti, per identità stabile.
+ * I device senza scheda perdono un eventuale campo inventory non più valido.
+ */
+export const applyInventory = (devices: NetworkDevice[], records: InventoryRecord[]): NetworkDevice[] => {
+  if (records.length === 0) return devices;
+  const index = buildInventoryIndex(devices, records);
+  return devices.map(d => {
+    const record = findInventoryRecord(index, d);
+    if (record) return { ...d, inventory: record };
+    if (!d.inventory) return d;
+    const { inventory, ...rest } = d;
+    return rest;
+  });
+};
+
+/**
+ * Schede da aggiornare dopo una scansione o un import:
+ * - un device di cui ora si conosce il MAC eredita la scheda creata quando era noto solo per IP
+ * - una scheda per MAC resta tale quando il device torna senza MAC (scansione dal browser)
+ * - le chiavi delle versioni precedenti (IP e tipo) passano alla chiave per IP
+ * - nome e IP visti per ultimi vengono aggiornati
+ * Restituisce le schede modificate e le identità da eliminare (quelle migrate).
+ */
+export const reconcileInventory = (
+  devices: NetworkDevice[],
+  records: InventoryRecord[]
+): { updated: InventoryRecord[]; removed: string[] } => {
+  const index = buildInventoryIndex(devices, records);
+  const updated = new Map<string, InventoryRecord>();
+  const removed = new Set<string>();
+
+  devices.forEach(d => {
+    const identity = getInventoryIdentity(d);
+    const withoutMac = isPlaceholderMac(d.mac);
+    const record = findInventoryRecord(index, d) ?? (!withoutMac && d.ip ? index.byIdentity.get(`ip:${d.ip}`) : undefined);
+    if (!record) return;
+    let next = updated.get(record.identity) ?? record;
+    const keepMac = withoutMac && next.identity.startsWith('mac:');
+    if (next.identity !== identity && !keepMac) {
+      removed.add(next.identity);
+      updated.delete(next.identity);
+      next = { ...next, identity };
+    }
+    if (next.lastSeenName !== d.name || next.lastSeenIp !== d.ip) next = { ...next, lastSeenName: d.name, lastSeenIp: d.ip };
+    if (next !== record) updated.set(next.identity, next);
+  });
+
+  return { updated: [...updated.values()], removed: [...removed].filter(id => !updated.has(id)) };
+};
+
+// --- Ricerca ---
+
+// Testo ricercabile del device: dati tecnici più tutta la scheda di inventario
+const searchableText = (device: NetworkDevice): string => {
+  const inv = device.inventory;
+  return [
+    device.name, device.ip, device.mac, device.manufacturer, device.type,
+    ...(inv ? [...inv.tags, inv.notes, inv.owner, inv.location, inv.rack, inv.purchaseDate, ...Object.values(inv.customFields)] : [])
+  ].filter(Boolean).join('\n').toLowerCase();
+};
+
+/**
+ * Ricerca libera: tutte le parole devono comparire in un campo del device o
+ * della sua scheda. "#tag" richiede un tag esatto.
+ */
+export const matchesInventorySearch = (device: NetworkDevice, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchableText(device);
+  const tags = (device.inventory?.tags || []).map(t => t.toLowerCase());
+  return words.every(w => (w.startsWith('#') && w.length > 1 ? tags.includes(w.slice(1)) : text.includes(w)));
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { renderTopologySvg } from './mapExport';
+import { TYPE_COLORS, TYPE_LABELS } from './topologyLayout';
+import { DeviceType, NetworkDevice } from '../types';
+
+describe('renderTopologySvg', () => {
+  it('la legenda elenca una volta ogni tipo presente, con colore e sigla propri', () => {
+    const types = Object.values(DeviceType);
+    const devices: NetworkDevice[] = [...types, DeviceType.IOT].map((type, i) => ({
+      id: `d${i}`, ip: `192.168.1.${i + 1}`, mac: '', name: `Device ${i}`, manufacturer: '', type, parentId: i ? 'd0' : null, status: 'online'
+    }));
+    const { svg } = renderTopologySvg(devices, { siteName: 'Sede', scanDate: new Date(0) });
+    const legend = [...svg.matchAll(/stroke="(#[0-9a-f]{6})" stroke-width="2"\/><text class="legend"[^>]*>([^<]+)</g)];
+    expect(legend.map(m => m[2])).toEqual(['Router', 'Switch', 'PC', 'Server', 'Stampante', 'Mobile', 'IoT', 'Cloud']);
+    expect(new Set(legend.map(m => m[1])).size).toBe(types.length);
+    expect(new Set(types.map(t => TYPE_LABELS[t])).size).toBe(types.length);
+    expect(legend.map(m => m[1])).toEqual(types.map(t => TYPE_COLORS[t]));
+  });
+});
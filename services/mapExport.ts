@@ -0,0 +1,216 @@
+import { NetworkDevice, DeviceType, NetworkZone } from '../types';
+import { NODE_WIDTH, NODE_HEIGHT, TYPE_COLORS, TYPE_LABELS, LayoutEdge, LayoutMode, computeLayout } from './topologyLayout';
+import { LINK_MEDIA, formatSpeed } from './topologyLinks';
+import { computeZoneHulls, formatZoneHullLabel, ZoneHull } from './networkZones';
+import { downloadBlob } from './download';
+
+export interface MapViewport {
+  x: number; // Coordinate del layout (centro radice = 0,0) visibili nell'angolo in alto a sinistra
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MapExportOptions {
+  siteName: string;
+  scanDate: Date;
+  viewport?: MapViewport; // Se assente si esporta l'intero albero
+  layout?: LayoutMode; // Lo stesso layout scelto a schermo
+  zones?: NetworkZone[]; // Contorni delle zone, come sulla mappa
+}
+
+const PADDING = 40;
+const TITLE_BLOCK_HEIGHT = 120;
+const MIN_WIDTH = 900; // Spazio minimo per titolo e legenda
+
+const TYPE_NAMES: Record<DeviceType, string> = {
+  [DeviceType.ROUTER]: 'Router',
+  [DeviceType.SWITCH]: 'Switch',
+  [DeviceType.PC]: 'PC',
+  [DeviceType.SERVER]: 'Server',
+  [DeviceType.PRINTER]: 'Stampante',
+  [DeviceType.MOBILE]: 'Mobile',
+  [DeviceType.IOT]: 'IoT',
+  [DeviceType.CLOUD]: 'Cloud'
+};
+
+const STATUS_COLORS: Record<NetworkDevice['status'], string> = {
+  online: '#10b981',
+  warning: '#f59e0b',
+  offline: '#ef4444'
+};
+
+// Stili incorporati: il file deve rendere uguale anche fuori dall'app (Inkscape, browser, Office)
+const EMBEDDED_STYLE = `
+  text { font-family: 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; }
+  .mono { font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', monospace; }
+  .link { fill: none; }
+  .zone-label { font-size: 12px; font-weight: bold; }
+  .link-label { font-size: 9px; fill: #cbd5e1; paint-order: stroke; stroke: #0f172a; stroke-width: 3px; dominant-baseline: middle; }
+  .card { fill: #1e293b; stroke-width: 2; }
+  .icon { font-size: 10px; font-weight: bold; text-anchor: middle; }
+  .name { font-size: 12px; font-weight: bold; fill: #e2e8f0; }
+  .ip { font-size: 11px; fill: #94a3b8; }
+  .title { font-size: 20px; font-weight: bold; fill: #f1f5f9; }
+  .meta { font-size: 12px; fill: #94a3b8; }
+  .legend { font-size: 11px; fill: #cbd5e1; }
+`;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (name: string) => (name.length > 18 ? name.substring(0, 16) + '...' : name);
+
+const renderNode = (d: NetworkDevice, x: number, y: number): string => {
+  const left = -NODE_WIDTH / 2;
+  const top = -NODE_HEIGHT / 2;
+  const color = TYPE_COLORS[d.type];
+  const accent = d.type === DeviceType.ROUTER || d.type === DeviceType.SWITCH;
+  return `<g transform="translate(${x},${y})">
+    <rect class="card" x="${left}" y="${top}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="6" ry="6" stroke="${color}"/>
+    <path d="M${left + 1},${top + 1} h35 v${NODE_HEIGHT - 2} h-35 a5,5 0 0 1 -5,-5 v-${NODE_HEIGHT - 12} a5,5 0 0 1 5,-5 z" fill="${accent ? color + '20' : '#ffffff05'}"/>
+    <text class="icon mono" x="${left + 18}" y="4" fill="${accent ? color : '#94a3b8'}">${TYPE_LABELS[d.type]}</text>
+    <text class="name" x="${left + 45}" y="${top + 25}">${escapeXml(truncate(d.name))}</text>
+    <text class="ip mono" x="${left + 45}" y="${top + 45}">${escapeXml(d.ip)}</text>
+    <circle cx="${NODE_WIDTH / 2 - 10}" cy="${top + 10}" r="4" fill="${STATUS_COLORS[d.status]}"/>
+  </g>`;
+};
+
+const renderEdge = (e: LayoutEdge): string => {
+  const media = LINK_MEDIA[e.edge.medium];
+  const anchor = e.orthogonal ? 'start' : 'middle';
+  const labels = ([
+    [e.speedLabel, formatSpeed(e.edge.speedMbps)],
+    [e.sourcePortLabel, e.edge.sourcePort],
+    [e.targetPortLabel, e.edge.targetPort]
+  ] as const)
+    .filter(([, text]) => !!text)
+    .map(([pos, text]) => `<text class="link-label mono" x="${pos.x}" y="${pos.y}" text-anchor="${anchor}">${escapeXml(text!)}</text>`);
+  return `<path class="link" d="${e.path}" stroke="${media.color}" stroke-width="${media.width}"${media.dash ? ` stroke-dasharray="${media.dash}"` : ''}/>${labels.join('')}`;
+};
+
+const renderZoneHull = (h: ZoneHull): string =>
+  `<path d="${h.path}" fill="${h.zone.color}" fill-opacity="0.07" stroke="${h.zone.color}" stroke-opacity="0.7" stroke-width="1.5" stroke-dasharray="8,4" stroke-linejoin="round"/><text class="zone-label" x="${h.labelX}" y="${h.labelY}" fill="${h.zone.color}">${escapeXml(formatZoneHullLabel(h))}</text>`;
+
+const renderTitleBlock = (options: MapExportOptions, width: number, y: number, types: DeviceType[]): string => {
+  const legendX = width / 2;
+  const columns = 4;
+  const legend = types.map((t, i) => {
+    const lx = legendX + (i % columns) * 110;
+    const ly = y + 40 + Math.floor(i / columns) * 24;
+    return `<rect x="${lx}" y="${ly - 10}" width="12" height="12" rx="2" fill="#1e293b" stroke="${TYPE_COLORS[t]}" stroke-width="2"/><text class="legend" x="${lx + 18}" y="${ly}">${TYPE_NAMES[t]}</text>`;
+  }).join('\n    ');
+  return `<g>
+    <rect x="0" y="${y}" width="${width}" height="${TITLE_BLOCK_HEIGHT}" fill="#0b1220"/>
+    <line x1="0" y1="${y}" x2="${width}" y2="${y}" stroke="#334155" stroke-width="1"/>
+    <text class="title" x="${PADDING}" y="${y + 40}">${escapeXml(options.siteName || 'Topologia di rete')}</text>
+    <text class="meta" x="${PADDING}" y="${y + 64}">Scansione: ${escapeXml(options.scanDate.toLocaleString('it-IT'))}</text>
+    <text class="meta" x="${PADDING}" y="${y + 84}">Generato con NetVisio</text>
+    <text class="meta" x="${legendX}" y="${y + 20}">Legenda</text>
+    ${legend}
+  </g>`;
+};
+
+/**
+ * Genera un SVG autonomo della topologia con lo stesso layout e le stesse card di
+ * TopologyMap, indipendente dallo zoom a schermo, con cartiglio (sito, data, legenda).
+ */
+export const renderTopologySvg = (devices: NetworkDevice[], options: MapExportOptions): { svg: string; width: number; height: number } => {
+  const graph = computeLayout(devices, options.layout);
+  const nodes = graph.nodes;
+
+  let view: MapViewport;
+  if (options.viewport) {
+    view = options.viewport;
+  } else {
+    const minX = Math.min(...nodes.map(n => n.x)) - NODE_WIDTH / 2 - PADDING;
+    const maxX = Math.max(...nodes.map(n => n.x)) + NODE_WIDTH / 2 + PADDING;
+    // Margine extra in alto per l'etichetta della zona più esterna
+    const minY = Math.min(...nodes.map(n => n.y)) - NODE_HEIGHT / 2 - PADDING - (options.zones?.length ? 20 : 0);
+    const maxY = Math.max(...nodes.map(n => n.y)) + NODE_HEIGHT / 2 + PADDING;
+    const treeWidth = maxX - minX;
+    // L'albero viene centrato se è più stretto del cartiglio
+    const extra = Math.max(0, MIN_WIDTH - treeWidth) / 2;
+    view = { x: minX - extra, y: minY, width: treeWidth + extra * 2, height: maxY - minY };
+  }
+
+  const width = Math.ceil(view.width);
+  const mapHeight = Math.ceil(view.height);
+  const height = mapHeight + TITLE_BLOCK_HEIGHT;
+  const usedTypes = Object.values(DeviceType).filter(t => devices.some(d => d.type === t));
+
+  const hulls = computeZoneHulls(nodes, options.zones || []).map(renderZoneHull).join('\n    ');
+  const links = graph.edges.map(renderEdge).join('\n    ');
+  const cards = nodes.map(n => renderNode(n.device, n.x, n.y)).join('\n    ');
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <style>${EMBEDDED_STYLE}</style>
+  <rect width="${width}" height="${height}" fill="#0f172a"/>
+  <svg x="0" y="0" width="${width}" height="${mapHeight}" viewBox="${view.x} ${view.y} ${view.width} ${view.height}">
+    ${hulls}
+    ${links}
+    ${cards}
+  </svg>
+  ${renderTitleBlock(options, width, mapHeight, usedTypes)}
+</svg>`;
+
+  return { svg, width, height };
+};
+
+export const exportSvg = (filename: string, devices: NetworkDevice[], options: MapExportOptions) => {
+  const { svg } = renderTopologySvg(devices, options);
+  downloadBlob(filename, new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+};
+
+// Il PNG viene rasterizzato dall'SVG: 96 DPI corrisponde a scala 1
+export const exportPng = async (filename: string, devices: NetworkDevice[], options: MapExportOptions, dpi: number) => {
+  const { svg, width, height } = renderTopologySvg(devices, options);
+  const scale = dpi / 96;
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Impossibile rasterizzare la mappa."));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    if (canvas.width * canvas.height > 268_000_000) throw new Error("Immagine troppo grande: riduci i DPI.");
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas non disponibile.");
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("Generazione PNG non riuscita.");
+    downloadBlob(filename, blob);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Apre una pagina A4 orizzontale pronta per la stampa (o "Salva come PDF").
+ * La mappa viene scalata per stare nella pagina mantenendo le proporzioni.
+ */
+export const openPrintablePage = (devices: NetworkDevice[], options: MapExportOptions) => {
+  const { svg } = renderTopologySvg(devices, options);
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("Popup bloccato: consenti i popup per stampare la mappa.");
+  const inlineSvg = svg.replace(/^<\?xml[^>]*>\s*/, '');
+  win.document.write(`<!DOCTYPE html>
+<html lang="it"><head><meta charset="utf-8"><title>${escapeXml(options.siteName || 'Topologia di rete')}</title>
+<style>
+  @page { size: A4 landscape; margin: 10mm; }
+  html, body { margin: 0; background: #fff; }
+  .page { width: 277mm; height: 190mm; display: flex; align-items: center; justify-content: center; }
+  .page > svg { max-width: 100%; max-height: 100%; width: auto; height: auto; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style></head>
+<body><div class="page">${inlineSvg}</div>
+<script>window.onload = () => { window.focus(); window.print(); };</script>
+</body></html>`);
+  win.document.close();
+};
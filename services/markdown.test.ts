@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MdInline, parseInline } from './markdown';
+
+// Forma compatta dell'albero: em(...), strong(...), del(...), testo tra virgolette
+const show = (nodes: MdInline[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return JSON.stringify(node.text);
+    if (node.type === 'em' || node.type === 'strong' || node.type === 'del') return `${node.type}(${show(node.children)})`;
+    return node.type;
+  }).join(', ');
+
+const emphasis = (text: string) => show(parseInline(text));
+
+describe('enfasi (CommonMark)', () => {
+  it('annida strong dentro em', () => {
+    expect(emphasis('*a **b** c*')).toBe('em("a ", strong("b"), " c")');
+    expect(emphasis('**a *b* c**')).toBe('strong("a ", em("b"), " c")');
+    expect(emphasis('***a***')).toBe('em(strong("a"))');
+    expect(emphasis('***a** b*')).toBe('em(strong("a"), " b")');
+  });
+
+  it('lascia come testo i delimitatori in eccesso', () => {
+    expect(emphasis('**a*')).toBe('"*", em("a")');
+    expect(emphasis('*a**')).toBe('em("a"), "*"');
+    expect(emphasis('**a')).toBe('"**a"');
+  });
+
+  it('chiude solo con sequenze right-flanking', () => {
+    expect(emphasis('*a *')).toBe('"*a *"');
+    expect(emphasis('a * b * c')).toBe('"a * b * c"');
+    expect(emphasis('*a*b*')).toBe('em("a"), "b*"');
+    expect(emphasis('"*a*"')).toBe('"\\"", em("a"), "\\""');
+  });
+
+  it('applica la regola del multiplo di 3', () => {
+    expect(emphasis('*a**b*')).toBe('em("a**b")');
+    expect(emphasis('*foo**bar**baz*')).toBe('em("foo", strong("bar"), "baz")');
+    expect(emphasis('**foo*bar*baz**')).toBe('strong("foo", em("bar"), "baz")');
+  });
+
+  it('non usa _ dentro le parole', () => {
+    expect(emphasis('snake_case_name')).toBe('"snake_case_name"');
+    expect(emphasis('_a_b_')).toBe('em("a_b")');
+    expect(emphasis('__init__ e _b_')).toBe('strong("init"), " e ", em("b")');
+  });
+
+  it('gestisce barrato, codice ed escape', () => {
+    expect(emphasis('~~a *b*~~ ~c~')).toBe('del("a ", em("b")), " ~c~"');
+    expect(emphasis('*a `*` b*')).toBe('em("a ", code, " b")');
+    expect(emphasis('\\*a*')).toBe('"*a*"');
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Parser Markdown (CommonMark più tabelle, barrato e link automatici di GFM) che
+ * produce un albero di nodi da rendere con React. L'HTML grezzo non viene mai
+ * interpretato: resta testo. Link e immagini passano da sanitizeUrl.
+ */
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'del'; children: MdInline[] }
+  | { type: 'link'; href: string; title?: string; children: MdInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'blockquote'; children: MdBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: MdBlock[][] }
+  | { type: 'table'; align: MdAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'html'; text: string }
+  | { type: 'hr' };
+
+// --- Sicurezza ---
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * URL consentito nei link, oppure null: solo http, https, mailto e riferimenti
+ * relativi o ad ancore. Esclude javascript:, data:, vbscript: e simili, anche offuscati.
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  const normalized = trimmed.replace(/[\u0000- \u007f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (scheme && !SAFE_PROTOCOLS.includes(`${scheme[1]}:`)) return null;
+  return trimmed;
+};
+
+// --- Blocchi ---
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const HTML_BLOCK = /^ {0,3}<(?:\/?[a-zA-Z][\w-]*[\s/>]|\/?[a-zA-Z][\w-]*$|!--)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line);
+
+// Le tabulazioni contano come allineamento a 4 colonne
+const expandTabs = (line: string) => {
+  let out = '';
+  for (const ch of line) out += ch === '\t' ? ' '.repeat(4 - (out.length % 4)) : ch;
+  return out;
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// Celle di una riga di tabella, con "\|" come barra letterale
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseListMarker = (line: string) => {
+  const m = line.match(LIST_ITEM);
+  if (!m) return null;
+  const [, indent, marker, spacing = '', rest = ''] = m;
+  const ordered = /\d/.test(marker);
+  // Più di 4 spazi dopo il marcatore: il contenuto è codice indentato, conta un solo spazio
+  const gap = spacing.length === 0 ? 1 : spacing.length > 4 ? 1 : spacing.length;
+  return {
+    ordered,
+    start: ordered ? parseInt(marker, 10) : 1,
+    delimiter: ordered ? marker.slice(-1) : marker,
+    contentIndent: indent.length + marker.length + gap,
+    content: spacing.length > 4 ? ' '.repeat(spacing.length - 1) + rest : rest
+  };
+};
+
+// Righe che interrompono un paragrafo
+const startsBlock = (line: string) => {
+  if (ATX_HEADING.test(line) || FENCE.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line) || HTML_BLOCK.test(line)) return true;
+  const item = parseListMarker(line);
+  // Un elenco interrompe un paragrafo solo se non è vuoto e, se numerato, parte da 1
+  return !!item && item.content.trim() !== '' && (!item.ordered || item.start === 1);
+};
+
+const parseBlockLines = (lines: string[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+      const [, indent, marker, info] = fence;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) {
+          i++;
+          break;
+        }
+        // Il contenuto perde l'indentazione della recinzione di apertura
+        body.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ''));
+        i++;
+      }
+      blocks.push({ type: 'code', lang: info.split(/\s+/)[0] || '', text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (BLOCKQUOTE.test(lines[i])) inner.push(lines[i].replace(BLOCKQUOTE, ''));
+        // Continuazione "pigra" di un paragrafo senza ">"
+        else if (!startsBlock(lines[i])) inner.push(lines[i]);
+        else break;
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(inner) });
+      continue;
+    }
+
+    const item = parseListMarker(line);
+    if (item) {
+      const items: MdBlock[][] = [];
+      let tight = true;
+      let current = item;
+      while (current) {
+        const itemLines = [current.content];
+        i++;
+        let sawBlank = false;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            sawBlank = true;
+            itemLines.push('');
+            i++;
+            continue;
+          }
+          if (indentOf(next) >= current.contentIndent) {
+            if (sawBlank) tight = false;
+            itemLines.push(next.slice(current.contentIndent));
+            sawBlank = false;
+            i++;
+            continue;
+          }
+          if (!sawBlank && !startsBlock(next) && !parseListMarker(next)) {
+            itemLines.push(next.trimStart());
+            i++;
+            continue;
+          }
+          break;
+        }
+        while (itemLines.length > 0 && isBlank(itemLines[itemLines.length - 1])) itemLines.pop();
+        items.push(parseBlockLines(itemLines));
+        const nextItem = i < lines.length ? parseListMarker(lines[i]) : null;
+        if (!nextItem || nextItem.ordered !== item.ordered || nextItem.delimiter !== item.delimiter) break;
+        if (sawBlank) tight = false;
+        current = nextItem;
+      }
+      blocks.push({ type: 'list', ordered: item.ordered, start: item.start, tight, items });
+      continue;
+    }
+
+    if (/^ {4}/.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && (/^ {4}/.test(lines[i]) || isBlank(lines[i]))) {
+        body.push(lines[i].slice(4));
+        i++;
+      }
+      while (body.length > 0 && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ type: 'code', lang: '', text: body.join('\n') });
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) body.push(lines[i++]);
+      blocks.push({ type: 'html', text: body.join('\n') });
+      continue;
+    }
+
+    // Tabella: riga di intestazione seguita da una riga di delimitatori con lo stesso numero di celle
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const delimiters = splitTableRow(lines[i + 1]);
+      if (header.length === delimiters.length) {
+        const align: MdAlign[] = delimiters.map(d => (d.startsWith(':') && d.endsWith(':') ? 'center' : d.endsWith(':') ? 'right' : d.startsWith(':') ? 'left' : null));
+        const rows: MdInline[][][] = [];
+        i += 2;
+        while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+          const cells = splitTableRow(lines[i]);
+          rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+          i++;
+        }
+        blocks.push({ type: 'table', align, header: header.map(h => parseInline(h)), rows });
+        continue;
+      }
+    }
+
+    // Paragrafo, eventualmente titolo setext se seguito da === o ---
+    const paragraph: string[] = [line.trim()];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT_UNDERLINE);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i])) break;
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    const text = paragraph.join('\n');
+    blocks.push(setextLevel ? { type: 'heading', level: setextLevel, children: parseInline(text) } : { type: 'paragraph', children: parseInline(text) });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): MdBlock[] =>
+  parseBlockLines(source.replace(/\r\n?/g, '\n').split('\n').map(expandTabs));
+
+// --- Inline ---
+
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', hellip: '…', mdash: '—', ndash: '–' };
+
+const decodeEntity = (entity: string): string | null => {
+  const m = entity.match(/^&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z]+));$/);
+  if (!m) return null;
+  if (m[3]) return ENTITIES[m[3]] ?? null;
+  const code = m[1] ? parseInt(m[1], 10) : parseInt(m[2], 16);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+};
+
+const isWhitespace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isAlnum = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+
+// Indice della "]" che chiude la "[" in posizione start, rispettando annidamenti, escape e codice
+const findClosingBracket = (text: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') i++;
+    else if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) i = end + run.length - 1;
+    } else if (ch === '[') depth++;
+    else if (ch === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Destinazione e titolo tra parentesi: (url "titolo"), (<url con spazi>)
+const parseLinkTarget = (text: string, start: number): { href: string; title?: string; end: number } | null => {
+  const m = text.slice(start).match(/^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?\s*\)/);
+  if (!m) return null;
+  const unescape = (value: string) => value.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+  return {
+    href: unescape(m[1] ?? m[2] ?? ''),
+    title: m[3] ? unescape(m[3].slice(1, -1)) : undefined,
+    end: start + m[0].length
+  };
+};
+
+// Sequenza di *, _ o ~ ancora da abbinare (delimitatori di CommonMark)
+interface Delimiter {
+  type: 'delimiter';
+  char: string;
+  count: number; // Caratteri non ancora usati
+  length: number; // Lunghezza originale, per la regola del multiplo di 3
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineItem = MdInline | Delimiter;
+
+const isPunctuation = (ch: string | undefined) => ch !== undefined && /[\p{P}\p{S}]/u.test(ch);
+
+const isDelimiter = (item: InlineItem): item is Delimiter => item.type === 'delimiter';
+
+// Apre se left-flanking, chiude se right-flanking; "_" dentro una parola non fa né l'uno né l'altro
+const createDelimiter = (text: string, start: number, end: number): Delimiter => {
+  const before = text[start - 1];
+  const after = text[end];
+  const left = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+  const right = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+  const char = text[start];
+  return {
+    type: 'delimiter',
+    char,
+    count: end - start,
+    length: end - start,
+    canOpen: left && (char !== '_' || !right || isPunctuation(before)),
+    canClose: right && (char !== '_' || !left || isPunctuation(after))
+  };
+};
+
+// Se una delle due sequenze può sia aprire che chiudere, la somma delle lunghezze non
+// può essere multipla di 3 (a meno che lo siano entrambe): *a**b* resta em(a**b)
+const canMatch = (opener: Delimiter, closer: Delimiter): boolean => {
+  if (opener.char !== closer.char || !opener.canOpen || opener.count === 0) return false;
+  if (opener.char === '~') return opener.count === closer.count;
+  return !((opener.canClose || closer.canOpen) && (opener.length + closer.length) % 3 === 0 && (opener.length % 3 !== 0 || closer.length % 3 !== 0));
+};
+
+const toInlines = (items: InlineItem[]): MdInline[] =>
+  mergeText(items.flatMap((item): MdInline[] => {
+    if (!isDelimiter(item)) return [item];
+    return item.count > 0 ? [{ type: 'text', text: item.char.repeat(item.count) }] : [];
+  }));
+
+/**
+ * Abbina i delimitatori da sinistra: ogni chiusura si lega all'apertura compatibile
+ * più vicina usando i caratteri interni delle due sequenze (***a*** = em(strong(a))).
+ * I delimitatori rimasti tra le due diventano testo, come quelli mai abbinati.
+ */
+const processEmphasis = (items: InlineItem[]): MdInline[] => {
+  let c = 0;
+  while (c < items.length) {
+    const closer = items[c];
+    if (!isDelimiter(closer) || !closer.canClose || closer.count === 0) {
+      c++;
+      continue;
+    }
+    let o = c - 1;
+    while (o >= 0 && !(isDelimiter(items[o]) && canMatch(items[o] as Delimiter, closer))) o--;
+    if (o < 0) {
+      c++;
+      continue;
+    }
+    const opener = items[o] as Delimiter;
+    const size = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const children = toInlines(items.slice(o + 1, c));
+    items.splice(o + 1, c - o - 1, { type: closer.char === '~' ? 'del' : size === 2 ? 'strong' : 'em', children } as MdInline);
+    opener.count -= size;
+    closer.count -= size;
+    c = o + 2;
+  }
+  return toInlines(items);
+};
+
+const mergeText = (nodes: MdInline[]): MdInline[] =>
+  nodes.reduce<MdInline[]>((acc, node) => {
+    const last = acc[acc.length - 1];
+    if (node.type === 'text' && last?.type === 'text') acc[acc.length - 1] = { type: 'text', text: last.text + node.text };
+    else acc.push(node);
+    return acc;
+  }, []);
+
+export const parseInline = (text: string): MdInline[] => {
+  const nodes: InlineItem[] = [];
+  const push = (t: string) => nodes.push({ type: 'text', text: t });
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === '\n') {
+        nodes.push({ type: 'break' });
+        i += 2;
+      } else if (next !== undefined && PUNCTUATION.test(next)) {
+        push(next);
+        i += 2;
+      } else {
+        push(ch);
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      let end = i + run.length;
+      // La chiusura deve avere esattamente la stessa lunghezza
+      for (;;) {
+        end = text.indexOf(run, end);
+        if (end === -1 || text[end + run.length] !== '`') break;
+        end += run.length;
+        while (text[end] === '`') end++;
+      }
+      if (end === -1) {
+        push(run);
+        i += run.length;
+        continue;
+      }
+      let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') code = code.slice(1, -1);
+      nodes.push({ type: 'code', text: code });
+      i = end + run.length;
+      continue;
+    }
+
+    if (ch === '\n') {
+      // Due spazi a fine riga = a capo forzato, altrimenti a capo morbido
+      const last = nodes[nodes.length - 1];
+      if (last?.type === 'text' && / {2,}$/.test(last.text)) {
+        last.text = last.text.replace(/ +$/, '');
+        nodes.push({ type: 'break' });
+      } else {
+        if (last?.type === 'text') last.text = last.text.replace(/ +$/, '');
+        push(' ');
+      }
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    if (ch === '<') {
+      const auto = text.slice(i).match(/^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)*)>/);
+      if (auto) {
+        const target = auto[1].includes(':') ? auto[1] : `mailto:${auto[1]}`;
+        const href = sanitizeUrl(target);
+        nodes.push(href ? { type: 'link', href, children: [{ type: 'text', text: auto[1] }] } : { type: 'text', text: auto[0] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '&') {
+      const entity = text.slice(i).match(/^&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z]+);/);
+      const decoded = entity ? decodeEntity(entity[0]) : null;
+      if (entity && decoded !== null) {
+        push(decoded);
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    const isImage = ch === '!' && text[i + 1] === '[';
+    if (ch === '[' || isImage) {
+      const open = isImage ? i + 1 : i;
+      const close = findClosingBracket(text, open);
+      const target = close !== -1 ? parseLinkTarget(text, close + 1) : null;
+      if (target) {
+        const label = text.slice(open + 1, close);
+        const url = sanitizeUrl(target.href);
+        if (isImage) nodes.push(url ? { type: 'image', src: url, alt: label } : { type: 'text', text: label });
+        else if (url) nodes.push({ type: 'link', href: url, title: target.title, children: parseInline(label) });
+        else nodes.push(...parseInline(label));
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      let end = i;
+      while (text[end] === ch) end++;
+      // Il barrato (GFM) usa solo coppie: ~ singoli o in sequenze più lunghe restano testo
+      if (ch === '~' && end - i !== 2) push(text.slice(i, end));
+      else nodes.push(createDelimiter(text, i, end));
+      i = end;
+      continue;
+    }
+
+    // Link automatici (GFM): http(s)://... e www....
+    if ((ch === 'h' || ch === 'w') && !isAlnum(text[i - 1])) {
+      const bare = text.slice(i).match(/^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~)'"]/);
+      if (bare) {
+        const href = bare[0].startsWith('www.') ? `http://${bare[0]}` : bare[0];
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: bare[0] }] });
+        i += bare[0].length;
+        continue;
+      }
+    }
+
+    // Testo semplice fino al prossimo carattere speciale
+    const plain = text.slice(i).match(/^[^\\`\n<&![*_~hw]+/);
+    if (plain) {
+      push(plain[0]);
+      i += plain[0].length;
+    } else {
+      push(ch);
+      i++;
+    }
+  }
+  return processEmphasis(nodes);
+};
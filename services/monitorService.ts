@@ -0,0 +1,118 @@
+import { NetworkDevice, DeviceSample } from '../types';
+import { ProbeStrategy, runProbes } from './probeService';
+import { runAdaptivePool } from './scanScheduler';
+import { getDeviceIdentity } from './deviceIdentity';
+import { dbPutMany, dbGetByIndex, dbDeleteByIndex, STORE_SAMPLES } from './db';
+
+// Oltre questa latenza un device che risponde viene segnalato come "warning"
+export const WARNING_LATENCY_MS = 300;
+// I campioni più vecchi di 30 giorni (la finestra di uptime più ampia) vengono eliminati
+const SAMPLE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const UPTIME_WINDOWS = [
+  { key: '24h', label: '24 ore', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', label: '7 giorni', ms: 7 * 24 * 60 * 60 * 1000 },
+  { key: '30d', label: '30 giorni', ms: SAMPLE_RETENTION_MS }
+] as const;
+
+export interface MonitorOptions {
+  intervalMs: number;
+  probes: ProbeStrategy[];
+  getDevices: () => NetworkDevice[]; // Letto a ogni ciclo: i device possono cambiare nel frattempo
+  onCycle: (samples: DeviceSample[]) => void;
+  onError?: (error: unknown) => void;
+}
+
+export const statusFromSample = (sample: DeviceSample): NetworkDevice['status'] => {
+  if (!sample.online) return 'offline';
+  return (sample.latency ?? 0) > WARNING_LATENCY_MS ? 'warning' : 'online';
+};
+
+// Solo device reali con un IP sondabile (esclusi switch virtuali e fantasmi dell'overlay)
+const isMonitorable = (d: NetworkDevice) => !!d.ip && !d.id.startsWith('virt-') && !d.id.startsWith('ghost-');
+
+/**
+ * Avvia il monitoraggio continuo: a ogni ciclo sonda tutti i device noti, salva i campioni
+ * in IndexedDB e li notifica con onCycle. Il ciclo successivo parte "intervalMs" dopo la
+ * fine del precedente, quindi i cicli non si sovrappongono mai.
+ * Restituisce la funzione di stop.
+ */
+export const startMonitor = (options: MonitorOptions): (() => void) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const cycle = async () => {
+    const devices = options.getDevices().filter(isMonitorable);
+    const samples: DeviceSample[] = [];
+
+    try {
+      await runAdaptivePool(
+        devices,
+        async (device, timeoutMs, signal) => {
+          const results = await runProbes(device.ip, options.probes, timeoutMs, signal);
+          const latencies = results.filter(r => r.responded && r.latency !== undefined).map(r => r.latency as number);
+          const sample: DeviceSample = {
+            identity: getDeviceIdentity(device),
+            timestamp: Date.now(),
+            online: latencies.length > 0,
+            latency: latencies.length ? Math.min(...latencies) : undefined
+          };
+          return sample;
+        },
+        sample => sample.latency,
+        sample => samples.push(sample),
+        // Device noti: timeout più generosi della scansione per evitare falsi offline
+        { signal: controller.signal, initialTimeoutMs: 2000, minTimeoutMs: 1500, maxTimeoutMs: 4000 }
+      );
+      await dbPutMany(STORE_SAMPLES, samples);
+      await dbDeleteByIndex(STORE_SAMPLES, 'timestamp', IDBKeyRange.upperBound(Date.now() - SAMPLE_RETENTION_MS));
+      options.onCycle(samples);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      options.onError?.(e);
+    }
+
+    if (!controller.signal.aborted) timer = setTimeout(cycle, options.intervalMs);
+  };
+
+  cycle();
+
+  return () => {
+    controller.abort();
+    clearTimeout(timer);
+  };
+};
+
+export const getDeviceSamples = (identity: string, sinceMs: number): Promise<DeviceSample[]> =>
+  dbGetByIndex<DeviceSample>(STORE_SAMPLES, 'identity_time', IDBKeyRange.bound([identity, sinceMs], [identity, Infinity]));
+
+/**
+ * Percentuale di campioni online nella finestra; null se non ci sono campioni.
+ */
+export const computeUptime = (samples: DeviceSample[], windowMs: number, now = Date.now()): number | null => {
+  const inWindow = samples.filter(s => s.timestamp >= now - windowMs);
+  if (inWindow.length === 0) return null;
+  return (inWindow.filter(s => s.online).length / inWindow.length) * 100;
+};
+
+export const formatUptime = (value: number | null): string =>
+  value === null ? 'n/d' : `${value.toFixed(value === 100 ? 0 : 2)}%`;
+
+/**
+ * Report di uptime per tutti i device sulle finestre 24h/7g/30g, in formato CSV (separatore ;).
+ */
+export const buildUptimeReportCsv = async (devices: NetworkDevice[]): Promise<string> => {
+  const now = Date.now();
+  const since = now - SAMPLE_RETENTION_MS;
+  const header = ['Nome', 'IP', 'MAC', 'Tipo', ...UPTIME_WINDOWS.map(w => `Uptime ${w.label}`), 'Campioni'];
+  const rows = await Promise.all(devices.filter(isMonitorable).map(async d => {
+    const samples = await getDeviceSamples(getDeviceIdentity(d), since);
+    return [
+      d.name, d.ip, d.mac, d.type,
+      ...UPTIME_WINDOWS.map(w => formatUptime(computeUptime(samples, w.ms, now))),
+      String(samples.length)
+    ];
+  }));
+  const escape = (v: string) => /[;"\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  return [header, ...rows].map(r => r.map(escape).join(';')).join('\n');
+};
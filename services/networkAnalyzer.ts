@@ -0,0 +1,331 @@
+import { NetworkDevice, DeviceType, NetworkZone, AnalysisFinding, AnalysisReport, FindingSeverity, OptimizationResult } from '../types';
+import { isPlaceholderMac, normalizeMac } from './deviceIdentity';
+import { resolveDeviceZone } from './networkZones';
+import { getUpstreamPath, isInSubtree } from './topologyEditing';
+
+export const HIGH_LATENCY_MS = 100;
+const SPOF_MIN_DESCENDANTS = 3;
+
+const INFRASTRUCTURE_TYPES = [DeviceType.ROUTER, DeviceType.SWITCH, DeviceType.CLOUD];
+// Host che di norma si collegano via cavo a uno switch
+const WIRED_HOST_TYPES = [DeviceType.PC, DeviceType.SERVER, DeviceType.PRINTER, DeviceType.IOT];
+// Host che non possono fare da device a monte (i server no: possono ospitare VM)
+const LEAF_TYPES = [DeviceType.PC, DeviceType.PRINTER, DeviceType.IOT, DeviceType.MOBILE];
+
+export const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'warning', 'info'];
+
+export const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  critical: 'Critico',
+  warning: 'Avviso',
+  info: 'Info'
+};
+
+interface AnalysisContext {
+  devices: NetworkDevice[];
+  byId: Map<string, NetworkDevice>;
+  children: Map<string, NetworkDevice[]>;
+  zones: NetworkZone[];
+}
+
+/**
+ * Regola dell'analisi locale: esamina l'intera rete e restituisce zero o più rilievi.
+ * Le regole sono deterministiche: a parità di device producono sempre gli stessi rilievi.
+ */
+export interface AnalysisRule {
+  id: string;
+  label: string;
+  check: (ctx: AnalysisContext) => AnalysisFinding[];
+}
+
+const createContext = (devices: NetworkDevice[], zones: NetworkZone[]): AnalysisContext => {
+  const children = new Map<string, NetworkDevice[]>();
+  devices.forEach(d => {
+    if (d.parentId) children.set(d.parentId, [...(children.get(d.parentId) || []), d]);
+  });
+  return { devices, byId: new Map(devices.map(d => [d.id, d])), children, zones };
+};
+
+const createFinding = (
+  ruleId: string,
+  severity: FindingSeverity,
+  devices: NetworkDevice[],
+  title: string,
+  detail: string,
+  recommendation?: string
+): AnalysisFinding => {
+  const deviceIds = devices.map(d => d.id);
+  return { id: `${ruleId}:${[...deviceIds].sort().join(',')}`, ruleId, severity, title, detail, recommendation, deviceIds };
+};
+
+// "A, B, C e altri 4"
+const listNames = (devices: NetworkDevice[], max = 4) =>
+  devices.slice(0, max).map(d => d.name || d.ip || d.id).join(', ') + (devices.length > max ? ` e altri ${devices.length - max}` : '');
+
+const groupBy = (devices: NetworkDevice[], key: (d: NetworkDevice) => string | null): NetworkDevice[][] => {
+  const groups = new Map<string, NetworkDevice[]>();
+  devices.forEach(d => {
+    const k = key(d);
+    if (k) groups.set(k, [...(groups.get(k) || []), d]);
+  });
+  return [...groups.values()];
+};
+
+// Tutti i device a valle, protetto da cicli
+const getDescendants = (ctx: AnalysisContext, deviceId: string): NetworkDevice[] => {
+  const result: NetworkDevice[] = [];
+  const visited = new Set<string>([deviceId]);
+  const stack = [...(ctx.children.get(deviceId) || [])];
+  while (stack.length > 0) {
+    const d = stack.pop()!;
+    if (visited.has(d.id)) continue;
+    visited.add(d.id);
+    result.push(d);
+    stack.push(...(ctx.children.get(d.id) || []));
+  }
+  return result;
+};
+
+/**
+ * Switch principale sotto un router: il più vicino al router e, a parità, quello con
+ * più device collegati. Null se il router non ha switch a valle.
+ */
+const findMainSwitch = (ctx: AnalysisContext, routerId: string): NetworkDevice | null => {
+  const depth = (d: NetworkDevice) => getUpstreamPath(ctx.devices, d.id).length;
+  const switches = getDescendants(ctx, routerId).filter(d => d.type === DeviceType.SWITCH);
+  switches.sort((a, b) => depth(a) - depth(b)
+    || (ctx.children.get(b.id)?.length || 0) - (ctx.children.get(a.id)?.length || 0)
+    || a.id.localeCompare(b.id));
+  return switches[0] ?? null;
+};
+
+const isWiredHostOnRouter = (ctx: AnalysisContext, d: NetworkDevice) =>
+  WIRED_HOST_TYPES.includes(d.type) && d.uplink?.medium !== 'wifi' && ctx.byId.get(d.parentId || '')?.type === DeviceType.ROUTER;
+
+// Segmento di rete: la zona, oppure la /24 dell'IP principale
+const getSegment = (ctx: AnalysisContext, d: NetworkDevice): { key: string; label: string } | null => {
+  const zone = resolveDeviceZone(d, ctx.zones);
+  if (zone) return { key: `zone:${zone.id}`, label: zone.name };
+  const m = d.ip.match(/^(\d+\.\d+\.\d+)\.\d+$/);
+  return m ? { key: `net:${m[1]}`, label: `${m[1]}.0/24` } : null;
+};
+
+const exposesHttp = (d: NetworkDevice) =>
+  (d.services || []).some(s => s.port === 80 || s.name === 'http')
+  || (d.probes || []).some(p => p.probeId === 'http-80' && p.open)
+  || (d.httpBanners || []).some(b => b.port === 80);
+
+const isUnknownVendor = (d: NetworkDevice) => !d.manufacturer?.trim() || /^(sconosciuto|unknown|\?+)$/i.test(d.manufacturer.trim());
+
+// --- Regole ---
+
+const hostsOnRouter: AnalysisRule = {
+  id: 'hosts-on-router',
+  label: 'Host collegati direttamente al router',
+  check: ctx => ctx.devices.filter(d => d.type === DeviceType.ROUTER).flatMap(router => {
+    const mainSwitch = findMainSwitch(ctx, router.id);
+    const hosts = (ctx.children.get(router.id) || []).filter(d => isWiredHostOnRouter(ctx, d));
+    if (!mainSwitch || hosts.length === 0) return [];
+    return [createFinding('hosts-on-router', 'warning', hosts,
+      `${hosts.length} host collegati direttamente al router ${router.name}`,
+      `${listNames(hosts)} sono collegati al router anche se a valle c'è lo switch ${mainSwitch.name}: si occupano porte del router e il traffico locale lo attraversa inutilmente.`,
+      `Collega gli host a ${mainSwitch.name}.`)];
+  })
+};
+
+const hostsUnderLeaf: AnalysisRule = {
+  id: 'hosts-under-leaf',
+  label: 'Device a valle di un host finale',
+  check: ctx => ctx.devices.filter(d => LEAF_TYPES.includes(d.type) && ctx.children.has(d.id)).map(parent => {
+    const hosts = ctx.children.get(parent.id)!;
+    return createFinding('hosts-under-leaf', 'warning', [parent, ...hosts],
+      `Device collegati a valle di ${parent.name} (${parent.type})`,
+      `${listNames(hosts)} risultano collegati a un host finale: probabilmente la topologia è stata dedotta in modo errato.`,
+      `Collega i device allo switch o al router più vicino, oppure correggi il tipo di ${parent.name}.`);
+  })
+};
+
+const iotWithServers: AnalysisRule = {
+  id: 'iot-server-segment',
+  label: 'IoT e server nello stesso segmento',
+  check: ctx => groupBy(ctx.devices, d => getSegment(ctx, d)?.key ?? null).flatMap(group => {
+    const iot = group.filter(d => d.type === DeviceType.IOT);
+    const servers = group.filter(d => d.type === DeviceType.SERVER);
+    if (iot.length === 0 || servers.length === 0) return [];
+    const segment = getSegment(ctx, group[0])!;
+    return [createFinding('iot-server-segment', 'warning', [...servers, ...iot],
+      `IoT e server nello stesso segmento (${segment.label})`,
+      `${iot.length} dispositivi IoT (${listNames(iot, 3)}) condividono il segmento con ${servers.length} server (${listNames(servers, 3)}): un dispositivo IoT compromesso raggiunge direttamente i server.`,
+      'Sposta i dispositivi IoT in una VLAN o zona dedicata, filtrata verso i server.')];
+  })
+};
+
+const duplicateIps: AnalysisRule = {
+  id: 'duplicate-ip',
+  label: 'IP duplicati',
+  check: ctx => groupBy(ctx.devices, d => d.ip || null).filter(g => g.length > 1).map(group =>
+    createFinding('duplicate-ip', 'critical', group,
+      `IP ${group[0].ip} assegnato a ${group.length} device`,
+      `${listNames(group)} hanno lo stesso indirizzo: conflitto IP oppure device duplicati da import diversi.`,
+      'Verifica il DHCP o le assegnazioni statiche; se è lo stesso device, elimina il duplicato.'))
+};
+
+const duplicateMacs: AnalysisRule = {
+  id: 'duplicate-mac',
+  label: 'MAC duplicati',
+  check: ctx => groupBy(ctx.devices, d => (isPlaceholderMac(d.mac) ? null : normalizeMac(d.mac))).filter(g => g.length > 1).map(group =>
+    createFinding('duplicate-mac', 'warning', group,
+      `MAC ${normalizeMac(group[0].mac)} presente su ${group.length} device`,
+      `${listNames(group)} hanno lo stesso MAC: device duplicato da import diversi, host con più IP o un proxy ARP.`,
+      'Se è lo stesso device, unisci le voci aggiungendo gli altri IP come interfacce.'))
+};
+
+const highLatency: AnalysisRule = {
+  id: 'high-latency',
+  label: 'Latenza elevata',
+  check: ctx => {
+    const slow = ctx.devices
+      .filter(d => d.status !== 'offline' && d.latency !== undefined && d.latency >= HIGH_LATENCY_MS)
+      .sort((a, b) => b.latency! - a.latency!);
+    if (slow.length === 0) return [];
+    return [createFinding('high-latency', 'warning', slow,
+      `${slow.length} host con latenza oltre ${HIGH_LATENCY_MS} ms`,
+      `${slow.map(d => `${d.name} (${d.latency} ms)`).slice(0, 5).join(', ')}${slow.length > 5 ? '...' : ''}. In una LAN la latenza è di norma di pochi ms.`,
+      'Controlla collegamenti Wi-Fi deboli, porte in errore o host sovraccarichi.')];
+  }
+};
+
+const printersOverHttp: AnalysisRule = {
+  id: 'printer-http',
+  label: 'Stampanti con interfaccia HTTP',
+  check: ctx => {
+    const printers = ctx.devices.filter(d => d.type === DeviceType.PRINTER && exposesHttp(d));
+    if (printers.length === 0) return [];
+    return [createFinding('printer-http', 'warning', printers,
+      `${printers.length} ${printers.length === 1 ? 'stampante espone' : 'stampanti espongono'} l'interfaccia web in HTTP`,
+      `${listNames(printers)} accettano connessioni in chiaro sulla porta 80: credenziali di amministrazione e configurazione viaggiano non cifrate.`,
+      'Abilita HTTPS e disattiva HTTP, cambia la password predefinita o limita l\'accesso alla VLAN di gestione.')];
+  }
+};
+
+const unknownVendors: AnalysisRule = {
+  id: 'unknown-vendor',
+  label: 'Produttore sconosciuto',
+  check: ctx => {
+    const unknown = ctx.devices.filter(d => d.ip && isUnknownVendor(d));
+    if (unknown.length === 0) return [];
+    return [createFinding('unknown-vendor', 'info', unknown,
+      `${unknown.length} device con produttore sconosciuto`,
+      `${listNames(unknown)} non sono riconducibili a un produttore (MAC assente, randomizzato o non presente nel registro OUI).`,
+      'Identifica i device e annotali nell\'inventario; aggiorna il registro OUI nelle impostazioni.')];
+  }
+};
+
+const singlePointsOfFailure: AnalysisRule = {
+  id: 'single-point-of-failure',
+  label: 'Punti singoli di guasto',
+  check: ctx => ctx.devices.flatMap(node => {
+    const descendants = getDescendants(ctx, node.id);
+    if (descendants.length < SPOF_MIN_DESCENDANTS) return [];
+    // Un collegamento aggiuntivo verso l'esterno del sottoalbero è un percorso alternativo
+    const inside = new Set([node.id, ...descendants.map(d => d.id)]);
+    if (descendants.some(d => d.links?.some(l => !inside.has(l.peerId)))) return [];
+    const isRoot = !node.parentId || !ctx.byId.has(node.parentId);
+    return [createFinding('single-point-of-failure', isRoot ? 'info' : 'warning', [node],
+      `Punto singolo di guasto: ${node.name}`,
+      `${descendants.length} device dipendono solo da ${node.name}: un suo guasto li isola${isRoot ? ' dal resto della rete e da Internet' : ''}.`,
+      isRoot ? 'Valuta una connettività di backup (seconda linea o router in failover).' : 'Aggiungi un uplink ridondante (LACP o secondo switch) per i device critici.')];
+  })
+};
+
+export const NETWORK_RULES: AnalysisRule[] = [
+  duplicateIps,
+  duplicateMacs,
+  hostsOnRouter,
+  hostsUnderLeaf,
+  iotWithServers,
+  printersOverHttp,
+  highLatency,
+  singlePointsOfFailure,
+  unknownVendors
+];
+
+const compareFindings = (a: AnalysisFinding, b: AnalysisFinding) =>
+  SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.id.localeCompare(b.id);
+
+/**
+ * Analisi locale, senza IA: applica tutte le regole e ordina i rilievi per gravità.
+ */
+export const analyzeNetworkLocally = (devices: NetworkDevice[], zones: NetworkZone[] = []): AnalysisFinding[] => {
+  const ctx = createContext(devices, zones);
+  return NETWORK_RULES.flatMap(rule => rule.check(ctx)).sort(compareFindings);
+};
+
+// Report completo dell'analisi locale, nello stesso formato di quello generato dall'IA
+export const createLocalReport = (devices: NetworkDevice[], zones: NetworkZone[] = []): AnalysisReport => {
+  const findings = analyzeNetworkLocally(devices, zones);
+  const plural: Record<FindingSeverity, string> = { critical: 'critici', warning: 'avvisi', info: 'informativi' };
+  const counts = SEVERITY_ORDER.map(s => `${findings.filter(f => f.severity === s).length} ${plural[s]}`);
+  return {
+    source: 'local',
+    summary: `Analisi basata su regole locali, senza IA. Analizzati **${devices.length}** dispositivi: ${findings.length === 0 ? 'nessun problema rilevato.' : `${findings.length} rilievi (${counts.join(', ')}).`}`,
+    findings,
+    recommendations: [...new Set(findings.flatMap(f => (f.recommendation ? [f.recommendation] : [])))],
+    generatedAt: Date.now()
+  };
+};
+
+// --- Ottimizzazione deterministica ---
+
+// Regole i cui rilievi l'ottimizzazione corregge spostando i device
+const FIXABLE_RULES = [hostsOnRouter.id, hostsUnderLeaf.id];
+
+/**
+ * Ottimizzazione locale basata sulle stesse regole dell'analisi: i device a valle di
+ * un host finale risalgono al primo switch o router, poi gli host cablati collegati al
+ * router passano al suo switch principale. I rilievi non risolvibili spostando device
+ * restano nella spiegazione.
+ */
+export const optimizeTopologyLocally = (devices: NetworkDevice[], zones: NetworkZone[] = []): OptimizationResult => {
+  let next = devices;
+  const reasons = new Map<string, string>(); // Device spostato -> motivo dell'ultimo spostamento
+  const move = (device: NetworkDevice, parentId: string, reason: string) => {
+    if (device.parentId === parentId || isInSubtree(next, device.id, parentId)) return;
+    reasons.set(device.id, reason);
+    next = next.map(d => (d.id === device.id ? { ...d, parentId } : d));
+  };
+  const ordered = (list: NetworkDevice[]) => [...list].sort((a, b) => a.id.localeCompare(b.id));
+
+  ordered(next).forEach(device => {
+    const current = next.find(d => d.id === device.id)!;
+    const parent = next.find(d => d.id === current.parentId);
+    if (!parent || !LEAF_TYPES.includes(parent.type)) return;
+    const target = getUpstreamPath(next, current.id).find(d => INFRASTRUCTURE_TYPES.includes(d.type));
+    if (target) move(current, target.id, `${parent.name} è un host finale`);
+  });
+
+  ordered(next.filter(d => d.type === DeviceType.ROUTER)).forEach(router => {
+    const ctx = createContext(next, zones);
+    const mainSwitch = findMainSwitch(ctx, router.id);
+    if (!mainSwitch) return;
+    ordered(ctx.children.get(router.id) || [])
+      .filter(d => isWiredHostOnRouter(ctx, d))
+      .forEach(host => move(host, mainSwitch.id, 'host cablato sul router'));
+  });
+
+  // Un device spostato da più regole compare una sola volta, con la posizione finale
+  const nameOf = (id: string | null) => (id ? devices.find(d => d.id === id)?.name || id : 'radice');
+  const moves = next.flatMap((d, i) => (reasons.has(d.id) && d.parentId !== devices[i].parentId
+    ? [`- ${d.name}: da ${nameOf(devices[i].parentId)} a ${nameOf(d.parentId)} (${reasons.get(d.id)})`]
+    : []));
+  const remaining = analyzeNetworkLocally(next, zones).filter(f => !FIXABLE_RULES.includes(f.ruleId));
+  const explanation = [
+    '### Ottimizzazione locale (regole)',
+    '',
+    moves.length > 0 ? `Spostamenti proposti (${moves.length}):` : 'Nessuno spostamento necessario: la struttura rispetta già le regole.',
+    ...(moves.length > 0 ? ['', ...moves] : []),
+    ...(remaining.length > 0
+      ? ['', '**Da valutare a mano**', '', ...remaining.map(f => `- [${SEVERITY_LABELS[f.severity]}] ${f.title}${f.recommendation ? `: ${f.recommendation}` : ''}`)]
+      : [])
+  ].join('\n');
+  return { explanation, optimizedTopology: next };
+};
@@ -0,0 +1,205 @@
+import * as d3 from 'd3';
+import { NetworkDevice, NetworkZone, DeviceType, DeviceLink } from '../types';
+import { ipToInt } from './scanTargets';
+import { NODE_WIDTH, NODE_HEIGHT, LayoutNode } from './topologyLayout';
+
+const STORAGE_KEY = 'netvisio_zones';
+
+export const ZONE_COLORS = ['#6366f1', '#ef4444', '#f59e0b', '#06b6d4', '#10b981', '#ec4899', '#84cc16', '#a855f7'];
+
+// Zone tipiche di una rete segmentata; VLAN e subnet vanno completate per ogni cliente
+export const DEFAULT_ZONES: NetworkZone[] = [
+  { id: 'lan', name: 'LAN', color: '#6366f1', vlanIds: [], subnets: [] },
+  { id: 'dmz', name: 'DMZ', color: '#ef4444', vlanIds: [], subnets: [] },
+  { id: 'guest', name: 'Guest', color: '#f59e0b', vlanIds: [], subnets: [] },
+  { id: 'iot', name: 'IoT', color: '#06b6d4', vlanIds: [], subnets: [] }
+];
+
+export const loadZones = (): NetworkZone[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_ZONES;
+  } catch {
+    return DEFAULT_ZONES;
+  }
+};
+
+export const saveZones = (zones: NetworkZone[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+};
+
+export const isValidVlanId = (value: number) => Number.isInteger(value) && value >= 1 && value <= 4094;
+
+/**
+ * Interpreta "10.0.20.0/24" restituendo primo indirizzo e ampiezza del blocco.
+ * Un IP senza prefisso vale come /32.
+ */
+export const parseSubnet = (cidr: string): { network: number; size: number; prefix: number } | null => {
+  const [base, bits, ...rest] = cidr.trim().split('/');
+  if (rest.length) return null;
+  const baseInt = ipToInt(base);
+  const prefix = bits === undefined ? 32 : Number(bits);
+  if (baseInt === null || (bits !== undefined && !/^\d{1,2}$/.test(bits)) || prefix > 32) return null;
+  const size = 2 ** (32 - prefix);
+  return { network: baseInt - (baseInt % size), size, prefix };
+};
+
+// Indirizzo di interfaccia: IP con prefisso opzionale
+export const isValidInterfaceAddress = (address: string) => parseSubnet(address) !== null;
+
+// Tutti gli IP del device: principale più quelli delle interfacce, senza prefisso
+export const getDeviceAddresses = (device: NetworkDevice): string[] => {
+  const extra = (device.interfaces || []).flatMap(i => i.addresses.map(a => a.split('/')[0].trim()));
+  return [...new Set([device.ip, ...extra].filter(Boolean))];
+};
+
+export const getDeviceVlans = (device: NetworkDevice): number[] =>
+  [...new Set([device.vlanId, ...(device.interfaces || []).map(i => i.vlanId)].filter((v): v is number => v !== undefined))];
+
+/**
+ * Zona del device: quella assegnata a mano, altrimenti la prima zona che contiene
+ * una delle sue VLAN, altrimenti la subnet più specifica che contiene uno dei suoi IP.
+ */
+export const resolveDeviceZone = (device: NetworkDevice, zones: NetworkZone[]): NetworkZone | null => {
+  if (device.zoneId) return zones.find(z => z.id === device.zoneId) ?? null;
+
+  const vlans = getDeviceVlans(device);
+  const byVlan = zones.find(z => z.vlanIds.some(v => vlans.includes(v)));
+  if (byVlan) return byVlan;
+
+  const addresses = getDeviceAddresses(device).map(ipToInt).filter((v): v is number => v !== null);
+  let best: NetworkZone | null = null;
+  let bestPrefix = -1;
+  for (const zone of zones) {
+    for (const cidr of zone.subnets) {
+      const subnet = parseSubnet(cidr);
+      if (!subnet || subnet.prefix <= bestPrefix) continue;
+      if (addresses.some(a => a >= subnet.network && a < subnet.network + subnet.size)) {
+        best = zone;
+        bestPrefix = subnet.prefix;
+      }
+    }
+  }
+  return best;
+};
+
+// --- Zone compresse sulla mappa ---
+
+export const ZONE_NODE_PREFIX = 'zone:';
+
+export const isZoneNode = (deviceId: string) => deviceId.startsWith(ZONE_NODE_PREFIX);
+
+/**
+ * Sostituisce i device di ogni zona compressa con un unico nodo di sintesi.
+ * Il nodo prende il padre del membro più vicino alla radice: i device esterni
+ * collegati ai membri vengono riagganciati al nodo senza creare cicli.
+ */
+export const collapseZones = (devices: NetworkDevice[], zones: NetworkZone[], collapsedIds: string[]): NetworkDevice[] => {
+  if (collapsedIds.length === 0) return devices;
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const depth = (d: NetworkDevice) => {
+    const visited = new Set<string>();
+    let current: NetworkDevice | undefined = d;
+    while (current?.parentId && !visited.has(current.id)) {
+      visited.add(current.id);
+      current = byId.get(current.parentId);
+    }
+    return visited.size;
+  };
+
+  // id del membro → id del nodo di sintesi
+  const replacement = new Map<string, string>();
+  const summaries: NetworkDevice[] = [];
+  zones.filter(z => collapsedIds.includes(z.id)).forEach(zone => {
+    const members = devices.filter(d => resolveDeviceZone(d, zones)?.id === zone.id);
+    if (members.length === 0) return;
+    const nodeId = `${ZONE_NODE_PREFIX}${zone.id}`;
+    members.forEach(m => replacement.set(m.id, nodeId));
+    const top = members.reduce((a, b) => (depth(b) < depth(a) ? b : a));
+    const online = members.filter(m => m.status !== 'offline').length;
+    summaries.push({
+      id: nodeId,
+      ip: '',
+      mac: '',
+      name: `${zone.name} (${members.length})`,
+      manufacturer: '',
+      type: DeviceType.SWITCH,
+      parentId: top.parentId,
+      status: online === members.length ? 'online' : online === 0 ? 'offline' : 'warning',
+      zoneId: zone.id
+    });
+  });
+
+  const remap = (id: string | null) => (id && replacement.has(id) ? replacement.get(id)! : id);
+  const remapLinks = (d: NetworkDevice, ownId: string, parentId: string | null): DeviceLink[] | undefined => {
+    const links = (d.links || [])
+      .map(l => ({ ...l, peerId: remap(l.peerId)! }))
+      .filter(l => l.peerId !== ownId && l.peerId !== parentId);
+    return links.length ? links : undefined;
+  };
+
+  // I collegamenti dei membri verso l'esterno passano al nodo di sintesi (uno per peer)
+  summaries.forEach(summary => {
+    summary.parentId = remap(summary.parentId);
+    const peers = new Map<string, DeviceLink>();
+    devices.filter(d => replacement.get(d.id) === summary.id).forEach(m => {
+      remapLinks(m, summary.id, summary.parentId)?.forEach(l => { if (!peers.has(l.peerId)) peers.set(l.peerId, l); });
+    });
+    if (peers.size) summary.links = [...peers.values()];
+  });
+
+  const kept = devices.filter(d => !replacement.has(d.id)).map(d => {
+    const parentId = remap(d.parentId);
+    return { ...d, parentId, links: remapLinks(d, d.id, parentId) };
+  });
+  return [...kept, ...summaries];
+};
+
+// --- Contorni delle zone ---
+
+const HULL_PADDING = 18;
+
+export interface ZoneHull {
+  zone: NetworkZone;
+  path: string;
+  labelX: number;
+  labelY: number;
+  count: number; // Nodi visibili nella zona (1 se compressa)
+  collapsed: boolean;
+}
+
+/**
+ * Inviluppo convesso delle card di ogni zona, allargato di un margine.
+ * Usato sia dalla mappa sia dall'export SVG.
+ */
+export const computeZoneHulls = (nodes: LayoutNode[], zones: NetworkZone[]): ZoneHull[] =>
+  zones.flatMap(zone => {
+    const members = nodes.filter(n => resolveDeviceZone(n.device, zones)?.id === zone.id);
+    if (members.length === 0) return [];
+    const w = NODE_WIDTH / 2 + HULL_PADDING;
+    const h = NODE_HEIGHT / 2 + HULL_PADDING;
+    const corners = members.flatMap(n => [
+      [n.x - w, n.y - h], [n.x + w, n.y - h], [n.x + w, n.y + h], [n.x - w, n.y + h]
+    ] as [number, number][]);
+    const hull = d3.polygonHull(corners);
+    if (!hull) return [];
+    return [{
+      zone,
+      path: `M${hull.map(p => p.join(',')).join('L')}Z`,
+      labelX: Math.min(...hull.map(p => p[0])) + 6,
+      labelY: Math.min(...hull.map(p => p[1])) - 6,
+      count: members.length,
+      collapsed: members.some(n => isZoneNode(n.device.id))
+    }];
+  });
+
+export const formatZoneHullLabel = (hull: ZoneHull) =>
+  hull.collapsed ? `▸ ${hull.zone.name}` : `▾ ${hull.zone.name} · ${hull.count}`;
+
+export const createZone = (existing: NetworkZone[]): NetworkZone => ({
+  id: `zone-${Date.now().toString(36)}`,
+  name: `Zona ${existing.length + 1}`,
+  color: ZONE_COLORS[existing.length % ZONE_COLORS.length],
+  vlanIds: [],
+  subnets: []
+});
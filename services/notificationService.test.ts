@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dispatchAlert } from './notificationService';
+import { Alert, AlertRule } from '../types';
+
+const alert: Alert = { id: 'a1', key: 'rule-router|ip:192.168.1.1', ruleId: 'rule-router', ruleName: 'Router irraggiungibile', severity: 'critical', message: 'Router Gateway (192.168.1.1) non risponde', state: 'active', raisedAt: 0 };
+const rule: AlertRule = { id: 'rule-router', name: 'Router irraggiungibile', kind: 'router_unreachable', enabled: true, severity: 'critical', notifyBrowser: true, notifyWebhook: true };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('dispatchAlert', () => {
+  it('inoltra al webhook anche se il browser rifiuta la notifica', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetch = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('Notification', Object.assign(function Notification() { throw new TypeError('Illegal constructor'); }, { permission: 'granted' }));
+    await expect(dispatchAlert(alert, rule, 'http://192.168.1.10/hook')).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('Notifica del browser non mostrata', expect.any(TypeError));
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
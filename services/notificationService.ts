@@ -0,0 +1,54 @@
+import { Alert, AlertRule } from '../types';
+
+export const isBrowserNotificationSupported = () => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isBrowserNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const showBrowserNotification = (alert: Alert) => {
+  if (!isBrowserNotificationSupported() || Notification.permission !== 'granted') return;
+  new Notification(`NetVisio · ${alert.ruleName}`, {
+    body: alert.message,
+    tag: alert.key // Il browser sostituisce notifiche con lo stesso tag invece di accumularle
+  });
+};
+
+/**
+ * Invia l'allarme a un webhook generico (es. un ricevitore locale).
+ * Content-Type text/plain e mode no-cors: richiesta "semplice" senza preflight CORS,
+ * così funziona anche con ricevitori che non gestiscono OPTIONS. Il corpo è comunque JSON.
+ */
+const postWebhook = async (url: string, alert: Alert) => {
+  await fetch(url, {
+    method: 'POST',
+    mode: 'no-cors',
+    headers: { 'Content-Type': 'text/plain' },
+    body: JSON.stringify({ source: 'netvisio', event: `alert.${alert.state}`, alert })
+  });
+};
+
+/**
+ * Inoltra un allarme sui canali abilitati dalla regola. Gli errori di consegna
+ * vengono solo loggati: non devono interrompere la valutazione delle regole.
+ */
+export const dispatchAlert = async (alert: Alert, rule: AlertRule | undefined, webhookUrl: string) => {
+  if (!rule) return;
+  if (rule.notifyBrowser) {
+    // Su Android (Chrome) il costruttore Notification lancia "Illegal constructor": servirebbe un service worker
+    try {
+      showBrowserNotification(alert);
+    } catch (e) {
+      console.warn("Notifica del browser non mostrata", e);
+    }
+  }
+  if (rule.notifyWebhook && webhookUrl) {
+    try {
+      await postWebhook(webhookUrl, alert);
+    } catch (e) {
+      console.warn("Webhook allarmi non raggiungibile", e);
+    }
+  }
+};
@@ -0,0 +1,281 @@
+const STORAGE_KEY = 'netvisio_oui_registry';
+
+// Registro IEEE completo (MA-L, MA-M, MA-S) incluso nell'app, nel formato compatto e
+// compresso con gzip: si rigenera con scripts/build-oui-registry.mjs
+const BUNDLED_REGISTRY_URL = new URL('./ouiRegistry.tsv.gz', import.meta.url);
+
+export type OuiBlock = 'MA-L' | 'MA-M' | 'MA-S';
+
+// Lunghezza del prefisso in cifre esadecimali per ogni tipo di blocco IEEE
+const BLOCK_DIGITS: Record<OuiBlock, number> = { 'MA-L': 6, 'MA-M': 7, 'MA-S': 9 };
+const BLOCKS_BY_SPECIFICITY: OuiBlock[] = ['MA-S', 'MA-M', 'MA-L'];
+
+const blockForDigits = (digits: number): OuiBlock | null =>
+  (Object.keys(BLOCK_DIGITS) as OuiBlock[]).find(b => BLOCK_DIGITS[b] === digits) ?? null;
+
+export interface OuiEntry {
+  prefix: string; // Cifre esadecimali maiuscole, senza separatori
+  vendor: string;
+}
+
+interface OuiIndex {
+  prefixes: Map<string, string>;
+  source: 'bundled' | 'custom';
+  updatedAt?: string;
+}
+
+export interface OuiRegistryInfo {
+  source: 'bundled' | 'custom';
+  updatedAt?: string;
+  counts: Record<OuiBlock, number>;
+}
+
+export interface VendorMatch {
+  vendor: string;
+  block: OuiBlock;
+}
+
+/**
+ * Tipo di indirizzo MAC:
+ * - global: assegnato dal produttore, il prefisso identifica il vendor
+ * - random: bit "locally administered" attivo, tipico degli indirizzi privati di iOS/Android/Windows
+ * - multicast: bit di gruppo attivo, non appartiene a un singolo device
+ */
+export type MacKind = 'global' | 'random' | 'multicast' | 'invalid';
+
+// --- Normalizzazione ---
+
+// Accetta 00:11:22:33:44:55, 00-11-22-33-44-55, 0011.2233.4455 e 001122334455
+export const macToHex = (mac: string): string | null => {
+  const hex = mac.trim().replace(/[\s:.-]/g, '').toUpperCase();
+  return /^[0-9A-F]{12}$/.test(hex) ? hex : null;
+};
+
+export const getMacKind = (mac: string): MacKind => {
+  const hex = macToHex(mac);
+  if (!hex) return 'invalid';
+  const firstOctet = parseInt(hex.slice(0, 2), 16);
+  if (firstOctet & 0x01) return 'multicast';
+  if (firstOctet & 0x02) return 'random';
+  return 'global';
+};
+
+export const isRandomizedMac = (mac: string) => getMacKind(mac) === 'random';
+
+// --- Formato compatto ---
+
+const parseCompactRegistry = (text: string): Map<string, string> => {
+  const prefixes = new Map<string, string>();
+  text.split('\n').forEach(line => {
+    const [vendor, list] = line.split('\t');
+    if (!vendor || !list) return;
+    list.trim().split(/\s+/).forEach(prefix => prefixes.set(prefix, vendor));
+  });
+  return prefixes;
+};
+
+const buildCompactRegistry = (prefixes: Map<string, string>): string => {
+  const byVendor = new Map<string, string[]>();
+  prefixes.forEach((vendor, prefix) => byVendor.set(vendor, [...(byVendor.get(vendor) || []), prefix]));
+  return [...byVendor].map(([vendor, list]) => `${vendor}\t${list.sort().join(' ')}`).join('\n');
+};
+
+// --- Registri IEEE ---
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells;
+};
+
+// I nomi nei registri IEEE hanno spesso spazi di troppo e tabulazioni
+const cleanVendor = (name: string) => name.replace(/\s+/g, ' ').trim();
+
+/**
+ * Legge un registro scaricato dall'IEEE o da Wireshark. Formati riconosciuti:
+ * - CSV IEEE (oui.csv, mam.csv, oui36.csv): Registry,Assignment,Organization Name,...
+ * - TXT IEEE (oui.txt): "00-00-0C   (hex)		Cisco Systems, Inc"
+ * - manuf di Wireshark: "00:1B:C5:00:00:00/36	Vendor	Nome completo"
+ * Lancia un errore se il file non contiene voci valide.
+ */
+export const parseOuiRegistry = (text: string): OuiEntry[] => {
+  const entries: OuiEntry[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  if (/^Registry,Assignment,Organization Name/i.test(lines[0] || '')) {
+    lines.slice(1).forEach(line => {
+      const [, assignment, vendor] = splitCsvLine(line);
+      const prefix = (assignment || '').trim().toUpperCase();
+      if (/^[0-9A-F]+$/.test(prefix) && blockForDigits(prefix.length) && vendor?.trim()) {
+        entries.push({ prefix, vendor: cleanVendor(vendor) });
+      }
+    });
+  } else {
+    lines.forEach(line => {
+      const txt = line.match(/^\s*([0-9A-F]{2})-([0-9A-F]{2})-([0-9A-F]{2})\s+\(hex\)\s+(.+)$/i);
+      if (txt) {
+        entries.push({ prefix: `${txt[1]}${txt[2]}${txt[3]}`.toUpperCase(), vendor: cleanVendor(txt[4]) });
+        return;
+      }
+      const manuf = line.match(/^([0-9A-F]{2}(?:[:-][0-9A-F]{2}){2,5})(?:\/(\d{2}))?\t([^\t#]+)(?:\t([^\t#]+))?/i);
+      if (!manuf) return;
+      const hex = manuf[1].replace(/[:-]/g, '').toUpperCase();
+      const bits = manuf[2] ? Number(manuf[2]) : 24;
+      const prefix = hex.slice(0, bits / 4);
+      if (bits % 4 === 0 && prefix.length === bits / 4 && blockForDigits(prefix.length)) {
+        entries.push({ prefix, vendor: cleanVendor(manuf[4] || manuf[3]) });
+      }
+    });
+  }
+
+  if (entries.length === 0) throw new Error("Nessuna voce OUI riconosciuta: attesi oui.csv/mam.csv/oui36.csv IEEE, oui.txt o manuf di Wireshark.");
+  return entries;
+};
+
+// --- Persistenza (compressa con gzip quando il browser lo supporta) ---
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const pipeText = async (text: string, stream: CompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(stream)).arrayBuffer());
+
+const compress = async (text: string): Promise<string> =>
+  typeof CompressionStream === 'undefined' ? `raw:${text}` : `gz:${toBase64(await pipeText(text, new CompressionStream('gzip')))}`;
+
+const gunzip = (bytes: Uint8Array): Promise<string> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+
+const decompress = async (stored: string): Promise<string> => {
+  if (stored.startsWith('raw:')) return stored.slice(4);
+  return gunzip(fromBase64(stored.slice(3)));
+};
+
+// Alcuni server inviano il file già decompresso (Content-Encoding): lo si riconosce dall'intestazione gzip
+const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+let bundledRegistry: Promise<Map<string, string>> | null = null;
+
+// Scaricato dall'app stessa (nessuna richiesta esterna) e letto una sola volta
+const loadBundledRegistry = (): Promise<Map<string, string>> => {
+  bundledRegistry ??= fetch(BUNDLED_REGISTRY_URL)
+    .then(response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then(async buffer => {
+      const bytes = new Uint8Array(buffer);
+      return parseCompactRegistry(isGzip(bytes) ? await gunzip(bytes) : new TextDecoder().decode(bytes));
+    })
+    .catch(e => {
+      bundledRegistry = null;
+      throw e;
+    });
+  return bundledRegistry;
+};
+
+// --- Indice attivo ---
+
+let activeIndex: OuiIndex = { prefixes: new Map(), source: 'bundled' };
+
+/**
+ * Carica il registro incluso nell'app e poi quello aggiornato salvato in precedenza,
+ * se presente. Fino al completamento nessun produttore viene riconosciuto.
+ */
+export const loadOuiRegistry = async (): Promise<void> => {
+  try {
+    activeIndex = { prefixes: await loadBundledRegistry(), source: 'bundled' };
+  } catch (e) {
+    console.warn("Registro OUI incluso non disponibile:", e);
+  }
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return;
+  try {
+    const { updatedAt, data } = JSON.parse(raw);
+    activeIndex = { prefixes: parseCompactRegistry(await decompress(data)), source: 'custom', updatedAt };
+  } catch (e) {
+    console.warn("Registro OUI salvato non leggibile, uso quello incluso:", e);
+  }
+};
+
+/**
+ * Aggiunge al registro attivo le voci di uno o più file IEEE. I prefissi già presenti
+ * vengono aggiornati, così MA-L, MA-M e MA-S si possono caricare in momenti diversi.
+ */
+export const installOuiRegistry = async (files: string[]): Promise<OuiRegistryInfo> => {
+  const prefixes = new Map(activeIndex.prefixes);
+  files.forEach(text => parseOuiRegistry(text).forEach(e => prefixes.set(e.prefix, e.vendor)));
+  const updatedAt = new Date().toISOString();
+  const data = await compress(buildCompactRegistry(prefixes));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ updatedAt, data }));
+  } catch {
+    throw new Error("Spazio di archiviazione del browser esaurito: impossibile salvare il registro OUI.");
+  }
+  activeIndex = { prefixes, source: 'custom', updatedAt };
+  return getOuiRegistryInfo();
+};
+
+export const resetOuiRegistry = async (): Promise<OuiRegistryInfo> => {
+  localStorage.removeItem(STORAGE_KEY);
+  activeIndex = { prefixes: await loadBundledRegistry().catch(() => new Map<string, string>()), source: 'bundled' };
+  return getOuiRegistryInfo();
+};
+
+export const getOuiRegistryInfo = (): OuiRegistryInfo => {
+  const counts: Record<OuiBlock, number> = { 'MA-L': 0, 'MA-M': 0, 'MA-S': 0 };
+  activeIndex.prefixes.forEach((_, prefix) => {
+    const block = blockForDigits(prefix.length);
+    if (block) counts[block]++;
+  });
+  return { source: activeIndex.source, updatedAt: activeIndex.updatedAt, counts };
+};
+
+// --- Ricerca ---
+
+/**
+ * Produttore dal prefisso del MAC, cercando prima i blocchi più specifici (MA-S,
+ * MA-M) e poi MA-L. Gli indirizzi casuali e multicast non hanno produttore.
+ */
+export const lookupVendor = (mac: string): VendorMatch | null => {
+  const hex = macToHex(mac);
+  if (!hex || getMacKind(mac) !== 'global') return null;
+  for (const block of BLOCKS_BY_SPECIFICITY) {
+    const vendor = activeIndex.prefixes.get(hex.slice(0, BLOCK_DIGITS[block]));
+    if (vendor) return { vendor, block };
+  }
+  return null;
+};
+
+// Valori segnaposto scritti da scanner, parser e versioni precedenti dell'app
+const UNKNOWN_MANUFACTURERS = ['', 'Sconosciuto', 'Sconosciuto (Offline)', 'Generic Network Device'];
+
+export const isUnknownManufacturer = (manufacturer: string | undefined) =>
+  UNKNOWN_MANUFACTURERS.includes((manufacturer || '').trim());
+
+/**
+ * Completa il produttore dal registro OUI se il device ha un MAC reale e il
+ * produttore non è noto. Un produttore inserito a mano non viene mai sovrascritto.
+ */
+export const withResolvedVendor = <T extends { mac: string; manufacturer: string }>(device: T): T => {
+  if (!isUnknownManufacturer(device.manufacturer)) return device;
+  const match = lookupVendor(device.mac);
+  return match ? { ...device, manufacturer: match.vendor } : device;
+};
@@ -0,0 +1,212 @@
+import { ProbeResult, HttpBanner } from '../types';
+
+/**
+ * Strategia di sonda: verifica la presenza di un host con una singola tecnica browser.
+ * Ogni sonda deve risolvere sempre (mai lanciare) entro timeoutMs.
+ */
+export interface ProbeStrategy {
+  id: string;
+  label: string;
+  run: (ip: string, timeoutMs: number, signal?: AbortSignal) => Promise<ProbeResult>;
+}
+
+// Da una pagina HTTPS il browser blocca subito ogni richiesta http:// e ws://:
+// un errore immediato in quel caso non dice nulla sull'host.
+const isMixedContentBlocked = (scheme: 'http' | 'https' | 'ws' | 'wss') =>
+  typeof window !== 'undefined' && window.location.protocol === 'https:' && (scheme === 'http' || scheme === 'ws');
+
+const formatHost = (ip: string, port: number, defaultPort: number) =>
+  port === defaultPort ? ip : `${ip}:${port}`;
+
+/**
+ * Esegue la logica comune alle sonde basate su eventi: risolve al primo evento,
+ * oppure come "nessuna risposta" allo scadere del timeout o all'abort esterno.
+ * open = il servizio ha risposto davvero, non solo lo stack TCP/IP con un rifiuto.
+ */
+const timedProbe = (
+  probeId: string,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  start: (settle: (detail: string, open?: boolean) => void) => () => void
+): Promise<ProbeResult> =>
+  new Promise(resolve => {
+    const t0 = performance.now();
+    let done = false;
+    let cleanup = () => {};
+
+    const finish = (result: ProbeResult) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      cleanup();
+      resolve(result);
+    };
+    const onAbort = () => finish({ probeId, responded: false, detail: 'Annullata' });
+    const timer = setTimeout(() => finish({ probeId, responded: false, detail: 'Timeout' }), timeoutMs);
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort);
+
+    cleanup = start((detail, open) =>
+      finish({ probeId, responded: true, latency: Math.round(performance.now() - t0), detail, ...(open && { open }) })
+    );
+  });
+
+/**
+ * Sonda HTTP/HTTPS via fetch HEAD no-cors.
+ * Risposta opaca = servizio web attivo. Errore prima del timeout (RST, blocco CORS,
+ * certificato non valido) = stack TCP/IP presente; la latenza è quella realmente misurata.
+ */
+export const createHttpProbe = (scheme: 'http' | 'https', port: number): ProbeStrategy => {
+  const id = `${scheme}-${port}`;
+  return {
+    id,
+    label: `${scheme.toUpperCase()} :${port}`,
+    run: (ip, timeoutMs, signal) => {
+      if (isMixedContentBlocked(scheme)) {
+        return Promise.resolve({ probeId: id, responded: false, detail: 'Bloccata (Mixed Content)' });
+      }
+      return timedProbe(id, timeoutMs, signal, settle => {
+        const controller = new AbortController();
+        fetch(`${scheme}://${formatHost(ip, port, scheme === 'http' ? 80 : 443)}`, {
+          method: 'HEAD',
+          mode: 'no-cors',
+          signal: controller.signal
+        })
+          .then(() => settle('Servizio web attivo', true))
+          .catch((err: any) => {
+            if (err?.name !== 'AbortError') settle('Connessione rifiutata o bloccata');
+          });
+        return () => controller.abort();
+      });
+    }
+  };
+};
+
+/**
+ * Sonda WebSocket: misura il tempo fino all'apertura o al rifiuto dell'handshake.
+ */
+export const createWebSocketProbe = (port: number): ProbeStrategy => {
+  const id = `ws-${port}`;
+  return {
+    id,
+    label: `WebSocket :${port}`,
+    run: (ip, timeoutMs, signal) => {
+      if (isMixedContentBlocked('ws')) {
+        return Promise.resolve({ probeId: id, responded: false, detail: 'Bloccata (Mixed Content)' });
+      }
+      return timedProbe(id, timeoutMs, signal, settle => {
+        let ws: WebSocket;
+        try {
+          ws = new WebSocket(`ws://${ip}:${port}`);
+        } catch {
+          settle('Handshake rifiutato');
+          return () => {};
+        }
+        ws.onopen = () => settle('Handshake completato', true);
+        ws.onerror = () => settle('Handshake rifiutato');
+        ws.onclose = () => settle('Connessione chiusa');
+        return () => {
+          ws.onopen = ws.onerror = ws.onclose = null;
+          ws.close();
+        };
+      });
+    }
+  };
+};
+
+/**
+ * Sonda immagine: carica /favicon.ico. onload = server web reale, onerror veloce = host presente.
+ */
+export const createImageProbe = (port: number): ProbeStrategy => {
+  const id = `img-${port}`;
+  return {
+    id,
+    label: `Immagine :${port}`,
+    run: (ip, timeoutMs, signal) => {
+      if (isMixedContentBlocked('http')) {
+        return Promise.resolve({ probeId: id, responded: false, detail: 'Bloccata (Mixed Content)' });
+      }
+      return timedProbe(id, timeoutMs, signal, settle => {
+        const img = new Image();
+        img.onload = () => settle('Favicon caricata', true);
+        img.onerror = () => settle('Risposta non immagine o rifiutata');
+        img.src = `http://${formatHost(ip, port, 80)}/favicon.ico?_=${Date.now()}`;
+        return () => {
+          img.onload = img.onerror = null;
+          img.src = '';
+        };
+      });
+    }
+  };
+};
+
+// Porta del servizio sondato, ricavata dall'id (es. 'https-8443' -> 8443)
+export const getProbePort = (probeId: string): number | null => {
+  const port = Number(probeId.split('-').pop());
+  return Number.isInteger(port) && port > 0 ? port : null;
+};
+
+/**
+ * Legge header Server e <title> della pagina principale. Riesce solo se il device
+ * risponde con header CORS (Access-Control-Allow-Origin, e Expose-Headers per Server):
+ * negli altri casi la risposta è opaca e si ottiene null. Non lancia mai.
+ */
+export const fetchHttpBanner = async (
+  ip: string,
+  scheme: 'http' | 'https',
+  port: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<HttpBanner | null> => {
+  if (isMixedContentBlocked(scheme)) return null;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const response = await fetch(`${scheme}://${formatHost(ip, port, scheme === 'http' ? 80 : 443)}/`, {
+      mode: 'cors',
+      signal: controller.signal
+    });
+    const server = response.headers.get('server')?.trim() || undefined;
+    const html = (await response.text()).slice(0, 64 * 1024);
+    const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1].replace(/\s+/g, ' ').trim() || undefined;
+    return server || title ? { port, server, title } : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Catalogo delle sonde selezionabili dall'utente
+export const PROBE_CATALOG: ProbeStrategy[] = [
+  createHttpProbe('http', 80),
+  createHttpProbe('https', 443),
+  createHttpProbe('http', 8080),
+  createHttpProbe('https', 8443),
+  createHttpProbe('http', 631), // IPP / CUPS
+  createHttpProbe('http', 9100), // JetDirect
+  createWebSocketProbe(80),
+  createImageProbe(80)
+];
+
+export const DEFAULT_PROBE_IDS = ['http-80'];
+
+export const getProbesByIds = (ids: string[]): ProbeStrategy[] => {
+  const selected = PROBE_CATALOG.filter(p => ids.includes(p.id));
+  return selected.length > 0 ? selected : PROBE_CATALOG.filter(p => DEFAULT_PROBE_IDS.includes(p.id));
+};
+
+/**
+ * Esegue tutte le sonde in parallelo sullo stesso host.
+ */
+export const runProbes = (
+  ip: string,
+  probes: ProbeStrategy[],
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ProbeResult[]> => Promise.all(probes.map(p => p.run(ip, timeoutMs, signal)));
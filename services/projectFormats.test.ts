@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ExportFormat, ProjectValidationError, exportDevices, importProject } from './projectFormats';
+import { DeviceType, NetworkDevice, NetworkZone } from '../types';
+
+const device = (d: Partial<NetworkDevice> & Pick<NetworkDevice, 'id' | 'ip' | 'type'>): NetworkDevice =>
+  ({ mac: '', name: d.ip || d.id, manufacturer: '', parentId: null, status: 'online', ...d });
+
+const devices: NetworkDevice[] = [
+  device({ id: 'gw', ip: '192.168.1.1', mac: 'A4:5E:60:AA:BB:01', name: 'Gateway', manufacturer: 'Ubiquiti', type: DeviceType.ROUTER, latency: 1.5, vlanId: 10, zoneId: 'lan' }),
+  device({ id: 'sw', ip: '', name: 'Switch <piano 1> & "rack"', type: DeviceType.SWITCH, parentId: 'gw', uplink: { medium: 'fiber', speedMbps: 10000, localPort: 'sfp1', remotePort: 'eth8' } }),
+  device({ id: 'prn', ip: '192.168.1.50', name: 'Stampante "Ufficio", 2° piano', type: DeviceType.PRINTER, parentId: 'sw', status: 'warning', latency: 230 }),
+  device({
+    id: 'cam', ip: '192.168.1.60', name: 'Telecamera\ningresso', type: DeviceType.IOT, parentId: 'sw', status: 'offline',
+    uplink: { medium: 'wifi', speedMbps: 300 },
+    links: [{ peerId: 'gw', medium: 'vpn', localPort: 'wg0' }]
+  })
+];
+
+const zones: NetworkZone[] = [{ id: 'lan', name: 'LAN', color: '#22c55e', vlanIds: [10], subnets: ['192.168.1.0/24'] }];
+
+const roundTrip = (format: ExportFormat, list = devices, name = 'Sede centrale') => importProject(exportDevices(format, list, name, undefined, zones));
+
+const validationIssues = (text: string): string[] => {
+  try {
+    importProject(text);
+  } catch (e) {
+    if (e instanceof ProjectValidationError) return e.issues;
+    throw e;
+  }
+  throw new Error('import riuscito');
+};
+
+describe('round-trip dei formati di export', () => {
+  it('JSON: progetto completo con zone e topologia ottimizzata', () => {
+    const optimized = devices.map(d => (d.id === 'prn' ? { ...d, parentId: 'gw' } : d));
+    const project = importProject(exportDevices('json', devices, 'Sede centrale', optimized, zones));
+    expect(project.name).toBe('Sede centrale');
+    expect(project.devices).toEqual(devices);
+    expect(project.optimizedTopology).toEqual(optimized);
+    expect(project.zones).toEqual(zones);
+  });
+
+  it('JSON: accetta una lista semplice di device', () => {
+    expect(importProject(JSON.stringify(devices)).devices).toEqual(devices);
+  });
+
+  it('CSV: campi con virgolette e a-capo, uplink ridotto a mezzo e velocità', () => {
+    const project = roundTrip('csv');
+    expect(project.devices).toEqual(devices.map(({ links, uplink, ...d }) => ({
+      ...d,
+      ...(uplink ? { uplink: { medium: uplink.medium, speedMbps: uplink.speedMbps } } : {})
+    })));
+  });
+
+  it.each(['graphml', 'drawio'] as const)('%s: device, gerarchia e collegamenti aggiuntivi', format => {
+    const project = roundTrip(format);
+    expect(project.devices).toEqual(devices);
+    expect(project.name).toBe(format === 'drawio' ? 'Sede centrale' : '');
+  });
+
+  it('draw.io: il nome predefinito non diventa il nome del progetto', () => {
+    expect(roundTrip('drawio', devices, '').name).toBe('');
+  });
+});
+
+describe('validazione dell\'import', () => {
+  it('riporta tutti i problemi in un solo errore', () => {
+    const raw = [
+      { id: 'a', ip: '192.168.1.300', type: 'PC' },
+      { id: 'a', ip: '192.168.1.2', type: 'tostapane' },
+      { id: 'b', ip: '192.168.1.3', type: 'pc', status: 'spento', parentId: 'x', links: [{ peerId: 'b', medium: 'laser' }] },
+      { ip: '192.168.1.4', type: 'PC', latency: 'veloce', vlanId: 5000 }
+    ];
+    expect(validationIssues(JSON.stringify(raw))).toEqual([
+      'devices[0] (id "a"): IP "192.168.1.300" non valido.',
+      'devices[1] (id "a"): id duplicato.',
+      'devices[1] (id "a"): tipo "tostapane" non valido (ammessi: ROUTER, SWITCH, PC, SERVER, PRINTER, MOBILE, IOT, CLOUD).',
+      'devices[2] (id "b"): status "spento" non valido.',
+      'devices[2] (id "b") links[0]: mezzo "laser" non valido (ammessi: ethernet, fiber, wifi, vpn).',
+      'devices[3]: campo "id" mancante.',
+      'devices[3]: latenza "veloce" non numerica.',
+      'devices[3]: VLAN "5000" non valida (1-4094).',
+      'Device "b": parentId "x" non corrisponde a nessun device.',
+      'Device "b": collegamento verso se stesso.'
+    ]);
+  });
+
+  it('copia solo i campi noti e scarta i dati di scansione malformati', () => {
+    const scanned = {
+      ...devices[0],
+      os: 'RouterOS 7',
+      typeLocked: true,
+      probes: [{ probeId: 'http-80', responded: true, latency: 3, open: true }, { responded: true }, 'ws-8080'],
+      services: [{ port: 22, protocol: 'tcp', name: 'ssh' }, { port: 70000, protocol: 'tcp' }, { port: 53, protocol: 'sctp' }],
+      httpBanners: [{ port: 80, server: 'nginx', title: 42 }, { port: '80' }],
+      fingerprint: { type: 'ROUTER', confidence: 1.4, evidence: [{ ruleId: 'oui-ubnt', field: 'vendor', value: 'Ubiquiti', type: 'ROUTER', weight: 3 }, { ruleId: 'x', field: 'colore' }] },
+      inventory: { identity: 'mac:A4:5E:60:AA:BB:01', tags: 'ufficio' },
+      adminPassword: 'segreta'
+    };
+    const [imported] = importProject(JSON.stringify([scanned, ...devices.slice(1)])).devices;
+    expect(imported).toEqual({
+      ...devices[0],
+      os: 'RouterOS 7',
+      typeLocked: true,
+      probes: [{ probeId: 'http-80', responded: true, latency: 3, open: true }],
+      services: [{ port: 22, protocol: 'tcp', name: 'ssh' }],
+      httpBanners: [{ port: 80, server: 'nginx' }],
+      fingerprint: { type: 'ROUTER', confidence: 1, evidence: [{ ruleId: 'oui-ubnt', field: 'vendor', value: 'Ubiquiti', type: 'ROUTER', weight: 3 }] }
+    });
+    expect(Object.keys(imported)).not.toContain('inventory');
+    expect(Object.keys(imported)).not.toContain('adminPassword');
+  });
+
+  it('ignora un fingerprint senza tipo o affidabilità validi', () => {
+    const raw = [{ ...devices[0], fingerprint: { type: 'TOSTAPANE', confidence: 0.5, evidence: [] } }, { ...devices[1], parentId: null, fingerprint: { type: 'SWITCH', evidence: 'molte' } }];
+    expect(importProject(JSON.stringify(raw)).devices.map(d => d.fingerprint)).toEqual([undefined, undefined]);
+  });
+
+  it('segnala ogni ciclo nella gerarchia una sola volta', () => {
+    const raw = [
+      { id: 'a', ip: '', type: 'SWITCH', parentId: 'c' },
+      { id: 'b', ip: '', type: 'SWITCH', parentId: 'a' },
+      { id: 'c', ip: '', type: 'SWITCH', parentId: 'b' }
+    ];
+    expect(validationIssues(JSON.stringify(raw))).toEqual(['Ciclo nella gerarchia: a → c → b → a.']);
+  });
+
+  it('rifiuta versioni future, formati sconosciuti e CSV incompleti', () => {
+    expect(validationIssues('{"format":"netvisio-project","version":99,"devices":[]}')).toEqual(['Versione progetto 99 non supportata (massima 1). Aggiorna NetVisio.']);
+    expect(validationIssues('{"devices":[]}')[0]).toContain('non è un progetto NetVisio');
+    expect(validationIssues('{"format":')[0]).toMatch(/^JSON non valido/);
+    expect(validationIssues('<svg></svg>')).toEqual(['Formato XML non riconosciuto: attesi GraphML o draw.io.']);
+    expect(validationIssues('id,name\n1,pc')).toEqual(['Colonne obbligatorie mancanti nel CSV: ip, type.']);
+    expect(validationIssues('   ')).toEqual(['File vuoto.']);
+  });
+
+  it('spiega come aprire un draw.io compresso', () => {
+    expect(validationIssues('<mxfile><diagram name="x">7VhNb9sw</diagram></mxfile>')[0]).toContain('Diagramma draw.io compresso');
+  });
+});
@@ -0,0 +1,580 @@
+import { NetworkDevice, DeviceType, NetVisioProject, LinkProperties, DeviceLink, LinkMedium, DeviceInterface, NetworkZone, ProbeResult, DiscoveredService, HttpBanner, DeviceFingerprint, FingerprintEvidence, FingerprintField } from '../types';
+import { ipToInt } from './scanTargets';
+import { NODE_WIDTH, NODE_HEIGHT, TYPE_COLORS, computeLayout } from './topologyLayout';
+import { LINK_MEDIA, LINK_MEDIUM_IDS, buildTopologyEdges, formatSpeed } from './topologyLinks';
+import { isValidVlanId, isValidInterfaceAddress, parseSubnet } from './networkZones';
+import { FINGERPRINT_FIELD_LABELS } from './fingerprintService';
+
+export const PROJECT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'graphml' | 'drawio';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'json', label: 'Progetto NetVisio (JSON)', extension: 'netvisio.json', mime: 'application/json' },
+  { id: 'csv', label: 'Inventario (CSV)', extension: 'csv', mime: 'text/csv' },
+  { id: 'graphml', label: 'GraphML (yEd, Gephi)', extension: 'graphml', mime: 'application/xml' },
+  { id: 'drawio', label: 'draw.io / diagrams.net', extension: 'drawio', mime: 'application/xml' }
+];
+
+/**
+ * Errore di import con l'elenco completo dei problemi trovati,
+ * così l'utente può correggere il file in un solo passaggio.
+ */
+export class ProjectValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`File non valido: ${issues.length} problemi trovati.`);
+    this.name = 'ProjectValidationError';
+    this.issues = issues;
+  }
+}
+
+const DEVICE_TYPES = Object.values(DeviceType) as string[];
+const STATUSES: NetworkDevice['status'][] = ['online', 'offline', 'warning'];
+const MAX_REPORTED_ISSUES = 50;
+
+// Valida le proprietà di un collegamento; restituisce null (e registra il problema) se non valide
+const validateLinkProperties = (raw: unknown, where: string, issues: string[]): LinkProperties | null => {
+  if (!raw || typeof raw !== 'object') {
+    issues.push(`${where}: collegamento non valido.`);
+    return null;
+  }
+  const l = raw as Record<string, unknown>;
+  const medium = (l.medium === undefined || l.medium === '' ? 'ethernet' : l.medium) as LinkMedium;
+  if (!LINK_MEDIUM_IDS.includes(medium)) issues.push(`${where}: mezzo "${String(l.medium)}" non valido (ammessi: ${LINK_MEDIUM_IDS.join(', ')}).`);
+  const speedMbps = l.speedMbps === undefined || l.speedMbps === '' || l.speedMbps === null ? undefined : Number(l.speedMbps);
+  if (speedMbps !== undefined && !(speedMbps > 0)) issues.push(`${where}: velocità "${String(l.speedMbps)}" non valida.`);
+  const port = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return { medium, speedMbps, localPort: port(l.localPort), remotePort: port(l.remotePort) };
+};
+
+// --- Dati raccolti dalla scansione ---
+// Sonde, servizi, banner e fingerprint non si modificano a mano e si rigenerano alla scansione
+// successiva: le voci malformate vengono scartate invece di bloccare l'import.
+
+type RawObject = Record<string, unknown>;
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const isPort = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535;
+
+// Lista di voci valide, undefined se non ne resta nessuna
+const validList = <T>(raw: unknown, parse: (item: RawObject) => T | null): T[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const items = raw.flatMap(item => {
+    const parsed = item && typeof item === 'object' ? parse(item as RawObject) : null;
+    return parsed ? [parsed] : [];
+  });
+  return items.length ? items : undefined;
+};
+
+const parseProbe = (p: RawObject): ProbeResult | null =>
+  typeof p.probeId === 'string' && p.probeId
+    ? { probeId: p.probeId, responded: p.responded === true, latency: optionalNumber(p.latency), detail: optionalString(p.detail), open: typeof p.open === 'boolean' ? p.open : undefined }
+    : null;
+
+const parseService = (s: RawObject): DiscoveredService | null =>
+  isPort(s.port) && (s.protocol === 'tcp' || s.protocol === 'udp')
+    ? { port: s.port, protocol: s.protocol, name: optionalString(s.name), product: optionalString(s.product) }
+    : null;
+
+const parseBanner = (b: RawObject): HttpBanner | null =>
+  isPort(b.port) ? { port: b.port, server: optionalString(b.server), title: optionalString(b.title) } : null;
+
+const FINGERPRINT_FIELDS = Object.keys(FINGERPRINT_FIELD_LABELS);
+
+const parseEvidence = (e: RawObject): FingerprintEvidence | null =>
+  typeof e.ruleId === 'string' && FINGERPRINT_FIELDS.includes(e.field as string) && typeof e.value === 'string'
+  && DEVICE_TYPES.includes(e.type as string) && optionalNumber(e.weight) !== undefined
+    ? { ruleId: e.ruleId, field: e.field as FingerprintField, value: e.value, type: e.type as DeviceType, weight: e.weight as number }
+    : null;
+
+const parseFingerprint = (raw: unknown): DeviceFingerprint | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const f = raw as RawObject;
+  const confidence = optionalNumber(f.confidence);
+  if (!DEVICE_TYPES.includes(f.type as string) || confidence === undefined) return undefined;
+  return { type: f.type as DeviceType, confidence: Math.min(1, Math.max(0, confidence)), evidence: validList(f.evidence, parseEvidence) ?? [] };
+};
+
+/**
+ * Valida una lista di device grezzi (da JSON, CSV, GraphML o draw.io) e la converte
+ * in NetworkDevice. Controlla id univoci, IPv4, DeviceType, status, riferimenti
+ * parentId e cicli. Lancia ProjectValidationError con tutti i problemi trovati.
+ * Il device è ricostruito campo per campo: chiavi sconosciute e scheda di inventario
+ * (che vive nel proprio archivio e viene riapplicata dopo l'import) non vengono copiate.
+ */
+export const validateDevices = (raw: unknown, context = 'devices'): NetworkDevice[] => {
+  if (!Array.isArray(raw)) throw new ProjectValidationError([`"${context}" deve essere una lista di device.`]);
+
+  const issues: string[] = [];
+  const devices: NetworkDevice[] = [];
+  const seen = new Set<string>();
+
+  raw.forEach((item, index) => {
+    const where = `${context}[${index}]`;
+    if (!item || typeof item !== 'object') {
+      issues.push(`${where}: non è un oggetto.`);
+      return;
+    }
+    const d = item as Record<string, unknown>;
+    const id = typeof d.id === 'string' || typeof d.id === 'number' ? String(d.id).trim() : '';
+    const label = id ? `${where} (id "${id}")` : where;
+
+    if (!id) issues.push(`${where}: campo "id" mancante.`);
+    else if (seen.has(id)) issues.push(`${label}: id duplicato.`);
+    seen.add(id);
+
+    const ip = typeof d.ip === 'string' ? d.ip.trim() : '';
+    // IP vuoto ammesso: device inseriti a mano senza indirizzo (switch non gestiti, patch panel)
+    if (ip && ipToInt(ip) === null) issues.push(`${label}: IP "${String(d.ip ?? '')}" non valido.`);
+
+    const type = typeof d.type === 'string' ? d.type.trim().toUpperCase() : '';
+    if (!DEVICE_TYPES.includes(type)) {
+      issues.push(`${label}: tipo "${String(d.type ?? '')}" non valido (ammessi: ${DEVICE_TYPES.join(', ')}).`);
+    }
+
+    const status = (d.status === undefined || d.status === '' ? 'online' : d.status) as NetworkDevice['status'];
+    if (!STATUSES.includes(status)) issues.push(`${label}: status "${String(d.status)}" non valido.`);
+
+    const latency = d.latency === undefined || d.latency === '' || d.latency === null ? undefined : Number(d.latency);
+    if (latency !== undefined && !Number.isFinite(latency)) issues.push(`${label}: latenza "${String(d.latency)}" non numerica.`);
+
+    const parentId = d.parentId === undefined || d.parentId === null || d.parentId === '' ? null : String(d.parentId);
+
+    const uplink = d.uplink === undefined || d.uplink === null ? undefined : validateLinkProperties(d.uplink, `${label} uplink`, issues) ?? undefined;
+    let links: DeviceLink[] | undefined;
+    if (d.links !== undefined && d.links !== null) {
+      if (!Array.isArray(d.links)) issues.push(`${label}: "links" deve essere una lista.`);
+      else links = d.links.flatMap((l, i) => {
+        const props = validateLinkProperties(l, `${label} links[${i}]`, issues);
+        const peerId = props && typeof (l as DeviceLink).peerId === 'string' ? (l as DeviceLink).peerId : '';
+        if (props && !peerId) issues.push(`${label} links[${i}]: campo "peerId" mancante.`);
+        return props && peerId ? [{ ...props, peerId }] : [];
+      });
+    }
+
+    const vlanId = d.vlanId === undefined || d.vlanId === null || d.vlanId === '' ? undefined : Number(d.vlanId);
+    if (vlanId !== undefined && !isValidVlanId(vlanId)) issues.push(`${label}: VLAN "${String(d.vlanId)}" non valida (1-4094).`);
+
+    let interfaces: DeviceInterface[] | undefined;
+    if (d.interfaces !== undefined && d.interfaces !== null) {
+      if (!Array.isArray(d.interfaces)) issues.push(`${label}: "interfaces" deve essere una lista.`);
+      else interfaces = d.interfaces.map((raw, i) => {
+        const itf = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+        const where = `${label} interfaces[${i}]`;
+        const itfVlan = itf.vlanId === undefined || itf.vlanId === null || itf.vlanId === '' ? undefined : Number(itf.vlanId);
+        if (itfVlan !== undefined && !isValidVlanId(itfVlan)) issues.push(`${where}: VLAN "${String(itf.vlanId)}" non valida (1-4094).`);
+        const addresses = Array.isArray(itf.addresses) ? itf.addresses.map(String) : [];
+        if (!Array.isArray(itf.addresses)) issues.push(`${where}: "addresses" deve essere una lista.`);
+        addresses.filter(a => !isValidInterfaceAddress(a)).forEach(a => issues.push(`${where}: indirizzo "${a}" non valido.`));
+        return { name: typeof itf.name === 'string' ? itf.name : '', vlanId: itfVlan, addresses };
+      });
+    }
+
+    const zoneId = typeof d.zoneId === 'string' && d.zoneId.trim() ? d.zoneId.trim() : undefined;
+
+    devices.push({
+      id,
+      ip,
+      mac: typeof d.mac === 'string' ? d.mac : '',
+      name: typeof d.name === 'string' && d.name.trim() ? d.name : ip || id,
+      manufacturer: typeof d.manufacturer === 'string' ? d.manufacturer : '',
+      type: type as DeviceType,
+      parentId,
+      status,
+      latency,
+      uplink,
+      links: links?.length ? links : undefined,
+      vlanId,
+      interfaces: interfaces?.length ? interfaces : undefined,
+      zoneId,
+      os: optionalString(d.os),
+      probes: validList(d.probes, parseProbe),
+      services: validList(d.services, parseService),
+      httpBanners: validList(d.httpBanners, parseBanner),
+      fingerprint: parseFingerprint(d.fingerprint),
+      typeLocked: d.typeLocked === true ? true : undefined
+    });
+  });
+
+  devices.forEach(d => {
+    if (d.parentId && !seen.has(d.parentId)) issues.push(`Device "${d.id}": parentId "${d.parentId}" non corrisponde a nessun device.`);
+    d.links?.forEach(l => {
+      if (!seen.has(l.peerId)) issues.push(`Device "${d.id}": collegamento verso "${l.peerId}" che non corrisponde a nessun device.`);
+      if (l.peerId === d.id) issues.push(`Device "${d.id}": collegamento verso se stesso.`);
+    });
+    if (d.parentId === d.id) issues.push(`Device "${d.id}": è padre di se stesso.`);
+  });
+
+  if (issues.length === 0) {
+    const byId = new Map(devices.map(d => [d.id, d]));
+    const reported = new Set<string>();
+    devices.forEach(start => {
+      const path = new Set<string>();
+      let current: NetworkDevice | undefined = start;
+      while (current?.parentId) {
+        if (path.has(current.id)) {
+          // Ogni ciclo viene segnalato una sola volta, partendo da uno dei suoi membri
+          const key = [...path].sort().join(',');
+          if (current.id === start.id && !reported.has(key)) issues.push(`Ciclo nella gerarchia: ${[...path].join(' → ')} → ${start.id}.`);
+          reported.add(key);
+          break;
+        }
+        path.add(current.id);
+        current = byId.get(current.parentId);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    const extra = issues.length - MAX_REPORTED_ISSUES;
+    throw new ProjectValidationError(extra > 0 ? [...issues.slice(0, MAX_REPORTED_ISSUES), `…e altri ${extra} problemi.`] : issues);
+  }
+  return devices;
+};
+
+export const validateZones = (raw: unknown): NetworkZone[] => {
+  if (!Array.isArray(raw)) throw new ProjectValidationError(['"zones" deve essere una lista di zone.']);
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  const zones = raw.map((item, index) => {
+    const z = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const id = typeof z.id === 'string' ? z.id.trim() : '';
+    const where = `zones[${index}]${id ? ` (id "${id}")` : ''}`;
+    if (!id) issues.push(`zones[${index}]: campo "id" mancante.`);
+    else if (seen.has(id)) issues.push(`${where}: id duplicato.`);
+    seen.add(id);
+    const vlanIds = Array.isArray(z.vlanIds) ? z.vlanIds.map(Number) : [];
+    vlanIds.filter(v => !isValidVlanId(v)).forEach(v => issues.push(`${where}: VLAN "${v}" non valida (1-4094).`));
+    const subnets = Array.isArray(z.subnets) ? z.subnets.map(String) : [];
+    subnets.filter(c => !parseSubnet(c)).forEach(c => issues.push(`${where}: subnet "${c}" non valida.`));
+    return {
+      id,
+      name: typeof z.name === 'string' && z.name.trim() ? z.name : id,
+      color: typeof z.color === 'string' && /^#[0-9a-f]{6}$/i.test(z.color) ? z.color : '#64748b',
+      vlanIds,
+      subnets
+    };
+  });
+  if (issues.length) throw new ProjectValidationError(issues);
+  return zones;
+};
+
+// --- JSON ---
+
+export const buildProject = (name: string, devices: NetworkDevice[], optimizedTopology?: NetworkDevice[], zones?: NetworkZone[]): NetVisioProject => ({
+  format: 'netvisio-project',
+  version: PROJECT_VERSION,
+  exportedAt: new Date().toISOString(),
+  name,
+  devices,
+  ...(optimizedTopology ? { optimizedTopology } : {}),
+  ...(zones ? { zones } : {})
+});
+
+const parseProjectJson = (text: string): NetVisioProject => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    throw new ProjectValidationError([`JSON non valido: ${e.message}`]);
+  }
+  // Una lista semplice di device viene accettata come progetto senza nome
+  if (Array.isArray(parsed)) return buildProject('', validateDevices(parsed));
+
+  const data = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+  if (data.format !== 'netvisio-project') {
+    throw new ProjectValidationError(['Il file non è un progetto NetVisio (campo "format" mancante o errato).']);
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new ProjectValidationError(['Campo "version" mancante o non valido.']);
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new ProjectValidationError([`Versione progetto ${data.version} non supportata (massima ${PROJECT_VERSION}). Aggiorna NetVisio.`]);
+  }
+  return {
+    format: 'netvisio-project',
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    name: typeof data.name === 'string' ? data.name : '',
+    devices: validateDevices(data.devices, 'devices'),
+    ...(data.optimizedTopology ? { optimizedTopology: validateDevices(data.optimizedTopology, 'optimizedTopology') } : {}),
+    ...(data.zones ? { zones: validateZones(data.zones) } : {})
+  };
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS: (keyof NetworkDevice)[] = ['id', 'ip', 'mac', 'name', 'manufacturer', 'type', 'parentId', 'status', 'latency', 'vlanId', 'zoneId'];
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Una riga per device: del collegamento a monte si esportano mezzo e velocità, i collegamenti aggiuntivi restano nei formati a grafo
+const CSV_UPLINK_COLUMNS = ['uplinkMedium', 'uplinkSpeedMbps'];
+
+export const devicesToCsv = (devices: NetworkDevice[]): string =>
+  [
+    [...CSV_COLUMNS, ...CSV_UPLINK_COLUMNS].join(','),
+    ...devices.map(d => [...CSV_COLUMNS.map(c => csvCell(d[c])), csvCell(d.uplink?.medium), csvCell(d.uplink?.speedMbps)].join(','))
+  ].join('\r\n');
+
+// Parser RFC 4180: virgolette, virgolette raddoppiate e a-capo dentro i campi
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const parseCsv = (text: string): NetVisioProject => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new ProjectValidationError(['File CSV vuoto.']);
+  const columns = header.map(h => h.trim());
+  const missing = ['id', 'ip', 'type'].filter(c => !columns.includes(c));
+  if (missing.length) throw new ProjectValidationError([`Colonne obbligatorie mancanti nel CSV: ${missing.join(', ')}.`]);
+  const raw = rows.map(cells => {
+    const { uplinkMedium, uplinkSpeedMbps, ...d } = Object.fromEntries(columns.map((c, i) => [c, cells[i]?.trim() ?? '']));
+    return uplinkMedium || uplinkSpeedMbps ? { ...d, uplink: { medium: uplinkMedium, speedMbps: uplinkSpeedMbps } } : d;
+  });
+  return buildProject('', validateDevices(raw, 'riga'));
+};
+
+// --- XML (GraphML e draw.io) ---
+
+const xmlEscape = (value: unknown): string =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new ProjectValidationError(['XML non valido.']);
+  return doc;
+};
+
+const GRAPHML_KEYS: (keyof NetworkDevice)[] = ['ip', 'mac', 'name', 'manufacturer', 'type', 'status', 'latency', 'vlanId', 'zoneId'];
+const EDGE_KEYS = ['medium', 'speedMbps', 'sourcePort', 'targetPort', 'primary'] as const;
+
+type RawDevice = Record<string, unknown> & { id: string | null; parentId: string | null; links?: DeviceLink[] };
+
+interface RawEdge {
+  source: string | null;
+  target: string | null;
+  attrs: Record<string, string | null>;
+}
+
+/**
+ * Applica gli archi importati: l'arco primario (o il primo entrante) diventa parentId,
+ * gli altri diventano collegamenti aggiuntivi del device di destinazione.
+ * source = lato a monte, come in TopologyEdge.
+ */
+const applyRawEdges = (devices: RawDevice[], edges: RawEdge[]) => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  // Prima i primari dichiarati, così un arco extra non occupa il posto del parentId
+  const ordered = [...edges].sort((a, b) => Number(b.attrs.primary === 'true') - Number(a.attrs.primary === 'true'));
+  ordered.forEach(({ source, target, attrs }) => {
+    const child = byId.get(target);
+    if (!child || !source || !byId.has(source)) return;
+    const props: LinkProperties = {
+      medium: (attrs.medium || 'ethernet') as LinkMedium,
+      ...(attrs.speedMbps ? { speedMbps: Number(attrs.speedMbps) } : {}),
+      ...(attrs.targetPort ? { localPort: attrs.targetPort } : {}),
+      ...(attrs.sourcePort ? { remotePort: attrs.sourcePort } : {})
+    };
+    if (!child.parentId && attrs.primary !== 'false') {
+      child.parentId = source;
+      const isDefault = props.medium === 'ethernet' && !props.speedMbps && !props.localPort && !props.remotePort;
+      if (!isDefault) child.uplink = props;
+    } else {
+      child.links = [...(child.links || []), { ...props, peerId: source }];
+    }
+  });
+};
+
+export const devicesToGraphML = (devices: NetworkDevice[]): string => {
+  const keys = [
+    ...GRAPHML_KEYS.map(k => `  <key id="${k}" for="node" attr.name="${k}" attr.type="${k === 'latency' ? 'double' : k === 'vlanId' ? 'int' : 'string'}"/>`),
+    ...EDGE_KEYS.map(k => `  <key id="${k}" for="edge" attr.name="${k}" attr.type="${k === 'speedMbps' ? 'double' : k === 'primary' ? 'boolean' : 'string'}"/>`)
+  ];
+  const nodes = devices.map(d => [
+    `    <node id="${xmlEscape(d.id)}">`,
+    ...GRAPHML_KEYS.filter(k => d[k] !== undefined && d[k] !== '').map(k => `      <data key="${k}">${xmlEscape(d[k])}</data>`),
+    '    </node>'
+  ].join('\n'));
+  const edges = buildTopologyEdges(devices).map((e, i) => [
+    `    <edge id="e${i}" source="${xmlEscape(e.source)}" target="${xmlEscape(e.target)}">`,
+    ...EDGE_KEYS.filter(k => e[k] !== undefined).map(k => `      <data key="${k}">${xmlEscape(e[k])}</data>`),
+    '    </edge>'
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys,
+    '  <graph id="netvisio" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+};
+
+const parseGraphML = (text: string): NetVisioProject => {
+  const doc = parseXml(text);
+  // Le chiavi possono avere id arbitrari (es. d0, d1 da yEd): si risale al nome dall'attr.name
+  const keyNames = new Map<string, string>();
+  doc.querySelectorAll('key').forEach(k => keyNames.set(k.getAttribute('id') || '', k.getAttribute('attr.name') || k.getAttribute('id') || ''));
+
+  const readData = (el: Element) => {
+    const values: Record<string, string | null> = {};
+    el.querySelectorAll(':scope > data').forEach(data => {
+      values[keyNames.get(data.getAttribute('key') || '') || ''] = data.textContent;
+    });
+    return values;
+  };
+
+  const raw: RawDevice[] = Array.from(doc.querySelectorAll('node')).map(node => ({
+    ...readData(node),
+    id: node.getAttribute('id'),
+    parentId: null
+  }));
+  applyRawEdges(raw, Array.from(doc.querySelectorAll('edge')).map(edge => ({
+    source: edge.getAttribute('source'),
+    target: edge.getAttribute('target'),
+    attrs: readData(edge)
+  })));
+  return buildProject('', validateDevices(raw, 'node'));
+};
+
+const DRAWIO_ATTRS: (keyof NetworkDevice)[] = ['ip', 'mac', 'manufacturer', 'type', 'status', 'latency', 'vlanId', 'zoneId'];
+
+/**
+ * Esporta in formato draw.io non compresso. Le posizioni sono quelle del layout
+ * gerarchico di TopologyMap; i dati di device e collegamenti restano come proprietà
+ * degli oggetti, quindi il diagramma modificato in draw.io può essere reimportato.
+ */
+export const devicesToDrawio = (devices: NetworkDevice[], name: string): string => {
+  const graph = computeLayout(devices, 'hierarchical');
+  const nodes = graph.nodes;
+  const minX = Math.min(...nodes.map(n => n.x)) - NODE_WIDTH / 2;
+  const minY = Math.min(...nodes.map(n => n.y)) - NODE_HEIGHT / 2;
+  const cellId = new Map(nodes.map((n, i) => [n.device.id, `n${i}`]));
+
+  const vertices = nodes.map(n => {
+    const d = n.device;
+    const attrs = DRAWIO_ATTRS.filter(k => d[k] !== undefined).map(k => ` ${k}="${xmlEscape(d[k])}"`).join('');
+    const style = `rounded=1;whiteSpace=wrap;fillColor=#1e293b;fontColor=#e2e8f0;strokeColor=${TYPE_COLORS[d.type]};strokeWidth=2;`;
+    return [
+      `        <object id="${cellId.get(d.id)}" label="${xmlEscape(`${d.name}\n${d.ip}`)}" netvisioId="${xmlEscape(d.id)}" name="${xmlEscape(d.name)}"${attrs}>`,
+      `          <mxCell style="${style}" vertex="1" parent="1">`,
+      `            <mxGeometry x="${Math.round(n.x - minX - NODE_WIDTH / 2)}" y="${Math.round(n.y - minY - NODE_HEIGHT / 2)}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" as="geometry"/>`,
+      '          </mxCell>',
+      '        </object>'
+    ].join('\n');
+  });
+  const edges = graph.edges.map(({ edge: e }, i) => {
+    const media = LINK_MEDIA[e.medium];
+    const style = `${e.primary ? 'edgeStyle=orthogonalEdgeStyle;' : 'curved=1;'}rounded=0;endArrow=none;strokeColor=${media.color};strokeWidth=${media.width};${media.dash ? `dashed=1;dashPattern=${media.dash.replace(',', ' ')};` : ''}fontColor=#cbd5e1;fontSize=9;`;
+    const attrs = EDGE_KEYS.filter(k => e[k] !== undefined).map(k => ` ${k}="${xmlEscape(e[k])}"`).join('');
+    return [
+      `        <object id="e${i}" label="${xmlEscape(formatSpeed(e.speedMbps))}"${attrs}>`,
+      `          <mxCell style="${style}" edge="1" parent="1" source="${cellId.get(e.source)}" target="${cellId.get(e.target)}">`,
+      '            <mxGeometry relative="1" as="geometry"/>',
+      '          </mxCell>',
+      '        </object>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<mxfile host="NetVisio" modified="${new Date().toISOString()}">`,
+    `  <diagram id="netvisio" name="${xmlEscape(name || 'Topologia')}">`,
+    '    <mxGraphModel grid="1" gridSize="10" pageWidth="1169" pageHeight="827" background="#0f172a">',
+    '      <root>',
+    '        <mxCell id="0"/>',
+    '        <mxCell id="1" parent="0"/>',
+    ...vertices,
+    ...edges,
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>'
+  ].join('\n');
+};
+
+const parseDrawio = (text: string): NetVisioProject => {
+  const doc = parseXml(text);
+  const diagram = doc.querySelector('diagram');
+  if (diagram && !diagram.querySelector('mxGraphModel')) {
+    throw new ProjectValidationError(['Diagramma draw.io compresso: salvalo disattivando "Compressed" (File › Proprietà) e riprova.']);
+  }
+  // Gli archi esportati da NetVisio sono anch'essi <object>: i device sono le forme con vertex="1"
+  const objects = Array.from(doc.querySelectorAll('object')).filter(o => o.querySelector(':scope > mxCell[vertex="1"]'));
+  if (objects.length === 0) throw new ProjectValidationError(['Nessun device NetVisio nel diagramma (forme senza proprietà "ip" e "type").']);
+
+  const byCell = new Map<string, RawDevice>();
+  objects.forEach(o => {
+    const d: Record<string, unknown> = {};
+    Array.from(o.attributes).forEach(a => { d[a.name] = a.value; });
+    byCell.set(o.getAttribute('id') || '', { ...d, id: o.getAttribute('netvisioId') || o.getAttribute('id'), parentId: null });
+  });
+
+  // La gerarchia viene dagli archi, così i collegamenti modificati in draw.io sono rispettati
+  const edges: RawEdge[] = Array.from(doc.querySelectorAll('mxCell[edge="1"]')).map(edge => {
+    const wrapper = edge.parentElement?.tagName === 'object' ? edge.parentElement : null;
+    const attrs: Record<string, string | null> = {};
+    if (wrapper) EDGE_KEYS.forEach(k => { attrs[k] = wrapper.getAttribute(k); });
+    return {
+      source: byCell.get(edge.getAttribute('source') || '')?.id ?? null,
+      target: byCell.get(edge.getAttribute('target') || '')?.id ?? null,
+      attrs
+    };
+  });
+  applyRawEdges([...byCell.values()], edges);
+
+  const raw = [...byCell.values()].map(({ label, netvisioId, ...rest }) => rest);
+  const name = diagram?.getAttribute('name') || '';
+  return buildProject(name === 'Topologia' ? '' : name, validateDevices(raw, 'object'));
+};
+
+// --- Entry point ---
+
+export const exportDevices = (format: ExportFormat, devices: NetworkDevice[], name: string, optimizedTopology?: NetworkDevice[], zones?: NetworkZone[]): string => {
+  switch (format) {
+    case 'json': return JSON.stringify(buildProject(name, devices, optimizedTopology, zones), null, 2);
+    case 'csv': return devicesToCsv(devices);
+    case 'graphml': return devicesToGraphML(devices);
+    case 'drawio': return devicesToDrawio(devices, name);
+  }
+};
+
+/**
+ * Riconosce il formato dal contenuto (non dall'estensione) e importa il progetto.
+ * Lancia ProjectValidationError con la lista dei problemi.
+ */
+export const importProject = (text: string): NetVisioProject => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new ProjectValidationError(['File vuoto.']);
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return parseProjectJson(trimmed);
+  if (/<graphml[\s>]/.test(trimmed)) return parseGraphML(trimmed);
+  if (/<mxfile[\s>]|<mxGraphModel[\s>]/.test(trimmed)) return parseDrawio(trimmed);
+  if (trimmed.startsWith('<')) throw new ProjectValidationError(['Formato XML non riconosciuto: attesi GraphML o draw.io.']);
+  return parseCsv(trimmed);
+};
@@ -0,0 +1,196 @@
+/**
+ * Scheduler a pool di worker per la scansione: mantiene N sonde in volo,
+ * adatta N in base ai tempi di risposta osservati e sceglie il timeout
+ * per ogni host dalle statistiche RTT (stimatore SRTT/RTTVAR come in RFC 6298).
+ */
+
+export interface AdaptivePoolOptions {
+  initialConcurrency?: number;
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  initialTimeoutMs?: number; // Usato finché non ci sono abbastanza campioni RTT
+  minTimeoutMs?: number;
+  maxTimeoutMs?: number;
+  signal?: AbortSignal;
+  pauseGate?: PauseGate;
+}
+
+/**
+ * Interruttore di pausa condiviso tra UI e pool: in pausa non partono nuovi worker,
+ * quelli già in volo terminano normalmente.
+ */
+export interface PauseGate {
+  isPaused: () => boolean;
+  pause: () => void;
+  resume: () => void;
+  onResume: (listener: () => void) => () => void;
+}
+
+export const createPauseGate = (): PauseGate => {
+  let paused = false;
+  const listeners = new Set<() => void>();
+  return {
+    isPaused: () => paused,
+    pause: () => { paused = true; },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      listeners.forEach(l => l());
+    },
+    onResume: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
+
+export interface RttEstimator {
+  addSample: (rtt: number) => void;
+  timeoutMs: () => number;
+  baseRtt: () => number | null;
+  sampleCount: () => number;
+}
+
+const MIN_SAMPLES_FOR_TIMEOUT = 3;
+
+export const createRttEstimator = (
+  initialTimeoutMs: number,
+  minTimeoutMs: number,
+  maxTimeoutMs: number
+): RttEstimator => {
+  let srtt: number | null = null;
+  let rttvar = 0;
+  let minRtt: number | null = null;
+  let samples = 0;
+
+  return {
+    addSample: (rtt: number) => {
+      samples++;
+      minRtt = minRtt === null ? rtt : Math.min(minRtt, rtt);
+      if (srtt === null) {
+        srtt = rtt;
+        rttvar = rtt / 2;
+      } else {
+        rttvar = 0.75 * rttvar + 0.25 * Math.abs(srtt - rtt);
+        srtt = 0.875 * srtt + 0.125 * rtt;
+      }
+    },
+    timeoutMs: () => {
+      if (srtt === null || samples < MIN_SAMPLES_FOR_TIMEOUT) return initialTimeoutMs;
+      return Math.round(Math.min(maxTimeoutMs, Math.max(minTimeoutMs, srtt + 4 * rttvar)));
+    },
+    baseRtt: () => minRtt,
+    sampleCount: () => samples
+  };
+};
+
+export const createAbortError = () => new DOMException('Scansione annullata', 'AbortError');
+
+/**
+ * Esegue il worker su tutti gli item mantenendo sempre "concurrency" chiamate in volo:
+ * appena una termina ne parte un'altra, senza attendere la fine di un intero batch.
+ *
+ * Adattamento della concorrenza (AIMD):
+ * - ogni "concurrency" completamenti senza congestione: +2 worker
+ * - RTT di un host che risponde molto oltre il minimo osservato: ×0.7 worker
+ *
+ * measure() estrae dal risultato l'RTT misurato (undefined = host che non ha risposto).
+ * Con signal abortito non parte nessun nuovo worker e la promise viene rifiutata con
+ * AbortError appena quelli in volo sono terminati (anche se il pool è in pausa).
+ */
+export const runAdaptivePool = <T, R>(
+  items: T[],
+  worker: (item: T, timeoutMs: number, signal: AbortSignal) => Promise<R>,
+  measure: (result: R) => number | undefined,
+  onResult: (result: R, item: T, completed: number) => void,
+  options: AdaptivePoolOptions = {}
+): Promise<void> => {
+  const {
+    initialConcurrency = 16,
+    minConcurrency = 4,
+    maxConcurrency = 64,
+    initialTimeoutMs = 1500,
+    minTimeoutMs = 400,
+    maxTimeoutMs = 3000
+  } = options;
+
+  // Signal interno: propaga l'abort esterno anche ai worker già in volo
+  const controller = new AbortController();
+  const external = options.signal;
+  const onExternalAbort = () => controller.abort();
+  if (external?.aborted) controller.abort();
+  external?.addEventListener('abort', onExternalAbort);
+
+  const estimator = createRttEstimator(initialTimeoutMs, minTimeoutMs, maxTimeoutMs);
+  let concurrency = Math.min(maxConcurrency, Math.max(minConcurrency, initialConcurrency));
+  let next = 0;
+  let inFlight = 0;
+  let completed = 0;
+  let sinceAdjust = 0;
+  let failure: unknown = null;
+  let settled = false;
+
+  const adapt = (rtt: number | undefined) => {
+    sinceAdjust++;
+    const base = estimator.baseRtt();
+    if (rtt !== undefined && base !== null && rtt > Math.max(base * 4, base + 200)) {
+      // Congestione: riduce e attende un giro completo prima di rivalutare
+      if (sinceAdjust >= concurrency / 2) {
+        concurrency = Math.max(minConcurrency, Math.floor(concurrency * 0.7));
+        sinceAdjust = 0;
+      }
+    } else if (sinceAdjust >= concurrency) {
+      concurrency = Math.min(maxConcurrency, concurrency + 2);
+      sinceAdjust = 0;
+    }
+    if (rtt !== undefined) estimator.addSample(rtt);
+  };
+
+  return new Promise<void>((resolve, reject) => {
+    let unsubscribeResume = () => {};
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      unsubscribeResume();
+      controller.signal.removeEventListener('abort', pump);
+      external?.removeEventListener('abort', onExternalAbort);
+      if (failure) reject(failure);
+      else if (controller.signal.aborted) reject(createAbortError());
+      else resolve();
+    };
+
+    const pump = () => {
+      const stopped = failure !== null || controller.signal.aborted;
+      if (stopped || next >= items.length) {
+        if (inFlight === 0) finish();
+        return;
+      }
+      if (options.pauseGate?.isPaused()) return;
+      while (inFlight < concurrency && next < items.length) {
+        const item = items[next++];
+        inFlight++;
+        worker(item, estimator.timeoutMs(), controller.signal)
+          .then(result => {
+            if (controller.signal.aborted) return;
+            completed++;
+            adapt(measure(result));
+            onResult(result, item, completed);
+          })
+          .catch(err => {
+            if (!failure) failure = err;
+            controller.abort();
+          })
+          .finally(() => {
+            inFlight--;
+            pump();
+          });
+      }
+    };
+
+    // Ripartenza dopo la pausa; l'abort deve chiudere il pool anche se nessun worker è in volo
+    if (options.pauseGate) unsubscribeResume = options.pauseGate.onResume(pump);
+    controller.signal.addEventListener('abort', pump);
+    pump();
+  });
+};
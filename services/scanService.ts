@@ -1,102 +1,30 @@
-import { NetworkDevice, DeviceType } from '../types';
+import { NetworkDevice, DeviceType, ScanTarget } from '../types';
+import { expandScanTarget, ipToInt } from './scanTargets';
+import { ProbeStrategy, runProbes, getProbesByIds, DEFAULT_PROBE_IDS, fetchHttpBanner, getProbePort } from './probeService';
+import { runAdaptivePool, AdaptivePoolOptions } from './scanScheduler';
+import { applyFingerprint } from './fingerprintService';
+
+export interface ScanOptions extends AdaptivePoolOptions {
+  probes?: ProbeStrategy[];
+  // Ripresa: gli host con indice < startIndex sono già stati sondati in una sessione precedente
+  startIndex?: number;
+  initialDevices?: NetworkDevice[];
+  // Emesso appena un host risponde, prima del calcolo della topologia (parentId null)
+  onDevice?: (device: NetworkDevice) => void;
+  // Emesso quando tutti gli host con indice < nextIndex sono stati sondati
+  onCheckpoint?: (nextIndex: number, devices: NetworkDevice[]) => void;
+}
 
 /**
- * Tenta di scansionare una sottorete locale (default 192.168.1.x) utilizzando fetch HTTP.
- * Poiché i browser non hanno accesso ARP/ICMP, usiamo fetch su porta 80.
- * - Timeout: Dispositivo Offline
- * - Errore immediato (Connection Refused / CORS): Dispositivo Online
+ * Collega i dispositivi trovati in un albero plausibile: router come radice e,
+ * oltre 5 dispositivi, uno "Switch Virtuale" intermedio. Modifica e restituisce l'array.
  */
-export const scanSubnet = async (
-  subnetBase: string = '192.168.1.', 
-  onProgress: (progress: number, found: number) => void
-): Promise<NetworkDevice[]> => {
-  const activeDevices: NetworkDevice[] = [];
-  const batchSize = 12; // Numero di richieste parallele
-  const timeoutMs = 1500; // Tempo massimo per considerare un IP "morto"
-  
-  // Genera range 1-254
-  const ips = Array.from({ length: 254 }, (_, i) => i + 1);
-  
-  // Helper per scansionare singolo IP
-  const checkIp = async (ipSuffix: number): Promise<NetworkDevice | null> => {
-    const ip = `${subnetBase}${ipSuffix}`;
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), timeoutMs);
-
-    try {
-      const start = performance.now();
-      // mode: 'no-cors' è fondamentale per non fallire subito su risorse opache.
-      // method: 'HEAD' è più leggero.
-      await fetch(`http://${ip}`, { method: 'HEAD', mode: 'no-cors', signal: controller.signal });
-      
-      clearTimeout(id);
-      const latency = Math.round(performance.now() - start);
-
-      // Se fetch non lancia eccezione (anche 404/500), il device c'è.
-      return createDeviceFromIp(ip, ipSuffix, latency);
-
-    } catch (err: any) {
-        clearTimeout(id);
-        
-        // Se è un AbortError, è scattato il timeout -> Device probabilmente spento
-        if (err.name === 'AbortError') return null;
-        
-        // Se è un TypeError (es. Network Error, CORS block immediato, Connection Refused veloce)
-        // Significa che c'è uno stack TCP/IP che ha risposto (Reset o Block).
-        // Spesso indica un device presente ma che non serve HTTP.
-        // Lo consideriamo "Online" ma con latenza stimata.
-        return createDeviceFromIp(ip, ipSuffix, 5);
-    }
-  };
-
-  // Helper creazione oggetto Device
-  const createDeviceFromIp = (ip: string, suffix: number, latency: number): NetworkDevice => {
-      let type = DeviceType.PC;
-      let name = `Device ${ip}`;
-      
-      // Euristiche semplici basate sull'IP
-      if (suffix === 1 || suffix === 254) {
-          type = DeviceType.ROUTER;
-          name = "Gateway / Router";
-      } else if (suffix > 200) {
-          type = DeviceType.MOBILE; // Spesso DHCP assegna IP alti ai mobile
-      } else if (suffix < 10) {
-          type = DeviceType.SERVER; // Spesso IP statici bassi sono server/switch
-      }
-
-      // MAC Address finto (non leggibile da browser) ma consistente basato sull'IP
-      const fakeMac = `00:11:22:33:44:${suffix.toString(16).padStart(2,'0').toUpperCase()}`;
-
-      return {
-        id: `auto-${ip}`,
-        ip,
-        mac: fakeMac,
-        name,
-        manufacturer: 'Generic Network Device',
-        type,
-        parentId: null, // Verrà calcolato dopo
-        status: 'online',
-        latency
-      };
-  };
-
-  // Esecuzione in batch per non saturare il browser
-  for (let i = 0; i < ips.length; i += batchSize) {
-    const batch = ips.slice(i, i + batchSize);
-    const promises = batch.map(checkIp);
-    
-    // Attendi batch
-    const results = await Promise.all(promises);
-    
-    results.forEach(res => {
-        if (res) activeDevices.push(res);
-    });
-    
-    onProgress(Math.round(((i + batchSize) / ips.length) * 100), activeDevices.length);
-  }
+export const inferTopology = (activeDevices: NetworkDevice[]): NetworkDevice[] => {
+  // I risultati arrivano in ordine di completamento: riordina per indirizzo
+  activeDevices.sort((a, b) => (ipToInt(a.ip) ?? 0) - (ipToInt(b.ip) ?? 0));
 
   // Post-Processing Topologia
-  // Cerca il router (.1 o .254)
+  // Cerca il router riconosciuto dal fingerprinting
   const router = activeDevices.find(d => d.type === DeviceType.ROUTER) || activeDevices[0];
   
   if (router && activeDevices.length > 1) {
@@ -105,7 +33,7 @@ export const scanSubnet = async (
       if (activeDevices.length > 5) {
           const switchDev: NetworkDevice = {
               id: 'virt-switch',
-              ip: `${subnetBase}2`,
+              ip: router.ip.replace(/\d+$/, '2'), // Stesso segmento del router
               mac: '00:00:00:00:00:SW',
               name: 'Switch Principale',
               manufacturer: 'Virtual Switch',
@@ -114,13 +42,14 @@ export const scanSubnet = async (
               status: 'online',
               latency: 1
           };
-          // Se l'IP .2 esiste già, lo sovrascriviamo o usiamo un altro IP fittizio
-          if (!activeDevices.find(d => d.ip === switchDev.ip)) {
-             activeDevices.push(switchDev);
-          }
-          
+          // Se l'IP .2 appartiene già a un device reale lo switch non viene aggiunto
+          // e gli host restano collegati direttamente al router
+          const inserted = !activeDevices.some(d => d.ip === switchDev.ip);
+          if (inserted) activeDevices.push(switchDev);
+          const hubId = inserted ? switchDev.id : router.id;
+
           activeDevices.forEach(d => {
-              if (d.id !== router.id && d.id !== switchDev.id) d.parentId = switchDev.id;
+              if (d.id !== router.id && d.id !== hubId) d.parentId = hubId;
           });
       } else {
           // Pochi device, attacca tutti al router
@@ -131,4 +60,109 @@ export const scanSubnet = async (
   }
 
   return activeDevices;
-};
\ No newline at end of file
+};
+
+/**
+ * Tenta di scansionare uno o più segmenti di rete locale utilizzando fetch HTTP.
+ * Il target può essere un prefisso legacy (es. "192.168.1.") oppure uno ScanTarget
+ * con CIDR, range espliciti e liste di esclusione.
+ * Poiché i browser non hanno accesso ARP/ICMP, ogni host viene verificato con le sonde
+ * selezionate (HTTP/HTTPS, porte alternative, WebSocket, immagine; default HTTP :80).
+ * - Nessuna sonda risponde entro il timeout: Dispositivo Offline
+ * - Almeno una risposta o rifiuto veloce: Dispositivo Online, con la latenza reale misurata
+ * Il tipo di ogni device è dedotto dal fingerprinting (porte che hanno risposto, header
+ * Server e titolo delle pagine web quando il device li rende leggibili).
+ * Gli host sono sondati da un pool adattivo (vedi scanScheduler); options.signal annulla
+ * la scansione e la promise viene rifiutata con AbortError, options.pauseGate la sospende.
+ * I device sono emessi in tempo reale con onDevice; onCheckpoint permette di salvare
+ * l'avanzamento e riprendere in seguito con startIndex/initialDevices.
+ */
+export const scanSubnet = async (
+  target: ScanTarget | string = '192.168.1.', 
+  onProgress: (progress: number, found: number) => void,
+  options: ScanOptions = {}
+): Promise<NetworkDevice[]> => {
+  const {
+    probes = getProbesByIds(DEFAULT_PROBE_IDS),
+    startIndex = 0,
+    initialDevices = [],
+    onDevice,
+    onCheckpoint,
+    ...poolOptions
+  } = options;
+  const activeDevices: NetworkDevice[] = [...initialDevices];
+  
+  // Espande tutti i target in un'unica lista: il progresso è calcolato sul totale degli host
+  const ips = expandScanTarget(typeof target === 'string' ? { include: [target], exclude: [] } : target);
+  
+  // Helper per scansionare singolo IP: esegue tutte le sonde e registra quelle che hanno risposto
+  const checkIp = async (ip: string, timeoutMs: number, signal: AbortSignal): Promise<NetworkDevice | null> => {
+    const results = await runProbes(ip, probes, timeoutMs, signal);
+    const answered = results.filter(r => r.responded && r.latency !== undefined);
+
+    // Nessuna sonda ha risposto entro il timeout -> Device probabilmente spento
+    if (answered.length === 0) return null;
+
+    // La latenza del device è la più bassa misurata realmente tra le sonde
+    const latency = Math.min(...answered.map(r => r.latency as number));
+
+    // Pagine web attive: prova a leggere Server e titolo (solo se il device lo consente via CORS)
+    const webProbes = results.filter(r => r.open && /^https?-/.test(r.probeId));
+    const banners = await Promise.all(webProbes.map(r =>
+      fetchHttpBanner(ip, r.probeId.startsWith('https') ? 'https' : 'http', getProbePort(r.probeId) as number, timeoutMs, signal)
+    ));
+    const httpBanners = banners.filter((b): b is NonNullable<typeof b> => b !== null);
+
+    return applyFingerprint({
+      ...createDeviceFromIp(ip, latency),
+      probes: results,
+      httpBanners: httpBanners.length ? httpBanners : undefined
+    });
+  };
+
+  // Helper creazione oggetto Device: il tipo viene poi dedotto dal fingerprinting
+  const createDeviceFromIp = (ip: string, latency: number): NetworkDevice => {
+      // Il browser non può leggere il MAC: resta vuoto finché non arriva da un import (ARP, DHCP, nmap)
+      return {
+        id: `auto-${ip}`,
+        ip,
+        mac: '',
+        name: `Device ${ip}`,
+        manufacturer: '',
+        type: DeviceType.PC,
+        parentId: null, // Verrà calcolato dopo
+        status: 'online',
+        latency
+      };
+  };
+
+  // Checkpoint: indice del primo host non ancora completato (i completamenti sono fuori ordine)
+  const pending = ips.slice(startIndex);
+  const indexOf = new Map(ips.map((ip, i) => [ip, i]));
+  const completedFlags = new Array<boolean>(ips.length).fill(false);
+  let nextIndex = startIndex;
+
+  // Pool di worker: una sonda lenta non blocca le altre e la concorrenza si adatta all'RTT
+  await runAdaptivePool(
+    pending,
+    checkIp,
+    device => device?.latency,
+    (device, ip, completed) => {
+      if (device) {
+        activeDevices.push(device);
+        onDevice?.(device);
+      }
+      completedFlags[indexOf.get(ip) as number] = true;
+      const previous = nextIndex;
+      while (nextIndex < ips.length && completedFlags[nextIndex]) nextIndex++;
+      // Salva solo i device già "coperti" dal checkpoint, così la ripresa non crea duplicati
+      if (nextIndex !== previous) {
+        onCheckpoint?.(nextIndex, activeDevices.filter(d => (indexOf.get(d.ip) ?? 0) < nextIndex));
+      }
+      onProgress(Math.round(((startIndex + completed) / ips.length) * 100), activeDevices.length);
+    },
+    poolOptions
+  );
+
+  return inferTopology(activeDevices);
+};
@@ -0,0 +1,37 @@
+import { NetworkDevice, ScanTarget } from '../types';
+
+const SESSION_KEY = 'netvisio_scan_session';
+
+/**
+ * Stato di una scansione interrotta (Stop o ricarica pagina), salvato in localStorage
+ * per poterla riprendere dall'ultimo indirizzo sondato.
+ */
+export interface ScanSession {
+  target: ScanTarget;
+  probeIds: string[];
+  nextIndex: number; // Primo host non ancora sondato
+  total: number;
+  devices: NetworkDevice[]; // Device trovati negli host < nextIndex
+  updatedAt: number;
+}
+
+export const saveScanSession = (session: ScanSession) => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.warn("Impossibile salvare la sessione di scansione", e);
+  }
+};
+
+export const loadScanSession = (): ScanSession | null => {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    const session: ScanSession = JSON.parse(raw);
+    return session.nextIndex < session.total ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearScanSession = () => localStorage.removeItem(SESSION_KEY);
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SCAN_HOSTS, countTargetHosts, expandScanTarget, formatScanTarget, intToIp, ipToInt, parseTargetEntry, splitTargetList } from './scanTargets';
+
+const range = (entry: string, fullBlock = false) => {
+  const { start, end } = parseTargetEntry(entry, fullBlock);
+  return [intToIp(start), intToIp(end)];
+};
+
+describe('ipToInt / intToIp', () => {
+  it('converte in entrambe le direzioni', () => {
+    expect(ipToInt('192.168.1.20')).toBe(3232235796);
+    expect(intToIp(3232235796)).toBe('192.168.1.20');
+    expect(intToIp(ipToInt('255.255.255.255')!)).toBe('255.255.255.255');
+  });
+
+  it.each(['192.168.1', '192.168.1.256', '1.2.3.4.5', '10.0.0.x', '10.0.0.1000', ''])('rifiuta "%s"', ip => {
+    expect(ipToInt(ip)).toBeNull();
+  });
+});
+
+describe('parseTargetEntry', () => {
+  it('CIDR: esclude rete e broadcast, salvo /31, /32 e blocco completo', () => {
+    expect(range('10.20.0.0/22')).toEqual(['10.20.0.1', '10.20.3.254']);
+    expect(range('10.20.1.77/24')).toEqual(['10.20.1.1', '10.20.1.254']);
+    expect(range('10.0.0.0/31')).toEqual(['10.0.0.0', '10.0.0.1']);
+    expect(range('10.0.0.5/32')).toEqual(['10.0.0.5', '10.0.0.5']);
+    expect(range('10.0.0.0/30', true)).toEqual(['10.0.0.0', '10.0.0.3']);
+  });
+
+  it('range esplicito e abbreviato', () => {
+    expect(range('10.0.0.10-10.0.0.80')).toEqual(['10.0.0.10', '10.0.0.80']);
+    expect(range('10.0.0.10 - 80')).toEqual(['10.0.0.10', '10.0.0.80']);
+    expect(range('10.0.0.250-10.0.1.5')).toEqual(['10.0.0.250', '10.0.1.5']);
+  });
+
+  it('prefisso legacy e IP singolo', () => {
+    expect(range('192.168.1.')).toEqual(['192.168.1.1', '192.168.1.254']);
+    expect(range(' 192.168.1.20 ')).toEqual(['192.168.1.20', '192.168.1.20']);
+  });
+
+  it.each([
+    ['10.0.0.0/33', 'CIDR non valido'],
+    ['10.0.0.0/', 'CIDR non valido'],
+    ['10.0.0/24', 'CIDR non valido'],
+    ['10.0.0.1-10.0.0.5-10.0.0.9', 'Range non valido'],
+    ['10.0.0.1-', 'Range non valido'],
+    ['10.0.0.1-300', 'Range non valido'],
+    ['10.0.0.80-10', 'Range invertito'],
+    ['host.lan', 'Indirizzo non valido']
+  ])('rifiuta "%s"', (entry, message) => {
+    expect(() => parseTargetEntry(entry)).toThrow(message);
+  });
+});
+
+describe('target di scansione', () => {
+  it('separa la lista digitata', () => {
+    expect(splitTargetList(' 10.0.0.0/24, 10.0.1.1-5;\n192.168.1.1  ')).toEqual(['10.0.0.0/24', '10.0.1.1-5', '192.168.1.1']);
+  });
+
+  it('unisce le voci sovrapposte e toglie le esclusioni', () => {
+    const target = { include: ['10.0.0.1-10', '10.0.0.5-12', '10.0.0.20'], exclude: ['10.0.0.3', '10.0.0.8-9'] };
+    expect(expandScanTarget(target)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.4', '10.0.0.5', '10.0.0.6', '10.0.0.7', '10.0.0.10', '10.0.0.11', '10.0.0.12', '10.0.0.20']);
+    expect(countTargetHosts(target)).toBe(10);
+  });
+
+  it('un CIDR escluso toglie anche rete e broadcast', () => {
+    expect(countTargetHosts({ include: ['10.0.0.0-10.0.1.255'], exclude: ['10.0.1.0/24'] })).toBe(256);
+  });
+
+  it('rifiuta target vuoti o troppo ampi', () => {
+    expect(() => expandScanTarget({ include: [], exclude: [] })).toThrow('Nessun target');
+    expect(() => expandScanTarget({ include: ['10.0.0.0/15'], exclude: [] })).toThrow(`massimo ${MAX_SCAN_HOSTS}`);
+    expect(countTargetHosts({ include: ['10.0.0.0/15'], exclude: [] })).toBe(131070);
+  });
+
+  it('formatta il target come etichetta', () => {
+    expect(formatScanTarget({ include: ['10.0.0.0/24', '10.0.1.1'], exclude: ['10.0.0.1'] })).toBe('10.0.0.0/24, 10.0.1.1 (escl. 10.0.0.1)');
+  });
+});
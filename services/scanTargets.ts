@@ -0,0 +1,142 @@
+import { ScanTarget } from '../types';
+
+// Limite di sicurezza: oltre questa soglia il browser impiegherebbe ore (equivale a una /16)
+export const MAX_SCAN_HOSTS = 65536;
+
+interface IpRange {
+  start: number;
+  end: number;
+}
+
+export const ipToInt = (ip: string): number | null => {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+export const intToIp = (value: number): string =>
+  [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.');
+
+/**
+ * Converte una singola voce di target in un intervallo numerico.
+ * Formati accettati:
+ * - CIDR: 10.20.0.0/22 (indirizzi di rete e broadcast esclusi fino a /30, inclusi se fullBlock)
+ * - Range esplicito: 10.0.0.10-10.0.0.80 oppure 10.0.0.10-80
+ * - Prefisso legacy: 192.168.1. (equivale a .1-.254)
+ * - IP singolo: 192.168.1.20
+ */
+export const parseTargetEntry = (entry: string, fullBlock = false): IpRange => {
+  const value = entry.trim();
+
+  if (value.includes('/')) {
+    const [base, bitsStr] = value.split('/');
+    const baseInt = ipToInt(base);
+    const bits = Number(bitsStr);
+    if (baseInt === null || !/^\d{1,2}$/.test(bitsStr) || bits > 32) {
+      throw new Error(`CIDR non valido: "${value}"`);
+    }
+    const size = 2 ** (32 - bits);
+    const network = baseInt - (baseInt % size);
+    if (bits >= 31 || fullBlock) return { start: network, end: network + size - 1 };
+    return { start: network + 1, end: network + size - 2 };
+  }
+
+  if (value.includes('-')) {
+    const parts = value.split('-').map(s => s.trim());
+    if (parts.length !== 2) throw new Error(`Range non valido: "${value}"`);
+    const [from, to] = parts;
+    const start = ipToInt(from);
+    // Forma abbreviata "10.0.0.10-80": sostituisce solo l'ultimo ottetto
+    const end = /^\d{1,3}$/.test(to) && start !== null
+      ? ipToInt(from.replace(/\d+$/, to))
+      : ipToInt(to);
+    if (start === null || end === null) throw new Error(`Range non valido: "${value}"`);
+    if (end < start) throw new Error(`Range invertito: "${value}"`);
+    return { start, end };
+  }
+
+  if (/^(\d{1,3}\.){3}$/.test(value)) {
+    const base = ipToInt(`${value}0`);
+    if (base === null) throw new Error(`Prefisso non valido: "${value}"`);
+    return { start: base + 1, end: base + 254 };
+  }
+
+  const single = ipToInt(value);
+  if (single === null) throw new Error(`Indirizzo non valido: "${value}"`);
+  return { start: single, end: single };
+};
+
+// Separa una stringa digitata dall'utente (virgole, spazi, a capo) nelle singole voci
+export const splitTargetList = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(s => s.trim()).filter(Boolean);
+
+// Unisce intervalli sovrapposti o adiacenti, così ogni IP viene sondato una sola volta
+const mergeRanges = (ranges: IpRange[]): IpRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: IpRange[] = [];
+  for (const r of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end + 1) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+};
+
+const subtractRanges = (ranges: IpRange[], exclusions: IpRange[]): IpRange[] => {
+  let result = ranges;
+  for (const ex of mergeRanges(exclusions)) {
+    const next: IpRange[] = [];
+    for (const r of result) {
+      if (ex.end < r.start || ex.start > r.end) {
+        next.push(r);
+        continue;
+      }
+      if (ex.start > r.start) next.push({ start: r.start, end: ex.start - 1 });
+      if (ex.end < r.end) next.push({ start: ex.end + 1, end: r.end });
+    }
+    result = next;
+  }
+  return result;
+};
+
+const resolveRanges = (target: ScanTarget): IpRange[] =>
+  subtractRanges(
+    mergeRanges(target.include.map(e => parseTargetEntry(e))),
+    // Un CIDR escluso rimuove l'intero blocco, rete e broadcast compresi
+    target.exclude.map(e => parseTargetEntry(e, true))
+  );
+
+/**
+ * Conta gli host effettivi di un target senza espanderlo (usato dall'editor per l'anteprima).
+ * Lancia un errore se una voce non è valida.
+ */
+export const countTargetHosts = (target: ScanTarget): number =>
+  resolveRanges(target).reduce((sum, r) => sum + (r.end - r.start + 1), 0);
+
+/**
+ * Espande il target nella lista ordinata e deduplicata di IP da sondare.
+ */
+export const expandScanTarget = (target: ScanTarget): string[] => {
+  if (target.include.length === 0) throw new Error('Nessun target di scansione specificato.');
+  const ranges = resolveRanges(target);
+  const total = ranges.reduce((sum, r) => sum + (r.end - r.start + 1), 0);
+  if (total > MAX_SCAN_HOSTS) {
+    throw new Error(`Target troppo ampio: ${total} host (massimo ${MAX_SCAN_HOSTS}).`);
+  }
+  const ips: string[] = [];
+  ranges.forEach(r => {
+    for (let v = r.start; v <= r.end; v++) ips.push(intToIp(v));
+  });
+  return ips;
+};
+
+// Rappresentazione compatta, usata come etichetta nei target recenti
+export const formatScanTarget = (target: ScanTarget): string =>
+  target.include.join(', ') + (target.exclude.length ? ` (escl. ${target.exclude.join(', ')})` : '');
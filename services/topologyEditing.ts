@@ -0,0 +1,213 @@
+import { NetworkDevice, DeviceType } from '../types';
+
+/**
+ * Vero se `nodeId` è `ancestorId` stesso o si trova sotto di esso nell'albero.
+ * La visita è protetta da cicli già presenti nei dati.
+ */
+export const isInSubtree = (devices: NetworkDevice[], ancestorId: string, nodeId: string): boolean => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const visited = new Set<string>();
+  let current: NetworkDevice | undefined = byId.get(nodeId);
+  while (current && !visited.has(current.id)) {
+    if (current.id === ancestorId) return true;
+    visited.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return false;
+};
+
+// Possibili padri di un device: tutti tranne lui stesso e i suoi discendenti
+export const getParentCandidates = (devices: NetworkDevice[], deviceId: string | null): NetworkDevice[] =>
+  deviceId ? devices.filter(d => !isInSubtree(devices, deviceId, d.id)) : devices;
+
+/**
+ * Percorso a monte del device fino alla radice, seguendo parentId: il primo elemento
+ * è il padre diretto. Si interrompe su padri mancanti o cicli già presenti nei dati.
+ */
+export const getUpstreamPath = (devices: NetworkDevice[], deviceId: string): NetworkDevice[] => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const visited = new Set<string>([deviceId]);
+  const path: NetworkDevice[] = [];
+  let current = byId.get(deviceId);
+  while (current?.parentId && !visited.has(current.parentId)) {
+    current = byId.get(current.parentId);
+    if (!current) break;
+    visited.add(current.id);
+    path.push(current);
+  }
+  return path;
+};
+
+/**
+ * Sposta un device sotto un nuovo padre. Lancia un errore se il nuovo padre è il
+ * device stesso o un suo discendente: l'albero non deve mai contenere cicli.
+ */
+export const reparentDevice = (devices: NetworkDevice[], deviceId: string, parentId: string | null): NetworkDevice[] => {
+  if (parentId && isInSubtree(devices, deviceId, parentId)) {
+    throw new Error("Operazione rifiutata: il nuovo padre si trova a valle del device e creerebbe un ciclo.");
+  }
+  return devices.map(d => (d.id === deviceId ? { ...d, parentId } : d));
+};
+
+export const updateDevice = (devices: NetworkDevice[], deviceId: string, patch: Partial<NetworkDevice>): NetworkDevice[] => {
+  const next = 'parentId' in patch ? reparentDevice(devices, deviceId, patch.parentId ?? null) : devices;
+  const { id: _ignored, ...rest } = patch;
+  return next.map(d => (d.id === deviceId ? { ...d, ...rest } : d));
+};
+
+export const addDevice = (devices: NetworkDevice[], device: NetworkDevice): NetworkDevice[] => {
+  if (devices.some(d => d.id === device.id)) throw new Error(`Esiste già un device con id "${device.id}".`);
+  if (device.parentId && !devices.some(d => d.id === device.parentId)) throw new Error("Il device a monte selezionato non esiste.");
+  return [...devices, device];
+};
+
+/**
+ * Elimina un device. I figli vengono ricollegati al padre del device eliminato,
+ * così il resto dell'albero resta connesso; i collegamenti aggiuntivi verso di
+ * esso vengono rimossi.
+ */
+export const removeDevice = (devices: NetworkDevice[], deviceId: string): NetworkDevice[] => {
+  const target = devices.find(d => d.id === deviceId);
+  if (!target) return devices;
+  return devices
+    .filter(d => d.id !== deviceId)
+    .map(d => (d.parentId === deviceId ? { ...d, parentId: target.parentId } : d))
+    .map(d => (d.links?.some(l => l.peerId === deviceId) ? { ...d, links: d.links.filter(l => l.peerId !== deviceId) } : d));
+};
+
+/**
+ * Estrae un sottoinsieme autonomo (es. per esportare una selezione): ogni device viene
+ * collegato al più vicino antenato selezionato, e i collegamenti verso device esclusi
+ * vengono rimossi.
+ */
+export const extractDevices = (devices: NetworkDevice[], ids: string[]): NetworkDevice[] => {
+  const selected = new Set(ids);
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const nearestSelectedAncestor = (device: NetworkDevice): string | null => {
+    const visited = new Set<string>([device.id]);
+    let current = device.parentId ? byId.get(device.parentId) : undefined;
+    while (current && !visited.has(current.id)) {
+      if (selected.has(current.id)) return current.id;
+      visited.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return null;
+  };
+  return devices
+    .filter(d => selected.has(d.id))
+    .map(d => {
+      const parentId = nearestSelectedAncestor(d);
+      const links = d.links?.filter(l => selected.has(l.peerId) && l.peerId !== parentId);
+      return {
+        ...d,
+        parentId,
+        uplink: parentId === d.parentId ? d.uplink : undefined,
+        links: links?.length ? links : undefined
+      };
+    });
+};
+
+// Nuovo device inserito a mano (switch non gestiti, access point, patch panel...)
+export const createManualDevice = (parentId: string | null): NetworkDevice => ({
+  id: `manual-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  ip: '',
+  mac: '',
+  name: 'Nuovo dispositivo',
+  manufacturer: '',
+  type: DeviceType.SWITCH,
+  parentId,
+  status: 'online'
+});
+
+/**
+ * Primo device che fa parte di un ciclo di parentId, oppure null se l'albero è valido.
+ */
+export const findCycleDevice = (devices: NetworkDevice[]): string | null => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const acyclic = new Set<string>();
+  for (const device of devices) {
+    const path = new Set<string>();
+    let current: NetworkDevice | undefined = device;
+    while (current && !acyclic.has(current.id)) {
+      if (path.has(current.id)) return current.id;
+      path.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    path.forEach(id => acyclic.add(id));
+  }
+  return null;
+};
+
+// --- Confronto con una topologia proposta ---
+
+export interface TopologyChange {
+  deviceId: string;
+  fromParentId: string | null;
+  toParentId: string | null;
+  fromType: DeviceType;
+  toType: DeviceType;
+}
+
+// Differenze di padre e tipo tra la topologia attuale e una proposta (solo device presenti in entrambe)
+export const diffTopology = (current: NetworkDevice[], proposed: NetworkDevice[]): TopologyChange[] => {
+  const proposedById = new Map(proposed.map(d => [d.id, d]));
+  return current.flatMap(d => {
+    const next = proposedById.get(d.id);
+    if (!next || ((next.parentId ?? null) === (d.parentId ?? null) && next.type === d.type)) return [];
+    return [{ deviceId: d.id, fromParentId: d.parentId ?? null, toParentId: next.parentId ?? null, fromType: d.type, toType: next.type }];
+  });
+};
+
+/**
+ * Applica insieme un gruppo di modifiche proposte. Il controllo dei cicli avviene sul
+ * risultato finale, così uno scambio di padri accettato in blocco resta valido anche
+ * se le singole modifiche, applicate una alla volta, creerebbero un ciclo temporaneo.
+ */
+export const applyTopologyChanges = (devices: NetworkDevice[], changes: TopologyChange[]): NetworkDevice[] => {
+  const ids = new Set(devices.map(d => d.id));
+  const byDevice = new Map(changes.map(c => [c.deviceId, c]));
+  changes.forEach(c => {
+    if (c.toParentId && !ids.has(c.toParentId)) throw new Error("Il device a monte proposto non esiste più.");
+  });
+  const next = devices.map(d => {
+    const change = byDevice.get(d.id);
+    return change ? { ...d, parentId: change.toParentId, type: change.toType } : d;
+  });
+  if (findCycleDevice(next)) {
+    throw new Error("Operazione rifiutata: la modifica creerebbe un ciclo. Accetta prima le modifiche collegate o applicale tutte insieme.");
+  }
+  return next;
+};
+
+// --- Undo / redo ---
+
+const MAX_HISTORY = 100;
+
+export interface EditHistory {
+  past: NetworkDevice[][];
+  future: NetworkDevice[][];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+// Registra lo stato precedente a una modifica; una nuova modifica annulla il redo
+export const recordEdit = (history: EditHistory, before: NetworkDevice[]): EditHistory => ({
+  past: [...history.past, before].slice(-MAX_HISTORY),
+  future: []
+});
+
+export const undoEdit = (history: EditHistory, current: NetworkDevice[]): { history: EditHistory; devices: NetworkDevice[] } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    devices: history.past[history.past.length - 1]
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: NetworkDevice[]): { history: EditHistory; devices: NetworkDevice[] } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    devices: history.future[0]
+  };
+};
@@ -0,0 +1,260 @@
+import * as d3 from 'd3';
+import { NetworkDevice, DeviceType, TopologyEdge } from '../types';
+import { buildTopologyEdges } from './topologyLinks';
+
+// Dimensioni della card di un nodo, condivise tra mappa ed export
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 70;
+
+export const TYPE_COLORS: Record<DeviceType, string> = {
+  [DeviceType.ROUTER]: '#ef4444', // Red
+  [DeviceType.SWITCH]: '#3b82f6', // Blue
+  [DeviceType.SERVER]: '#8b5cf6', // Purple
+  [DeviceType.PRINTER]: '#f59e0b', // Yellow
+  [DeviceType.MOBILE]: '#10b981', // Green
+  [DeviceType.PC]: '#64748b', // Slate
+  [DeviceType.IOT]: '#06b6d4', // Cyan
+  [DeviceType.CLOUD]: '#ec4899' // Pink
+};
+
+export const TYPE_LABELS: Record<DeviceType, string> = {
+  [DeviceType.ROUTER]: 'R',
+  [DeviceType.SWITCH]: 'SW',
+  [DeviceType.SERVER]: 'SRV',
+  [DeviceType.PRINTER]: 'PRN',
+  [DeviceType.MOBILE]: 'MB',
+  [DeviceType.PC]: 'PC',
+  [DeviceType.IOT]: 'IOT',
+  [DeviceType.CLOUD]: 'CLD'
+};
+
+export type LayoutMode = 'hierarchical' | 'radial' | 'force';
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string }[] = [
+  { id: 'hierarchical', label: 'Gerarchico' },
+  { id: 'radial', label: 'Radiale' },
+  { id: 'force', label: 'Forze' }
+];
+
+export interface LayoutNode {
+  device: NetworkDevice;
+  x: number; // Centro della card
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutEdge {
+  edge: TopologyEdge;
+  path: string;
+  orthogonal: boolean; // Percorso a gomito dell'albero: etichette allineate a sinistra del tratto verticale
+  speedLabel: Point;
+  sourcePortLabel: Point; // Porta lato device a monte
+  targetPortLabel: Point;
+}
+
+export interface TopologyLayout {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+// Radice fittizia usata solo per il calcolo quando la rete ha più router radice (multi-WAN)
+const VIRTUAL_ROOT_ID = '__virtual_root__';
+
+/**
+ * Prepara la gerarchia primaria per d3.stratify: parentId verso id inesistenti
+ * diventano null, i device orfani vengono appesi al primo router radice e più router
+ * radice restano affiancati sotto una radice fittizia invece di essere annidati.
+ */
+const buildHierarchy = (devices: NetworkDevice[]): d3.HierarchyNode<NetworkDevice> => {
+  const validIds = new Set(devices.map(d => d.id));
+  let cleanDevices = devices.map(d => ({
+    ...d,
+    parentId: d.parentId && validIds.has(d.parentId) ? d.parentId : null
+  }));
+
+  const roots = cleanDevices.filter(d => d.parentId === null);
+  if (roots.length > 1) {
+    const routerRoots = roots.filter(r => r.type === DeviceType.ROUTER);
+    const mainRoot = routerRoots[0] || roots[0];
+    const keptRoots = new Set((routerRoots.length ? routerRoots : [mainRoot]).map(r => r.id));
+    cleanDevices = cleanDevices.map(d =>
+      d.parentId === null && !keptRoots.has(d.id) ? { ...d, parentId: mainRoot.id } : d
+    );
+    if (keptRoots.size > 1) {
+      const virtualRoot = { ...mainRoot, id: VIRTUAL_ROOT_ID, parentId: null };
+      cleanDevices = [virtualRoot, ...cleanDevices.map(d => (keptRoots.has(d.id) ? { ...d, parentId: VIRTUAL_ROOT_ID } : d))];
+    }
+  }
+
+  return d3.stratify<NetworkDevice>()
+    .id(d => d.id)
+    .parentId(d => d.parentId)(cleanDevices);
+};
+
+const treeNodes = (root: d3.HierarchyNode<NetworkDevice>, project: (n: d3.HierarchyPointNode<NetworkDevice>) => { x: number; y: number }) =>
+  (root as d3.HierarchyPointNode<NetworkDevice>).descendants()
+    .filter(n => n.data.id !== VIRTUAL_ROOT_ID)
+    .map(n => ({ device: n.data, ...project(n) }));
+
+const hierarchicalNodes = (devices: NetworkDevice[]): LayoutNode[] => {
+  const root = buildHierarchy(devices);
+  d3.tree<NetworkDevice>()
+    .nodeSize([NODE_WIDTH + 40, NODE_HEIGHT + 60])
+    .separation((a, b) => a.parent === b.parent ? 1.1 : 1.3)(root);
+  // Con la radice fittizia il primo livello reale parte da y = 0
+  const offset = root.data.id === VIRTUAL_ROOT_ID ? NODE_HEIGHT + 60 : 0;
+  return treeNodes(root, n => ({ x: n.x, y: n.y - offset }));
+};
+
+const RING_SPACING = 240;
+
+const radialNodes = (devices: NetworkDevice[]): LayoutNode[] => {
+  const root = buildHierarchy(devices);
+  const depth = Math.max(1, root.height);
+  // Raggio minimo del primo anello proporzionale al numero di foglie, per non sovrapporre le card
+  const ringSpacing = Math.max(RING_SPACING, (root.leaves().length * (NODE_WIDTH * 0.7)) / (2 * Math.PI * depth));
+  d3.tree<NetworkDevice>()
+    .size([2 * Math.PI, depth * ringSpacing])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(root);
+  return treeNodes(root, n => ({
+    x: n.y * Math.cos(n.x - Math.PI / 2),
+    y: n.y * Math.sin(n.x - Math.PI / 2)
+  }));
+};
+
+interface ForceNode {
+  id: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Layout a forze calcolato in modo sincrono (niente animazione) partendo dalle
+ * posizioni gerarchiche: il risultato è stabile tra un render e l'altro.
+ */
+const forceNodes = (devices: NetworkDevice[], edges: TopologyEdge[]): LayoutNode[] => {
+  const start = hierarchicalNodes(devices);
+  const simNodes: ForceNode[] = start.map(n => ({ id: n.device.id, x: n.x, y: n.y }));
+  const simLinks = edges.map(e => ({ source: e.source, target: e.target }));
+
+  const simulation = d3.forceSimulation(simNodes)
+    .force('link', d3.forceLink(simLinks).id((d: ForceNode) => d.id).distance(NODE_WIDTH + 40).strength(0.6))
+    .force('charge', d3.forceManyBody().strength(-1500))
+    .force('collide', d3.forceCollide(NODE_WIDTH * 0.6))
+    .force('x', d3.forceX(0).strength(0.03))
+    .force('y', d3.forceY(0).strength(0.03))
+    .stop();
+  simulation.tick(300);
+
+  return start.map((n, i) => ({ device: n.device, x: simNodes[i].x, y: simNodes[i].y }));
+};
+
+// Percorso ortogonale dal fondo della card sorgente alla cima della card destinazione
+export const stepPath = (source: { x: number; y: number }, target: { x: number; y: number }): string => {
+  const sourceY = source.y + NODE_HEIGHT / 2;
+  const targetY = target.y - NODE_HEIGHT / 2;
+  const midY = (sourceY + targetY) / 2;
+  return `M${source.x},${sourceY} V${midY} H${target.x} V${targetY}`;
+};
+
+// Punto in cui la retta dal centro della card verso `toward` esce dal bordo della card
+const cardBorderPoint = (center: { x: number; y: number }, toward: { x: number; y: number }) => {
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return { ...center };
+  const t = Math.min(
+    dx !== 0 ? (NODE_WIDTH / 2 + 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (NODE_HEIGHT / 2 + 2) / Math.abs(dy) : Infinity
+  );
+  return { x: center.x + dx * t, y: center.y + dy * t };
+};
+
+const PORT_LABEL_INSET = 14;
+
+const towards = (from: Point, to: Point, distance: number): Point => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  return { x: from.x + ((to.x - from.x) / length) * distance, y: from.y + ((to.y - from.y) / length) * distance };
+};
+
+// Collegamento diretto tra i bordi delle card, curvato di `offset` px per i collegamenti paralleli
+const curvedEdge = (edge: TopologyEdge, source: LayoutNode, target: LayoutNode, offset: number): LayoutEdge => {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const normal = { x: -dy / length, y: dx / length };
+  const bend = { x: (source.x + target.x) / 2 + normal.x * offset * 2, y: (source.y + target.y) / 2 + normal.y * offset * 2 };
+  const sourceEnd = cardBorderPoint(source, offset ? bend : target);
+  const targetEnd = cardBorderPoint(target, offset ? bend : source);
+  const mid = { x: (source.x + target.x) / 2 + normal.x * offset, y: (source.y + target.y) / 2 + normal.y * offset };
+  const path = offset
+    ? `M${sourceEnd.x},${sourceEnd.y} Q${bend.x},${bend.y} ${targetEnd.x},${targetEnd.y}`
+    : `M${sourceEnd.x},${sourceEnd.y} L${targetEnd.x},${targetEnd.y}`;
+  return {
+    edge,
+    path,
+    orthogonal: false,
+    speedLabel: mid,
+    sourcePortLabel: towards(sourceEnd, offset ? bend : targetEnd, PORT_LABEL_INSET),
+    targetPortLabel: towards(targetEnd, offset ? bend : sourceEnd, PORT_LABEL_INSET)
+  };
+};
+
+// Sul tratto verticale che scende verso il figlio (unico per ogni figlio) si impilano porta a monte, velocità e porta locale
+const orthogonalEdge = (edge: TopologyEdge, source: LayoutNode, target: LayoutNode): LayoutEdge => {
+  const targetTop = target.y - NODE_HEIGHT / 2;
+  const midY = (source.y + NODE_HEIGHT / 2 + targetTop) / 2;
+  const x = target.x + 4;
+  return {
+    edge,
+    path: stepPath(source, target),
+    orthogonal: true,
+    sourcePortLabel: { x, y: midY + 9 },
+    speedLabel: { x, y: midY + 19 },
+    targetPortLabel: { x, y: targetTop - 2 }
+  };
+};
+
+const PARALLEL_SPACING = 18;
+const CROSS_EDGE_BEND = 40; // Nel layout gerarchico i collegamenti extra si curvano per staccarsi dall'albero
+
+/**
+ * Calcola posizioni e percorsi per la mappa e per gli export. Nel layout gerarchico
+ * l'albero dei parentId usa i percorsi ortogonali classici e i collegamenti aggiuntivi
+ * sono archi trasversali; negli altri layout tutti i collegamenti sono diretti.
+ * Lancia un errore se i parentId non formano un albero.
+ */
+export const computeLayout = (devices: NetworkDevice[], mode: LayoutMode = 'hierarchical'): TopologyLayout => {
+  const topologyEdges = buildTopologyEdges(devices);
+  const nodes = mode === 'radial' ? radialNodes(devices)
+    : mode === 'force' ? forceNodes(devices, topologyEdges)
+    : hierarchicalNodes(devices);
+  const byId = new Map(nodes.map(n => [n.device.id, n]));
+
+  // Collegamenti tra la stessa coppia di device (es. LACP) vengono distanziati
+  const pairKey = (e: TopologyEdge) => [e.source, e.target].sort().join('|');
+  const groups = d3.group(topologyEdges.filter(e => !(mode === 'hierarchical' && e.primary)), pairKey);
+
+  const edges: LayoutEdge[] = [];
+  topologyEdges.forEach(e => {
+    const source = byId.get(e.source);
+    const target = byId.get(e.target);
+    if (!source || !target) return;
+    if (mode === 'hierarchical' && e.primary) {
+      edges.push(orthogonalEdge(e, source, target));
+      return;
+    }
+    const siblings = groups.get(pairKey(e)) || [e];
+    const index = siblings.indexOf(e);
+    // Il verso conta: la normale dipende da source→target, quindi si riallinea per coppie invertite
+    const direction = e.source < e.target ? 1 : -1;
+    let offset = (index - (siblings.length - 1) / 2) * PARALLEL_SPACING * direction;
+    if (mode === 'hierarchical') offset += CROSS_EDGE_BEND;
+    edges.push(curvedEdge(e, source, target, offset));
+  });
+
+  return { nodes, edges };
+};
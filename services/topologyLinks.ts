@@ -0,0 +1,53 @@
+import { NetworkDevice, LinkMedium, TopologyEdge } from '../types';
+
+export const LINK_MEDIA: Record<LinkMedium, { label: string; color: string; dash: string | null; width: number }> = {
+  ethernet: { label: 'Ethernet', color: '#475569', dash: null, width: 2 },
+  fiber: { label: 'Fibra', color: '#f97316', dash: null, width: 3 },
+  wifi: { label: 'Wi-Fi', color: '#10b981', dash: '6,4', width: 2 },
+  vpn: { label: 'VPN', color: '#a855f7', dash: '2,4', width: 2 }
+};
+
+export const LINK_MEDIUM_IDS = Object.keys(LINK_MEDIA) as LinkMedium[];
+
+export const formatSpeed = (mbps: number | undefined): string => {
+  if (!mbps) return '';
+  return mbps >= 1000 ? `${+(mbps / 1000).toFixed(1)}G` : `${mbps}M`;
+};
+
+/**
+ * Elenco normalizzato dei collegamenti: uno primario per ogni parentId valido
+ * più i collegamenti aggiuntivi dichiarati sul device. I riferimenti a device
+ * inesistenti vengono ignorati.
+ */
+export const buildTopologyEdges = (devices: NetworkDevice[]): TopologyEdge[] => {
+  const ids = new Set(devices.map(d => d.id));
+  const edges: TopologyEdge[] = [];
+  devices.forEach(d => {
+    if (d.parentId && ids.has(d.parentId)) {
+      edges.push({
+        id: `p:${d.id}`,
+        source: d.parentId,
+        target: d.id,
+        primary: true,
+        medium: d.uplink?.medium ?? 'ethernet',
+        speedMbps: d.uplink?.speedMbps,
+        sourcePort: d.uplink?.remotePort,
+        targetPort: d.uplink?.localPort
+      });
+    }
+    (d.links || []).forEach((link, i) => {
+      if (!ids.has(link.peerId) || link.peerId === d.id) return;
+      edges.push({
+        id: `l:${d.id}:${i}`,
+        source: link.peerId,
+        target: d.id,
+        primary: false,
+        medium: link.medium,
+        speedMbps: link.speedMbps,
+        sourcePort: link.remotePort,
+        targetPort: link.localPort
+      });
+    });
+  });
+  return edges;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { TRACE_PARSERS, detectTraceParser } from './traceParsers';
+
+const TRACEROUTE = `traceroute to google.com (142.250.180.14), 30 hops max, 60 byte packets
+ 1  gateway (192.168.1.1)  0.512 ms  0.480 ms  0.466 ms
+ 2  * * *
+ 3  10.0.0.1 (10.0.0.1)  5.1 ms 10.0.0.2 (10.0.0.2)  6.2 ms *
+    10.0.0.3 (10.0.0.3)  7.0 ms
+ 4  142.250.180.14  12.000 ms  13.000 ms  14.000 ms
+`;
+
+const TRACERT = `
+Tracing route to google.com [142.250.180.14]
+over a maximum of 30 hops:
+
+  1    <1 ms    <1 ms    <1 ms  192.168.1.1
+  2     *        *        *     Request timed out.
+  3    12 ms    11 ms     *     host.isp.net [10.0.0.1]
+
+Trace complete.
+`;
+
+const MTR_REPORT = `Start: 2024-01-10T10:00:00+0100
+HOST: laptop                      Loss%   Snt   Last   Avg  Best  Wrst StDev
+  1.|-- 192.168.1.1                0.0%    10    0.5   0.6   0.4   1.0   0.2
+  2.|-- ???                       100.0    10    0.0   0.0   0.0   0.0   0.0
+  3.|-- core.isp.net (10.0.0.1)   10.0%    10    8.1   8.3   7.9   9.4   0.5
+`;
+
+const MTR_JSON = JSON.stringify({
+  report: {
+    mtr: { src: 'laptop', dst: '8.8.8.8', tests: 10 },
+    hubs: [
+      { count: 1, host: '_gateway', 'Loss%': 0, Snt: 10, Last: 0.5, Avg: 0.6, Best: 0.4, Wrst: 1, StDev: 0.2 },
+      { count: '2', host: '???', 'Loss%': 100, Snt: 10, Last: 0, Avg: 0, Best: 0, Wrst: 0, StDev: 0 },
+      { count: 3, host: '8.8.8.8', 'Loss%': 0, Snt: 10, Avg: 11.2, Best: 10.9, Wrst: 12, StDev: 0.3 }
+    ]
+  }
+});
+
+const parse = (id: string, text: string) => TRACE_PARSERS.find(p => p.id === id)!.parse(text);
+
+describe('detectTraceParser', () => {
+  it.each([
+    ['traceroute', TRACEROUTE],
+    ['tracert', TRACERT],
+    ['mtr', MTR_REPORT],
+    ['mtr-json', MTR_JSON]
+  ])('riconosce %s', (id, text) => {
+    expect(detectTraceParser(text)?.id).toBe(id);
+  });
+
+  it('non riconosce testo qualsiasi né JSON di altro tipo', () => {
+    expect(detectTraceParser('ping 8.8.8.8')).toBeNull();
+    expect(detectTraceParser('{"report":{}}')).toBeNull();
+  });
+});
+
+describe('parser di tracce', () => {
+  it('traceroute: campioni, hop senza risposta e risponditori multipli', () => {
+    const { target, hops } = parse('traceroute', TRACEROUTE);
+    expect(target).toBe('google.com');
+    expect(hops.map(h => [h.hopNumber, h.ip, h.hostname])).toEqual([
+      [1, '192.168.1.1', 'gateway'],
+      [2, '', ''],
+      [3, '10.0.0.1', '10.0.0.1'],
+      [4, '142.250.180.14', '142.250.180.14']
+    ]);
+    expect(hops[0]).toMatchObject({ rtts: [0.512, 0.48, 0.466], latency: 0.49, lossPercent: 0 });
+    expect(hops[1]).toMatchObject({ rtts: [null, null, null], latency: undefined, lossPercent: 100 });
+    expect(hops[2]).toMatchObject({ rtts: [5.1, 6.2, null, 7], latency: 6.1, lossPercent: 25 });
+    expect(hops[3].latency).toBe(13);
+  });
+
+  it('tracert: "<1 ms" come limite superiore e timeout senza host', () => {
+    const { target, hops } = parse('tracert', TRACERT);
+    expect(target).toBe('google.com');
+    expect(hops).toEqual([
+      { hopNumber: 1, ip: '192.168.1.1', hostname: '192.168.1.1', rtts: [1, 1, 1], latency: 1, lossPercent: 0 },
+      { hopNumber: 2, ip: '', hostname: '', rtts: [null, null, null], latency: undefined, lossPercent: 100 },
+      { hopNumber: 3, ip: '10.0.0.1', hostname: 'host.isp.net', rtts: [12, 11, null], latency: 11.5, lossPercent: 33.33 }
+    ]);
+  });
+
+  it('mtr --report: statistiche solo per gli hop che rispondono', () => {
+    const { hops } = parse('mtr', MTR_REPORT);
+    expect(hops).toEqual([
+      { hopNumber: 1, ip: '192.168.1.1', hostname: '192.168.1.1', latency: 0.6, lossPercent: 0, best: 0.4, worst: 1, stdDev: 0.2 },
+      { hopNumber: 2, ip: '', hostname: '', latency: undefined, lossPercent: 100 },
+      { hopNumber: 3, ip: '10.0.0.1', hostname: 'core.isp.net', latency: 8.3, lossPercent: 10, best: 7.9, worst: 9.4, stdDev: 0.5 }
+    ]);
+  });
+
+  it('mtr --json: destinazione dal report e numeri anche come stringhe', () => {
+    const { target, hops } = parse('mtr-json', MTR_JSON);
+    expect(target).toBe('8.8.8.8');
+    expect(hops.map(h => [h.hopNumber, h.ip, h.hostname, h.latency, h.lossPercent])).toEqual([
+      [1, '', '_gateway', 0.6, 0],
+      [2, '', '', undefined, 100],
+      [3, '8.8.8.8', '8.8.8.8', 11.2, 0]
+    ]);
+  });
+
+  it('mtr --json: errori distinti per testo non JSON e report senza hubs', () => {
+    expect(() => parse('mtr-json', 'traceroute to x')).toThrow('il testo non è JSON');
+    expect(() => parse('mtr-json', '{"report":{"mtr":{}}}')).toThrow('manca report.hubs');
+  });
+});
@@ -0,0 +1,245 @@
+import { WanHop, WanTraceFormat } from '../types';
+import { ipToInt } from './scanTargets';
+
+/**
+ * Risultato di un output di traceroute importato: la destinazione (se presente
+ * nell'intestazione) e gli hop nell'ordine originale.
+ */
+export interface ParsedTrace {
+  target?: string;
+  hops: WanHop[];
+}
+
+export interface TraceParser {
+  id: WanTraceFormat;
+  label: string;
+  // Punteggio di riconoscimento: 0 = formato non riconosciuto, più alto = più specifico
+  detect: (text: string) => number;
+  parse: (text: string) => ParsedTrace;
+}
+
+const IPV4 = '(?:\\d{1,3}\\.){3}\\d{1,3}';
+
+const isIp = (value: string) => ipToInt(value) !== null || /^[0-9a-f]*:[0-9a-f:]+$/i.test(value);
+
+const lines = (text: string) => text.split(/\r?\n/);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// "gateway (192.168.1.1)", "gateway [192.168.1.1]" o solo "192.168.1.1"
+const splitHost = (value: string): { ip: string; hostname: string } => {
+  const m = value.trim().match(/^(\S+)\s+[([]([^)\]]+)[)\]]$/);
+  if (m) return { ip: m[2], hostname: m[1] };
+  const host = value.trim();
+  if (!host || host === '???') return { ip: '', hostname: '' };
+  return isIp(host) ? { ip: host, hostname: host } : { ip: '', hostname: host };
+};
+
+// Completa latenza media e perdita a partire dai singoli campioni
+const withSampleStats = (hop: WanHop): WanHop => {
+  const rtts = hop.rtts || [];
+  const received = rtts.filter((r): r is number => r !== null);
+  return {
+    ...hop,
+    latency: hop.latency ?? (received.length > 0 ? round(received.reduce((s, r) => s + r, 0) / received.length) : undefined),
+    lossPercent: hop.lossPercent ?? (rtts.length > 0 ? round(((rtts.length - received.length) / rtts.length) * 100) : undefined)
+  };
+};
+
+// --- traceroute (Linux, macOS, BSD, busybox) ---
+// traceroute to google.com (142.250.180.14), 30 hops max, 60 byte packets
+//  1  gateway (192.168.1.1)  0.512 ms  0.480 ms  0.466 ms
+//  2  * * *
+//  3  10.0.0.1 (10.0.0.1)  5.1 ms 10.0.0.2 (10.0.0.2)  6.2 ms *
+//     10.0.0.3 (10.0.0.3)  7.0 ms                 <- risponditore aggiuntivo (macOS)
+const TRACEROUTE_TOKEN = /\*|(\S+)\s+\(([^)]+)\)|(\d+(?:\.\d+)?)\s*ms|!\S*|(\S+)/g;
+
+const traceroute: TraceParser = {
+  id: 'traceroute',
+  label: 'traceroute (Linux / macOS)',
+  detect: text => (/^traceroute6?\s+to\s+\S+/im.test(text) ? 10 : 0)
+    + (/^\s*\d+\s+(?:\S+\s+\([^)]+\)|\S+)\s+\d+(?:\.\d+)?\s+ms\b/m.test(text) ? 5 : 0),
+  parse: text => {
+    const target = text.match(/^traceroute6?\s+to\s+(\S+)/im)?.[1];
+    const hops: WanHop[] = [];
+    lines(text).forEach(line => {
+      if (/^traceroute/i.test(line) || !line.trim()) return;
+      const numbered = line.match(/^\s*(\d+)\s+(.*)$/);
+      let hop: WanHop | undefined;
+      let rest: string;
+      if (numbered) {
+        hop = { hopNumber: Number(numbered[1]), ip: '', hostname: '', rtts: [] };
+        hops.push(hop);
+        rest = numbered[2];
+      } else {
+        // Riga di continuazione: altri risponditori dello stesso hop
+        hop = hops[hops.length - 1];
+        rest = line;
+      }
+      if (!hop) return;
+      for (const m of rest.matchAll(TRACEROUTE_TOKEN)) {
+        const [token, name, ip, rtt, plain] = m;
+        if (token === '*') hop.rtts!.push(null);
+        else if (rtt !== undefined) hop.rtts!.push(Number(rtt));
+        else if (name !== undefined && !hop.ip) Object.assign(hop, { hostname: name, ip: ip });
+        else if (plain !== undefined && !hop.ip && !hop.hostname) Object.assign(hop, splitHost(plain));
+      }
+    });
+    return { target, hops: hops.map(withSampleStats) };
+  }
+};
+
+// --- Windows tracert ---
+// Tracing route to google.com [142.250.180.14]           (it: Rilevazione instradamento verso ...)
+//   1    <1 ms    <1 ms    <1 ms  192.168.1.1
+//   2     *        *        *     Request timed out.
+//   3    12 ms    11 ms     *     host.isp.net [10.0.0.1]
+const TRACERT_HEADER = /(?:Tracing route to|Rilevazione instradamento verso|Traccia instradamento verso)\s+(\S+)/i;
+const TRACERT_LINE = /^\s*(\d+)\s+((?:(?:<?\d+\s*ms|\*)\s+){3})(.*)$/;
+
+const tracert: TraceParser = {
+  id: 'tracert',
+  label: 'Windows tracert',
+  detect: text => (TRACERT_HEADER.test(text) ? 10 : 0)
+    + (/^\s*\d+\s+(?:(?:<?\d+\s*ms|\*)\s+){3}/m.test(text) ? 5 : 0),
+  parse: text => {
+    const target = text.match(TRACERT_HEADER)?.[1];
+    const hops = lines(text).flatMap(line => {
+      const m = line.match(TRACERT_LINE);
+      if (!m) return [];
+      // "<1 ms": si registra il limite superiore
+      const rtts = [...m[2].matchAll(/<?(\d+)\s*ms|\*/g)].map(t => (t[1] !== undefined ? Number(t[1]) : null));
+      const host = m[3].trim();
+      const { ip, hostname } = new RegExp(IPV4).test(host) || /\[[^\]]+\]/.test(host) ? splitHost(host) : { ip: '', hostname: '' };
+      return [withSampleStats({ hopNumber: Number(m[1]), ip, hostname, rtts })];
+    });
+    return { target, hops };
+  }
+};
+
+// --- mtr --report ---
+// HOST: laptop                      Loss%   Snt   Last   Avg  Best  Wrst StDev
+//   1.|-- 192.168.1.1                0.0%    10    0.5   0.6   0.4   1.0   0.2
+//   2.|-- ???                       100.0    10    0.0   0.0   0.0   0.0   0.0
+const MTR_LINE = /^\s*(\d+)\.\s*(?:\|--|\|`--)?\s*(?:AS\S+\s+)?(\S+(?:\s+\([^)]+\))?)\s+([\d.]+)%?\s+(\d+)\s+([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+([\d.]+)/;
+
+const mtrReport: TraceParser = {
+  id: 'mtr',
+  label: 'mtr --report',
+  detect: text => (/HOST:.*Loss%/i.test(text) ? 15 : 0) + (/^\s*\d+\.\s*\|--/m.test(text) ? 10 : 0),
+  parse: text => {
+    const hops = lines(text).flatMap(line => {
+      const m = line.match(MTR_LINE);
+      if (!m) return [];
+      const [, hop, host, loss, , , avg, best, worst, stdDev] = m;
+      const { ip, hostname } = splitHost(host);
+      const answered = ip !== '' || hostname !== '';
+      return [{
+        hopNumber: Number(hop),
+        ip,
+        hostname,
+        latency: answered ? Number(avg) : undefined,
+        lossPercent: Number(loss),
+        ...(answered && { best: Number(best), worst: Number(worst), stdDev: Number(stdDev) })
+      }];
+    });
+    return { hops };
+  }
+};
+
+// --- mtr --json ---
+// {"report":{"mtr":{"dst":"8.8.8.8",...},"hubs":[{"count":1,"host":"_gateway","Loss%":0.0,"Snt":10,"Avg":0.6,...}]}}
+interface MtrHub {
+  count?: number;
+  host: string;
+  'Loss%'?: number;
+  Avg?: number;
+  Best?: number;
+  Wrst?: number;
+  StDev?: number;
+}
+
+interface MtrJsonReport {
+  target?: string;
+  hubs: MtrHub[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// mtr scrive numeri, ma alcune versioni riportano count come stringa
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Lancia un errore descrittivo se il testo non è un report JSON di mtr
+const parseMtrJson = (text: string): MtrJsonReport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('JSON di mtr non valido: il testo non è JSON');
+  }
+  const report = isRecord(data) ? data.report : undefined;
+  if (!isRecord(report) || !Array.isArray(report.hubs)) throw new Error('JSON di mtr non valido: manca report.hubs');
+  const dst = isRecord(report.mtr) ? report.mtr.dst : undefined;
+  return {
+    target: typeof dst === 'string' ? dst : undefined,
+    hubs: report.hubs.filter(isRecord).map(hub => ({
+      count: toNumber(hub.count),
+      host: typeof hub.host === 'string' ? hub.host : '',
+      'Loss%': toNumber(hub['Loss%']),
+      Avg: toNumber(hub.Avg),
+      Best: toNumber(hub.Best),
+      Wrst: toNumber(hub.Wrst),
+      StDev: toNumber(hub.StDev)
+    }))
+  };
+};
+
+const isMtrJson = (text: string) => {
+  try {
+    parseMtrJson(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const mtrJson: TraceParser = {
+  id: 'mtr-json',
+  label: 'mtr --json',
+  detect: text => (text.trimStart().startsWith('{') && isMtrJson(text) ? 20 : 0),
+  parse: text => {
+    const data = parseMtrJson(text);
+    const hops: WanHop[] = data.hubs.map((hub, index) => {
+      const { ip, hostname } = splitHost(hub.host);
+      const answered = ip !== '' || hostname !== '';
+      return {
+        hopNumber: hub.count || index + 1,
+        ip,
+        hostname,
+        latency: answered ? hub.Avg : undefined,
+        lossPercent: hub['Loss%'],
+        ...(answered && { best: hub.Best, worst: hub.Wrst, stdDev: hub.StDev })
+      };
+    });
+    return { target: data.target, hops };
+  }
+};
+
+export const TRACE_PARSERS: TraceParser[] = [traceroute, tracert, mtrReport, mtrJson];
+
+export const detectTraceParser = (text: string): TraceParser | null => {
+  let best: TraceParser | null = null;
+  let bestScore = 0;
+  TRACE_PARSERS.forEach(p => {
+    const score = p.detect(text);
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  });
+  return best;
+};
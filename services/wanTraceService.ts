@@ -0,0 +1,125 @@
+import { WanHop, WanTrace } from '../types';
+import { detectTraceParser, TRACE_PARSERS } from './traceParsers';
+
+const TRACES_KEY = 'netvisio_wan_traces';
+const MAX_TRACES = 30;
+
+// --- Persistenza ---
+
+export const loadWanTraces = (): WanTrace[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TRACES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Conserva solo le tracce più recenti
+export const saveWanTraces = (traces: WanTrace[]): WanTrace[] => {
+  const kept = [...traces].sort((a, b) => b.capturedAt - a.capturedAt).slice(0, MAX_TRACES);
+  localStorage.setItem(TRACES_KEY, JSON.stringify(kept));
+  return kept;
+};
+
+// --- Import ---
+
+/**
+ * Converte l'output incollato in una traccia. Il formato viene riconosciuto in
+ * automatico; la destinazione indicata dall'utente vale solo se l'output non la riporta.
+ */
+export const importWanTrace = (text: string, fallbackTarget: string, label?: string): WanTrace => {
+  const parser = detectTraceParser(text);
+  if (!parser) {
+    throw new Error(`Formato non riconosciuto. Formati supportati: ${TRACE_PARSERS.map(p => p.label).join(', ')}.`);
+  }
+  const { target, hops } = parser.parse(text);
+  if (hops.length === 0) throw new Error(`Nessun hop trovato nell'output ${parser.label}.`);
+  const lastAnswered = [...hops].reverse().find(h => h.ip || h.hostname);
+  return {
+    id: `trace-${Date.now().toString(36)}`,
+    target: target || fallbackTarget.trim() || lastAnswered?.hostname || lastAnswered?.ip || '?',
+    format: parser.id,
+    capturedAt: Date.now(),
+    label: label?.trim() || undefined,
+    hops
+  };
+};
+
+// Comandi da eseguire sul proprio PC per ottenere un output importabile
+export const buildTraceCommands = (target: string): { label: string; command: string }[] => {
+  const host = target.trim() || '8.8.8.8';
+  return [
+    { label: 'Linux / macOS', command: `traceroute -q 3 ${host}` },
+    { label: 'Windows', command: `tracert ${host}` },
+    { label: 'mtr (report)', command: `mtr --report --report-wide -c 10 ${host}` },
+    { label: 'mtr (JSON)', command: `mtr --json -c 10 ${host}` }
+  ];
+};
+
+// --- Analisi ---
+
+export type LatencyJumpKind = 'jump' | 'spike';
+
+export interface LatencyJump {
+  hopNumber: number;
+  delta: number; // ms rispetto all'hop precedente che ha risposto
+  kind: LatencyJumpKind;
+}
+
+/**
+ * Individua gli hop in cui la latenza cresce bruscamente (almeno thresholdMs e almeno
+ * il 50% del valore precedente). "jump" = l'aumento persiste sugli hop successivi
+ * (collegamento lento o lungo); "spike" = i successivi tornano bassi, quindi è
+ * probabilmente il router che risponde agli ICMP con bassa priorità.
+ */
+export const detectLatencyJumps = (hops: WanHop[], thresholdMs = 20): LatencyJump[] => {
+  const answered = hops.filter((h): h is WanHop & { latency: number } => h.latency !== undefined);
+  const jumps: LatencyJump[] = [];
+  answered.forEach((hop, i) => {
+    if (i === 0) return;
+    const previous = answered[i - 1].latency;
+    const delta = hop.latency - previous;
+    if (delta < thresholdMs || delta < previous * 0.5) return;
+    const following = answered.slice(i + 1);
+    const persists = following.length === 0 || following.some(h => h.latency >= previous + delta / 2);
+    jumps.push({ hopNumber: hop.hopNumber, delta: Math.round(delta * 10) / 10, kind: persists ? 'jump' : 'spike' });
+  });
+  return jumps;
+};
+
+export interface TraceComparisonRow {
+  hopNumber: number;
+  a?: WanHop;
+  b?: WanHop;
+  latencyDelta?: number; // b - a, ms
+  pathChanged: boolean; // Risponditori diversi allo stesso hop
+}
+
+// Confronto hop per hop di due tracce (a = riferimento, b = quella confrontata)
+export const compareWanTraces = (a: WanTrace, b: WanTrace): TraceComparisonRow[] => {
+  const numbers = [...new Set([...a.hops, ...b.hops].map(h => h.hopNumber))].sort((x, y) => x - y);
+  return numbers.map(hopNumber => {
+    const hopA = a.hops.find(h => h.hopNumber === hopNumber);
+    const hopB = b.hops.find(h => h.hopNumber === hopNumber);
+    const latencyDelta = hopA?.latency !== undefined && hopB?.latency !== undefined
+      ? Math.round((hopB.latency - hopA.latency) * 10) / 10
+      : undefined;
+    return {
+      hopNumber,
+      a: hopA,
+      b: hopB,
+      latencyDelta,
+      pathChanged: !!hopA?.ip && !!hopB?.ip && hopA.ip !== hopB.ip
+    };
+  });
+};
+
+// Le tracce confrontabili hanno la stessa destinazione (senza distinzione di maiuscole)
+export const isSameTraceTarget = (a: WanTrace, b: WanTrace) => a.target.toLowerCase() === b.target.toLowerCase();
+
+// Intervallo dei campioni di un hop: best/worst di mtr o min/max dei singoli RTT
+export const getHopRange = (hop: WanHop): { min: number; max: number } | null => {
+  if (hop.best !== undefined && hop.worst !== undefined) return { min: hop.best, max: hop.worst };
+  const rtts = (hop.rtts || []).filter((r): r is number => r !== null);
+  return rtts.length > 0 ? { min: Math.min(...rtts), max: Math.max(...rtts) } : null;
+};
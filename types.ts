@@ -19,14 +19,237 @@ export interface NetworkDevice {
   parentId: string | null; // The ID of the upstream device (e.g., switch or router)
   status: 'online' | 'offline' | 'warning';
   latency?: number; // ms
+  probes?: ProbeResult[]; // Esito delle sonde usate durante la scansione
+  services?: DiscoveredService[]; // Porte/servizi noti (es. da import nmap)
+  uplink?: LinkProperties; // Caratteristiche del collegamento verso parentId (default: ethernet)
+  links?: DeviceLink[]; // Collegamenti aggiuntivi: uplink ridondanti, LACP, mesh Wi-Fi, VPN
+  vlanId?: number; // VLAN di accesso (untagged) dell'indirizzo principale
+  interfaces?: DeviceInterface[]; // Interfacce aggiuntive, anche con più IP ciascuna
+  zoneId?: string; // Zona assegnata a mano; se assente viene dedotta da VLAN e subnet
+  os?: string; // Sistema operativo rilevato (es. osmatch di nmap)
+  httpBanners?: HttpBanner[]; // Header Server e titolo delle pagine web leggibili dal browser
+  fingerprint?: DeviceFingerprint; // Evidenze che hanno determinato il tipo
+  typeLocked?: boolean; // Tipo scelto a mano: il fingerprinting non lo modifica più
+  inventory?: InventoryRecord; // Dati di inventario, riapplicati dopo ogni scansione (non salvati con il device)
+}
+
+// Annotazioni persistenti di un device, indicizzate per identità stabile (vedi deviceIdentity)
+export interface InventoryRecord {
+  identity: string;
+  tags: string[];
+  notes?: string;
+  owner?: string;
+  location?: string; // Sede, piano o stanza
+  rack?: string; // Armadio e posizione (es. 'R2 U14')
+  purchaseDate?: string; // YYYY-MM-DD
+  customFields: Record<string, string>; // id del campo personalizzato -> valore
+  lastSeenName?: string; // Ultimo nome e IP noti, per riconoscere le schede senza device
+  lastSeenIp?: string;
+  updatedAt: number;
+}
+
+export interface InventoryFieldDefinition {
+  id: string;
+  label: string;
+}
+
+// Profilo di accesso riutilizzabile tra più device. Non contiene password:
+// l'autenticazione resta al client (agent SSH, prompt di mstsc/xfreerdp).
+export interface CredentialProfile {
+  id: string;
+  name: string;
+  username?: string;
+  domain?: string; // Dominio Windows per RDP
+  sshPort?: number;
+  rdpPort?: number;
+  identityFile?: string; // Percorso della chiave privata sul PC dell'utente (es. ~/.ssh/id_ed25519)
+}
+
+export interface DeviceInterface {
+  name: string; // es. 'eth1', 'Vlan20', 'wg0'
+  vlanId?: number;
+  addresses: string[]; // IP con prefisso opzionale: '10.0.20.1/24'
+}
+
+// Zona di sicurezza (LAN, DMZ, Guest, IoT...): raggruppa device per VLAN e subnet
+export interface NetworkZone {
+  id: string;
+  name: string;
+  color: string;
+  vlanIds: number[];
+  subnets: string[]; // CIDR
+}
+
+export type LinkMedium = 'ethernet' | 'fiber' | 'wifi' | 'vpn';
+
+export interface LinkProperties {
+  medium: LinkMedium;
+  speedMbps?: number;
+  localPort?: string; // Porta lato device (es. 'eth0', 'Gi0/1')
+  remotePort?: string; // Porta lato peer/padre
+}
+
+export interface DeviceLink extends LinkProperties {
+  peerId: string; // Device all'altro capo del collegamento
+}
+
+// Collegamento normalizzato (primario da parentId o aggiuntivo), source = lato a monte
+export interface TopologyEdge {
+  id: string;
+  source: string;
+  target: string;
+  primary: boolean;
+  medium: LinkMedium;
+  speedMbps?: number;
+  sourcePort?: string;
+  targetPort?: string;
+}
+
+export interface DiscoveredService {
+  port: number;
+  protocol: 'tcp' | 'udp';
+  name?: string; // es. 'http', 'ssh'
+  product?: string; // es. 'nginx 1.24'
+}
+
+export interface ProbeResult {
+  probeId: string; // es. 'http-80', 'ws-8080'
+  responded: boolean;
+  latency?: number; // ms, tempo reale misurato fino alla risposta (o al rifiuto)
+  detail?: string;
+  open?: boolean; // Il servizio ha risposto davvero (non solo un rifiuto della connessione)
+}
+
+export interface HttpBanner {
+  port: number;
+  server?: string; // Header Server
+  title?: string; // <title> della pagina
+}
+
+export type FingerprintField = 'vendor' | 'hostname' | 'port' | 'http' | 'service' | 'os' | 'ip';
+
+// Regola di riconoscimento: se il pattern corrisponde al campo, aggiunge peso al tipo
+export interface FingerprintRule {
+  id: string;
+  name: string;
+  field: FingerprintField;
+  pattern: string; // Espressione regolare (senza distinzione maiuscole); per 'port' elenco di porte
+  type: DeviceType;
+  weight: number; // 0-1
+  enabled: boolean;
+}
+
+export interface FingerprintEvidence {
+  ruleId: string;
+  field: FingerprintField;
+  value: string; // Valore osservato che ha fatto scattare la regola
+  type: DeviceType;
+  weight: number;
+}
+
+export interface DeviceFingerprint {
+  type: DeviceType;
+  confidence: number; // 0-1
+  evidence: FingerprintEvidence[];
+}
+
+export interface ScanTarget {
+  include: string[]; // CIDR, range (10.0.0.10-10.0.0.80), prefisso (192.168.1.) o IP singolo
+  exclude: string[]; // Stessi formati, rimossi dall'insieme da sondare
+}
+
+export interface DeviceSample {
+  identity: string; // Identità stabile del device (vedi deviceIdentity)
+  timestamp: number;
+  online: boolean;
+  latency?: number; // ms, solo se online
+}
+
+export type AlertRuleKind = 'device_offline' | 'latency_above' | 'unknown_mac' | 'router_unreachable';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertState = 'active' | 'acknowledged' | 'resolved';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  severity: AlertSeverity;
+  deviceIdentity?: string; // Se assente la regola vale per tutti i device
+  durationSec?: number; // device_offline: da quanto tempo deve essere offline
+  thresholdMs?: number; // latency_above: soglia di latenza
+  consecutiveSamples?: number; // latency_above: campioni consecutivi oltre soglia
+  notifyBrowser: boolean;
+  notifyWebhook: boolean;
+}
+
+export interface Alert {
+  id: string;
+  key: string; // ruleId|identity: un solo allarme aperto per regola e device
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  deviceIdentity?: string;
+  deviceName?: string;
+  message: string;
+  state: AlertState;
+  raisedAt: number;
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface ScanSnapshot {
+  id: string;
+  timestamp: number;
+  label: string; // Target scansionato in forma leggibile
+  devices: NetworkDevice[];
+}
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  field: 'ip' | 'mac' | 'name' | 'type' | 'latency';
+  before: string | number | undefined;
+  after: string | number | undefined;
+}
+
+export interface DeviceChange {
+  identity: string;
+  before: NetworkDevice;
+  after: NetworkDevice;
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  added: NetworkDevice[];
+  removed: NetworkDevice[];
+  changed: DeviceChange[];
+  unchangedCount: number;
 }
 
 export interface WanHop {
   hopNumber: number;
-  ip: string;
+  ip: string; // Vuoto se l'hop non ha risposto (* * *)
   hostname: string;
-  latency: number;
+  latency?: number; // RTT medio in ms; assente se l'hop non ha risposto
   location?: string;
+  rtts?: (number | null)[]; // Singoli campioni, null = sonda persa
+  lossPercent?: number;
+  best?: number; // mtr: RTT minimo, massimo e deviazione standard
+  worst?: number;
+  stdDev?: number;
+}
+
+export type WanTraceFormat = 'traceroute' | 'tracert' | 'mtr' | 'mtr-json';
+
+// Traceroute reale importato (incollato o caricato da file)
+export interface WanTrace {
+  id: string;
+  target: string;
+  format: WanTraceFormat;
+  capturedAt: number;
+  label?: string;
+  hops: WanHop[];
 }
 
 export interface ContextMenuPosition {
@@ -35,7 +258,85 @@ export interface ContextMenuPosition {
   deviceId: string;
 }
 
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// Attività che usano il modello: ognuna ha modello, temperatura e limite di token propri
+export type AiTask = 'import' | 'sample' | 'analysis' | 'optimize' | 'chat';
+
+export interface AiTaskSettings {
+  model: string; // Vuoto = modello predefinito del provider
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  baseUrl: string; // Endpoint OpenAI-compatibile (es. Ollama: http://localhost:11434/v1)
+  tasks: Record<AiTask, AiTaskSettings>;
+}
+
+export type FindingSeverity = 'critical' | 'warning' | 'info';
+
+// Rilievo di un'analisi della rete, riferito ai device coinvolti
+export interface AnalysisFinding {
+  id: string; // Stabile tra un'analisi e l'altra: regola + device coinvolti
+  ruleId: string;
+  severity: FindingSeverity;
+  title: string;
+  detail: string;
+  recommendation?: string;
+  deviceIds: string[];
+}
+
+// Report di analisi strutturato: dall'IA (anche parziale, durante lo streaming) o dalle regole locali
+export interface AnalysisReport {
+  source: 'ai' | 'local';
+  summary: string; // Markdown
+  findings: AnalysisFinding[];
+  recommendations: string[]; // Markdown
+  generatedAt: number;
+}
+
 export interface OptimizationResult {
   explanation: string;
   optimizedTopology: NetworkDevice[];
-}
\ No newline at end of file
+  issues?: string[]; // Correzioni applicate alla risposta del modello
+}
+// Strumenti locali che l'assistente può invocare
+export type ChatToolName = 'find_devices' | 'get_device' | 'scan_history' | 'wan_traces' | 'list_zones' | 'highlight_devices' | 'propose_reparent';
+
+// Spostamento proposto dall'assistente: confrontato con la topologia corrente solo al momento della revisione
+export interface ChatReparent {
+  deviceId: string;
+  parentId: string | null;
+  type?: DeviceType;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'tool';
+  content: string; // Markdown per l'assistente, sintesi leggibile per gli strumenti
+  createdAt: number;
+  tool?: ChatToolName;
+  deviceIds?: string[]; // Device da evidenziare sulla mappa
+  highlightTitle?: string;
+  proposal?: ChatReparent[];
+}
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+export interface NetVisioProject {
+  format: 'netvisio-project';
+  version: number; // Versione dello schema, incrementata a ogni modifica incompatibile
+  exportedAt: string; // ISO 8601
+  name: string;
+  devices: NetworkDevice[];
+  optimizedTopology?: NetworkDevice[];
+  zones?: NetworkZone[];
+}